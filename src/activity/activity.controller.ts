@@ -8,6 +8,7 @@ import {
   Put,
   Query,
   Req,
+  UseGuards,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
@@ -23,14 +24,22 @@ import { BulkUpdateActivitiesDto } from './dto/bulk-update-activities.dto';
 import { BaseResponse } from 'src/shared/types/base-response.types';
 import { ResponseUtil } from 'src/shared/utils/response.util';
 import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { TripPermissionGuard } from 'src/trip/guards/trip-permission.guard';
+import { RequireRole } from 'src/trip/decorators/require-role.decorator';
+import { TripResource } from 'src/trip/decorators/trip-resource.decorator';
+import { TripResourceType } from 'src/trip/access/trip-resource.types';
+import { MemberRole } from 'src/schemas/trip-member.entity';
 
 @ApiTags('Activities')
 @ApiBearerAuth()
 @Controller('activities')
+@UseGuards(TripPermissionGuard)
 export class ActivityController {
   constructor(private readonly service: ActivityService) {}
 
-  @ApiOperation({ summary: 'Create activity in an itinerary the user owns' })
+  @ApiOperation({ summary: 'Create activity (trip editor or owner)' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.ITINERARY, { in: 'body', key: 'itineraryId' })
   @Post()
   async create(
     @Req() req: AuthenticatedRequest,
@@ -57,6 +66,8 @@ export class ActivityController {
   }
 
   @ApiOperation({ summary: 'Bulk create activities' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.ITINERARY, { in: 'body', key: 'itineraryId' })
   @Post('bulk')
   async bulkCreate(
     @Req() req: AuthenticatedRequest,
@@ -66,6 +77,7 @@ export class ActivityController {
     return ResponseUtil.success(items);
   }
 
+  // Ids may span several itineraries; ActivityService checks each trip
   @ApiOperation({ summary: 'Bulk update activities (reorder/move)' })
   @Put('bulk')
   async bulkUpdate(
@@ -77,6 +89,8 @@ export class ActivityController {
   }
 
   @ApiOperation({ summary: 'Update activity' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.ACTIVITY)
   @Put(':id')
   async update(
     @Req() req: AuthenticatedRequest,
@@ -88,6 +102,8 @@ export class ActivityController {
   }
 
   @ApiOperation({ summary: 'Delete activity' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.ACTIVITY)
   @Delete(':id')
   async remove(
     @Req() req: AuthenticatedRequest,
@@ -8,6 +8,7 @@ import { ActivityService } from './activity.service';
 import { ActivityController } from './activity.controller';
 import { RefreshTokenEntity } from 'src/schemas/refresh-token.entity';
 import { DestinationEntity } from 'src/schemas/destination.entity';
+import { TripAccessModule } from 'src/trip/access/trip-access.module';
 
 @Module({
   imports: [
@@ -18,6 +19,7 @@ import { DestinationEntity } from 'src/schemas/destination.entity';
       DestinationEntity,
       RefreshTokenEntity,
     ]),
+    TripAccessModule,
   ],
   controllers: [ActivityController],
   providers: [ActivityRepository, ActivityService],
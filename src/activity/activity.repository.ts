@@ -31,19 +31,6 @@ export class ActivityRepository {
     return this.activityRepo.findOne({ where: { id } });
   }
 
-  async findOwnedActivityById(
-    activityId: string,
-    userId: string,
-  ): Promise<ActivityEntity | null> {
-    return this.activityRepo
-      .createQueryBuilder('act')
-      .innerJoin('act.itinerary', 'iti')
-      .innerJoin('iti.trip', 'trip')
-      .where('act.id = :activityId', { activityId })
-      .andWhere('trip.userId = :userId', { userId })
-      .getOne();
-  }
-
   async list(query: ActivityListQuery): Promise<ActivityEntity[]> {
     const qb = this.activityRepo
       .createQueryBuilder('act')
@@ -65,6 +52,7 @@ export class ActivityRepository {
       .getMany();
   }
 
+  /** Activities of every trip the user created or is a member of */
   async listForUser(
     userId: string,
     query: ActivityListQuery,
@@ -73,9 +61,12 @@ export class ActivityRepository {
       .createQueryBuilder('act')
       .innerJoin('act.itinerary', 'iti')
       .innerJoin('iti.trip', 'trip')
+      .leftJoin('trip.members', 'member', 'member.userId = :userId', {
+        userId,
+      })
       .leftJoinAndSelect('act.activityDestinations', 'ad')
       .leftJoinAndSelect('ad.destination', 'dest')
-      .where('trip.userId = :userId', { userId });
+      .where('(trip.userId = :userId OR member.id IS NOT NULL)', { userId });
     if (query.itineraryId)
       qb.andWhere('act.itineraryId = :itineraryId', {
         itineraryId: query.itineraryId,
@@ -108,45 +99,6 @@ export class ActivityRepository {
     await this.mapRepo.insert(rows);
   }
 
-  async itineraryBelongsToUser(
-    itineraryId: string,
-    userId: string,
-  ): Promise<boolean> {
-    const exists = await this.itineraryRepo
-      .createQueryBuilder('iti')
-      .innerJoin('iti.trip', 'trip')
-      .where('iti.id = :itineraryId', { itineraryId })
-      .andWhere('trip.userId = :userId', { userId })
-      .getExists();
-    return exists;
-  }
-
-  async findOwnedItineraryById(
-    itineraryId: string,
-    userId: string,
-  ): Promise<ItineraryEntity | null> {
-    return this.itineraryRepo
-      .createQueryBuilder('iti')
-      .innerJoin('iti.trip', 'trip')
-      .where('iti.id = :itineraryId', { itineraryId })
-      .andWhere('trip.userId = :userId', { userId })
-      .getOne();
-  }
-
-  async activityOwnedByUser(
-    activityId: string,
-    userId: string,
-  ): Promise<boolean> {
-    const exists = await this.activityRepo
-      .createQueryBuilder('act')
-      .innerJoin('act.itinerary', 'iti')
-      .innerJoin('iti.trip', 'trip')
-      .where('act.id = :activityId', { activityId })
-      .andWhere('trip.userId = :userId', { userId })
-      .getExists();
-    return exists;
-  }
-
   /**
    * Bulk update activities - optimized for reorder/move operations
    * Returns the updated activity IDs
@@ -177,41 +129,6 @@ export class ActivityRepository {
     });
   }
 
-  /**
-   * Check if multiple activities belong to user
-   */
-  async activitiesOwnedByUser(
-    activityIds: string[],
-    userId: string,
-  ): Promise<boolean> {
-    if (activityIds.length === 0) return true;
-    const count = await this.activityRepo
-      .createQueryBuilder('act')
-      .innerJoin('act.itinerary', 'iti')
-      .innerJoin('iti.trip', 'trip')
-      .where('act.id IN (:...activityIds)', { activityIds })
-      .andWhere('trip.userId = :userId', { userId })
-      .getCount();
-    return count === activityIds.length;
-  }
-
-  /**
-   * Check if multiple itineraries belong to user
-   */
-  async itinerariesBelongToUser(
-    itineraryIds: string[],
-    userId: string,
-  ): Promise<boolean> {
-    if (itineraryIds.length === 0) return true;
-    const count = await this.itineraryRepo
-      .createQueryBuilder('iti')
-      .innerJoin('iti.trip', 'trip')
-      .where('iti.id IN (:...itineraryIds)', { itineraryIds })
-      .andWhere('trip.userId = :userId', { userId })
-      .getCount();
-    return count === itineraryIds.length;
-  }
-
   async bulkCreate(
     itineraryId: string,
     items: Array<
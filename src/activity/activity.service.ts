@@ -1,8 +1,4 @@
-import {
-  ForbiddenException,
-  Injectable,
-  NotFoundException,
-} from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { ActivityRepository } from './activity.repository';
 import { CreateActivityDto } from './dto/create-activity.dto';
 import { UpdateActivityDto } from './dto/update-activity.dto';
@@ -12,13 +8,21 @@ import { BulkUpdateActivitiesDto } from './dto/bulk-update-activities.dto';
 import { InjectRepository } from '@nestjs/typeorm';
 import { DestinationEntity } from 'src/schemas/destination.entity';
 import { In, Repository } from 'typeorm';
-
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { TripAccessService } from 'src/trip/access/trip-access.service';
+import { TripResourceType } from 'src/trip/access/trip-resource.types';
+
+/**
+ * Activity CRUD. Role checks on the route's own ids happen in
+ * TripPermissionGuard; ids taken from the body are checked here.
+ */
 @Injectable()
 export class ActivityService {
   constructor(
     private readonly repo: ActivityRepository,
     @InjectRepository(DestinationEntity)
     private readonly destinationRepo: Repository<DestinationEntity>,
+    private readonly accessService: TripAccessService,
   ) {}
 
   private stripPoiFromMetadata(
@@ -46,13 +50,6 @@ export class ActivityService {
     userId: string,
     dto: CreateActivityDto,
   ): Promise<ActivityEntity> {
-    const ownedItinerary = await this.repo.findOwnedItineraryById(
-      dto.itineraryId,
-      userId,
-    );
-    if (!ownedItinerary)
-      throw new ForbiddenException('Itinerary does not belong to user');
-
     await this.ensureDestinationsExist(dto.destinationIds);
 
     const poi = dto.poi ?? null;
@@ -91,13 +88,6 @@ export class ActivityService {
     userId: string,
     dto: BulkCreateActivitiesDto,
   ): Promise<ActivityEntity[]> {
-    const ownedItinerary = await this.repo.findOwnedItineraryById(
-      dto.itineraryId,
-      userId,
-    );
-    if (!ownedItinerary)
-      throw new ForbiddenException('Itinerary does not belong to user');
-
     const allDestinationIds = dto.activities
       .flatMap((a) => a.destinationIds || [])
       .filter(Boolean);
@@ -126,17 +116,17 @@ export class ActivityService {
     id: string,
     dto: UpdateActivityDto,
   ): Promise<ActivityEntity> {
-    const existing = await this.repo.findOwnedActivityById(id, userId);
-    if (!existing) throw new ForbiddenException('Activity not accessible');
+    const existing = await this.repo.findById(id);
+    if (!existing) throw new NotFoundException('Activity not found');
 
-    // Prevent moving to another itinerary unless also belongs to user
+    // Moving to another itinerary needs editor access on its trip too
     if (dto.itineraryId && dto.itineraryId !== existing.itineraryId) {
-      const ownedTargetItinerary = await this.repo.findOwnedItineraryById(
+      await this.accessService.assertAccess(
+        TripResourceType.ITINERARY,
         dto.itineraryId,
         userId,
+        MemberRole.EDITOR,
       );
-      if (!ownedTargetItinerary)
-        throw new ForbiddenException('Target itinerary not accessible');
     }
 
     if (dto.destinationIds) {
@@ -174,14 +164,15 @@ export class ActivityService {
   }
 
   async remove(userId: string, id: string): Promise<void> {
-    const existing = await this.repo.findOwnedActivityById(id, userId);
-    if (!existing) throw new ForbiddenException('Activity not accessible');
+    const existing = await this.repo.findById(id);
+    if (!existing) throw new NotFoundException('Activity not found');
     await this.repo.remove(id);
   }
 
   /**
    * Bulk update activities - optimized for reorder/move operations
-   * All activities must belong to user, all target itineraries must belong to user
+   * Requires editor access on the trips of all activities and all target
+   * itineraries
    */
   async bulkUpdate(
     userId: string,
@@ -189,30 +180,23 @@ export class ActivityService {
   ): Promise<{ success: boolean; updatedIds: string[] }> {
     const activityIds = dto.activities.map((a) => a.id);
 
-    // Validate all activities belong to user
-    const activitiesOwned = await this.repo.activitiesOwnedByUser(
+    await this.accessService.assertAccess(
+      TripResourceType.ACTIVITY,
       activityIds,
       userId,
+      MemberRole.EDITOR,
     );
-    if (!activitiesOwned) {
-      throw new ForbiddenException('One or more activities not accessible');
-    }
 
-    // Validate all target itineraries belong to user
     const targetItineraryIds = dto.activities
       .map((a) => a.itineraryId)
       .filter((id): id is string => id !== undefined);
     if (targetItineraryIds.length > 0) {
-      const uniqueItineraryIds = [...new Set(targetItineraryIds)];
-      const itinerariesOwned = await this.repo.itinerariesBelongToUser(
-        uniqueItineraryIds,
+      await this.accessService.assertAccess(
+        TripResourceType.ITINERARY,
+        targetItineraryIds,
         userId,
+        MemberRole.EDITOR,
       );
-      if (!itinerariesOwned) {
-        throw new ForbiddenException(
-          'One or more target itineraries not accessible',
-        );
-      }
     }
 
     // Perform bulk update in transaction
@@ -0,0 +1,55 @@
+import { Body, Controller, Param, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AiItineraryService } from './services/ai-itinerary.service';
+import { ApplyAiItineraryDto } from './dto/apply-ai-itinerary.dto';
+import { TripPermissionGuard } from 'src/trip/guards/trip-permission.guard';
+import { RequireRole } from 'src/trip/decorators/require-role.decorator';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { ResponseUtil } from 'src/shared/utils/response.util';
+
+/**
+ * Trip-scoped AI routes. Lives in AIModule because TripModule cannot import
+ * AIModule without a dependency cycle.
+ */
+@ApiTags('Trips')
+@ApiBearerAuth()
+@Controller('trips')
+export class AiTripItineraryController {
+  constructor(private readonly aiItineraryService: AiItineraryService) {}
+
+  @Post(':id/itinerary/apply-ai')
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.EDITOR)
+  @ApiOperation({
+    summary: 'Save an AI-generated itinerary on a trip',
+    description:
+      'Modes: replace, fill_empty, append. Days modified by a user are skipped unless force is set.',
+  })
+  @ApiParam({ name: 'id', description: 'Trip ID' })
+  @ApiResponse({ status: 201, description: 'Itinerary applied' })
+  @ApiResponse({
+    status: 400,
+    description: 'Neither itinerary nor preview given',
+  })
+  @ApiResponse({ status: 404, description: 'Trip not found' })
+  async applyAiItinerary(
+    @Req() req: AuthenticatedRequest & { requestId?: string },
+    @Param('id') tripId: string,
+    @Body() dto: ApplyAiItineraryDto,
+  ) {
+    const result = await this.aiItineraryService.applyItinerary(
+      tripId,
+      req.user.id,
+      dto,
+      req.requestId,
+    );
+    return ResponseUtil.success(result);
+  }
+}
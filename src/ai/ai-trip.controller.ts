@@ -0,0 +1,142 @@
+import {
+  Body,
+  Controller,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AiItineraryService } from './services/ai-itinerary.service';
+import { AiBudgetService } from './services/ai-budget.service';
+import { RegenerateDayDto } from './dto/regenerate-day.dto';
+import { SuggestActivitiesDto } from './dto/suggest-activities.dto';
+import { OptimizeRouteDto } from './dto/optimize-route.dto';
+import { BudgetRebalanceDto } from './dto/budget-rebalance.dto';
+import { TripPermissionGuard } from 'src/trip/guards/trip-permission.guard';
+import { RequireRole } from 'src/trip/decorators/require-role.decorator';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { ResponseUtil } from 'src/shared/utils/response.util';
+
+type AiTripRequest = AuthenticatedRequest & { requestId?: string };
+
+@ApiTags('AI')
+@ApiBearerAuth()
+@Controller('ai')
+export class AiTripController {
+  constructor(
+    private readonly aiItineraryService: AiItineraryService,
+    private readonly aiBudgetService: AiBudgetService,
+  ) {}
+
+  @Post('trips/:tripId/days/:dayNumber/regenerate')
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.EDITOR)
+  @ApiOperation({ summary: 'Regenerate a single itinerary day with AI' })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiParam({ name: 'dayNumber', description: 'Day number (1-based)' })
+  @ApiResponse({ status: 201, description: 'Day regenerated' })
+  @ApiResponse({ status: 404, description: 'Trip or day not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Day was modified manually and force is not set',
+  })
+  async regenerateDay(
+    @Req() req: AiTripRequest,
+    @Param('tripId') tripId: string,
+    @Param('dayNumber', ParseIntPipe) dayNumber: number,
+    @Body() dto: RegenerateDayDto,
+  ) {
+    const result = await this.aiItineraryService.regenerateDay(
+      tripId,
+      dayNumber,
+      req.user.id,
+      dto,
+      req.requestId,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  @Post('itineraries/:itineraryId/suggestions')
+  @ApiOperation({
+    summary: 'Suggest activities for the free time of an itinerary day',
+    description:
+      'Returns candidates shaped like POST /activities/bulk items; nothing is saved',
+  })
+  @ApiParam({ name: 'itineraryId', description: 'Itinerary day ID' })
+  @ApiResponse({ status: 201, description: 'Suggestions generated' })
+  @ApiResponse({ status: 403, description: 'Editor role required' })
+  @ApiResponse({ status: 404, description: 'Itinerary not found' })
+  async suggestActivities(
+    @Req() req: AiTripRequest,
+    @Param('itineraryId', ParseUUIDPipe) itineraryId: string,
+    @Body() dto: SuggestActivitiesDto,
+  ) {
+    const result = await this.aiItineraryService.suggestActivitiesForDay(
+      itineraryId,
+      req.user.id,
+      dto,
+      req.requestId,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  @Post('itineraries/:itineraryId/optimize-route')
+  @ApiOperation({
+    summary: "Propose a travel-time optimised order for a day's activities",
+    description:
+      'Returns orderIndex/time assignments for PUT /activities/bulk; nothing is saved',
+  })
+  @ApiParam({ name: 'itineraryId', description: 'Itinerary day ID' })
+  @ApiResponse({ status: 201, description: 'Route proposal generated' })
+  @ApiResponse({ status: 400, description: 'Too many activities to route' })
+  @ApiResponse({ status: 403, description: 'Editor role required' })
+  @ApiResponse({ status: 404, description: 'Itinerary not found' })
+  async optimizeRoute(
+    @Req() req: AiTripRequest,
+    @Param('itineraryId', ParseUUIDPipe) itineraryId: string,
+    @Body() dto: OptimizeRouteDto,
+  ) {
+    const result = await this.aiItineraryService.optimizeRouteOrder(
+      itineraryId,
+      req.user.id,
+      dto,
+      req.requestId,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  @Post('trips/:tripId/budget/rebalance')
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.EDITOR)
+  @ApiOperation({
+    summary: 'Propose cheaper swaps that bring the trip under budget',
+    description:
+      'Returns a reviewed diff with activityUpdates for PUT /activities/:id; nothing is saved',
+  })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiResponse({ status: 201, description: 'Rebalance proposal generated' })
+  @ApiResponse({ status: 404, description: 'Trip or budget not found' })
+  async rebalanceBudget(
+    @Req() req: AiTripRequest,
+    @Param('tripId') tripId: string,
+    @Body() dto: BudgetRebalanceDto,
+  ) {
+    const result = await this.aiBudgetService.proposeRebalance(
+      tripId,
+      req.user.id,
+      dto,
+      req.requestId,
+    );
+    return ResponseUtil.success(result);
+  }
+}
@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AIController } from './ai.controller';
+import { AiTripController } from './ai-trip.controller';
+import { AiTripItineraryController } from './ai-trip-itinerary.controller';
 import { AIService } from './services/ai.service';
 import { OpenRouterService } from './services/openrouter.service';
 import { GeminiService } from './services/gemini.service';
@@ -10,15 +12,31 @@ import { CacheService } from '../shared/services/cache.service';
 import { GoogleMapsModule } from 'src/integrations/google-maps/google-maps.module';
 import { PoiGroundingService } from 'src/ai/services/poi-grounding.service';
 import { AiTelemetryService } from 'src/ai/services/ai-telemetry.service';
+import { AiItineraryService } from 'src/ai/services/ai-itinerary.service';
+import { AiBudgetService } from 'src/ai/services/ai-budget.service';
 import { AiRunEntity } from 'src/schemas/ai-run.entity';
+import { TripPreferencesEntity } from 'src/schemas/trip-preferences.entity';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { TripModule } from 'src/trip/trip.module';
+import { PreferencesModule } from 'src/preferences/preferences.module';
+import { BudgetModule } from 'src/budget/budget.module';
+import { CurrencyModule } from 'src/currency/currency.module';
 
 @Module({
   imports: [
     RedisModule,
     GoogleMapsModule,
-    TypeOrmModule.forFeature([AiRunEntity]),
+    TripModule,
+    PreferencesModule,
+    BudgetModule,
+    CurrencyModule,
+    TypeOrmModule.forFeature([
+      AiRunEntity,
+      TripPreferencesEntity,
+      ItineraryEntity,
+    ]),
   ],
-  controllers: [AIController],
+  controllers: [AIController, AiTripController, AiTripItineraryController],
   providers: [
     AIService,
     OpenRouterService,
@@ -27,6 +45,8 @@ import { AiRunEntity } from 'src/schemas/ai-run.entity';
     PoiGroundingService,
     CacheService,
     AiTelemetryService,
+    AiItineraryService,
+    AiBudgetService,
   ],
   exports: [AIService],
 })
@@ -5,6 +5,11 @@ import { OpenRouterService } from './services/openrouter.service';
 import { RedisCacheService } from '../redis/redis-cache.service';
 import { CacheService } from '../shared/services/cache.service';
 import { AiTelemetryService } from './services/ai-telemetry.service';
+import { AiTaskType } from './schemas/ai-task-type';
+import type {
+  ActivitySuggestions,
+  RegeneratedDay,
+} from './dto/generated-itinerary.dto';
 
 const validItineraryJson = JSON.stringify({
   days: [
@@ -100,4 +105,71 @@ describe('AIService JSON validation', () => {
       service.generateItineraryWithOpenRouter('prompt'),
     ).rejects.toBeInstanceOf(BadRequestException);
   });
+
+  it('validates a regenerated day against the day-level schema', async () => {
+    gemini.createChatCompletion.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              days: [
+                {
+                  dayNumber: 2,
+                  title: 'Old town',
+                  activities: [
+                    { time: '10:00', title: 'Market', category: 'shopping' },
+                  ],
+                  notes: 'Keeps the morning free',
+                },
+              ],
+            }),
+          },
+        },
+      ],
+    });
+
+    const result = await service.generateForTask<RegeneratedDay>(
+      AiTaskType.RegenerateDay,
+      'prompt',
+    );
+
+    expect(result.dayNumber).toBe(2);
+    expect(result.activities[0].category).toBe('shopping');
+    expect(result.notes).toEqual(['Keeps the morning free']);
+    expect(openRouter.createChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('accepts a bare suggestion array and rejects unknown categories', async () => {
+    const suggestion = {
+      time: '9:30',
+      title: 'Cooking class',
+      durationMinutes: '120',
+      cost: 600000,
+      category: 'Food',
+    };
+    gemini.createChatCompletion.mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify([suggestion]) } }],
+    });
+
+    const result = await service.generateForTask<ActivitySuggestions>(
+      AiTaskType.SuggestActivitiesForDay,
+      'prompt',
+    );
+    expect(result.suggestions[0]).toMatchObject({
+      time: '09:30',
+      durationMinutes: 120,
+      category: 'food',
+    });
+
+    const invalid = JSON.stringify([{ ...suggestion, category: 'spa' }]);
+    gemini.createChatCompletion.mockResolvedValue({
+      choices: [{ message: { content: invalid } }],
+    });
+    openRouter.createChatCompletion.mockResolvedValue({
+      choices: [{ message: { content: invalid } }],
+    });
+    await expect(
+      service.generateForTask(AiTaskType.SuggestActivitiesForDay, 'prompt'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
 });
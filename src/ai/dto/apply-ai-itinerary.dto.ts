@@ -0,0 +1,152 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Length,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PreviewItineraryDto } from './preview-itinerary.dto';
+import type { GeneratedActivity } from './generated-itinerary.dto';
+
+export enum ApplyItineraryMode {
+  /** Replace the activities of every day present in the preview, except booked ones */
+  REPLACE = 'replace',
+  /** Only write days that do not exist yet or have no activities */
+  FILL_EMPTY = 'fill_empty',
+  /** Add the preview activities after the existing ones */
+  APPEND = 'append',
+}
+
+export class AiActivityInputDto {
+  @ApiPropertyOptional({ example: '09:00' })
+  @IsOptional()
+  @IsString()
+  time?: string;
+
+  @ApiProperty({ example: 'My Khe Beach' })
+  @IsString()
+  @Length(1, 255)
+  title!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ example: 90 })
+  @IsOptional()
+  @IsNumber({ allowInfinity: false, allowNaN: false })
+  @Min(0)
+  durationMinutes?: number;
+
+  @ApiPropertyOptional({ example: 150000 })
+  @IsOptional()
+  @IsNumber({ allowInfinity: false, allowNaN: false })
+  @Min(0)
+  cost?: number;
+
+  @ApiPropertyOptional({ example: 'VND' })
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  @ApiPropertyOptional({ example: 'sightseeing' })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Grounded POI snapshot from the preview',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsObject()
+  poi?: GeneratedActivity['poi'];
+}
+
+export class AiDayInputDto {
+  @ApiProperty({ example: 1 })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  dayNumber!: number;
+
+  @ApiPropertyOptional({ example: '2025-12-20' })
+  @IsOptional()
+  @IsString()
+  date?: string;
+
+  @ApiPropertyOptional({ example: 'Beaches and seafood' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  title?: string;
+
+  @ApiProperty({ type: [AiActivityInputDto] })
+  @IsArray()
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => AiActivityInputDto)
+  activities!: AiActivityInputDto[];
+}
+
+export class AiItineraryInputDto {
+  @ApiProperty({ type: [AiDayInputDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(60)
+  @ValidateNested({ each: true })
+  @Type(() => AiDayInputDto)
+  days!: AiDayInputDto[];
+
+  @ApiPropertyOptional({ example: 'VND' })
+  @IsOptional()
+  @IsString()
+  currency?: string;
+}
+
+export class ApplyAiItineraryDto {
+  @ApiProperty({
+    enum: ApplyItineraryMode,
+    example: ApplyItineraryMode.REPLACE,
+  })
+  @IsEnum(ApplyItineraryMode)
+  mode!: ApplyItineraryMode;
+
+  @ApiPropertyOptional({
+    type: AiItineraryInputDto,
+    description: 'Result of POST /ai/preview-itinerary',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AiItineraryInputDto)
+  itinerary?: AiItineraryInputDto;
+
+  @ApiPropertyOptional({
+    type: PreviewItineraryDto,
+    description: 'Preview request to run when no itinerary is given',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PreviewItineraryDto)
+  preview?: PreviewItineraryDto;
+
+  @ApiPropertyOptional({
+    description: 'Also overwrite days that were modified by a user',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
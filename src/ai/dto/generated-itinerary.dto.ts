@@ -5,6 +5,7 @@ export interface GeneratedActivity {
   durationMinutes?: number;
   cost?: number;
   currency?: string;
+  category?: string;
   poi?: {
     placeId: string;
     name: string;
@@ -33,3 +34,43 @@ export interface GeneratedItinerary {
   currency?: string;
   notes?: string[];
 }
+
+export interface RegeneratedDay extends GeneratedDay {
+  title?: string;
+  notes?: string[];
+}
+
+export interface SuggestedActivity extends GeneratedActivity {
+  time: string;
+  durationMinutes: number;
+  cost: number;
+  category: string;
+  reason?: string;
+}
+
+export interface ActivitySuggestions {
+  suggestions: SuggestedActivity[];
+  notes?: string[];
+}
+
+/** Model review of a precomputed route; order holds 1-based stop positions */
+export interface RouteOrderAdvice {
+  order: number[];
+  explanation: string[];
+}
+
+/** One proposed saving; ref is the 1-based activity number from the prompt */
+export interface BudgetRebalanceChange {
+  ref: number;
+  action: 'reduce' | 'replace' | 'remove';
+  newCost: number;
+  title?: string;
+  description?: string;
+  category?: string;
+  reason: string;
+}
+
+export interface BudgetRebalanceProposal {
+  changes: BudgetRebalanceChange[];
+  notes?: string[];
+}
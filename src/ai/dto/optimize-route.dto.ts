@@ -0,0 +1,34 @@
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type { TravelMode } from 'src/integrations/google-maps/types';
+
+const TRAVEL_MODES: TravelMode[] = [
+  'driving',
+  'walking',
+  'bicycling',
+  'transit',
+];
+
+export class OptimizeRouteDto {
+  @ApiPropertyOptional({ enum: TRAVEL_MODES, default: 'driving' })
+  @IsOptional()
+  @IsIn(TRAVEL_MODES)
+  mode?: TravelMode;
+
+  @ApiPropertyOptional({
+    description: 'Keep the first activity (e.g. the hotel) as the start',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  keepFirst?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Ask the model to explain the route and adjust it for opening hours',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  explain?: boolean;
+}
@@ -0,0 +1,30 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RegenerateDayDto {
+  @ApiPropertyOptional({
+    description:
+      "Replace the day's activities with the regenerated plan. Activities of bookings and attraction reservations are kept",
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  apply?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Apply even if the day was modified by a user',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'More street food, nothing before 10:00',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  instructions?: string;
+}
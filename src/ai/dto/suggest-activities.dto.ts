@@ -0,0 +1,32 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SuggestActivitiesDto {
+  @ApiPropertyOptional({
+    description: 'Number of candidates to return',
+    minimum: 1,
+    maximum: 10,
+    default: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  count?: number;
+
+  @ApiPropertyOptional({
+    example: 'Something relaxing near the river',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  instructions?: string;
+}
@@ -0,0 +1,32 @@
+import type { JSONSchemaType } from 'ajv';
+import type { BudgetRebalanceProposal } from 'src/ai/dto/generated-itinerary.dto';
+
+export const budgetRebalanceSchema: JSONSchemaType<BudgetRebalanceProposal> = {
+  type: 'object',
+  properties: {
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ref: { type: 'integer', minimum: 1 },
+          action: { type: 'string', enum: ['reduce', 'replace', 'remove'] },
+          newCost: { type: 'number', minimum: 0 },
+          title: { type: 'string', nullable: true },
+          description: { type: 'string', nullable: true },
+          category: { type: 'string', nullable: true },
+          reason: { type: 'string' },
+        },
+        required: ['ref', 'action', 'newCost', 'reason'],
+        additionalProperties: true,
+      },
+    },
+    notes: {
+      type: 'array',
+      nullable: true,
+      items: { type: 'string' },
+    },
+  },
+  required: ['changes'],
+  additionalProperties: true,
+};
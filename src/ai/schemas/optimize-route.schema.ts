@@ -0,0 +1,20 @@
+import type { JSONSchemaType } from 'ajv';
+import type { RouteOrderAdvice } from 'src/ai/dto/generated-itinerary.dto';
+
+export const optimizeRouteSchema: JSONSchemaType<RouteOrderAdvice> = {
+  type: 'object',
+  properties: {
+    order: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'integer', minimum: 1 },
+    },
+    explanation: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string' },
+    },
+  },
+  required: ['order', 'explanation'],
+  additionalProperties: true,
+};
@@ -0,0 +1,24 @@
+import type { JSONSchemaType } from 'ajv';
+import type { RegeneratedDay } from 'src/ai/dto/generated-itinerary.dto';
+import { generatedActivitySchema } from './generate-itinerary.schema';
+
+export const regenerateDaySchema: JSONSchemaType<RegeneratedDay> = {
+  type: 'object',
+  properties: {
+    dayNumber: { type: 'number' },
+    date: { type: 'string', nullable: true },
+    title: { type: 'string', nullable: true },
+    activities: {
+      type: 'array',
+      minItems: 1,
+      items: generatedActivitySchema,
+    },
+    notes: {
+      type: 'array',
+      nullable: true,
+      items: { type: 'string' },
+    },
+  },
+  required: ['dayNumber', 'activities'],
+  additionalProperties: true,
+};
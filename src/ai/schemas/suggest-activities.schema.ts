@@ -0,0 +1,37 @@
+import type { JSONSchemaType } from 'ajv';
+import type { ActivitySuggestions } from 'src/ai/dto/generated-itinerary.dto';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { generatedActivitySchema } from './generate-itinerary.schema';
+
+export const suggestActivitiesSchema: JSONSchemaType<ActivitySuggestions> = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          ...generatedActivitySchema.properties!,
+          time: { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' },
+          durationMinutes: { type: 'number', minimum: 1 },
+          cost: { type: 'number', minimum: 0 },
+          category: {
+            type: 'string',
+            enum: Object.values(ActivityCategory),
+          },
+          reason: { type: 'string', nullable: true },
+        },
+        required: ['time', 'title', 'durationMinutes', 'cost', 'category'],
+        additionalProperties: true,
+      },
+    },
+    notes: {
+      type: 'array',
+      nullable: true,
+      items: { type: 'string' },
+    },
+  },
+  required: ['suggestions'],
+  additionalProperties: true,
+};
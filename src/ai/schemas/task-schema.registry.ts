@@ -1,17 +1,42 @@
 import type { JSONSchemaType } from 'ajv';
-import type { GeneratedItinerary } from 'src/ai/dto/generated-itinerary.dto';
+import type {
+  ActivitySuggestions,
+  BudgetRebalanceProposal,
+  GeneratedItinerary,
+  RegeneratedDay,
+  RouteOrderAdvice,
+} from 'src/ai/dto/generated-itinerary.dto';
 import { AiTaskType, normalizeAiTaskType } from './ai-task-type';
 import { generateItinerarySchema } from './generate-itinerary.schema';
+import { regenerateDaySchema } from './regenerate-day.schema';
+import { suggestActivitiesSchema } from './suggest-activities.schema';
+import { optimizeRouteSchema } from './optimize-route.schema';
+import { budgetRebalanceSchema } from './budget-rebalance.schema';
+
+export type AiTaskSchema =
+  | JSONSchemaType<GeneratedItinerary>
+  | JSONSchemaType<RegeneratedDay>
+  | JSONSchemaType<ActivitySuggestions>
+  | JSONSchemaType<RouteOrderAdvice>
+  | JSONSchemaType<BudgetRebalanceProposal>;
 
 export function getSchemaForTaskType(taskType?: string): {
   resolvedTaskType: AiTaskType;
-  schema: JSONSchemaType<GeneratedItinerary>;
+  schema: AiTaskSchema;
 } {
   const resolvedTaskType = normalizeAiTaskType(taskType);
 
   switch (resolvedTaskType) {
     case AiTaskType.GenerateItinerary:
       return { resolvedTaskType, schema: generateItinerarySchema };
+    case AiTaskType.RegenerateDay:
+      return { resolvedTaskType, schema: regenerateDaySchema };
+    case AiTaskType.SuggestActivitiesForDay:
+      return { resolvedTaskType, schema: suggestActivitiesSchema };
+    case AiTaskType.OptimizeRouteOrder:
+      return { resolvedTaskType, schema: optimizeRouteSchema };
+    case AiTaskType.BudgetRebalance:
+      return { resolvedTaskType, schema: budgetRebalanceSchema };
     default:
       return {
         resolvedTaskType: AiTaskType.GenerateItinerary,
@@ -0,0 +1,137 @@
+import { AiBudgetService } from './ai-budget.service';
+import { AIService } from './ai.service';
+import { PromptBuilderService } from './prompt-builder.service';
+import { TripRepository } from 'src/trip/trip.repository';
+import { BudgetService } from 'src/budget/budget.service';
+import { CurrencyService } from 'src/currency/services/currency.service';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+
+describe('AiBudgetService', () => {
+  let service: AiBudgetService;
+  let aiService: { generateForTask: jest.Mock };
+  let promptBuilder: { buildBudgetRebalancePrompt: jest.Mock };
+  let budget: any;
+
+  const trip = {
+    id: 'trip-1',
+    title: 'Da Nang',
+    currency: 'VND',
+    itinerary: [
+      {
+        id: 'it-past',
+        dayNumber: 1,
+        date: '2000-01-01',
+        activities: [{ id: 'x', title: 'Past dinner', cost: '900000' }],
+      },
+      {
+        id: 'it-1',
+        dayNumber: 2,
+        date: null,
+        activities: [
+          {
+            id: 'a',
+            title: 'Ba Na Hills',
+            cost: '1000000',
+            type: ActivityCategory.SIGHTSEEING,
+          },
+          {
+            id: 'b',
+            title: 'Seafood dinner',
+            cost: '600000',
+            type: ActivityCategory.FOOD,
+          },
+          { id: 'c', title: 'Spa', cost: '500000' },
+        ],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    budget = {
+      id: 'budget-1',
+      currency: 'VND',
+      totalBudget: '3000000',
+      spentAmount: '1500000',
+      items: [{ category: ActivityCategory.HOTEL, amount: '1500000' }],
+    };
+    aiService = { generateForTask: jest.fn() };
+    promptBuilder = { buildBudgetRebalancePrompt: jest.fn(() => 'prompt') };
+
+    service = new AiBudgetService(
+      aiService as unknown as AIService,
+      promptBuilder as unknown as PromptBuilderService,
+      {
+        findWithItinerary: jest.fn().mockResolvedValue(trip),
+      } as unknown as TripRepository,
+      {
+        getByTripId: jest.fn(() => Promise.resolve(budget)),
+      } as unknown as BudgetService,
+      {
+        convertCurrency: jest.fn().mockResolvedValue({ exchangeRate: 1 }),
+      } as unknown as CurrencyService,
+    );
+  });
+
+  it('recomputes totals from valid changes only', async () => {
+    aiService.generateForTask.mockResolvedValue({
+      changes: [
+        {
+          ref: 1,
+          action: 'replace',
+          newCost: 300000,
+          title: 'Marble Mountains',
+          category: 'nature',
+          reason: 'Cheaper day out',
+        },
+        // Locked activity, ignored
+        { ref: 2, action: 'reduce', newCost: 100000, reason: 'Street food' },
+        // Does not lower the cost, ignored
+        { ref: 3, action: 'reduce', newCost: 700000, reason: 'Upgrade' },
+        // Duplicate ref, ignored
+        { ref: 1, action: 'remove', newCost: 0, reason: 'Skip it' },
+      ],
+      notes: ['Most savings come from day 2'],
+    });
+
+    const result = await service.proposeRebalance('trip-1', 'user-1', {
+      lockedActivityIds: ['b'],
+    });
+
+    const input = promptBuilder.buildBudgetRebalancePrompt.mock.calls[0][0];
+    expect(input.activities.map((a) => a.title)).toEqual([
+      'Ba Na Hills',
+      'Seafood dinner',
+      'Spa',
+    ]);
+    expect(result.projected).toEqual({ before: 3600000, after: 2900000 });
+    expect(result.fitsBudget).toBe(true);
+    expect(result.changes).toHaveLength(1);
+    expect(result.changes[0]).toMatchObject({
+      activityId: 'a',
+      delta: -700000,
+      replacement: { title: 'Marble Mountains', type: ActivityCategory.NATURE },
+    });
+    expect(result.activityUpdates).toEqual([
+      {
+        id: 'a',
+        cost: 300000,
+        title: 'Marble Mountains',
+        description: undefined,
+        type: ActivityCategory.NATURE,
+      },
+    ]);
+    expect(
+      result.byCategory.find((c) => c.category === 'sightseeing'),
+    ).toMatchObject({ plannedBefore: 1000000, plannedAfter: 300000 });
+  });
+
+  it('does not call the model when the trip is already under budget', async () => {
+    budget.totalBudget = '5000000';
+
+    const result = await service.proposeRebalance('trip-1', 'user-1', {});
+
+    expect(aiService.generateForTask).not.toHaveBeenCalled();
+    expect(result.changes).toEqual([]);
+    expect(result.fitsBudget).toBe(true);
+  });
+});
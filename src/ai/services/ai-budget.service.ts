@@ -0,0 +1,291 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AIService } from './ai.service';
+import { PromptBuilderService } from './prompt-builder.service';
+import { AiTaskType } from 'src/ai/schemas/ai-task-type';
+import type {
+  BudgetRebalanceChange,
+  BudgetRebalanceProposal,
+} from 'src/ai/dto/generated-itinerary.dto';
+import { BudgetRebalanceDto } from 'src/ai/dto/budget-rebalance.dto';
+import { toActivityCategory } from 'src/ai/utils/activity-mapping.util';
+import { TripRepository } from 'src/trip/trip.repository';
+import { BudgetService } from 'src/budget/budget.service';
+import { CurrencyService } from 'src/currency/services/currency.service';
+import { ActivityEntity } from 'src/schemas/activity.entity';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { toDateString } from 'src/shared/utils/date.util';
+import { roundMoney } from 'src/shared/utils/money.util';
+
+interface RemainingActivity {
+  activity: ActivityEntity;
+  itineraryId: string;
+  dayNumber: number;
+  category: ActivityCategory;
+  /** Cost converted to the budget currency */
+  cost: number;
+  locked: boolean;
+}
+
+export interface BudgetRebalanceDiffItem {
+  activityId: string;
+  itineraryId: string;
+  dayNumber: number;
+  title: string;
+  action: BudgetRebalanceChange['action'];
+  currentCost: number;
+  newCost: number;
+  delta: number;
+  replacement: {
+    title: string;
+    description: string | null;
+    type: ActivityCategory;
+  } | null;
+  reason: string;
+}
+
+export interface BudgetRebalanceResult {
+  tripId: string;
+  budgetId: string;
+  currency: string;
+  totalBudget: number;
+  spent: number;
+  projected: { before: number; after: number };
+  savings: number;
+  fitsBudget: boolean;
+  byCategory: {
+    category: string;
+    spent: number;
+    plannedBefore: number;
+    plannedAfter: number;
+  }[];
+  changes: BudgetRebalanceDiffItem[];
+  /** Bodies for PUT /activities/:id, costs in the trip currency */
+  activityUpdates: {
+    id: string;
+    cost: number;
+    title?: string;
+    description?: string;
+    type?: ActivityCategory;
+  }[];
+  notes: string[];
+}
+
+/**
+ * Budget-aware AI tasks. Proposals are computed, never applied: all totals
+ * are recalculated here from the validated changes rather than trusted from
+ * the model.
+ */
+@Injectable()
+export class AiBudgetService {
+  constructor(
+    private readonly aiService: AIService,
+    private readonly promptBuilder: PromptBuilderService,
+    private readonly tripRepository: TripRepository,
+    private readonly budgetService: BudgetService,
+    private readonly currencyService: CurrencyService,
+  ) {}
+
+  async proposeRebalance(
+    tripId: string,
+    userId: string,
+    dto: BudgetRebalanceDto,
+    requestId?: string,
+  ): Promise<BudgetRebalanceResult> {
+    const [trip, budget] = await Promise.all([
+      this.tripRepository.findWithItinerary(tripId),
+      this.budgetService.getByTripId(tripId),
+    ]);
+    if (!trip) throw new NotFoundException('Trip not found');
+    if (!budget) throw new NotFoundException('Budget not found for this trip');
+
+    const currency = budget.currency;
+    const rate = await this.exchangeRate(trip.currency, currency);
+    const locked = new Set(dto.lockedActivityIds ?? []);
+    const today = new Date().toISOString().slice(0, 10);
+
+    const remaining: RemainingActivity[] = (trip.itinerary ?? [])
+      .filter((day) => !day.date || toDateString(day.date) >= today)
+      .flatMap((day) =>
+        (day.activities ?? [])
+          .filter((a) => a.cost !== null && a.cost !== undefined)
+          .map((activity) => ({
+            activity,
+            itineraryId: day.id,
+            dayNumber: day.dayNumber,
+            category: activity.type ?? ActivityCategory.OTHER,
+            cost: roundMoney(Number(activity.cost) * rate),
+            locked: locked.has(activity.id),
+          })),
+      )
+      .filter((r) => r.cost > 0);
+
+    const spentByCategory = new Map<string, number>();
+    for (const item of budget.items ?? []) {
+      spentByCategory.set(
+        item.category,
+        (spentByCategory.get(item.category) ?? 0) + Number(item.amount),
+      );
+    }
+
+    const totalBudget = Number(budget.totalBudget);
+    const spent = Number(budget.spentAmount);
+    const plannedBefore = remaining.reduce((sum, r) => sum + r.cost, 0);
+    const before = roundMoney(spent + plannedBefore);
+
+    let proposal: BudgetRebalanceProposal = { changes: [] };
+    if (before > totalBudget && remaining.some((r) => !r.locked)) {
+      const prompt = this.promptBuilder.buildBudgetRebalancePrompt({
+        destination: trip.primaryDestination?.name || trip.title,
+        currency,
+        totalBudget,
+        spent,
+        projectedTotal: before,
+        categories: this.categoryTotals(spentByCategory, remaining, new Map()),
+        activities: remaining.map((r) => ({
+          dayNumber: r.dayNumber,
+          title: r.activity.title,
+          category: r.category,
+          cost: r.cost,
+          locked: r.locked,
+        })),
+        instructions: dto.instructions,
+      });
+      proposal = await this.aiService.generateForTask<BudgetRebalanceProposal>(
+        AiTaskType.BudgetRebalance,
+        prompt,
+        { currencyHint: currency, requestId, userId, tripId },
+      );
+    }
+
+    const changes = this.validateChanges(proposal.changes, remaining);
+    const newCosts = new Map(changes.map((c) => [c.activityId, c.newCost]));
+    const after = roundMoney(
+      before - changes.reduce((sum, c) => sum + c.currentCost - c.newCost, 0),
+    );
+
+    return {
+      tripId,
+      budgetId: budget.id,
+      currency,
+      totalBudget,
+      spent,
+      projected: { before, after },
+      savings: roundMoney(before - after),
+      fitsBudget: after <= totalBudget,
+      byCategory: this.categoryTotals(spentByCategory, remaining, newCosts).map(
+        (c) => ({
+          category: c.category,
+          spent: c.spent,
+          plannedBefore: c.planned,
+          plannedAfter: c.plannedAfter,
+        }),
+      ),
+      changes,
+      activityUpdates: changes.map((c) => ({
+        id: c.activityId,
+        cost: roundMoney(c.newCost / rate),
+        ...(c.replacement
+          ? {
+              title: c.replacement.title,
+              description: c.replacement.description ?? undefined,
+              type: c.replacement.type,
+            }
+          : {}),
+      })),
+      notes: proposal.notes ?? [],
+    };
+  }
+
+  /**
+   * Keep only changes that point at an unlocked activity, actually lower its
+   * cost and carry what their action needs. The first change per activity
+   * wins.
+   */
+  private validateChanges(
+    changes: BudgetRebalanceChange[],
+    remaining: RemainingActivity[],
+  ): BudgetRebalanceDiffItem[] {
+    const seen = new Set<number>();
+    const out: BudgetRebalanceDiffItem[] = [];
+    for (const change of changes) {
+      const target = remaining[change.ref - 1];
+      if (!target || target.locked || seen.has(change.ref)) continue;
+
+      const newCost =
+        change.action === 'remove' ? 0 : roundMoney(change.newCost);
+      if (newCost >= target.cost) continue;
+      const replacementTitle = change.title?.trim();
+      if (change.action === 'replace' && !replacementTitle) continue;
+
+      seen.add(change.ref);
+      out.push({
+        activityId: target.activity.id,
+        itineraryId: target.itineraryId,
+        dayNumber: target.dayNumber,
+        title: target.activity.title,
+        action: change.action,
+        currentCost: target.cost,
+        newCost,
+        delta: roundMoney(newCost - target.cost),
+        replacement:
+          change.action === 'replace' && replacementTitle
+            ? {
+                title: replacementTitle.slice(0, 255),
+                description: change.description ?? null,
+                type: change.category
+                  ? toActivityCategory(change.category)
+                  : target.category,
+              }
+            : null,
+        reason: change.reason,
+      });
+    }
+    return out;
+  }
+
+  private categoryTotals(
+    spentByCategory: Map<string, number>,
+    remaining: RemainingActivity[],
+    newCosts: Map<string, number>,
+  ): {
+    category: string;
+    spent: number;
+    planned: number;
+    plannedAfter: number;
+  }[] {
+    const totals = new Map<
+      string,
+      { spent: number; planned: number; plannedAfter: number }
+    >();
+    const entry = (category: string) => {
+      let t = totals.get(category);
+      if (!t) {
+        t = { spent: 0, planned: 0, plannedAfter: 0 };
+        totals.set(category, t);
+      }
+      return t;
+    };
+    for (const [category, amount] of spentByCategory) {
+      entry(category).spent += amount;
+    }
+    for (const r of remaining) {
+      const t = entry(r.category);
+      t.planned += r.cost;
+      t.plannedAfter += newCosts.get(r.activity.id) ?? r.cost;
+    }
+    return Array.from(totals.entries())
+      .map(([category, t]) => ({
+        category,
+        spent: roundMoney(t.spent),
+        planned: roundMoney(t.planned),
+        plannedAfter: roundMoney(t.plannedAfter),
+      }))
+      .sort((a, b) => b.spent + b.planned - (a.spent + a.planned));
+  }
+
+  private async exchangeRate(from: string, to: string): Promise<number> {
+    if (from.toUpperCase() === to.toUpperCase()) return 1;
+    const conversion = await this.currencyService.convertCurrency(1, from, to);
+    return conversion.exchangeRate;
+  }
+}
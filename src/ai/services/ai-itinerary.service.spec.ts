@@ -0,0 +1,464 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { AiItineraryService } from './ai-itinerary.service';
+import { AIService } from './ai.service';
+import { PromptBuilderService } from './prompt-builder.service';
+import { PoiGroundingService } from './poi-grounding.service';
+import { TripRepository } from 'src/trip/trip.repository';
+import { TripCollaborationService } from 'src/trip/trip-collaboration.service';
+import { PreferencesService } from 'src/preferences/preferences.service';
+import { PreferencesMergerService } from 'src/preferences/preferences-merger.service';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { ActivityEntity } from 'src/schemas/activity.entity';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { ApplyItineraryMode } from 'src/ai/dto/apply-ai-itinerary.dto';
+import { DistanceMatrixService } from 'src/integrations/google-maps/services/distance-matrix.service';
+
+describe('AiItineraryService', () => {
+  let service: AiItineraryService;
+  let aiService: { generateForTask: jest.Mock };
+  let promptBuilder: {
+    buildRegenerateDayPrompt: jest.Mock;
+    buildSuggestActivitiesPrompt: jest.Mock;
+    buildOptimizeRoutePrompt: jest.Mock;
+  };
+  let distanceMatrix: { getDistanceMatrix: jest.Mock };
+  let collaboration: { checkPermission: jest.Mock };
+  let itineraryRepo: any;
+  let activityRepo: any;
+  let trip: any;
+
+  beforeEach(() => {
+    trip = {
+      id: 'trip-1',
+      userId: 'owner-1',
+      title: 'Hanoi getaway',
+      currency: 'VND',
+      primaryDestination: { name: 'Hanoi' },
+      itinerary: [
+        {
+          id: 'it-1',
+          dayNumber: 1,
+          title: 'Arrival',
+          date: '2025-12-20',
+          userModified: false,
+          activities: [
+            { id: 'act-1', time: '15:00', title: 'Check in', duration: 60 },
+          ],
+        },
+        {
+          id: 'it-2',
+          dayNumber: 2,
+          title: 'Old Quarter',
+          date: '2025-12-21',
+          userModified: false,
+          activities: [{ id: 'act-2', time: '09:00', title: 'Hoan Kiem Lake' }],
+        },
+      ],
+    };
+
+    aiService = {
+      generateForTask: jest.fn().mockResolvedValue({
+        dayNumber: 9,
+        title: 'Temples and cafes',
+        activities: [
+          { time: '09:30', title: 'Temple of Literature', durationMinutes: 90 },
+          { title: 'Egg coffee', cost: 40000, category: 'food' },
+        ],
+      }),
+    };
+    promptBuilder = {
+      buildRegenerateDayPrompt: jest.fn(() => 'prompt'),
+      buildSuggestActivitiesPrompt: jest.fn(() => 'prompt'),
+      buildOptimizeRoutePrompt: jest.fn(() => 'prompt'),
+    };
+    distanceMatrix = { getDistanceMatrix: jest.fn() };
+    collaboration = { checkPermission: jest.fn().mockResolvedValue(true) };
+    itineraryRepo = {
+      update: jest.fn(),
+      find: jest.fn(() => Promise.resolve(trip.itinerary)),
+      create: jest.fn((data: Record<string, unknown>) => ({ ...data })),
+      save: jest.fn((row: any) => Promise.resolve({ id: 'it-new', ...row })),
+    };
+    activityRepo = {
+      find: jest.fn(({ where }: { where: { itineraryId: string } }) =>
+        Promise.resolve(
+          trip.itinerary.find((d: any) => d.id === where.itineraryId)
+            .activities,
+        ),
+      ),
+      delete: jest.fn(),
+      create: jest.fn((data: Record<string, unknown>) => ({ ...data })),
+      save: jest.fn((rows: unknown) => Promise.resolve(rows)),
+    };
+    const repos = new Map<unknown, unknown>([
+      [ItineraryEntity, itineraryRepo],
+      [ActivityEntity, activityRepo],
+    ]);
+
+    service = new AiItineraryService(
+      aiService as unknown as AIService,
+      promptBuilder as unknown as PromptBuilderService,
+      {
+        groundItinerary: jest.fn((_dest: string, itinerary: unknown) =>
+          Promise.resolve(itinerary),
+        ),
+      } as unknown as PoiGroundingService,
+      {
+        findWithItinerary: jest.fn(() => Promise.resolve(trip)),
+        findById: jest.fn(() => Promise.resolve(trip)),
+      } as unknown as TripRepository,
+      collaboration as unknown as TripCollaborationService,
+      {
+        getUserPreferences: jest.fn().mockResolvedValue(null),
+      } as unknown as PreferencesService,
+      new PreferencesMergerService(),
+      { findOne: jest.fn().mockResolvedValue(null) } as any,
+      {
+        findOne: jest.fn(() =>
+          Promise.resolve({ id: 'it-2', tripId: 'trip-1' }),
+        ),
+      } as any,
+      distanceMatrix as unknown as DistanceMatrixService,
+      {
+        transaction: jest.fn((cb: (m: unknown) => Promise<unknown>) =>
+          cb({ getRepository: (e: unknown) => repos.get(e) }),
+        ),
+      } as unknown as DataSource,
+    );
+  });
+
+  it('sends the neighbouring day as context and pins the day number', async () => {
+    const result = await service.regenerateDay('trip-1', 2, 'user-1', {});
+
+    const input = promptBuilder.buildRegenerateDayPrompt.mock.calls[0][0];
+    expect(input.previousDay.activities[0].title).toBe('Check in');
+    expect(input.nextDay).toBeNull();
+    expect(result.day).toMatchObject({ dayNumber: 2, date: '2025-12-21' });
+    expect(result.applied).toBe(false);
+    expect(activityRepo.delete).not.toHaveBeenCalled();
+  });
+
+  it('replaces the activities of the day when applied', async () => {
+    await service.regenerateDay('trip-1', 2, 'user-1', { apply: true });
+
+    expect(activityRepo.delete).toHaveBeenCalledWith(['act-2']);
+    const [rows] = activityRepo.save.mock.calls[0];
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toMatchObject({
+      itineraryId: 'it-2',
+      time: '11:00',
+      type: ActivityCategory.FOOD,
+      orderIndex: 1,
+    });
+    expect(itineraryRepo.update).toHaveBeenCalledWith('it-2', {
+      title: 'Temples and cafes',
+      aiGenerated: true,
+      userModified: false,
+    });
+  });
+
+  it('keeps activities that mirror bookings and attraction reservations', async () => {
+    trip.itinerary[1].activities.push(
+      {
+        id: 'act-3',
+        title: 'Check in at Metropole',
+        metadata: { bookingId: 'b-1' },
+      },
+      {
+        id: 'act-4',
+        title: 'Water puppets',
+        metadata: { attractionReservationId: 'r-1' },
+      },
+    );
+
+    await service.regenerateDay('trip-1', 2, 'user-1', { apply: true });
+
+    expect(activityRepo.delete).toHaveBeenCalledTimes(1);
+    expect(activityRepo.delete).toHaveBeenCalledWith(['act-2']);
+  });
+
+  it('refuses to overwrite a user-modified day unless forced', async () => {
+    trip.itinerary[1].userModified = true;
+
+    await expect(
+      service.regenerateDay('trip-1', 2, 'user-1', { apply: true }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(aiService.generateForTask).not.toHaveBeenCalled();
+
+    await service.regenerateDay('trip-1', 2, 'user-1', {
+      apply: true,
+      force: true,
+    });
+    expect(activityRepo.delete).toHaveBeenCalled();
+  });
+
+  describe('suggestActivitiesForDay', () => {
+    beforeEach(() => {
+      // Day 2 is busy 09:00-12:00, leaving 08:00-09:00 and 12:00-22:00
+      trip.itinerary[1].activities = [
+        { time: '09:00', title: 'Hoan Kiem Lake', duration: 180 },
+      ];
+    });
+
+    it('keeps only candidates that fit the free windows', async () => {
+      aiService.generateForTask.mockResolvedValue({
+        suggestions: [
+          {
+            time: '13:00',
+            title: 'Hoa Lo Prison',
+            durationMinutes: 90,
+            cost: 50000,
+            category: 'cultural',
+          },
+          {
+            time: '10:00',
+            title: 'Long Bien Bridge walk',
+            durationMinutes: 60,
+            cost: 0,
+            category: 'sightseeing',
+          },
+          {
+            time: '08:00',
+            title: 'Full day Ha Long cruise',
+            durationMinutes: 900,
+            cost: 1500000,
+            category: 'adventure',
+          },
+        ],
+      });
+
+      const result = await service.suggestActivitiesForDay('it-2', 'user-1', {
+        count: 5,
+      });
+
+      expect(result.gaps).toEqual([
+        { start: '08:00', end: '09:00', minutes: 60 },
+        { start: '12:00', end: '22:00', minutes: 600 },
+      ]);
+      expect(result.suggestions.map((s) => [s.time, s.title])).toEqual([
+        ['13:00', 'Hoa Lo Prison'],
+        ['08:00', 'Long Bien Bridge walk'],
+      ]);
+      expect(result.suggestions[0]).toMatchObject({
+        duration: 90,
+        cost: 50000,
+        metadata: { currency: 'VND' },
+      });
+    });
+
+    it('does not place two candidates in the same window', async () => {
+      aiService.generateForTask.mockResolvedValue({
+        suggestions: [
+          {
+            time: '12:00',
+            title: 'Temple of Literature',
+            durationMinutes: 120,
+            cost: 30000,
+            category: 'cultural',
+          },
+          {
+            time: '13:00',
+            title: 'Hoa Lo Prison',
+            durationMinutes: 90,
+            cost: 50000,
+            category: 'cultural',
+          },
+          {
+            time: '08:00',
+            title: 'Pho breakfast',
+            durationMinutes: 60,
+            cost: 60000,
+            category: 'food',
+          },
+          {
+            time: '08:30',
+            title: 'Coffee tasting',
+            durationMinutes: 45,
+            cost: 40000,
+            category: 'food',
+          },
+        ],
+      });
+
+      const result = await service.suggestActivitiesForDay('it-2', 'user-1', {
+        count: 5,
+      });
+
+      // The 13:00 slot is taken, so the prison moves to the next free time;
+      // 08:00-09:00 is full after breakfast
+      expect(result.suggestions.map((s) => [s.time, s.title])).toEqual([
+        ['12:00', 'Temple of Literature'],
+        ['14:00', 'Hoa Lo Prison'],
+        ['08:00', 'Pho breakfast'],
+        ['15:30', 'Coffee tasting'],
+      ]);
+    });
+
+    it('requires editor access to the trip', async () => {
+      collaboration.checkPermission.mockResolvedValue(false);
+      await expect(
+        service.suggestActivitiesForDay('it-2', 'user-9', {}),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(aiService.generateForTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('optimizeRouteOrder', () => {
+    const at = (lng: number) => ({ location: { lat: 21, lng } });
+
+    beforeEach(() => {
+      // Hotel at 0, then stops that zig-zag between 3 and 1 before 2
+      trip.itinerary[1].activities = [
+        { id: 'a', title: 'Hotel', time: '08:00', duration: 30, poi: at(0) },
+        { id: 'b', title: 'Far', time: '09:00', duration: 60, poi: at(3) },
+        { id: 'c', title: 'Near', time: '11:00', duration: 60, poi: at(1) },
+        { id: 'd', title: 'Lunch', time: '12:30', duration: 60 },
+        { id: 'e', title: 'Middle', time: '14:00', duration: 60, poi: at(2) },
+      ];
+      // 10 minutes per unit of longitude between stops
+      distanceMatrix.getDistanceMatrix.mockImplementation(
+        ({ origins, destinations }) =>
+          Promise.resolve({
+            rows: origins.map((o) => ({
+              elements: destinations.map((d) => ({
+                status: 'OK',
+                duration: { value: Math.abs(o.lng - d.lng) * 600 },
+              })),
+            })),
+          }),
+      );
+    });
+
+    it('orders stops by travel time and keeps stops without a POI in place', async () => {
+      const result = await service.optimizeRouteOrder('it-2', 'user-1', {
+        explain: false,
+      });
+
+      expect(result.stops.map((s) => s.id)).toEqual(['a', 'c', 'e', 'd', 'b']);
+      expect(result.matrixSource).toBe('distance_matrix');
+      expect(result.originalTravelMinutes).toBe(60);
+      expect(result.proposedTravelMinutes).toBe(30);
+      expect(result.bulkUpdate.activities[1]).toEqual({
+        id: 'c',
+        orderIndex: 1,
+        time: '09:00',
+      });
+      expect(aiService.generateForTask).not.toHaveBeenCalled();
+    });
+
+    it('rejects a model tweak that adds too much travel', async () => {
+      // Positions refer to the proposed order: hotel, near, middle, far
+      aiService.generateForTask.mockResolvedValue({
+        order: [1, 4, 2, 3],
+        explanation: ['Visit the far stop first'],
+      });
+
+      const result = await service.optimizeRouteOrder('it-2', 'user-1', {});
+
+      expect(result.aiAdjusted).toBe(false);
+      expect(result.explanation).toEqual(['Visit the far stop first']);
+      expect(result.stops.map((s) => s.id)).toEqual(['a', 'c', 'e', 'd', 'b']);
+    });
+
+    it('falls back to straight-line estimates when the API fails', async () => {
+      distanceMatrix.getDistanceMatrix.mockRejectedValue(new Error('quota'));
+
+      const result = await service.optimizeRouteOrder('it-2', 'user-1', {
+        explain: false,
+      });
+
+      expect(result.matrixSource).toBe('estimated');
+      expect(result.stops[1].id).toBe('c');
+    });
+  });
+
+  describe('applyItinerary', () => {
+    const preview = {
+      days: [
+        { dayNumber: 1, activities: [{ time: '10:00', title: 'Museum' }] },
+        { dayNumber: 2, activities: [{ title: 'Train Street' }] },
+        {
+          dayNumber: 3,
+          activities: [{ title: 'Cooking class', cost: 500000 }],
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      trip.startDate = '2025-12-20';
+      trip.itinerary[1].userModified = true;
+    });
+
+    it('replaces unmodified days, skips edited ones and creates missing days', async () => {
+      const result = await service.applyItinerary('trip-1', 'user-1', {
+        mode: ApplyItineraryMode.REPLACE,
+        itinerary: preview,
+      });
+
+      expect(result.days.map((d) => [d.dayNumber, d.status])).toEqual([
+        [1, 'replaced'],
+        [2, 'skipped'],
+        [3, 'created'],
+      ]);
+      expect(activityRepo.delete).toHaveBeenCalledTimes(1);
+      expect(activityRepo.delete).toHaveBeenCalledWith(['act-1']);
+      expect(itineraryRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dayNumber: 3,
+          title: 'Day 3',
+          date: new Date('2025-12-22'),
+          aiGenerated: true,
+          estimatedCost: 500000,
+        }),
+      );
+      expect(result.activitiesCreated).toBe(2);
+    });
+
+    it('keeps booking activities of a replaced day', async () => {
+      trip.itinerary[0].activities.push({
+        id: 'act-3',
+        title: 'Flight VN213 HAN to SGN',
+        metadata: { bookingId: 'b-1', syncKey: 'flight:s-1' },
+      });
+
+      await service.applyItinerary('trip-1', 'user-1', {
+        mode: ApplyItineraryMode.REPLACE,
+        itinerary: { days: [preview.days[0]] },
+      });
+
+      expect(activityRepo.delete).toHaveBeenCalledWith(['act-1']);
+    });
+
+    it('appends after the existing activities when forced', async () => {
+      const result = await service.applyItinerary('trip-1', 'user-1', {
+        mode: ApplyItineraryMode.APPEND,
+        force: true,
+        itinerary: { days: [preview.days[1]] },
+      });
+
+      expect(result.days[0].status).toBe('appended');
+      expect(activityRepo.delete).not.toHaveBeenCalled();
+      const [rows] = activityRepo.save.mock.calls[0];
+      // Existing 09:00 activity has no duration, so the default 90 min applies
+      expect(rows[0]).toMatchObject({
+        itineraryId: 'it-2',
+        orderIndex: 1,
+        time: '10:30',
+      });
+    });
+
+    it('only fills days without activities in fill_empty mode', async () => {
+      const result = await service.applyItinerary('trip-1', 'user-1', {
+        mode: ApplyItineraryMode.FILL_EMPTY,
+        itinerary: { days: [preview.days[0]] },
+      });
+
+      expect(result.days[0]).toMatchObject({
+        status: 'skipped',
+        reason: 'not_empty',
+      });
+      expect(activityRepo.save).not.toHaveBeenCalled();
+    });
+  });
+});
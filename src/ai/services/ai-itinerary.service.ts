@@ -0,0 +1,850 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { AIService } from './ai.service';
+import { PromptBuilderService, DayContext } from './prompt-builder.service';
+import { PoiGroundingService } from './poi-grounding.service';
+import { AiTaskType } from 'src/ai/schemas/ai-task-type';
+import type {
+  ActivitySuggestions,
+  GeneratedActivity,
+  GeneratedItinerary,
+  RegeneratedDay,
+  RouteOrderAdvice,
+  SuggestedActivity,
+} from 'src/ai/dto/generated-itinerary.dto';
+import { RegenerateDayDto } from 'src/ai/dto/regenerate-day.dto';
+import { SuggestActivitiesDto } from 'src/ai/dto/suggest-activities.dto';
+import { OptimizeRouteDto } from 'src/ai/dto/optimize-route.dto';
+import { PreviewItineraryDto } from 'src/ai/dto/preview-itinerary.dto';
+import {
+  AiDayInputDto,
+  ApplyAiItineraryDto,
+  ApplyItineraryMode,
+} from 'src/ai/dto/apply-ai-itinerary.dto';
+import {
+  findFreeGaps,
+  fitIntoGaps,
+  formatMinutesAsTime,
+  isLinkedActivity,
+  latestActivityEnd,
+  parseTimeToMinutes,
+  removeFromGaps,
+  TimeGap,
+  toActivityCategory,
+  toActivityEntityInputs,
+} from 'src/ai/utils/activity-mapping.util';
+import {
+  estimateTravelSeconds,
+  optimizeRouteOrder,
+  routeCost,
+  TravelMatrix,
+} from 'src/ai/utils/route-order.util';
+import { DistanceMatrixService } from 'src/integrations/google-maps/services/distance-matrix.service';
+import type { TravelMode } from 'src/integrations/google-maps/types';
+import { TripRepository } from 'src/trip/trip.repository';
+import { TripCollaborationService } from 'src/trip/trip-collaboration.service';
+import { PreferencesService } from 'src/preferences/preferences.service';
+import { PreferencesMergerService } from 'src/preferences/preferences-merger.service';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { ActivityEntity } from 'src/schemas/activity.entity';
+import { TripPreferencesEntity } from 'src/schemas/trip-preferences.entity';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { toDateString } from 'src/shared/utils/date.util';
+
+export interface RegenerateDayResult {
+  itineraryId: string;
+  applied: boolean;
+  day: RegeneratedDay;
+}
+
+/** Candidate activity shaped like a POST /activities/bulk item */
+export interface ActivityCandidate {
+  time: string;
+  title: string;
+  description?: string;
+  duration: number;
+  cost: number;
+  type: ActivityCategory;
+  poi: GeneratedActivity['poi'];
+  metadata: Record<string, unknown>;
+}
+
+export interface AppliedDay {
+  dayNumber: number;
+  itineraryId: string | null;
+  status: 'created' | 'replaced' | 'filled' | 'appended' | 'skipped';
+  reason?: 'user_modified' | 'not_empty';
+  activitiesCount: number;
+}
+
+export interface ApplyItineraryResult {
+  tripId: string;
+  mode: ApplyItineraryMode;
+  days: AppliedDay[];
+  activitiesCreated: number;
+}
+
+export interface RouteStop {
+  id: string;
+  title: string;
+  orderIndex: number;
+  time: string;
+  /** Minutes from the previous stop; null when either stop has no POI */
+  travelMinutesFromPrevious: number | null;
+}
+
+export interface OptimizeRouteResult {
+  itineraryId: string;
+  mode: TravelMode;
+  matrixSource: 'distance_matrix' | 'estimated';
+  changed: boolean;
+  aiAdjusted: boolean;
+  originalTravelMinutes: number;
+  proposedTravelMinutes: number;
+  stops: RouteStop[];
+  /** Ready to send as the body of PUT /activities/bulk */
+  bulkUpdate: {
+    activities: { id: string; orderIndex: number; time: string }[];
+  };
+  explanation: string[];
+}
+
+export interface SuggestActivitiesResult {
+  itineraryId: string;
+  currency: string;
+  gaps: TimeGap[];
+  suggestions: ActivityCandidate[];
+  notes: string[];
+}
+
+/**
+ * AI tasks that operate on a persisted trip itinerary, as opposed to the
+ * stateless preview flow in AIController.
+ */
+@Injectable()
+export class AiItineraryService {
+  private readonly logger = new Logger(AiItineraryService.name);
+  /** Distance Matrix allows at most 25 origins/destinations and 100 elements */
+  private readonly maxRouteStops = 25;
+  private readonly maxMatrixElements = 100;
+  /** Accept a model tweak only if it adds at most this share of travel time */
+  private readonly routeTweakTolerance = 0.15;
+  private readonly groundingOptions = {
+    language: 'en',
+    radiusMeters: 8000,
+    maxActivitiesToGroundPerDay: 8,
+    mode: 'thin' as const,
+  };
+
+  constructor(
+    private readonly aiService: AIService,
+    private readonly promptBuilder: PromptBuilderService,
+    private readonly poiGroundingService: PoiGroundingService,
+    private readonly tripRepository: TripRepository,
+    private readonly collaborationService: TripCollaborationService,
+    private readonly preferencesService: PreferencesService,
+    private readonly preferencesMerger: PreferencesMergerService,
+    @InjectRepository(TripPreferencesEntity)
+    private readonly tripPrefsRepo: Repository<TripPreferencesEntity>,
+    @InjectRepository(ItineraryEntity)
+    private readonly itineraryRepo: Repository<ItineraryEntity>,
+    private readonly distanceMatrixService: DistanceMatrixService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Regenerate a single day using the neighbouring days and the trip
+   * preferences as context. With `apply`, the day's activities are replaced
+   * unless the day was edited by a user and `force` is not set.
+   */
+  async regenerateDay(
+    tripId: string,
+    dayNumber: number,
+    userId: string,
+    dto: RegenerateDayDto,
+    requestId?: string,
+  ): Promise<RegenerateDayResult> {
+    const trip = await this.tripRepository.findWithItinerary(tripId);
+    if (!trip) throw new NotFoundException('Trip not found');
+
+    const days = trip.itinerary ?? [];
+    const target = days.find((d) => d.dayNumber === dayNumber);
+    if (!target) {
+      throw new NotFoundException(`Day ${dayNumber} not found in this trip`);
+    }
+    if (dto.apply && target.userModified && !dto.force) {
+      throw new ConflictException(
+        `Day ${dayNumber} was modified manually; set force to overwrite it`,
+      );
+    }
+
+    const previous = days.find((d) => d.dayNumber === dayNumber - 1);
+    const next = days.find((d) => d.dayNumber === dayNumber + 1);
+    const destination = this.resolveDestination(trip);
+    const date = toDateString(target.date);
+
+    const prompt = this.promptBuilder.buildRegenerateDayPrompt({
+      destination,
+      currency: trip.currency,
+      totalDays: days.length || undefined,
+      budget: trip.budget ?? null,
+      preferenceSections: await this.loadPreferenceSections(trip),
+      dayNumber,
+      date,
+      currentDay: this.toDayContext(target),
+      previousDay: previous ? this.toDayContext(previous) : null,
+      nextDay: next ? this.toDayContext(next) : null,
+      instructions: dto.instructions,
+    });
+
+    const generated = await this.aiService.generateForTask<RegeneratedDay>(
+      AiTaskType.RegenerateDay,
+      prompt,
+      { currencyHint: trip.currency, requestId, userId, tripId },
+    );
+    const day: RegeneratedDay = {
+      ...generated,
+      dayNumber,
+      date: date ?? undefined,
+    };
+
+    const grounded: GeneratedItinerary = await this.poiGroundingService
+      .groundItinerary(destination, { days: [day] }, this.groundingOptions)
+      .catch(() => ({ days: [day] }));
+    day.activities = grounded.days[0]?.activities ?? day.activities;
+
+    if (dto.apply) {
+      await this.replaceDayActivities(target, day);
+    }
+
+    return { itineraryId: target.id, applied: !!dto.apply, day };
+  }
+
+  /**
+   * Suggest candidate activities for the free time windows of a day. Nothing
+   * is persisted; accepted candidates go through POST /activities/bulk.
+   */
+  async suggestActivitiesForDay(
+    itineraryId: string,
+    userId: string,
+    dto: SuggestActivitiesDto,
+    requestId?: string,
+  ): Promise<SuggestActivitiesResult> {
+    const { trip, day } = await this.loadEditableDay(itineraryId, userId);
+
+    const gaps = findFreeGaps(day.activities ?? []);
+    const result: SuggestActivitiesResult = {
+      itineraryId,
+      currency: trip.currency,
+      gaps,
+      suggestions: [],
+      notes: [],
+    };
+    if (!gaps.length) return result;
+
+    const count = dto.count ?? 5;
+    const destination = this.resolveDestination(trip);
+    const prompt = this.promptBuilder.buildSuggestActivitiesPrompt({
+      destination,
+      currency: trip.currency,
+      totalDays: trip.itinerary.length || undefined,
+      budget: trip.budget ?? null,
+      preferenceSections: await this.loadPreferenceSections(trip),
+      day: this.toDayContext(day),
+      gaps,
+      count,
+      instructions: dto.instructions,
+    });
+
+    const generated = await this.aiService.generateForTask<ActivitySuggestions>(
+      AiTaskType.SuggestActivitiesForDay,
+      prompt,
+      { currencyHint: trip.currency, requestId, userId, tripId: trip.id },
+    );
+
+    // Drop candidates that cannot be placed in any free window. Each placed
+    // candidate takes its window out of the gaps, so later ones cannot
+    // overlap it.
+    let free = gaps;
+    const fitting: SuggestedActivity[] = [];
+    for (const s of generated.suggestions) {
+      if (fitting.length >= count) break;
+      const time = fitIntoGaps(s.time, s.durationMinutes, free);
+      if (time === null) continue;
+      fitting.push({ ...s, time });
+      free = removeFromGaps(free, time, s.durationMinutes);
+    }
+
+    const grounded: GeneratedItinerary = await this.poiGroundingService
+      .groundItinerary(
+        destination,
+        { days: [{ dayNumber: day.dayNumber, activities: fitting }] },
+        this.groundingOptions,
+      )
+      .catch(() => ({
+        days: [{ dayNumber: day.dayNumber, activities: fitting }],
+      }));
+    const groundedActivities = grounded.days[0]?.activities ?? fitting;
+
+    result.suggestions = fitting.map((s, idx) => ({
+      time: s.time,
+      title: s.title.slice(0, 255),
+      description: s.description ?? undefined,
+      duration: Math.round(s.durationMinutes),
+      cost: s.cost,
+      type: toActivityCategory(s.category),
+      poi: groundedActivities[idx]?.poi ?? null,
+      metadata: {
+        aiGenerated: true,
+        source: AiTaskType.SuggestActivitiesForDay,
+        currency: trip.currency,
+        reason: s.reason ?? null,
+      },
+    }));
+    result.notes = generated.notes ?? [];
+    return result;
+  }
+
+  /**
+   * Persist a preview itinerary (given, or generated from `dto.preview`) on a
+   * trip in a single transaction. Days the preview does not mention are left
+   * untouched; days edited by a user are skipped unless `force` is set.
+   */
+  async applyItinerary(
+    tripId: string,
+    userId: string,
+    dto: ApplyAiItineraryDto,
+    requestId?: string,
+  ): Promise<ApplyItineraryResult> {
+    const trip = await this.tripRepository.findById(tripId);
+    if (!trip) throw new NotFoundException('Trip not found');
+
+    let days: AiDayInputDto[];
+    if (dto.itinerary) {
+      days = dto.itinerary.days;
+    } else if (dto.preview) {
+      days = (await this.generatePreview(dto.preview, trip, userId, requestId))
+        .days;
+    } else {
+      throw new BadRequestException('Provide either itinerary or preview');
+    }
+
+    // First occurrence of a day number wins
+    const uniqueDays = Array.from(
+      new Map([...days].reverse().map((d) => [d.dayNumber, d])).values(),
+    ).sort((a, b) => a.dayNumber - b.dayNumber);
+
+    return this.dataSource.transaction(async (manager) => {
+      const itineraryRepo = manager.getRepository(ItineraryEntity);
+      const activityRepo = manager.getRepository(ActivityEntity);
+      const existing = await itineraryRepo.find({
+        where: { tripId },
+        relations: ['activities'],
+      });
+      const byDay = new Map(existing.map((d) => [d.dayNumber, d]));
+
+      const results: AppliedDay[] = [];
+      let activitiesCreated = 0;
+      for (const day of uniqueDays) {
+        const current = byDay.get(day.dayNumber);
+        const currentActivities = current?.activities ?? [];
+
+        if (current?.userModified && !dto.force) {
+          results.push(this.skippedDay(current, 'user_modified'));
+          continue;
+        }
+        if (
+          current &&
+          dto.mode === ApplyItineraryMode.FILL_EMPTY &&
+          currentActivities.length > 0
+        ) {
+          results.push(this.skippedDay(current, 'not_empty'));
+          continue;
+        }
+
+        const append = !!current && dto.mode === ApplyItineraryMode.APPEND;
+        const inputs = toActivityEntityInputs(
+          day.activities,
+          { source: AiTaskType.GenerateItinerary },
+          append
+            ? {
+                startIndex: currentActivities.length,
+                startMinutes: latestActivityEnd(currentActivities) ?? undefined,
+              }
+            : undefined,
+        );
+        const dayCost = inputs.reduce((sum, a) => sum + (a.cost ?? 0), 0);
+
+        let itinerary: ItineraryEntity;
+        if (!current) {
+          const date = this.resolveDayDate(day, trip.startDate);
+          itinerary = await itineraryRepo.save(
+            itineraryRepo.create({
+              tripId,
+              dayNumber: day.dayNumber,
+              title: day.title?.trim() || `Day ${day.dayNumber}`,
+              date: date ? new Date(date) : undefined,
+              aiGenerated: true,
+              userModified: false,
+              estimatedCost: dayCost,
+            }),
+          );
+        } else {
+          itinerary = current;
+          if (!append) {
+            await this.clearGeneratedActivities(
+              activityRepo,
+              currentActivities,
+            );
+          }
+          await itineraryRepo.update(current.id, {
+            ...(append
+              ? {
+                  estimatedCost: Number(current.estimatedCost ?? 0) + dayCost,
+                }
+              : {
+                  title: day.title?.trim() || current.title,
+                  aiGenerated: true,
+                  userModified: false,
+                  estimatedCost: dayCost,
+                }),
+          });
+        }
+
+        if (inputs.length) {
+          await activityRepo.save(
+            inputs.map((input) =>
+              activityRepo.create({ ...input, itineraryId: itinerary.id }),
+            ),
+          );
+        }
+        activitiesCreated += inputs.length;
+        results.push({
+          dayNumber: day.dayNumber,
+          itineraryId: itinerary.id,
+          status: !current
+            ? 'created'
+            : append
+              ? 'appended'
+              : dto.mode === ApplyItineraryMode.FILL_EMPTY
+                ? 'filled'
+                : 'replaced',
+          activitiesCount: inputs.length,
+        });
+      }
+
+      return { tripId, mode: dto.mode, days: results, activitiesCreated };
+    });
+  }
+
+  private async generatePreview(
+    preview: PreviewItineraryDto,
+    trip: TripEntity,
+    userId: string,
+    requestId?: string,
+  ): Promise<GeneratedItinerary> {
+    const taskType = AiTaskType.PreviewItinerary;
+    const prompt = this.promptBuilder.buildPrompt(taskType, preview);
+    const result = await this.aiService.generateItineraryWithOpenRouter(
+      prompt,
+      {
+        currencyHint: preview.currency ?? trip.currency,
+        requestId,
+        userId,
+        tripId: trip.id,
+        taskType,
+      },
+    );
+    return this.poiGroundingService
+      .groundItinerary(preview.destination, result, {
+        ...this.groundingOptions,
+        maxActivitiesToGroundPerDay: 6,
+      })
+      .catch(() => result);
+  }
+
+  private skippedDay(
+    itinerary: ItineraryEntity,
+    reason: NonNullable<AppliedDay['reason']>,
+  ): AppliedDay {
+    return {
+      dayNumber: itinerary.dayNumber,
+      itineraryId: itinerary.id,
+      status: 'skipped',
+      reason,
+      activitiesCount: 0,
+    };
+  }
+
+  /** Preview date when valid, otherwise trip start date + (dayNumber - 1) */
+  private resolveDayDate(
+    day: AiDayInputDto,
+    tripStart?: Date | string | null,
+  ): string | null {
+    if (day.date && /^\d{4}-\d{2}-\d{2}$/.test(day.date)) return day.date;
+    const start = toDateString(tripStart);
+    if (!start) return null;
+    const d = new Date(`${start}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + day.dayNumber - 1);
+    return d.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Propose a visiting order that minimises travel time. The order comes from
+   * Distance Matrix travel times (nearest neighbour + 2-opt); the model only
+   * explains it and may reorder stops for opening hours within a small travel
+   * tolerance. Activities without POI coordinates keep their position.
+   */
+  async optimizeRouteOrder(
+    itineraryId: string,
+    userId: string,
+    dto: OptimizeRouteDto,
+    requestId?: string,
+  ): Promise<OptimizeRouteResult> {
+    const { trip, day } = await this.loadEditableDay(itineraryId, userId);
+    const mode: TravelMode = dto.mode ?? 'driving';
+    const fixedStart = dto.keepFirst ?? true;
+    const activities = day.activities ?? [];
+
+    // Positions in `activities` that can be routed, in their current order
+    const slots = activities
+      .map((a, idx) => ({ idx, point: this.poiLocation(a) }))
+      .filter(
+        (s): s is { idx: number; point: { lat: number; lng: number } } =>
+          s.point !== null,
+      );
+    if (slots.length > this.maxRouteStops) {
+      throw new BadRequestException(
+        `Route optimization supports at most ${this.maxRouteStops} activities with a location`,
+      );
+    }
+
+    const points = slots.map((s) => s.point);
+    const { matrix, source } = await this.buildTravelMatrix(points, mode);
+    const identity = slots.map((_, i) => i);
+    let order = optimizeRouteOrder(matrix, { fixedStart });
+    let aiAdjusted = false;
+    let explanation: string[] = [];
+
+    if (dto.explain !== false && slots.length >= 2) {
+      const advice = await this.requestRouteAdvice(
+        trip,
+        day,
+        slots.map((s) => activities[s.idx]),
+        order,
+        matrix,
+        { mode, fixedStart, userId, requestId },
+      );
+      if (advice) {
+        explanation = advice.explanation;
+        const tweaked = advice.order.map((pos) => order[pos - 1]);
+        if (
+          this.isValidTweak(tweaked, order, fixedStart) &&
+          routeCost(tweaked, matrix) <=
+            routeCost(order, matrix) * (1 + this.routeTweakTolerance)
+        ) {
+          aiAdjusted = tweaked.some((v, i) => v !== order[i]);
+          order = tweaked;
+        }
+      }
+    }
+
+    // Routed activities take over the routed slots in their new order
+    const reordered = [...activities];
+    order.forEach((routeIdx, i) => {
+      reordered[slots[i].idx] = activities[slots[routeIdx].idx];
+    });
+    const matrixIndex = new Map(
+      slots.map((s, i) => [activities[s.idx].id, i] as const),
+    );
+    const travelBetween = (from: ActivityEntity, to: ActivityEntity) => {
+      const a = matrixIndex.get(from.id);
+      const b = matrixIndex.get(to.id);
+      const seconds =
+        a !== undefined && b !== undefined ? matrix[a][b] : undefined;
+      return typeof seconds === 'number' ? Math.ceil(seconds / 60) : null;
+    };
+
+    // Keep the day's time slots; push a start later only when travel needs it
+    const slotTimes = activities
+      .map((a) => parseTimeToMinutes(a.time))
+      .filter((t): t is number => t !== null)
+      .sort((a, b) => a - b);
+    let cursor = slotTimes[0] ?? 9 * 60;
+    const stops: RouteStop[] = reordered.map((activity, i) => {
+      const travel = i > 0 ? travelBetween(reordered[i - 1], activity) : null;
+      const earliest = cursor + this.roundUpToFive(travel ?? 0);
+      const start = Math.max(slotTimes[i] ?? earliest, earliest);
+      cursor = start + (activity.duration ?? 90);
+      return {
+        id: activity.id,
+        title: activity.title,
+        orderIndex: i,
+        time: formatMinutesAsTime(start),
+        travelMinutesFromPrevious: travel,
+      };
+    });
+
+    return {
+      itineraryId,
+      mode,
+      matrixSource: source,
+      changed: reordered.some((a, i) => a.id !== activities[i].id),
+      aiAdjusted,
+      originalTravelMinutes: Math.ceil(routeCost(identity, matrix) / 60),
+      proposedTravelMinutes: Math.ceil(routeCost(order, matrix) / 60),
+      stops,
+      bulkUpdate: {
+        activities: stops.map(({ id, orderIndex, time }) => ({
+          id,
+          orderIndex,
+          time,
+        })),
+      },
+      explanation,
+    };
+  }
+
+  private async requestRouteAdvice(
+    trip: TripEntity,
+    day: ItineraryEntity,
+    routed: ActivityEntity[],
+    order: number[],
+    matrix: TravelMatrix,
+    options: {
+      mode: TravelMode;
+      fixedStart: boolean;
+      userId: string;
+      requestId?: string;
+    },
+  ): Promise<RouteOrderAdvice | null> {
+    const prompt = this.promptBuilder.buildOptimizeRoutePrompt({
+      destination: this.resolveDestination(trip),
+      mode: options.mode,
+      date: toDateString(day.date),
+      stops: order.map((i) => ({
+        title: routed[i].title,
+        time: routed[i].time,
+        durationMinutes: routed[i].duration ?? null,
+        openingHours: this.poiOpeningHours(routed[i]),
+      })),
+      travelMinutes: order.map((from) =>
+        order.map((to) => {
+          const seconds = matrix[from][to];
+          return seconds === null ? null : Math.ceil(seconds / 60);
+        }),
+      ),
+      fixedStart: options.fixedStart,
+    });
+
+    try {
+      return await this.aiService.generateForTask<RouteOrderAdvice>(
+        AiTaskType.OptimizeRouteOrder,
+        prompt,
+        {
+          requestId: options.requestId,
+          userId: options.userId,
+          tripId: trip.id,
+        },
+      );
+    } catch (err: unknown) {
+      // The deterministic order stands on its own without an explanation
+      this.logger.warn(
+        `Route advice failed for itinerary ${day.id}: ${err instanceof Error ? err.message : 'Unknown error'}`,
+      );
+      return null;
+    }
+  }
+
+  private isValidTweak(
+    tweaked: number[],
+    order: number[],
+    fixedStart: boolean,
+  ): boolean {
+    if (tweaked.length !== order.length) return false;
+    if (tweaked.some((v) => v === undefined)) return false;
+    if (new Set(tweaked).size !== order.length) return false;
+    return !fixedStart || tweaked[0] === order[0];
+  }
+
+  /**
+   * Travel times in seconds between all points. Falls back to straight-line
+   * estimates for legs Distance Matrix cannot route, or entirely when the
+   * API is unavailable.
+   */
+  private async buildTravelMatrix(
+    points: { lat: number; lng: number }[],
+    mode: TravelMode,
+  ): Promise<{
+    matrix: TravelMatrix;
+    source: OptimizeRouteResult['matrixSource'];
+  }> {
+    const estimate = (): TravelMatrix =>
+      points.map((from, i) =>
+        points.map((to, j) =>
+          i === j ? 0 : estimateTravelSeconds(from, to, mode),
+        ),
+      );
+    if (points.length < 2) return { matrix: estimate(), source: 'estimated' };
+
+    const rowsPerRequest = Math.max(
+      1,
+      Math.floor(this.maxMatrixElements / points.length),
+    );
+    try {
+      const matrix: TravelMatrix = [];
+      for (let start = 0; start < points.length; start += rowsPerRequest) {
+        const origins = points.slice(start, start + rowsPerRequest);
+        const result = await this.distanceMatrixService.getDistanceMatrix({
+          origins,
+          destinations: points,
+          mode,
+        });
+        origins.forEach((origin, r) => {
+          const i = start + r;
+          matrix.push(
+            points.map((to, j) => {
+              if (i === j) return 0;
+              const element = result.rows[r]?.elements[j];
+              return element?.status === 'OK' && element.duration
+                ? element.duration.value
+                : estimateTravelSeconds(origin, to, mode);
+            }),
+          );
+        });
+      }
+      return { matrix, source: 'distance_matrix' };
+    } catch (err: unknown) {
+      this.logger.warn(
+        `Distance Matrix unavailable, using estimates: ${err instanceof Error ? err.message : 'Unknown error'}`,
+      );
+      return { matrix: estimate(), source: 'estimated' };
+    }
+  }
+
+  private poiLocation(
+    activity: ActivityEntity,
+  ): { lat: number; lng: number } | null {
+    const location = (activity.poi as GeneratedActivity['poi'])?.location;
+    return location &&
+      typeof location.lat === 'number' &&
+      typeof location.lng === 'number'
+      ? { lat: location.lat, lng: location.lng }
+      : null;
+  }
+
+  private poiOpeningHours(activity: ActivityEntity): string[] | null {
+    const poi = activity.poi as GeneratedActivity['poi'];
+    return poi?.openingHours?.weekdayText ?? null;
+  }
+
+  private roundUpToFive(minutes: number): number {
+    return Math.ceil(minutes / 5) * 5;
+  }
+
+  /** Load an itinerary day with its trip, requiring editor access */
+  private async loadEditableDay(
+    itineraryId: string,
+    userId: string,
+  ): Promise<{ trip: TripEntity; day: ItineraryEntity }> {
+    const itinerary = await this.itineraryRepo.findOne({
+      where: { id: itineraryId },
+      select: { id: true, tripId: true },
+    });
+    if (!itinerary) throw new NotFoundException('Itinerary not found');
+
+    const allowed = await this.collaborationService.checkPermission(
+      itinerary.tripId,
+      userId,
+      MemberRole.EDITOR,
+    );
+    if (!allowed) {
+      throw new ForbiddenException(
+        `You need ${MemberRole.EDITOR} role or higher on this trip`,
+      );
+    }
+
+    const trip = await this.tripRepository.findWithItinerary(itinerary.tripId);
+    const day = trip?.itinerary?.find((d) => d.id === itineraryId);
+    if (!trip || !day) throw new NotFoundException('Itinerary not found');
+    return { trip, day };
+  }
+
+  private async replaceDayActivities(
+    itinerary: ItineraryEntity,
+    day: RegeneratedDay,
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      const itineraryRepo = manager.getRepository(ItineraryEntity);
+      const activityRepo = manager.getRepository(ActivityEntity);
+
+      await this.clearGeneratedActivities(
+        activityRepo,
+        await activityRepo.find({ where: { itineraryId: itinerary.id } }),
+      );
+      await activityRepo.save(
+        toActivityEntityInputs(day.activities, {
+          source: AiTaskType.RegenerateDay,
+        }).map((input) =>
+          activityRepo.create({ ...input, itineraryId: itinerary.id }),
+        ),
+      );
+
+      await itineraryRepo.update(itinerary.id, {
+        title: day.title?.trim() || itinerary.title,
+        aiGenerated: true,
+        userModified: false,
+      });
+    });
+  }
+
+  /** Delete the activities of a day, keeping booking-linked ones */
+  private async clearGeneratedActivities(
+    activityRepo: Repository<ActivityEntity>,
+    activities: ActivityEntity[],
+  ): Promise<void> {
+    const ids = activities
+      .filter((activity) => !isLinkedActivity(activity))
+      .map((activity) => activity.id);
+    if (ids.length) await activityRepo.delete(ids);
+  }
+
+  private async loadPreferenceSections(
+    trip: TripEntity,
+  ): Promise<{ userSection: string; tripSection: string }> {
+    const [userPrefs, tripPrefs] = await Promise.all([
+      this.preferencesService.getUserPreferences(trip.userId),
+      this.tripPrefsRepo.findOne({ where: { tripId: trip.id } }),
+    ]);
+    return this.preferencesMerger.buildPromptSections(userPrefs, tripPrefs);
+  }
+
+  private resolveDestination(trip: TripEntity): string {
+    return trip.primaryDestination?.name || trip.title;
+  }
+
+  private toDayContext(itinerary: ItineraryEntity): DayContext {
+    return {
+      dayNumber: itinerary.dayNumber,
+      date: toDateString(itinerary.date),
+      title: itinerary.title,
+      activities: (itinerary.activities ?? []).map((a) => ({
+        time: a.time,
+        title: a.title,
+        durationMinutes: a.duration ?? null,
+        cost: a.cost !== null && a.cost !== undefined ? Number(a.cost) : null,
+        category: a.type ?? null,
+      })),
+    };
+  }
+}
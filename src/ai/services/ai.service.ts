@@ -12,7 +12,7 @@ import { applyCurrencyFallback } from '../utils/itinerary-normalization.util';
 import { AiTelemetryService } from 'src/ai/services/ai-telemetry.service';
 import type { AiRunEntity } from 'src/schemas/ai-run.entity';
 import { getSchemaForTaskType } from 'src/ai/schemas/task-schema.registry';
-import { normalizeAiTaskType } from 'src/ai/schemas/ai-task-type';
+import { AiTaskType, normalizeAiTaskType } from 'src/ai/schemas/ai-task-type';
 
 @Injectable()
 export class AIService {
@@ -593,6 +593,254 @@ export class AIService {
     }
   }
 
+  /**
+   * Run a task-specific prompt (day regeneration, suggestions, ...) through the
+   * Gemini -> OpenRouter chain and validate it against the task schema.
+   * Not cached: these calls work on live trip data and callers expect a fresh answer.
+   */
+  async generateForTask<T>(
+    taskType: AiTaskType,
+    prompt: string,
+    options?: {
+      currencyHint?: string;
+      requestId?: string;
+      userId?: string;
+      tripId?: string;
+      maxTokens?: number;
+    },
+  ): Promise<T> {
+    const start = Date.now();
+    const baseRun: Partial<AiRunEntity> = {
+      requestId: options?.requestId ?? null,
+      userId: options?.userId ?? null,
+      tripId: options?.tripId ?? null,
+      taskType,
+      promptHash: this.hashPrompt(prompt, options?.currencyHint, taskType),
+      promptLength: prompt.length,
+      currencyHint: normalizeIsoCurrency(options?.currencyHint) ?? null,
+      cacheRedisHit: false,
+      cacheMemoryHit: false,
+    };
+    const maxTokens = options?.maxTokens ?? 1500;
+
+    const providers: {
+      name: 'Gemini' | 'OpenRouter';
+      call: (p: string) => Promise<unknown>;
+    }[] = [
+      {
+        name: 'Gemini',
+        call: (p) =>
+          this.gemini.createChatCompletion({
+            messages: [{ role: 'user', content: p }],
+            temperature: 0.3,
+            max_tokens: maxTokens,
+          }),
+      },
+      {
+        name: 'OpenRouter',
+        call: (p) =>
+          this.openRouter.createChatCompletion({
+            messages: [
+              {
+                role: 'system',
+                content:
+                  'You are a travel assistant that must return pure JSON only.',
+              },
+              { role: 'user', content: p },
+            ],
+            temperature: 0.3,
+            max_tokens: maxTokens,
+          }),
+      },
+    ];
+
+    let lastError: unknown = null;
+    for (const [idx, provider] of providers.entries()) {
+      const t0 = Date.now();
+      const attemptOnce = async (p: string) =>
+        this.parseTaskResponse(await provider.call(p), provider.name, taskType);
+      try {
+        let res: Awaited<ReturnType<typeof attemptOnce>>;
+        try {
+          res = await attemptOnce(prompt);
+        } catch {
+          const errorSummary = this.summarizeAjvErrors();
+          this.logger.warn(
+            `${provider.name} ${taskType} schema/parse issue, retrying once: ${errorSummary}`,
+          );
+          res = await attemptOnce(
+            this.buildSchemaRepairPrompt(prompt, errorSummary),
+          );
+        }
+
+        void this.telemetry.recordRun({
+          ...baseRun,
+          provider: provider.name,
+          fallbackUsed: idx > 0,
+          totalMs: Date.now() - start,
+          providerMs: Date.now() - t0,
+          parseMs: res.parseMs,
+          jsonValid: true,
+          jsonRepaired: res.jsonRepaired,
+          schemaErrorsCount: 0,
+          responseLength: res.responseLength,
+        });
+        return res.value as T;
+      } catch (err: unknown) {
+        lastError = err;
+        this.logger.warn(
+          `${provider.name} ${taskType} request failed: ${this.getErrorMessage(err)}`,
+        );
+      }
+    }
+
+    const msg = this.getErrorMessage(lastError);
+    void this.telemetry.recordRun({
+      ...baseRun,
+      provider: 'OpenRouter',
+      fallbackUsed: true,
+      totalMs: Date.now() - start,
+      jsonValid: false,
+      schemaErrorsCount: Array.isArray(this.ajv.errors)
+        ? this.ajv.errors.length
+        : 0,
+      errorMessage: msg,
+    });
+    throw new BadRequestException(
+      'Both AI providers failed. Unable to complete AI task.',
+    );
+  }
+
+  /**
+   * Parse a provider response for a task and validate it against the task schema
+   */
+  private parseTaskResponse(
+    resp: unknown,
+    provider: string,
+    taskType: AiTaskType,
+  ): {
+    value: unknown;
+    responseLength: number;
+    parseMs: number;
+    jsonRepaired: boolean;
+  } {
+    const content = this.extractContent(resp);
+    if (!content) {
+      throw new BadRequestException(`Empty response from ${provider}`);
+    }
+
+    const parseStart = Date.now();
+    const parsedResult = this.tryParseJson(content);
+    const parseMs = Date.now() - parseStart;
+    if (!parsedResult.ok) {
+      throw new BadRequestException(`${provider} returned invalid JSON`);
+    }
+
+    const value = this.normalizeTaskOutput(taskType, parsedResult.value);
+    const { schema } = getSchemaForTaskType(taskType);
+    if (!this.ajv.validate(schema as unknown as object, value)) {
+      this.logger.warn(
+        `${provider} ${taskType} JSON failed schema validation`,
+        this.ajv.errors,
+      );
+      throw new BadRequestException(
+        `${provider} returned JSON that does not match expected schema`,
+      );
+    }
+
+    return {
+      value,
+      responseLength: content.length,
+      parseMs,
+      jsonRepaired: parsedResult.repaired,
+    };
+  }
+
+  private normalizeTaskOutput(taskType: AiTaskType, value: unknown): unknown {
+    switch (taskType) {
+      case AiTaskType.RegenerateDay: {
+        if (!this.isRecord(value)) return value;
+        // Models sometimes wrap the day as a one-day itinerary
+        const day =
+          Array.isArray(value.days) && this.isRecord(value.days[0])
+            ? value.days[0]
+            : value;
+        this.normalizeItineraryBeforeValidate({ days: [day] });
+        // POIs come from grounding, never from the model
+        if (Array.isArray(day.activities)) {
+          for (const a of day.activities) {
+            if (this.isRecord(a) && a.poi) a.poi = null;
+          }
+        }
+        if (day.notes !== undefined) day.notes = this.normalizeNotes(day.notes);
+        if (day.title !== undefined && typeof day.title !== 'string')
+          day.title = null;
+        return day;
+      }
+      case AiTaskType.SuggestActivitiesForDay: {
+        // Accept a bare array or { activities: [...] } as well
+        const root: Record<string, unknown> = Array.isArray(value)
+          ? { suggestions: value }
+          : this.isRecord(value)
+            ? value
+            : {};
+        if (root.suggestions === undefined && Array.isArray(root.activities))
+          root.suggestions = root.activities;
+        if (!Array.isArray(root.suggestions)) return root;
+
+        this.normalizeItineraryBeforeValidate({
+          days: [{ activities: root.suggestions }],
+        });
+        for (const a of root.suggestions) {
+          if (!this.isRecord(a)) continue;
+          a.poi = null;
+          if (typeof a.time === 'string' && /^\d:\d{2}$/.test(a.time))
+            a.time = `0${a.time}`;
+          if (typeof a.category === 'string')
+            a.category = a.category.trim().toLowerCase();
+          if (a.reason !== undefined && typeof a.reason !== 'string')
+            a.reason = null;
+        }
+        if (root.notes !== undefined)
+          root.notes = this.normalizeNotes(root.notes);
+        return root;
+      }
+      case AiTaskType.OptimizeRouteOrder: {
+        if (!this.isRecord(value)) return value;
+        if (Array.isArray(value.order)) {
+          value.order = value.order.map((v) => this.coerceNumber(v));
+        }
+        if (value.explanation === undefined && value.notes !== undefined)
+          value.explanation = value.notes;
+        if (value.explanation !== undefined)
+          value.explanation = this.normalizeNotes(value.explanation);
+        return value;
+      }
+      case AiTaskType.BudgetRebalance: {
+        if (!this.isRecord(value)) return value;
+        if (!Array.isArray(value.changes)) return value;
+        for (const c of value.changes) {
+          if (!this.isRecord(c)) continue;
+          c.ref = this.coerceNumber(c.ref);
+          c.newCost = this.coerceNumber(c.newCost);
+          if (typeof c.action === 'string')
+            c.action = c.action.trim().toLowerCase();
+          if (typeof c.category === 'string')
+            c.category = c.category.trim().toLowerCase();
+          for (const key of ['title', 'description', 'category'] as const) {
+            if (c[key] !== undefined && typeof c[key] !== 'string')
+              c[key] = null;
+          }
+        }
+        if (value.notes !== undefined)
+          value.notes = this.normalizeNotes(value.notes);
+        return value;
+      }
+      default:
+        return value;
+    }
+  }
+
   /**
    * Generate itinerary specifically with Gemini
    * Uses simple string prompt format as per Google Gen AI SDK specs
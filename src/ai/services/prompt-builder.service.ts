@@ -1,6 +1,83 @@
 import { Injectable } from '@nestjs/common';
 import { PreviewItineraryDto } from '../dto/preview-itinerary.dto';
 import { AiTaskType, normalizeAiTaskType } from 'src/ai/schemas/ai-task-type';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+
+export interface DayContextActivity {
+  time?: string | null;
+  title: string;
+  durationMinutes?: number | null;
+  cost?: number | null;
+  category?: string | null;
+}
+
+export interface DayContext {
+  dayNumber: number;
+  date?: string | null;
+  title?: string | null;
+  activities: DayContextActivity[];
+}
+
+export interface TripPromptContext {
+  destination: string;
+  currency: string;
+  totalDays?: number;
+  budget?: number | null;
+  preferenceSections?: { userSection: string; tripSection: string };
+}
+
+export interface RegenerateDayPromptInput extends TripPromptContext {
+  dayNumber: number;
+  date?: string | null;
+  currentDay?: DayContext | null;
+  previousDay?: DayContext | null;
+  nextDay?: DayContext | null;
+  instructions?: string;
+}
+
+export interface RouteStopContext {
+  title: string;
+  time?: string | null;
+  durationMinutes?: number | null;
+  openingHours?: string[] | null;
+}
+
+export interface OptimizeRoutePromptInput {
+  destination: string;
+  mode: string;
+  date?: string | null;
+  /** Stops in the proposed order; positions in the answer are 1-based */
+  stops: RouteStopContext[];
+  /** Travel minutes between stops, indexed like `stops` */
+  travelMinutes: (number | null)[][];
+  fixedStart: boolean;
+}
+
+export interface BudgetRebalancePromptInput {
+  destination: string;
+  currency: string;
+  totalBudget: number;
+  spent: number;
+  projectedTotal: number;
+  /** Spent and still planned amounts per ActivityCategory */
+  categories: { category: string; spent: number; planned: number }[];
+  /** Remaining activities; refs in the answer are 1-based positions */
+  activities: {
+    dayNumber: number;
+    title: string;
+    category: string;
+    cost: number;
+    locked: boolean;
+  }[];
+  instructions?: string;
+}
+
+export interface SuggestActivitiesPromptInput extends TripPromptContext {
+  day: DayContext;
+  gaps: { start: string; end: string }[];
+  count: number;
+  instructions?: string;
+}
 
 @Injectable()
 export class PromptBuilderService {
@@ -67,4 +144,209 @@ export class PromptBuilderService {
 
     return base.join('\n');
   }
+
+  buildRegenerateDayPrompt(input: RegenerateDayPromptInput): string {
+    const base: string[] = [];
+    base.push(
+      'You are a travel assistant. Re-plan ONE day of an existing trip and return in English-only JSON.',
+    );
+    base.push(
+      'Must: return exactly one JSON object, no markdown, no code fences, no preamble or epilogue.',
+    );
+    base.push(
+      `JSON format: {"dayNumber":${input.dayNumber},"date":"YYYY-MM-DD" | null,"title":"string" | null,"activities":[{"time":"HH:MM","title":"string","description":"string" | null,"durationMinutes":number | null,"cost":number | null,"currency":"ISO" | null,"category":"${this.categoryList()}"}],"notes":["string"] | null}`,
+    );
+
+    base.push(...this.tripContextLines(input));
+    base.push(
+      `Day to regenerate: ${input.dayNumber}${input.date ? ` (${input.date})` : ''}`,
+    );
+    if (input.currentDay?.activities.length) {
+      base.push(
+        'Current plan for this day (replace it, avoid repeating it verbatim):',
+      );
+      base.push(this.describeDay(input.currentDay));
+    }
+    if (input.previousDay) {
+      base.push('Previous day (do not repeat these places):');
+      base.push(this.describeDay(input.previousDay));
+    }
+    if (input.nextDay) {
+      base.push('Next day (do not repeat these places):');
+      base.push(this.describeDay(input.nextDay));
+    }
+    if (input.instructions) {
+      base.push(`Traveler request for this day: ${input.instructions}`);
+    }
+
+    base.push(
+      'Plan 3-7 activities in chronological order with realistic travel time between them. Use real, named places that exist in the destination.',
+    );
+    base.push(
+      `Costs are per group in ${input.currency}; set currency to ${input.currency}.`,
+    );
+    base.push(
+      'Explainability: include notes[] (2-4 short strings) on how this day fits between the neighbouring days.',
+    );
+
+    return base.join('\n');
+  }
+
+  buildSuggestActivitiesPrompt(input: SuggestActivitiesPromptInput): string {
+    const base: string[] = [];
+    base.push(
+      'You are a travel assistant. Suggest extra activities for ONE day of an existing trip and return in English-only JSON.',
+    );
+    base.push(
+      'Must: return exactly one JSON object, no markdown, no code fences, no preamble or epilogue.',
+    );
+    base.push(
+      `JSON format: {"suggestions":[{"time":"HH:MM","title":"string","description":"string" | null,"durationMinutes":number,"cost":number,"currency":"${input.currency}","category":"${this.categoryList()}","reason":"string" | null}],"notes":["string"] | null}`,
+    );
+
+    base.push(...this.tripContextLines(input));
+    base.push(
+      'Current plan for this day (keep it, do not repeat these places):',
+    );
+    base.push(this.describeDay(input.day));
+    base.push(
+      `Free time windows: ${input.gaps.map((g) => `${g.start}-${g.end}`).join(', ')}`,
+    );
+    if (input.instructions) {
+      base.push(`Traveler request: ${input.instructions}`);
+    }
+
+    base.push(
+      `Suggest exactly ${input.count} alternative activities. Each one must start and end inside a single free time window; durationMinutes must fit that window.`,
+    );
+    base.push(
+      `cost is the estimated cost per group in ${input.currency} (0 if free). category must be one of the listed values.`,
+    );
+    base.push(
+      'Use real, named places that exist in the destination; reason is one short sentence on why it fits this day.',
+    );
+
+    return base.join('\n');
+  }
+
+  buildOptimizeRoutePrompt(input: OptimizeRoutePromptInput): string {
+    const base: string[] = [];
+    base.push(
+      'You are a travel assistant. Review a proposed visiting order for ONE day of a trip and return in English-only JSON.',
+    );
+    base.push(
+      'Must: return exactly one JSON object, no markdown, no code fences, no preamble or epilogue.',
+    );
+    base.push('JSON format: {"order":[number],"explanation":["string"]}');
+
+    const params = [
+      `Destination: ${input.destination}`,
+      `Travel mode: ${input.mode}`,
+    ];
+    if (input.date) params.push(`Date: ${input.date}`);
+    base.push('Input: ' + params.join(' | '));
+
+    base.push('Proposed order (already minimises total travel time):');
+    input.stops.forEach((stop, idx) => {
+      const parts = [`${idx + 1}. ${stop.title}`];
+      if (stop.time) parts.push(`planned ${stop.time}`);
+      if (stop.durationMinutes) parts.push(`${stop.durationMinutes}min`);
+      if (stop.openingHours?.length)
+        parts.push(`opening hours: ${stop.openingHours.join('; ')}`);
+      base.push(parts.join(' | '));
+    });
+    base.push('Travel minutes between stops (row = from, column = to):');
+    input.travelMinutes.forEach((row, idx) => {
+      base.push(
+        `${idx + 1}: ${row.map((m) => (m === null ? '?' : String(m))).join(' ')}`,
+      );
+    });
+
+    base.push(
+      'order must list every stop number exactly once. Keep the proposed order unless a change is needed to respect opening hours or meal times, and keep extra travel to a minimum.',
+    );
+    if (input.fixedStart) {
+      base.push('Stop 1 is the starting point and must stay first.');
+    }
+    base.push(
+      'explanation: 2-4 short strings for the traveler on why this order works (areas grouped, backtracking avoided, any change you made).',
+    );
+
+    return base.join('\n');
+  }
+
+  buildBudgetRebalancePrompt(input: BudgetRebalancePromptInput): string {
+    const overBy = input.projectedTotal - input.totalBudget;
+    const base: string[] = [];
+    base.push(
+      'You are a travel budget assistant. Propose cheaper swaps for the remaining activities of a trip and return in English-only JSON.',
+    );
+    base.push(
+      'Must: return exactly one JSON object, no markdown, no code fences, no preamble or epilogue.',
+    );
+    base.push(
+      `JSON format: {"changes":[{"ref":number,"action":"reduce|replace|remove","newCost":number,"title":"string" | null,"description":"string" | null,"category":"${this.categoryList()}" | null,"reason":"string"}],"notes":["string"] | null}`,
+    );
+
+    base.push(
+      `Input: Destination: ${input.destination} | Budget: ${input.totalBudget} ${input.currency} | Already spent: ${input.spent} | Projected total: ${input.projectedTotal} | Over budget by: ${overBy.toFixed(2)}`,
+    );
+    base.push('Spending by category (spent / still planned):');
+    for (const c of input.categories) {
+      base.push(`- ${c.category}: ${c.spent} / ${c.planned}`);
+    }
+    base.push('Remaining activities:');
+    input.activities.forEach((a, idx) => {
+      base.push(
+        `${idx + 1}. Day ${a.dayNumber} | ${a.title} | ${a.category} | ${a.cost}${a.locked ? ' | LOCKED' : ''}`,
+      );
+    });
+    if (input.instructions) {
+      base.push(`Traveler request: ${input.instructions}`);
+    }
+
+    base.push(
+      `Goal: bring the projected total to or below the budget, saving at least ${overBy.toFixed(2)} ${input.currency}, while keeping the trip enjoyable.`,
+    );
+    base.push(
+      'Rules: ref refers to the numbered list above; never change LOCKED activities; at most one change per ref; newCost is in the budget currency and lower than the current cost.',
+    );
+    base.push(
+      'reduce = same activity done cheaper (e.g. off-peak, shared tour); replace = a cheaper real alternative nearby (title required); remove = drop it (newCost 0). Prefer reduce and replace over remove.',
+    );
+
+    return base.join('\n');
+  }
+
+  private tripContextLines(input: TripPromptContext): string[] {
+    const lines: string[] = [];
+    const params: string[] = [`Destination: ${input.destination}`];
+    if (input.totalDays) params.push(`Trip length: ${input.totalDays} days`);
+    if (input.budget !== undefined && input.budget !== null)
+      params.push(`Trip budget: ${input.budget} ${input.currency}`);
+    params.push(`Currency: ${input.currency}`);
+    lines.push('Input: ' + params.join(' | '));
+    if (input.preferenceSections) {
+      lines.push(input.preferenceSections.userSection);
+      lines.push(input.preferenceSections.tripSection);
+    }
+    return lines;
+  }
+
+  private describeDay(day: DayContext): string {
+    const header = `Day ${day.dayNumber}${day.date ? ` (${day.date})` : ''}${day.title ? ` - ${day.title}` : ''}`;
+    if (!day.activities.length) return `${header}: no activities`;
+    const items = day.activities.map((a) => {
+      const parts = [a.time ?? '--:--', a.title];
+      if (a.durationMinutes) parts.push(`${a.durationMinutes}min`);
+      if (a.category) parts.push(a.category);
+      if (a.cost !== undefined && a.cost !== null) parts.push(`cost ${a.cost}`);
+      return `- ${parts.join(' | ')}`;
+    });
+    return [header, ...items].join('\n');
+  }
+
+  private categoryList(): string {
+    return Object.values(ActivityCategory).join('|');
+  }
 }
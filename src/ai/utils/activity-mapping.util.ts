@@ -0,0 +1,201 @@
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import type { ActivityEntity } from 'src/schemas/activity.entity';
+import type { GeneratedActivity } from '../dto/generated-itinerary.dto';
+
+const DEFAULT_DAY_START_MINUTES = 9 * 60;
+const DEFAULT_DURATION_MINUTES = 90;
+
+/** Parse 'HH:mm' (or 'H:mm') into minutes since midnight */
+export function parseTimeToMinutes(time?: string | null): number | null {
+  if (!time) return null;
+  const m = /^(\d{1,2}):(\d{2})/.exec(time.trim());
+  if (!m) return null;
+  const hours = Number(m[1]);
+  const minutes = Number(m[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/** Format minutes since midnight as 'HH:mm', clamped to the same day */
+export function formatMinutesAsTime(total: number): string {
+  const clamped = Math.min(Math.max(Math.round(total), 0), 23 * 60 + 59);
+  const hours = Math.floor(clamped / 60);
+  const minutes = clamped % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+export function toActivityCategory(value?: string | null): ActivityCategory {
+  const normalized = value?.trim().toLowerCase();
+  const values = Object.values(ActivityCategory) as string[];
+  return normalized && values.includes(normalized)
+    ? (normalized as ActivityCategory)
+    : ActivityCategory.OTHER;
+}
+
+/**
+ * Map generated activities to ActivityEntity fields. Missing times are filled
+ * sequentially after the previous activity so every row has a valid 'HH:mm'.
+ * `startIndex`/`startMinutes` continue an existing day when appending.
+ */
+export function toActivityEntityInputs(
+  activities: GeneratedActivity[],
+  extraMetadata?: Record<string, unknown>,
+  options?: { startIndex?: number; startMinutes?: number },
+): Partial<ActivityEntity>[] {
+  let cursor = options?.startMinutes ?? DEFAULT_DAY_START_MINUTES;
+  const startIndex = options?.startIndex ?? 0;
+  return activities.map((a, idx) => {
+    const start = parseTimeToMinutes(a.time) ?? cursor;
+    const duration =
+      typeof a.durationMinutes === 'number' && a.durationMinutes > 0
+        ? Math.round(a.durationMinutes)
+        : null;
+    cursor = start + (duration ?? DEFAULT_DURATION_MINUTES);
+
+    return {
+      time: formatMinutesAsTime(start),
+      title: a.title.slice(0, 255),
+      description: a.description ?? undefined,
+      duration,
+      cost: typeof a.cost === 'number' ? a.cost : null,
+      type: toActivityCategory(a.category),
+      orderIndex: startIndex + idx,
+      poi: a.poi ?? null,
+      metadata: {
+        aiGenerated: true,
+        currency: a.currency ?? null,
+        ...extraMetadata,
+      },
+    };
+  });
+}
+
+export interface TimeGap {
+  start: string;
+  end: string;
+  minutes: number;
+}
+
+/**
+ * Free windows of a day between existing activities. Activities without a
+ * duration are assumed to take the default duration.
+ */
+export function findFreeGaps(
+  activities: { time?: string | null; duration?: number | null }[],
+  options?: { dayStart?: string; dayEnd?: string; minGapMinutes?: number },
+): TimeGap[] {
+  const dayStart = parseTimeToMinutes(options?.dayStart ?? '08:00') ?? 480;
+  const dayEnd = parseTimeToMinutes(options?.dayEnd ?? '22:00') ?? 1320;
+  const minGap = options?.minGapMinutes ?? 45;
+
+  const busy = activities
+    .map((a) => {
+      const start = parseTimeToMinutes(a.time);
+      if (start === null) return null;
+      const duration =
+        typeof a.duration === 'number' && a.duration > 0
+          ? a.duration
+          : DEFAULT_DURATION_MINUTES;
+      return { start, end: start + duration };
+    })
+    .filter((b): b is { start: number; end: number } => b !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const gaps: TimeGap[] = [];
+  let cursor = dayStart;
+  for (const b of [...busy, { start: dayEnd, end: dayEnd }]) {
+    const end = Math.min(b.start, dayEnd);
+    if (end - cursor >= minGap) {
+      gaps.push({
+        start: formatMinutesAsTime(cursor),
+        end: formatMinutesAsTime(end),
+        minutes: end - cursor,
+      });
+    }
+    cursor = Math.max(cursor, b.end);
+    if (cursor >= dayEnd) break;
+  }
+  return gaps;
+}
+
+/**
+ * Place an activity inside the free gaps: keep its start time when it fits,
+ * otherwise move it to the start of the first gap that is long enough.
+ */
+export function fitIntoGaps(
+  time: string,
+  durationMinutes: number,
+  gaps: TimeGap[],
+): string | null {
+  const start = parseTimeToMinutes(time);
+  const ranges = gaps.map((g) => ({
+    start: parseTimeToMinutes(g.start) ?? 0,
+    end: parseTimeToMinutes(g.end) ?? 0,
+  }));
+  if (start !== null) {
+    const inside = ranges.find(
+      (r) => start >= r.start && start + durationMinutes <= r.end,
+    );
+    if (inside) return formatMinutesAsTime(start);
+  }
+  const first = ranges.find((r) => r.end - r.start >= durationMinutes);
+  return first ? formatMinutesAsTime(first.start) : null;
+}
+
+/**
+ * Free gaps left after an activity is placed at `time`: the part of any gap
+ * it overlaps is cut out, splitting that gap when the activity sits inside.
+ */
+export function removeFromGaps(
+  gaps: TimeGap[],
+  time: string,
+  durationMinutes: number,
+): TimeGap[] {
+  const start = parseTimeToMinutes(time);
+  if (start === null) return gaps;
+  const end = start + durationMinutes;
+  return gaps.flatMap((g) => {
+    const gapStart = parseTimeToMinutes(g.start) ?? 0;
+    const gapEnd = parseTimeToMinutes(g.end) ?? 0;
+    return [
+      { start: gapStart, end: Math.min(gapEnd, start) },
+      { start: Math.max(gapStart, end), end: gapEnd },
+    ]
+      .filter((r) => r.end > r.start)
+      .map((r) => ({
+        start: formatMinutesAsTime(r.start),
+        end: formatMinutesAsTime(r.end),
+        minutes: r.end - r.start,
+      }));
+  });
+}
+
+/** End of the latest activity in minutes since midnight, if any has a time */
+export function latestActivityEnd(
+  activities: { time?: string | null; duration?: number | null }[],
+): number | null {
+  let latest: number | null = null;
+  for (const a of activities) {
+    const start = parseTimeToMinutes(a.time);
+    if (start === null) continue;
+    const end =
+      start +
+      (typeof a.duration === 'number' && a.duration > 0
+        ? a.duration
+        : DEFAULT_DURATION_MINUTES);
+    latest = latest === null ? end : Math.max(latest, end);
+  }
+  return latest;
+}
+
+/**
+ * Whether an activity mirrors a booking or an attraction reservation. Those
+ * are kept in step by their own sync, so regenerating a day leaves them.
+ */
+export function isLinkedActivity(activity: {
+  metadata?: Record<string, unknown> | null;
+}): boolean {
+  return !!(
+    activity.metadata?.bookingId || activity.metadata?.attractionReservationId
+  );
+}
@@ -0,0 +1,95 @@
+/** Square matrix of travel times in seconds; null when a leg is unknown */
+export type TravelMatrix = (number | null)[][];
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/** Rough average speeds used when Distance Matrix has no value for a leg */
+const ESTIMATED_SPEED_MPS: Record<string, number> = {
+  walking: 1.3,
+  bicycling: 4,
+  transit: 6,
+  driving: 8,
+};
+
+export function haversineMeters(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number },
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/** Straight-line travel time estimate in seconds */
+export function estimateTravelSeconds(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number },
+  mode = 'driving',
+): number {
+  const speed = ESTIMATED_SPEED_MPS[mode] ?? ESTIMATED_SPEED_MPS.driving;
+  // Straight lines underestimate street distance by roughly a third
+  return Math.round((haversineMeters(a, b) * 1.3) / speed);
+}
+
+/** Total travel time of an open path (no return to the start) */
+export function routeCost(order: number[], matrix: TravelMatrix): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += matrix[order[i - 1]][order[i]] ?? 0;
+  }
+  return total;
+}
+
+/**
+ * Deterministic open-path ordering: nearest neighbour from the start node,
+ * then 2-opt until no reversal shortens the path. Ties keep the original
+ * order so the same input always yields the same output.
+ */
+export function optimizeRouteOrder(
+  matrix: TravelMatrix,
+  options?: { fixedStart?: boolean },
+): number[] {
+  const n = matrix.length;
+  if (n <= 2) return Array.from({ length: n }, (_, i) => i);
+
+  const fixedStart = options?.fixedStart ?? true;
+  const cost = (from: number, to: number) =>
+    matrix[from][to] ?? Number.MAX_SAFE_INTEGER;
+
+  const order = [0];
+  const visited = new Set(order);
+  while (order.length < n) {
+    const last = order[order.length - 1];
+    let best = -1;
+    for (let j = 0; j < n; j++) {
+      if (visited.has(j)) continue;
+      if (best === -1 || cost(last, j) < cost(last, best)) best = j;
+    }
+    order.push(best);
+    visited.add(best);
+  }
+
+  const first = fixedStart ? 1 : 0;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = first; i < n - 1; i++) {
+      for (let k = i + 1; k < n; k++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, k + 1).reverse(),
+          ...order.slice(k + 1),
+        ];
+        if (routeCost(candidate, matrix) < routeCost(order, matrix)) {
+          order.splice(0, n, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+}
@@ -23,11 +23,15 @@ import { RolesGuard } from 'src/auth/guards/roles.guard';
 import { HotelsModule } from './hotels/hotels.module';
 import { TransportModule } from './transport/transport.module';
 import { BookingModule } from './booking/booking.module';
+import { PaymentModule } from './payment/payment.module';
+import { AttractionsModule } from './attractions/attractions.module';
+import { IdempotencyModule } from './idempotency/idempotency.module';
 import { BudgetModule } from './budget/budget.module';
 import { PreferencesModule } from './preferences/preferences.module';
 import { GoogleMapsModule } from './integrations/google-maps/google-maps.module';
 import { DestinationModule } from './destinations/destination.module';
 import { AIModule } from './ai/ai.module';
+import { NotificationModule } from './notification/notification.module';
 
 @Module({
   imports: [
@@ -38,6 +42,7 @@ import { AIModule } from './ai/ai.module';
     }),
     SharedModule,
     EmailModule,
+    IdempotencyModule,
     UserModule,
     LocationModule,
     CurrencyModule,
@@ -49,11 +54,14 @@ import { AIModule } from './ai/ai.module';
     HotelsModule,
     TransportModule,
     BookingModule,
+    PaymentModule,
+    AttractionsModule,
     BudgetModule,
     PreferencesModule,
     GoogleMapsModule,
     DestinationModule,
     AIModule,
+    NotificationModule,
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,181 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AttractionReservationService } from './attraction-reservation.service';
+import { CreateAttractionReservationDto } from './dto/create-attraction-reservation.dto';
+import { UpdateAttractionReservationDto } from './dto/update-attraction-reservation.dto';
+import { AttractionCatalogueQueryDto } from './dto/attraction-catalogue-query.dto';
+import { ResponseUtil } from '../shared/utils/response.util';
+import { TripPermissionGuard } from 'src/trip/guards/trip-permission.guard';
+import { RequireRole } from 'src/trip/decorators/require-role.decorator';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { Idempotent } from 'src/idempotency/idempotent.decorator';
+
+@ApiTags('Attractions')
+@ApiBearerAuth()
+@Controller('trips/:tripId/attractions')
+@UseGuards(TripPermissionGuard)
+export class AttractionReservationController {
+  constructor(
+    private readonly reservationService: AttractionReservationService,
+  ) {}
+
+  @Get('catalogue')
+  @RequireRole(MemberRole.VIEWER)
+  @ApiOperation({ summary: 'Search the attraction catalogue for a trip' })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiResponse({ status: 200, description: 'Catalogue products' })
+  async searchCatalogue(
+    @Param('tripId') tripId: string,
+    @Query() query: AttractionCatalogueQueryDto,
+  ) {
+    const data = await this.reservationService.searchCatalogue(tripId, query);
+    return ResponseUtil.success(data);
+  }
+
+  @Post()
+  @Idempotent()
+  @RequireRole(MemberRole.EDITOR)
+  @ApiOperation({
+    summary: 'Book a catalogue product or record a manual ticket',
+  })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiResponse({ status: 201, description: 'Reservation created' })
+  @ApiResponse({ status: 400, description: 'Date outside the trip' })
+  async create(
+    @Param('tripId') tripId: string,
+    @Body() dto: CreateAttractionReservationDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const data = await this.reservationService.create(tripId, req.user.id, dto);
+    return ResponseUtil.success(data);
+  }
+
+  @Get()
+  @RequireRole(MemberRole.VIEWER)
+  @ApiOperation({ summary: 'List attraction reservations of a trip' })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiResponse({ status: 200, description: 'Reservations retrieved' })
+  async list(@Param('tripId') tripId: string) {
+    const data = await this.reservationService.list(tripId);
+    return ResponseUtil.success(data);
+  }
+
+  @Get(':id')
+  @RequireRole(MemberRole.VIEWER)
+  @ApiOperation({ summary: 'Get an attraction reservation' })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiParam({ name: 'id', description: 'Reservation ID' })
+  @ApiResponse({ status: 200, description: 'Reservation retrieved' })
+  @ApiResponse({ status: 404, description: 'Reservation not found' })
+  async getOne(
+    @Param('tripId') tripId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const data = await this.reservationService.findOne(tripId, id);
+    return ResponseUtil.success(data);
+  }
+
+  @Patch(':id')
+  @RequireRole(MemberRole.EDITOR)
+  @ApiOperation({ summary: 'Update an attraction reservation' })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiParam({ name: 'id', description: 'Reservation ID' })
+  @ApiResponse({ status: 200, description: 'Reservation updated' })
+  async update(
+    @Param('tripId') tripId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateAttractionReservationDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const data = await this.reservationService.update(
+      tripId,
+      id,
+      req.user.id,
+      dto,
+    );
+    return ResponseUtil.success(data);
+  }
+
+  @Delete(':id')
+  @RequireRole(MemberRole.EDITOR)
+  @ApiOperation({
+    summary: 'Delete a reservation with its booking and itinerary activity',
+  })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiParam({ name: 'id', description: 'Reservation ID' })
+  @ApiResponse({ status: 200, description: 'Reservation deleted' })
+  @ApiResponse({
+    status: 400,
+    description: 'Reservation has payments; cancel its booking instead',
+  })
+  async remove(
+    @Param('tripId') tripId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const data = await this.reservationService.remove(tripId, id, req.user.id);
+    return ResponseUtil.success(data);
+  }
+
+  @Post(':id/attachments')
+  @ApiConsumes('multipart/form-data')
+  @RequireRole(MemberRole.EDITOR)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 5 * 1024 * 1024 } }),
+  )
+  @ApiOperation({ summary: 'Attach a ticket (PDF or image) to a reservation' })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiParam({ name: 'id', description: 'Reservation ID' })
+  @ApiResponse({ status: 201, description: 'Attachment uploaded' })
+  async addAttachment(
+    @Param('tripId') tripId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    const data = await this.reservationService.addAttachment(tripId, id, file);
+    return ResponseUtil.success(data);
+  }
+
+  @Delete(':id/attachments/:attachmentId')
+  @RequireRole(MemberRole.EDITOR)
+  @ApiOperation({ summary: 'Remove an attachment from a reservation' })
+  @ApiParam({ name: 'tripId', description: 'Trip ID' })
+  @ApiParam({ name: 'id', description: 'Reservation ID' })
+  @ApiParam({ name: 'attachmentId', description: 'Attachment ID' })
+  @ApiResponse({ status: 200, description: 'Attachment removed' })
+  async removeAttachment(
+    @Param('tripId') tripId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+  ) {
+    const data = await this.reservationService.removeAttachment(
+      tripId,
+      id,
+      attachmentId,
+    );
+    return ResponseUtil.success(data);
+  }
+}
@@ -0,0 +1,188 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, EntityTarget, Repository } from 'typeorm';
+import { AttractionReservationService } from './attraction-reservation.service';
+import { LocalAttractionProvider } from './providers/local-attraction.provider';
+import { AttractionReservationEntity } from '../schemas/attraction-reservation.entity';
+import { BookingEntity, BookingStatus } from '../schemas/booking.entity';
+import { ActivityEntity } from '../schemas/activity.entity';
+import { PaymentEntity } from '../schemas/payment.entity';
+import { ItineraryEntity } from '../schemas/itinerary.entity';
+import { TripEntity } from '../schemas/trip.entity';
+import { CloudinaryService } from '../upload/services/cloudinary.service';
+import { BookingSyncService } from '../booking/booking-sync.service';
+
+type Row = Record<string, any>;
+
+/** Minimal in-memory repository for the calls the service makes */
+const memoryRepo = (rows: Row[], prefix: string) => ({
+  create: (data: Row) => ({ ...data }),
+  save: (data: Row) => {
+    const existing = rows.find((r) => data.id && r.id === data.id);
+    if (existing) return Promise.resolve(Object.assign(existing, data));
+    const saved = { id: `${prefix}-${rows.length + 1}`, ...data };
+    rows.push(saved);
+    return Promise.resolve(saved);
+  },
+  findOne: ({ where }: { where: Row }) =>
+    Promise.resolve(
+      rows.find((r) => Object.entries(where).every(([k, v]) => r[k] === v)) ??
+        null,
+    ),
+  count: ({ where }: { where: Row }) =>
+    Promise.resolve(
+      rows.filter((r) => Object.entries(where).every(([k, v]) => r[k] === v))
+        .length,
+    ),
+});
+
+describe('AttractionReservationService', () => {
+  let service: AttractionReservationService;
+  let trip: TripEntity;
+  let bookings: Row[];
+  let days: Row[];
+  let activities: Row[];
+  let reservations: Row[];
+  let payments: Row[];
+  let cloudinary: { uploadFile: jest.Mock; deleteFile: jest.Mock };
+  let bookingSync: { sync: jest.Mock; remove: jest.Mock };
+
+  beforeEach(() => {
+    trip = {
+      id: 'trip-1',
+      currency: 'VND',
+      startDate: new Date('2026-11-01'),
+      endDate: new Date('2026-11-05'),
+    } as TripEntity;
+    bookings = [];
+    days = [{ id: 'day-1', tripId: trip.id, dayNumber: 1 }];
+    activities = [];
+    reservations = [];
+    payments = [];
+
+    const repos = new Map<EntityTarget<unknown>, ReturnType<typeof memoryRepo>>(
+      [
+        [BookingEntity, memoryRepo(bookings, 'booking')],
+        [ItineraryEntity, memoryRepo(days, 'day')],
+        [ActivityEntity, memoryRepo(activities, 'activity')],
+        [AttractionReservationEntity, memoryRepo(reservations, 'reservation')],
+        [PaymentEntity, memoryRepo(payments, 'payment')],
+      ],
+    );
+    const manager = {
+      getRepository: (entity: EntityTarget<unknown>) => repos.get(entity),
+      update: (_entity: unknown, where: Row, patch: Row) => {
+        Object.assign(bookings.find((b) => b.id === where.id) ?? {}, patch);
+        return Promise.resolve();
+      },
+    };
+    const dataSource = {
+      transaction: (work: (m: typeof manager) => Promise<unknown>) =>
+        work(manager),
+    } as unknown as DataSource;
+    const reservationRepo = {
+      findOne: ({ where }: { where: Row }) => {
+        const reservation = reservations.find((r) => r.id === where.id);
+        return Promise.resolve(
+          reservation && {
+            ...reservation,
+            booking: bookings.find((b) => b.id === reservation.bookingId),
+            activity: activities.find((a) => a.id === reservation.activityId),
+          },
+        );
+      },
+    };
+    const tripRepo = { findOne: jest.fn(() => Promise.resolve(trip)) };
+    cloudinary = { uploadFile: jest.fn(), deleteFile: jest.fn() };
+    bookingSync = { sync: jest.fn(), remove: jest.fn() };
+
+    service = new AttractionReservationService(
+      reservationRepo as unknown as Repository<AttractionReservationEntity>,
+      tripRepo as unknown as Repository<TripEntity>,
+      [new LocalAttractionProvider()],
+      cloudinary as unknown as CloudinaryService,
+      bookingSync as unknown as BookingSyncService,
+      dataSource,
+    );
+  });
+
+  it('books a catalogue product and schedules it on a new itinerary day', async () => {
+    const result = await service.create(trip.id, 'user-1', {
+      providerItemId: 'LOC-HAN-002',
+      date: '2026-11-03',
+      time: '19:30',
+      participants: 2,
+    });
+
+    expect(bookings).toHaveLength(1);
+    expect(bookings[0]).toMatchObject({
+      provider: 'local',
+      status: BookingStatus.CONFIRMED,
+      totalPrice: '400000.00',
+      currency: 'VND',
+    });
+    expect(result.confirmationCode).toMatch(/^LOC-[0-9A-F]{8}$/);
+    expect(days.find((d) => d.dayNumber === 3)).toMatchObject({
+      title: 'Day 3',
+    });
+    expect(activities[0]).toMatchObject({
+      title: 'Thang Long water puppet show',
+      time: '19:30',
+      duration: 50,
+      metadata: { attractionReservationId: result.id },
+    });
+    expect(result.activityId).toBe(activities[0].id);
+    expect(bookingSync.sync).toHaveBeenCalledWith(bookings[0].id, 'user-1');
+  });
+
+  it('keeps manual tickets pending until a confirmation code is known', async () => {
+    const pending = await service.create(trip.id, 'user-1', {
+      title: 'Temple of Literature entry',
+      date: '2026-11-01',
+    });
+    expect(pending.booking.status).toBe(BookingStatus.PENDING);
+    expect(pending.booking.provider).toBe('manual');
+
+    const confirmed = await service.update(trip.id, pending.id, 'user-1', {
+      confirmationCode: 'TL-123',
+    });
+    expect(confirmed.booking.status).toBe(BookingStatus.CONFIRMED);
+    expect(activities).toHaveLength(1);
+  });
+
+  it('rejects dates outside the trip before booking with the provider', async () => {
+    const reserve = jest.spyOn(LocalAttractionProvider.prototype, 'reserve');
+
+    await expect(
+      service.create(trip.id, 'user-1', {
+        providerItemId: 'LOC-HAN-001',
+        date: '2026-11-09',
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(reserve).not.toHaveBeenCalled();
+    expect(bookings).toHaveLength(0);
+  });
+
+  it('refuses to delete a reservation whose booking has payments', async () => {
+    const reservation = await service.create(trip.id, 'user-1', {
+      providerItemId: 'LOC-HAN-002',
+      date: '2026-11-03',
+    });
+    payments.push({ id: 'pay-1', bookingId: reservation.bookingId });
+
+    await expect(
+      service.remove(trip.id, reservation.id, 'user-1'),
+    ).rejects.toThrow('This reservation has payments');
+    expect(bookings).toHaveLength(1);
+    expect(bookingSync.remove).not.toHaveBeenCalled();
+  });
+
+  it('only accepts PDF and image attachments', async () => {
+    await expect(
+      service.addAttachment(trip.id, 'reservation-1', {
+        mimetype: 'application/zip',
+        size: 100,
+      } as Express.Multer.File),
+    ).rejects.toThrow(BadRequestException);
+    expect(cloudinary.uploadFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,498 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import {
+  AttractionReservationEntity,
+  ReservationAttachment,
+} from 'src/schemas/attraction-reservation.entity';
+import {
+  BookingEntity,
+  BookingStatus,
+  BookingType,
+} from 'src/schemas/booking.entity';
+import { ActivityEntity } from 'src/schemas/activity.entity';
+import { PaymentEntity } from 'src/schemas/payment.entity';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { CloudinaryService } from 'src/upload/services/cloudinary.service';
+import { BookingSyncService } from 'src/booking/booking-sync.service';
+import {
+  ATTRACTION_PROVIDERS,
+  AttractionProduct,
+  AttractionProvider,
+} from './providers/attraction-provider.interface';
+import { CreateAttractionReservationDto } from './dto/create-attraction-reservation.dto';
+import { UpdateAttractionReservationDto } from './dto/update-attraction-reservation.dto';
+import { AttractionCatalogueQueryDto } from './dto/attraction-catalogue-query.dto';
+import { toDateString } from 'src/shared/utils/date.util';
+
+const MANUAL_PROVIDER = 'manual';
+const DEFAULT_PROVIDER = 'local';
+const DEFAULT_TIME = '09:00';
+const MAX_ATTACHMENTS = 10;
+const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+const ATTACHMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+];
+
+/**
+ * Attraction and tour reservations of a trip. Each one is an ATTRACTION
+ * booking plus an activity on the itinerary day of the visit; the budget
+ * expense is kept by BookingSyncService.
+ */
+@Injectable()
+export class AttractionReservationService {
+  private readonly logger = new Logger(AttractionReservationService.name);
+
+  constructor(
+    @InjectRepository(AttractionReservationEntity)
+    private readonly reservationRepo: Repository<AttractionReservationEntity>,
+    @InjectRepository(TripEntity)
+    private readonly tripRepo: Repository<TripEntity>,
+    @Inject(ATTRACTION_PROVIDERS)
+    private readonly providers: AttractionProvider[],
+    private readonly cloudinaryService: CloudinaryService,
+    private readonly bookingSync: BookingSyncService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /** Search a catalogue, near the trip's destination unless a city is given */
+  async searchCatalogue(
+    tripId: string,
+    query: AttractionCatalogueQueryDto,
+  ): Promise<AttractionProduct[]> {
+    const provider = this.getProvider(query.provider ?? DEFAULT_PROVIDER);
+    let city = query.city;
+    if (!city) {
+      const trip = await this.tripRepo.findOne({
+        where: { id: tripId },
+        relations: ['primaryDestination'],
+      });
+      city = trip?.primaryDestination?.name;
+    }
+    return provider.search({ city, query: query.q });
+  }
+
+  async create(
+    tripId: string,
+    userId: string,
+    dto: CreateAttractionReservationDto,
+  ): Promise<AttractionReservationEntity> {
+    const trip = await this.findTrip(tripId);
+    const participants = dto.participants ?? 1;
+
+    let product: AttractionProduct | null = null;
+    let provider: AttractionProvider | null = null;
+    if (dto.providerItemId) {
+      provider = this.getProvider(dto.provider ?? DEFAULT_PROVIDER);
+      product = await provider.getProduct(dto.providerItemId);
+      if (!product) {
+        throw new NotFoundException(
+          `Product ${dto.providerItemId} not found at ${provider.name}`,
+        );
+      }
+      if (product.maxParticipants && participants > product.maxParticipants) {
+        throw new BadRequestException(
+          `${product.title} takes at most ${product.maxParticipants} participants`,
+        );
+      }
+    } else if (!dto.title) {
+      throw new BadRequestException(
+        'Provide a providerItemId to book, or a title for a manual ticket',
+      );
+    }
+    // Checked before booking so a bad date does not leave a paid order
+    this.dayNumberFor(trip, dto.date);
+
+    const reservationId = randomUUID();
+    let confirmationCode = dto.confirmationCode ?? null;
+    let providerPayload: Record<string, unknown> | undefined;
+    if (provider && product && !confirmationCode) {
+      const result = await provider.reserve({
+        product,
+        date: dto.date,
+        participants,
+        reference: reservationId,
+      });
+      confirmationCode = result.confirmationCode;
+      providerPayload = {
+        providerBookingId: result.providerBookingId,
+        ...result.payload,
+      };
+    }
+
+    const title = dto.title ?? product!.title;
+    const price =
+      dto.price ?? (product ? product.price * participants : undefined);
+    const category =
+      dto.category ?? product?.category ?? ActivityCategory.SIGHTSEEING;
+
+    await this.dataSource.transaction(async (manager) => {
+      const booking = await manager.getRepository(BookingEntity).save(
+        manager.getRepository(BookingEntity).create({
+          tripId,
+          userId,
+          type: BookingType.ATTRACTION,
+          provider: provider?.name ?? MANUAL_PROVIDER,
+          status: confirmationCode
+            ? BookingStatus.CONFIRMED
+            : BookingStatus.PENDING,
+          offerId: product?.providerItemId,
+          totalPrice: price?.toFixed(2),
+          currency: (
+            dto.currency ??
+            product?.currency ??
+            trip.currency
+          ).toUpperCase(),
+          providerPayload,
+        }),
+      );
+
+      const activity = await this.saveActivity(manager, trip, null, {
+        date: dto.date,
+        time: dto.time ?? DEFAULT_TIME,
+        title,
+        notes: dto.notes,
+        duration: product?.durationMinutes ?? null,
+        cost: price ?? null,
+        category,
+        metadata: {
+          attractionReservationId: reservationId,
+          bookingId: booking.id,
+          confirmationCode,
+        },
+      });
+
+      await manager.getRepository(AttractionReservationEntity).save(
+        manager.getRepository(AttractionReservationEntity).create({
+          id: reservationId,
+          bookingId: booking.id,
+          tripId,
+          activityId: activity.id,
+          title,
+          providerItemId: product?.providerItemId,
+          confirmationCode,
+          date: new Date(dto.date),
+          participants,
+          details: {
+            time: dto.time ?? DEFAULT_TIME,
+            category,
+            notes: dto.notes,
+            city: product?.city,
+          },
+          attachments: [],
+        }),
+      );
+    });
+
+    this.logger.log(
+      `Attraction reservation ${reservationId} created for trip ${tripId}`,
+    );
+    const created = await this.findOne(tripId, reservationId);
+    await this.bookingSync.sync(created.bookingId, userId);
+    return created;
+  }
+
+  async list(tripId: string): Promise<AttractionReservationEntity[]> {
+    return this.reservationRepo.find({
+      where: { tripId },
+      relations: ['booking', 'activity'],
+      order: { date: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  async findOne(
+    tripId: string,
+    id: string,
+  ): Promise<AttractionReservationEntity> {
+    const reservation = await this.reservationRepo.findOne({
+      where: { id, tripId },
+      relations: ['booking', 'activity'],
+    });
+    if (!reservation) {
+      throw new NotFoundException('Attraction reservation not found');
+    }
+    return reservation;
+  }
+
+  async update(
+    tripId: string,
+    id: string,
+    userId: string,
+    dto: UpdateAttractionReservationDto,
+  ): Promise<AttractionReservationEntity> {
+    const reservation = await this.findOne(tripId, id);
+    const trip = await this.findTrip(tripId);
+    const details = reservation.details ?? {};
+
+    const date = dto.date ?? toDateString(reservation.date);
+    if (!date) {
+      throw new BadRequestException('Reservation has no date to schedule');
+    }
+    this.dayNumberFor(trip, date);
+    const time = dto.time ?? (details.time as string) ?? DEFAULT_TIME;
+    const title = dto.title ?? reservation.title;
+    const notes = dto.notes ?? (details.notes as string | undefined);
+    const category =
+      dto.category ??
+      (details.category as ActivityCategory) ??
+      ActivityCategory.SIGHTSEEING;
+    const confirmationCode =
+      dto.confirmationCode ?? reservation.confirmationCode ?? null;
+    const price =
+      dto.price ??
+      (reservation.booking.totalPrice !== undefined &&
+      reservation.booking.totalPrice !== null
+        ? Number(reservation.booking.totalPrice)
+        : undefined);
+
+    await this.dataSource.transaction(async (manager) => {
+      const activity = await this.saveActivity(
+        manager,
+        trip,
+        reservation.activityId ?? null,
+        {
+          date,
+          time,
+          title,
+          notes,
+          duration: reservation.activity?.duration ?? null,
+          cost: price ?? null,
+          category,
+          metadata: {
+            attractionReservationId: reservation.id,
+            bookingId: reservation.bookingId,
+            confirmationCode,
+          },
+        },
+      );
+
+      await manager.update(
+        BookingEntity,
+        { id: reservation.bookingId },
+        {
+          totalPrice: price?.toFixed(2),
+          currency: (
+            dto.currency ?? reservation.booking.currency
+          ).toUpperCase(),
+          ...(confirmationCode &&
+            reservation.booking.status === BookingStatus.PENDING && {
+              status: BookingStatus.CONFIRMED,
+            }),
+        },
+      );
+      await manager.getRepository(AttractionReservationEntity).save({
+        id: reservation.id,
+        activityId: activity.id,
+        title,
+        confirmationCode,
+        date: new Date(date),
+        participants: dto.participants ?? reservation.participants,
+        details: { ...details, time, category, notes },
+      });
+    });
+
+    await this.bookingSync.sync(reservation.bookingId, userId);
+    return this.findOne(tripId, id);
+  }
+
+  /**
+   * Delete the reservation with its booking, activity, expense and files.
+   * Bookings made through a provider are not cancelled there. Reservations
+   * with payments are refused, since deleting the booking would drop its
+   * payment ledger: cancel the booking instead.
+   */
+  async remove(
+    tripId: string,
+    id: string,
+    userId: string,
+  ): Promise<{ deleted: true }> {
+    const reservation = await this.findOne(tripId, id);
+
+    await this.dataSource.transaction(async (manager) => {
+      const payments = await manager.getRepository(PaymentEntity).count({
+        where: { bookingId: reservation.bookingId },
+      });
+      if (payments) {
+        throw new BadRequestException(
+          'This reservation has payments. Cancel its booking instead',
+        );
+      }
+      if (reservation.activityId) {
+        await manager.delete(ActivityEntity, { id: reservation.activityId });
+      }
+      await manager.delete(BookingEntity, { id: reservation.bookingId });
+    });
+    await this.bookingSync.remove(tripId, reservation.bookingId, userId);
+    for (const attachment of reservation.attachments ?? []) {
+      await this.cloudinaryService.deleteFile(attachment.publicId);
+    }
+    return { deleted: true };
+  }
+
+  /** Attach a ticket or voucher (PDF or image) to a reservation */
+  async addAttachment(
+    tripId: string,
+    id: string,
+    file: Express.Multer.File,
+  ): Promise<AttractionReservationEntity> {
+    if (!file) throw new BadRequestException('No file provided');
+    if (!ATTACHMENT_MIME_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException(
+        'Attachments must be PDF, JPEG, PNG or WebP files',
+      );
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new BadRequestException('Attachments must be 5MB or smaller');
+    }
+
+    const reservation = await this.findOne(tripId, id);
+    const attachments = reservation.attachments ?? [];
+    if (attachments.length >= MAX_ATTACHMENTS) {
+      throw new BadRequestException(
+        `A reservation can have at most ${MAX_ATTACHMENTS} attachments`,
+      );
+    }
+
+    const uploaded = await this.cloudinaryService.uploadFile(
+      file,
+      `tripmaster/trips/${tripId}/tickets`,
+    );
+    const attachment: ReservationAttachment = {
+      id: randomUUID(),
+      publicId: uploaded.publicId,
+      url: uploaded.secureUrl,
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      uploadedAt: new Date().toISOString(),
+    };
+    await this.reservationRepo.update(reservation.id, {
+      attachments: [...attachments, attachment],
+    });
+    return this.findOne(tripId, id);
+  }
+
+  async removeAttachment(
+    tripId: string,
+    id: string,
+    attachmentId: string,
+  ): Promise<AttractionReservationEntity> {
+    const reservation = await this.findOne(tripId, id);
+    const attachments = reservation.attachments ?? [];
+    const attachment = attachments.find((a) => a.id === attachmentId);
+    if (!attachment) throw new NotFoundException('Attachment not found');
+
+    await this.cloudinaryService.deleteFile(attachment.publicId);
+    await this.reservationRepo.update(reservation.id, {
+      attachments: attachments.filter((a) => a.id !== attachmentId),
+    });
+    return this.findOne(tripId, id);
+  }
+
+  /**
+   * Create or move the itinerary activity of a reservation, creating the
+   * itinerary day when the trip has none for that date yet
+   */
+  private async saveActivity(
+    manager: EntityManager,
+    trip: TripEntity,
+    activityId: string | null,
+    fields: {
+      date: string;
+      time: string;
+      title: string;
+      notes?: string;
+      duration: number | null;
+      cost: number | null;
+      category: ActivityCategory;
+      metadata: Record<string, unknown>;
+    },
+  ): Promise<ActivityEntity> {
+    const itineraryRepo = manager.getRepository(ItineraryEntity);
+    const activityRepo = manager.getRepository(ActivityEntity);
+    const dayNumber = this.dayNumberFor(trip, fields.date);
+
+    let day = await itineraryRepo.findOne({
+      where: { tripId: trip.id, dayNumber },
+    });
+    if (!day) {
+      day = await itineraryRepo.save(
+        itineraryRepo.create({
+          tripId: trip.id,
+          dayNumber,
+          date: new Date(fields.date),
+          title: `Day ${dayNumber}`,
+        }),
+      );
+    }
+
+    const existing = activityId
+      ? await activityRepo.findOne({ where: { id: activityId } })
+      : null;
+    const orderIndex =
+      existing?.itineraryId === day.id
+        ? existing.orderIndex
+        : await activityRepo.count({ where: { itineraryId: day.id } });
+
+    return activityRepo.save({
+      ...(existing ?? {}),
+      itineraryId: day.id,
+      time: fields.time,
+      title: fields.title,
+      description: fields.notes,
+      duration: fields.duration,
+      cost: fields.cost,
+      type: fields.category,
+      orderIndex,
+      metadata: { ...(existing?.metadata ?? {}), ...fields.metadata },
+    });
+  }
+
+  /** Itinerary day number of a date; the date must fall within the trip */
+  private dayNumberFor(trip: TripEntity, date: string): number {
+    const start = toDateString(trip.startDate);
+    if (!start) {
+      throw new BadRequestException(
+        'Set the trip dates before adding reservations',
+      );
+    }
+    const dayNumber =
+      Math.round((Date.parse(date) - Date.parse(start)) / 86_400_000) + 1;
+    const end = toDateString(trip.endDate);
+    if (dayNumber < 1 || (end && date > end)) {
+      throw new BadRequestException(
+        `${date} is outside the trip dates (${start} to ${end ?? 'open'})`,
+      );
+    }
+    return dayNumber;
+  }
+
+  private getProvider(name: string): AttractionProvider {
+    const provider = this.providers.find((p) => p.name === name);
+    if (!provider) {
+      throw new NotFoundException(
+        `Attraction provider ${name} is not available`,
+      );
+    }
+    return provider;
+  }
+
+  private async findTrip(tripId: string): Promise<TripEntity> {
+    const trip = await this.tripRepo.findOne({ where: { id: tripId } });
+    if (!trip) throw new NotFoundException('Trip not found');
+    return trip;
+  }
+}
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AttractionReservationService } from './attraction-reservation.service';
+import { AttractionReservationController } from './attraction-reservation.controller';
+import { ATTRACTION_PROVIDERS } from './providers/attraction-provider.interface';
+import { LocalAttractionProvider } from './providers/local-attraction.provider';
+import { AttractionReservationEntity } from '../schemas/attraction-reservation.entity';
+import { BookingEntity } from '../schemas/booking.entity';
+import { ActivityEntity } from '../schemas/activity.entity';
+import { ItineraryEntity } from '../schemas/itinerary.entity';
+import { TripEntity } from '../schemas/trip.entity';
+import { UploadModule } from '../upload/upload.module';
+import { TripAccessModule } from '../trip/access/trip-access.module';
+import { BookingSyncModule } from '../booking/booking-sync.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      AttractionReservationEntity,
+      BookingEntity,
+      ActivityEntity,
+      ItineraryEntity,
+      TripEntity,
+    ]),
+    UploadModule,
+    TripAccessModule,
+    BookingSyncModule,
+  ],
+  controllers: [AttractionReservationController],
+  providers: [
+    LocalAttractionProvider,
+    {
+      provide: ATTRACTION_PROVIDERS,
+      useFactory: (local: LocalAttractionProvider) => [local],
+      inject: [LocalAttractionProvider],
+    },
+    AttractionReservationService,
+  ],
+  exports: [AttractionReservationService],
+})
+export class AttractionsModule {}
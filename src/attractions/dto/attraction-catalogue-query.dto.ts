@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, Length } from 'class-validator';
+
+export class AttractionCatalogueQueryDto {
+  @ApiPropertyOptional({ default: 'local', description: 'Catalogue provider' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  provider?: string;
+
+  @ApiPropertyOptional({
+    example: 'Hanoi',
+    description: "Defaults to the trip's primary destination",
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  city?: string;
+
+  @ApiPropertyOptional({ example: 'food tour', description: 'Free text' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  q?: string;
+}
@@ -0,0 +1,92 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+
+/**
+ * Reserve a catalogue product (`providerItemId`) or record a ticket bought
+ * elsewhere (`title`, usually with a `confirmationCode`)
+ */
+export class CreateAttractionReservationDto {
+  @ApiPropertyOptional({
+    default: 'local',
+    description: 'Catalogue provider of providerItemId',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  provider?: string;
+
+  @ApiPropertyOptional({ example: 'LOC-HAN-001' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  providerItemId?: string;
+
+  @ApiPropertyOptional({
+    maxLength: 255,
+    description: 'Required for manual tickets',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  title?: string;
+
+  @ApiProperty({ example: '2026-03-02' })
+  @IsDateString({ strict: true })
+  date!: string;
+
+  @ApiPropertyOptional({ example: '09:00', description: 'HH:mm (24h)' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^([01]\d|2[0-3]):([0-5]\d)$/)
+  time?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  participants?: number;
+
+  @ApiPropertyOptional({ example: 'GYG-8F3K2' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  confirmationCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Total paid; defaults to the catalogue price',
+  })
+  @IsOptional()
+  @IsNumber({ allowInfinity: false, allowNaN: false, maxDecimalPlaces: 2 })
+  @Min(0)
+  price?: number;
+
+  @ApiPropertyOptional({ example: 'VND', description: 'ISO 4217' })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiPropertyOptional({ enum: ActivityCategory })
+  @IsOptional()
+  @IsEnum(ActivityCategory)
+  category?: ActivityCategory;
+
+  @ApiPropertyOptional({ maxLength: 2000 })
+  @IsOptional()
+  @IsString()
+  @Length(0, 2000)
+  notes?: string;
+}
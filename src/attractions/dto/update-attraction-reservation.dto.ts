@@ -0,0 +1,13 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateAttractionReservationDto } from './create-attraction-reservation.dto';
+
+/**
+ * Editable fields of a reservation. Date and time changes move its
+ * itinerary activity along.
+ */
+export class UpdateAttractionReservationDto extends PartialType(
+  OmitType(CreateAttractionReservationDto, [
+    'provider',
+    'providerItemId',
+  ] as const),
+) {}
@@ -0,0 +1,48 @@
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+
+/** Injection token for the list of registered catalogue providers */
+export const ATTRACTION_PROVIDERS = Symbol('ATTRACTION_PROVIDERS');
+
+export interface AttractionProduct {
+  provider: string;
+  providerItemId: string;
+  title: string;
+  description?: string;
+  city: string;
+  category: ActivityCategory;
+  durationMinutes?: number;
+  /** Price per participant */
+  price: number;
+  currency: string;
+  maxParticipants?: number;
+}
+
+export interface AttractionSearchQuery {
+  city?: string;
+  query?: string;
+}
+
+export interface AttractionBookingRequest {
+  product: AttractionProduct;
+  date: string;
+  participants: number;
+  /** Our reservation reference, for the provider's records */
+  reference: string;
+}
+
+export interface AttractionBookingResult {
+  confirmationCode: string;
+  providerBookingId?: string;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Activity catalogue such as Klook or GetYourGuide. Implementations are
+ * registered under `ATTRACTION_PROVIDERS` and picked by `name`.
+ */
+export interface AttractionProvider {
+  readonly name: string;
+  search(query: AttractionSearchQuery): Promise<AttractionProduct[]>;
+  getProduct(providerItemId: string): Promise<AttractionProduct | null>;
+  reserve(request: AttractionBookingRequest): Promise<AttractionBookingResult>;
+}
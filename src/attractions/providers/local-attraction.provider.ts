@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import {
+  AttractionBookingRequest,
+  AttractionBookingResult,
+  AttractionProduct,
+  AttractionProvider,
+  AttractionSearchQuery,
+} from './attraction-provider.interface';
+
+const LOCAL_PROVIDER = 'local';
+
+const CATALOGUE: Omit<AttractionProduct, 'provider'>[] = [
+  {
+    providerItemId: 'LOC-HAN-001',
+    title: 'Hanoi Old Quarter street food walking tour',
+    description: 'Evening tasting walk through the 36 streets',
+    city: 'Hanoi',
+    category: ActivityCategory.FOOD,
+    durationMinutes: 180,
+    price: 650000,
+    currency: 'VND',
+    maxParticipants: 12,
+  },
+  {
+    providerItemId: 'LOC-HAN-002',
+    title: 'Thang Long water puppet show',
+    city: 'Hanoi',
+    category: ActivityCategory.ENTERTAINMENT,
+    durationMinutes: 50,
+    price: 200000,
+    currency: 'VND',
+  },
+  {
+    providerItemId: 'LOC-HLB-001',
+    title: 'Ha Long Bay day cruise with kayaking',
+    description: 'Lunch on board, Sung Sot cave and kayaking',
+    city: 'Ha Long',
+    category: ActivityCategory.NATURE,
+    durationMinutes: 480,
+    price: 1200000,
+    currency: 'VND',
+    maxParticipants: 20,
+  },
+  {
+    providerItemId: 'LOC-HCM-001',
+    title: 'Cu Chi tunnels half-day tour',
+    city: 'Ho Chi Minh City',
+    category: ActivityCategory.HISTORICAL,
+    durationMinutes: 300,
+    price: 550000,
+    currency: 'VND',
+    maxParticipants: 15,
+  },
+  {
+    providerItemId: 'LOC-DAD-001',
+    title: 'Ba Na Hills and Golden Bridge ticket',
+    city: 'Da Nang',
+    category: ActivityCategory.SIGHTSEEING,
+    price: 900000,
+    currency: 'VND',
+  },
+  {
+    providerItemId: 'LOC-HOI-001',
+    title: 'Hoi An lantern-making workshop',
+    city: 'Hoi An',
+    category: ActivityCategory.CULTURAL,
+    durationMinutes: 90,
+    price: 300000,
+    currency: 'VND',
+    maxParticipants: 8,
+  },
+];
+
+const normalize = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+/**
+ * Offline catalogue for development and tests. Every reservation is
+ * confirmed immediately with a generated code.
+ */
+@Injectable()
+export class LocalAttractionProvider implements AttractionProvider {
+  readonly name = LOCAL_PROVIDER;
+
+  search(query: AttractionSearchQuery): Promise<AttractionProduct[]> {
+    const city = query.city ? normalize(query.city) : undefined;
+    const text = query.query ? normalize(query.query) : undefined;
+    return Promise.resolve(
+      this.products().filter(
+        (p) =>
+          (!city || normalize(p.city).includes(city)) &&
+          (!text ||
+            normalize(`${p.title} ${p.description ?? ''}`).includes(text)),
+      ),
+    );
+  }
+
+  getProduct(providerItemId: string): Promise<AttractionProduct | null> {
+    return Promise.resolve(
+      this.products().find((p) => p.providerItemId === providerItemId) ?? null,
+    );
+  }
+
+  reserve(request: AttractionBookingRequest): Promise<AttractionBookingResult> {
+    const code = `LOC-${randomBytes(4).toString('hex').toUpperCase()}`;
+    return Promise.resolve({
+      confirmationCode: code,
+      providerBookingId: code,
+      payload: { reference: request.reference, local: true },
+    });
+  }
+
+  private products(): AttractionProduct[] {
+    return CATALOGUE.map((p) => ({ ...p, provider: LOCAL_PROVIDER }));
+  }
+}
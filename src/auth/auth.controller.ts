@@ -7,6 +7,9 @@ import {
   Get,
   Query,
   UseGuards,
+  Delete,
+  Param,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { Response, Request } from 'express';
 import { AuthService } from './auth.service';
@@ -22,16 +25,23 @@ import {
 import { ResponseUtil } from '../shared/utils/response.util';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
 import {
   BaseResponse,
   SecureAuthResponseData,
 } from '../shared/types/base-response.types';
-import { VerificationSuccessResponseDto } from '../shared/dto/response.dto';
+import {
+  PasswordResetSuccessResponseDto,
+  VerificationSuccessResponseDto,
+} from '../shared/dto/response.dto';
 import { LogoutSuccessResponseDto } from '../shared/dto/response.dto';
 import { AuthGuard } from '@nestjs/passport';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
 import { ConfigService } from '@nestjs/config';
 import { UserEntity } from '../schemas/user.entity';
 import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { getSessionClientInfo } from './utils/session-client.util';
 
 @ApiTags('Authentication')
 @Controller('auth')
@@ -68,6 +78,38 @@ export class AuthController {
     return await this.authService.resendVerification(dto);
   }
 
+  @ApiOperation({
+    summary: 'Request a password reset email',
+    description:
+      'Always returns the same response, whether or not the account exists.',
+  })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  @Public()
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 3, ttl: 15 * 60 * 1000 } })
+  @Post('forgot-password')
+  async forgotPassword(@Body() dto: ForgotPasswordDto) {
+    return await this.authService.forgotPassword(dto);
+  }
+
+  @ApiOperation({
+    summary: 'Set a new password using a reset token',
+    description: 'Revokes every refresh token of the account on success.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password reset',
+    type: PasswordResetSuccessResponseDto,
+  })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  @Public()
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 15 * 60 * 1000 } })
+  @Post('reset-password')
+  async resetPassword(@Body() dto: ResetPasswordDto) {
+    return await this.authService.resetPassword(dto);
+  }
+
   @ApiOperation({
     summary: 'Login and receive access token + HttpOnly refresh cookie',
   })
@@ -75,9 +117,10 @@ export class AuthController {
   @Post('login')
   async login(
     @Body() dto: LoginDto,
+    @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ): Promise<BaseResponse<SecureAuthResponseData>> {
-    return this.authService.login(dto, res);
+    return this.authService.login(dto, res, getSessionClientInfo(req));
   }
 
   @ApiOperation({
@@ -93,6 +136,7 @@ export class AuthController {
     return this.authService.refresh(
       req as unknown as { cookies?: Record<string, string> },
       res,
+      getSessionClientInfo(req),
     );
   }
 
@@ -123,6 +167,41 @@ export class AuthController {
     return ResponseUtil.success({ id: req.user.id });
   }
 
+  @ApiOperation({
+    summary: 'List active sessions (devices) of the current user',
+  })
+  @ApiBearerAuth()
+  @Get('sessions')
+  async listSessions(@Req() req: AuthenticatedRequest) {
+    const sessions = await this.authService.listSessions(
+      req.user.id,
+      req.user.refreshTokenId,
+    );
+    return ResponseUtil.success({ sessions });
+  }
+
+  @ApiOperation({ summary: 'Revoke all sessions except the current one' })
+  @ApiBearerAuth()
+  @Post('sessions/revoke-others')
+  async revokeOtherSessions(@Req() req: AuthenticatedRequest) {
+    const result = await this.authService.revokeOtherSessions(
+      req.user.id,
+      req.user.refreshTokenId,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  @ApiOperation({ summary: 'Revoke one session' })
+  @ApiBearerAuth()
+  @Delete('sessions/:id')
+  async revokeSession(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const result = await this.authService.revokeSession(req.user.id, id);
+    return ResponseUtil.success(result);
+  }
+
   // Google OAuth Login
   @ApiOperation({ summary: 'Google OAuth Login' })
   @UseGuards(AuthGuard('google'))
@@ -144,7 +223,11 @@ export class AuthController {
         .status(401)
         .send('Authentication failed: No user information received.');
     }
-    await this.authService.createSessionForUser(user, res);
+    await this.authService.createSessionForUser(
+      user,
+      res,
+      getSessionClientInfo(req),
+    );
     return res.redirect(
       this.configService.getOrThrow<string>('FRONTEND_URL') ||
         'http://localhost:3001',
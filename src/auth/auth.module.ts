@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { PassportModule } from '@nestjs/passport';
 import { JwtModule } from '@nestjs/jwt';
+import { ThrottlerModule } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { RefreshTokenEntity } from '../schemas/refresh-token.entity';
@@ -22,6 +23,8 @@ import { GoogleStrategy } from 'src/auth/strategies/google.strategy';
     UserModule,
     // JwtModule already registered globally in SharedModule; keep here if needed for local overrides
     JwtModule.register({}),
+    // Per-IP limits for the routes guarded with ThrottlerGuard
+    ThrottlerModule.forRoot([{ ttl: 60 * 1000, limit: 10 }]),
   ],
   controllers: [AuthController],
   providers: [
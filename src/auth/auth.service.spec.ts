@@ -0,0 +1,284 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Response } from 'express';
+import * as crypto from 'crypto';
+import { AuthService } from './auth.service';
+import { UserService } from '../users/user.service';
+import { EmailService } from '../email/email.service';
+import { RefreshTokenEntity } from '../schemas/refresh-token.entity';
+
+const sha256 = (value: string) =>
+  crypto.createHash('sha256').update(value).digest('hex');
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const mockUserService = {
+    findByEmail: jest.fn(),
+    setPasswordResetToken: jest.fn(),
+    resetPassword: jest.fn(),
+    transformToProfileData: jest.fn(),
+  };
+  const mockEmailService = {
+    sendPasswordResetEmail: jest.fn(),
+  };
+  const mockRefreshRepo = {
+    update: jest.fn(),
+    insert: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+  const mockResponse = {
+    cookie: jest.fn(),
+    clearCookie: jest.fn(),
+  } as unknown as Response;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: UserService, useValue: mockUserService },
+        { provide: EmailService, useValue: mockEmailService },
+        {
+          provide: JwtService,
+          useValue: { signAsync: jest.fn().mockResolvedValue('access') },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        {
+          provide: getRepositoryToken(RefreshTokenEntity),
+          useValue: mockRefreshRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  describe('forgotPassword', () => {
+    it('returns the same response when the account does not exist', async () => {
+      mockUserService.findByEmail.mockResolvedValue(null);
+
+      const result = await service.forgotPassword({ email: 'no@example.com' });
+
+      expect(result.data).toEqual({ requested: true });
+      expect(mockUserService.setPasswordResetToken).not.toHaveBeenCalled();
+      expect(mockEmailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it('stores a hash of the token and emails the raw token', async () => {
+      mockUserService.findByEmail.mockResolvedValue({
+        id: 'user-1',
+        email: 'john@example.com',
+        firstName: 'John',
+      });
+
+      const result = await service.forgotPassword({
+        email: 'john@example.com',
+      });
+
+      expect(result.data).toEqual({ requested: true });
+      const [, storedToken] = mockUserService.setPasswordResetToken.mock
+        .calls[0] as [string, string];
+      const [, sentToken] = mockEmailService.sendPasswordResetEmail.mock
+        .calls[0] as [string, string];
+      expect(storedToken).not.toBe(sentToken);
+      expect(storedToken).toBe(sha256(sentToken));
+    });
+
+    it('does not send another email during the cooldown', async () => {
+      mockUserService.findByEmail.mockResolvedValue({
+        id: 'user-1',
+        email: 'john@example.com',
+        passwordResetExpires: new Date(Date.now() + 59 * 60 * 1000),
+      });
+
+      const result = await service.forgotPassword({
+        email: 'john@example.com',
+      });
+
+      expect(result.data).toEqual({ requested: true });
+      expect(mockEmailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('looks up the hashed token and revokes all refresh tokens', async () => {
+      mockUserService.resetPassword.mockResolvedValue({ id: 'user-1' });
+
+      const result = await service.resetPassword({
+        token: 'raw-reset-token-value',
+        newPassword: 'N3w!Passw0rd',
+      });
+
+      expect(result.result).toBe('OK');
+      expect(mockUserService.resetPassword).toHaveBeenCalledWith(
+        sha256('raw-reset-token-value'),
+        'N3w!Passw0rd',
+      );
+      expect(mockRefreshRepo.update).toHaveBeenCalledWith(
+        { userId: 'user-1', isRevoked: false },
+        expect.objectContaining({ isRevoked: true }),
+      );
+    });
+
+    it('returns an error and keeps sessions for an invalid token', async () => {
+      mockUserService.resetPassword.mockResolvedValue(null);
+
+      const result = await service.resetPassword({
+        token: 'expired-reset-token',
+        newPassword: 'N3w!Passw0rd',
+      });
+
+      expect(result.result).toBe('NG');
+      expect(mockRefreshRepo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    const user = { id: 'user-1', email: 'john@example.com' };
+    const request = { cookies: { refreshToken: 'raw-refresh-token' } };
+
+    it('rotates the token within its family and keeps client info', async () => {
+      mockRefreshRepo.findOne.mockResolvedValue({
+        id: 'rt-1',
+        familyId: 'family-1',
+        isValid: true,
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0',
+        ipAddress: '10.0.0.1',
+        user,
+      });
+      mockRefreshRepo.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.refresh(request, mockResponse, {
+        ipAddress: '10.0.0.2',
+      });
+
+      expect(result.data.access_token).toBe('access');
+      const [criteria, changes] = mockRefreshRepo.update.mock.calls[0] as [
+        Record<string, unknown>,
+        Record<string, unknown>,
+      ];
+      expect(criteria).toEqual({ id: 'rt-1', isRevoked: false });
+      const inserted = mockRefreshRepo.insert.mock.calls[0][0] as Record<
+        string,
+        unknown
+      >;
+      expect(changes.replacedById).toBe(inserted.id);
+      expect(inserted).toMatchObject({
+        familyId: 'family-1',
+        userId: 'user-1',
+        ipAddress: '10.0.0.2',
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0',
+      });
+    });
+
+    it('revokes the whole family when a rotated token is presented', async () => {
+      mockRefreshRepo.findOne.mockResolvedValue({
+        id: 'rt-1',
+        familyId: 'family-1',
+        isValid: false,
+        replacedById: 'rt-2',
+        user,
+      });
+
+      await expect(service.refresh(request, mockResponse)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockRefreshRepo.update).toHaveBeenCalledWith(
+        { familyId: 'family-1', isRevoked: false },
+        expect.objectContaining({ isRevoked: true }),
+      );
+      expect(mockRefreshRepo.insert).not.toHaveBeenCalled();
+    });
+
+    it('treats losing a concurrent rotation as reuse', async () => {
+      mockRefreshRepo.findOne.mockResolvedValue({
+        id: 'rt-1',
+        familyId: 'family-1',
+        isValid: true,
+        user,
+      });
+      mockRefreshRepo.update.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(service.refresh(request, mockResponse)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockRefreshRepo.update).toHaveBeenLastCalledWith(
+        { familyId: 'family-1', isRevoked: false },
+        expect.objectContaining({ isRevoked: true }),
+      );
+      expect(mockRefreshRepo.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sessions', () => {
+    it('lists active sessions and flags the current family', async () => {
+      const older = new Date('2026-01-01T00:00:00Z');
+      const newer = new Date('2026-01-02T00:00:00Z');
+      mockRefreshRepo.find.mockResolvedValue([
+        {
+          id: 'rt-a',
+          familyId: 'family-a',
+          userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0) Safari/604.1',
+          createdAt: older,
+          expiresAt: newer,
+        },
+        {
+          id: 'rt-b',
+          familyId: 'family-b',
+          createdAt: older,
+          lastUsedAt: newer,
+          expiresAt: newer,
+        },
+      ]);
+      mockRefreshRepo.findOne.mockResolvedValue({
+        id: 'rt-a-old',
+        familyId: 'family-a',
+      });
+
+      const sessions = await service.listSessions('user-1', 'rt-a-old');
+
+      expect(sessions.map((x) => x.id)).toEqual(['rt-b', 'rt-a']);
+      expect(sessions[1]).toMatchObject({
+        current: true,
+        device: 'Safari on iOS',
+      });
+      expect(sessions[0]).toMatchObject({
+        current: false,
+        device: 'Unknown device',
+      });
+    });
+
+    it('revokes other sessions but keeps the current family', async () => {
+      mockRefreshRepo.findOne.mockResolvedValue({
+        id: 'rt-a',
+        familyId: 'family-a',
+      });
+      mockRefreshRepo.update.mockResolvedValue({ affected: 2 });
+
+      const result = await service.revokeOtherSessions('user-1', 'rt-a');
+
+      expect(result).toEqual({ revoked: 2 });
+      const [criteria] = mockRefreshRepo.update.mock.calls[0] as [
+        { familyId: { value: string } },
+      ];
+      expect(criteria.familyId.value).toBe('family-a');
+    });
+
+    it('does not revoke a session of another user', async () => {
+      mockRefreshRepo.findOne.mockResolvedValue(null);
+
+      await expect(service.revokeSession('user-1', 'rt-x')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockRefreshRepo.findOne).toHaveBeenCalledWith({
+        where: { id: 'rt-x', userId: 'user-1' },
+      });
+      expect(mockRefreshRepo.update).not.toHaveBeenCalled();
+    });
+  });
+});
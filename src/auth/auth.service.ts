@@ -3,11 +3,12 @@ import {
   UnauthorizedException,
   ForbiddenException,
   ConflictException,
+  NotFoundException,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { MoreThan, Not, Repository } from 'typeorm';
 import { v4 as uuid } from 'uuid';
 import { UserService } from '../users/user.service';
 import { UserEntity } from '../schemas/user.entity';
@@ -16,6 +17,8 @@ import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
 import { Response } from 'express';
 import { ResponseUtil } from '../shared/utils/response.util';
 import {
@@ -28,6 +31,8 @@ import { ErrorResponseData } from '../shared/types/base-response.types';
 import { EmailService } from '../email/email.service';
 import { Profile } from 'passport-google-oauth20';
 import * as crypto from 'crypto';
+import { SessionClientInfo, SessionData } from './types/session.types';
+import { describeUserAgent } from './utils/session-client.util';
 
 interface TokenPair {
   accessToken: string;
@@ -35,9 +40,21 @@ interface TokenPair {
   refreshTokenExpires: Date;
 }
 
+interface IssueTokenOptions {
+  /** Pre-generated id, used when rotating so the old row can point to it */
+  id?: string;
+  /** Family of the rotated token; a new login starts a new family */
+  familyId?: string;
+  client?: SessionClientInfo;
+}
+
 @Injectable()
 export class AuthService {
   private readonly refreshCookieName = 'refreshToken';
+  /** Minimum delay before another reset email goes to the same account */
+  private readonly passwordResetCooldownMs = 2 * 60 * 1000;
+  /** Lifetime set by UserService.setPasswordResetToken */
+  private readonly passwordResetTtlMs = 60 * 60 * 1000;
 
   constructor(
     private readonly userService: UserService,
@@ -134,9 +151,52 @@ export class AuthService {
     return ResponseUtil.success<{ requested: boolean }>({ requested: true });
   }
 
+  async forgotPassword(
+    dto: ForgotPasswordDto,
+  ): Promise<BaseResponse<{ requested: boolean }>> {
+    const user = await this.userService.findByEmail(dto.email);
+    // Cùng một response cho mọi trường hợp để tránh email enumeration
+    if (!user || this.isPasswordResetCoolingDown(user)) {
+      return ResponseUtil.success({ requested: true });
+    }
+    const token = uuid().replace(/-/g, '') + uuid().replace(/-/g, '');
+    await this.userService.setPasswordResetToken(
+      user.email,
+      this.hashToken(token),
+    );
+    void this.emailService.sendPasswordResetEmail(
+      user.email,
+      token,
+      user.firstName,
+      'vi',
+    );
+    return ResponseUtil.success({ requested: true });
+  }
+
+  async resetPassword(
+    dto: ResetPasswordDto,
+  ): Promise<BaseResponse<{ reset: boolean } | ErrorResponseData>> {
+    const user = await this.userService.resetPassword(
+      this.hashToken(dto.token),
+      dto.newPassword,
+    );
+    if (!user) {
+      return ResponseUtil.error(
+        'Token đặt lại mật khẩu không hợp lệ hoặc đã hết hạn',
+      );
+    }
+    // Đăng xuất mọi thiết bị sau khi đổi mật khẩu
+    await this.refreshRepo.update(
+      { userId: user.id, isRevoked: false },
+      { isRevoked: true, lastUsedAt: new Date() },
+    );
+    return ResponseUtil.success<{ reset: boolean }>({ reset: true });
+  }
+
   async login(
     dto: LoginDto,
     res: Response,
+    client?: SessionClientInfo,
   ): Promise<BaseResponse<SecureAuthResponseData>> {
     const user = await this.userService.findByEmail(dto.email);
     if (!user) {
@@ -160,7 +220,7 @@ export class AuthService {
     user.lastLoginAt = new Date();
     await this.userService.saveUser(user);
 
-    const tokenPair = await this.issueTokenPair(user);
+    const tokenPair = await this.issueTokenPair(user, { client });
     this.setRefreshCookie(
       res,
       tokenPair.refreshToken,
@@ -180,31 +240,41 @@ export class AuthService {
       user?: { id: string; role: UserRole; email: string };
     },
     res: Response,
+    client?: SessionClientInfo,
   ): Promise<BaseResponse<SecureAuthResponseData>> {
     const refreshTokenValue = req.cookies?.[this.refreshCookieName];
     if (!refreshTokenValue) {
       throw new UnauthorizedException('Thiếu refresh token');
     }
-    const hashed = crypto
-      .createHash('sha256')
-      .update(refreshTokenValue)
-      .digest('hex');
     const existing = await this.refreshRepo.findOne({
-      where: { token: hashed, isRevoked: false },
+      where: { token: this.hashToken(refreshTokenValue) },
       relations: ['user'],
     });
+    if (existing?.replacedById) {
+      await this.revokeReusedFamily(existing, res);
+    }
     if (!existing || !existing.isValid) {
       throw new UnauthorizedException('Refresh token không hợp lệ');
     }
-    const user = existing.user;
-    const rotate = true; // always rotate for security
-    if (rotate) {
-      // Revoke the previous refresh token when rotating
-      existing.isRevoked = true;
-      existing.lastUsedAt = new Date();
-      await this.refreshRepo.save(existing);
+    // Always rotate. The conditional update makes the old token single-use
+    // even when two refresh calls race.
+    const nextId = uuid();
+    const claimed = await this.refreshRepo.update(
+      { id: existing.id, isRevoked: false },
+      { isRevoked: true, lastUsedAt: new Date(), replacedById: nextId },
+    );
+    if (!claimed.affected) {
+      await this.revokeReusedFamily(existing, res);
     }
-    const tokenPair = await this.issueTokenPair(user);
+    const user = existing.user;
+    const tokenPair = await this.issueTokenPair(user, {
+      id: nextId,
+      familyId: existing.familyId,
+      client: {
+        userAgent: client?.userAgent ?? existing.userAgent ?? undefined,
+        ipAddress: client?.ipAddress ?? existing.ipAddress ?? undefined,
+      },
+    });
     this.setRefreshCookie(
       res,
       tokenPair.refreshToken,
@@ -222,12 +292,8 @@ export class AuthService {
   ): Promise<BaseResponse<{ logout: boolean }>> {
     const refreshTokenValue = req.cookies?.[this.refreshCookieName];
     if (refreshTokenValue) {
-      const hashed = crypto
-        .createHash('sha256')
-        .update(refreshTokenValue)
-        .digest('hex');
       await this.refreshRepo.update(
-        { token: hashed },
+        { token: this.hashToken(refreshTokenValue) },
         { isRevoked: true, lastUsedAt: new Date() },
       );
     }
@@ -235,11 +301,76 @@ export class AuthService {
     return ResponseUtil.success({ logout: true });
   }
 
+  /**
+   * Active sessions of the user, newest activity first. `currentTokenId` is
+   * the `rtj` claim of the caller's access token.
+   */
+  async listSessions(
+    userId: string,
+    currentTokenId?: string,
+  ): Promise<SessionData[]> {
+    const tokens = await this.refreshRepo.find({
+      where: { userId, isRevoked: false, expiresAt: MoreThan(new Date()) },
+      order: { createdAt: 'DESC' },
+    });
+    const currentFamilyId = await this.findFamilyId(userId, currentTokenId);
+    return tokens
+      .map((token) => ({
+        id: token.id,
+        device: describeUserAgent(token.userAgent),
+        userAgent: token.userAgent ?? null,
+        ipAddress: token.ipAddress ?? null,
+        createdAt: token.createdAt,
+        // A rotated token's successor is created at the moment of use
+        lastUsedAt: token.lastUsedAt ?? token.createdAt,
+        expiresAt: token.expiresAt,
+        current: !!currentFamilyId && token.familyId === currentFamilyId,
+      }))
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
+
+  /** End one session of the user, including any token rotated from it */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<{ revoked: boolean }> {
+    const token = await this.refreshRepo.findOne({
+      where: { id: sessionId, userId },
+    });
+    if (!token) {
+      throw new NotFoundException('Session not found');
+    }
+    await this.refreshRepo.update(
+      { familyId: token.familyId, isRevoked: false },
+      { isRevoked: true, lastUsedAt: new Date() },
+    );
+    return { revoked: true };
+  }
+
+  /** End every session of the user except the one making the request */
+  async revokeOtherSessions(
+    userId: string,
+    currentTokenId?: string,
+  ): Promise<{ revoked: number }> {
+    const currentFamilyId = await this.findFamilyId(userId, currentTokenId);
+    if (!currentFamilyId) {
+      throw new UnauthorizedException(
+        'Không xác định được phiên hiện tại, vui lòng đăng nhập lại',
+      );
+    }
+    const result = await this.refreshRepo.update(
+      { userId, isRevoked: false, familyId: Not(currentFamilyId) },
+      { isRevoked: true, lastUsedAt: new Date() },
+    );
+    return { revoked: result.affected ?? 0 };
+  }
+
   async createSessionForUser(
     user: UserEntity,
     res: Response,
+    client?: SessionClientInfo,
   ): Promise<SecureAuthResponseData> {
-    const tokenPair = await this.issueTokenPair(user);
+    const tokenPair = await this.issueTokenPair(user, { client });
     this.setRefreshCookie(
       res,
       tokenPair.refreshToken,
@@ -251,13 +382,14 @@ export class AuthService {
     };
   }
 
-  protected async issueTokenPair(user: UserEntity): Promise<TokenPair> {
+  protected async issueTokenPair(
+    user: UserEntity,
+    options: IssueTokenOptions = {},
+  ): Promise<TokenPair> {
     const refreshTokenValue =
       uuid().replace(/-/g, '') + uuid().replace(/-/g, '');
-    const hashed = crypto
-      .createHash('sha256')
-      .update(refreshTokenValue)
-      .digest('hex');
+    const hashed = this.hashToken(refreshTokenValue);
+    const id = options.id ?? uuid();
     const days = Math.max(
       Number(this.configService.get('JWT_REFRESH_DAYS')) || 0,
       1,
@@ -265,16 +397,21 @@ export class AuthService {
     const refreshExpires = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
 
     await this.refreshRepo.insert({
+      id,
       token: hashed,
       userId: user.id,
+      familyId: options.familyId ?? id,
       expiresAt: refreshExpires,
       isRevoked: false,
+      userAgent: options.client?.userAgent ?? null,
+      ipAddress: options.client?.ipAddress ?? null,
     });
     const accessToken = await this.jwtService.signAsync(
       {
         sub: user.id,
         email: user.email,
         role: user.role,
+        rtj: id,
       },
       {
         secret: this.configService.get('JWT_ACCESS_SECRET'),
@@ -288,6 +425,48 @@ export class AuthService {
     };
   }
 
+  /**
+   * A rotated token came back: assume it was stolen and end the whole
+   * family, so neither the thief nor the victim keeps a valid token.
+   */
+  private async revokeReusedFamily(
+    token: RefreshTokenEntity,
+    res: Response,
+  ): Promise<never> {
+    await this.refreshRepo.update(
+      { familyId: token.familyId, isRevoked: false },
+      { isRevoked: true, lastUsedAt: new Date() },
+    );
+    this.clearRefreshCookie(res);
+    throw new UnauthorizedException(
+      'Refresh token đã được sử dụng, vui lòng đăng nhập lại',
+    );
+  }
+
+  private async findFamilyId(
+    userId: string,
+    tokenId?: string,
+  ): Promise<string | null> {
+    if (!tokenId) return null;
+    const token = await this.refreshRepo.findOne({
+      where: { id: tokenId, userId },
+      select: { id: true, familyId: true },
+    });
+    return token?.familyId ?? null;
+  }
+
+  private hashToken(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  /** True when a reset token was issued within the cooldown window */
+  private isPasswordResetCoolingDown(user: UserEntity): boolean {
+    if (!user.passwordResetExpires) return false;
+    const issuedAt =
+      new Date(user.passwordResetExpires).getTime() - this.passwordResetTtlMs;
+    return Date.now() - issuedAt < this.passwordResetCooldownMs;
+  }
+
   private setRefreshCookie(res: Response, token: string, expires: Date) {
     res.cookie(this.refreshCookieName, token, {
       httpOnly: true,
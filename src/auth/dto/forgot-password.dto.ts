@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail } from 'class-validator';
+
+export class ForgotPasswordDto {
+  @ApiProperty({
+    description: 'Email of the account to reset',
+    example: 'john.doe@example.com',
+  })
+  @IsEmail()
+  email!: string;
+}
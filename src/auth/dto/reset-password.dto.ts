@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsStrongPassword, Length } from 'class-validator';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Password reset token from the email link',
+    example: 'c0f5c3b2c4a9481d9b2e5c6f8d9a7b3e',
+  })
+  @IsString()
+  @Length(16, 128)
+  token!: string;
+
+  @ApiProperty({
+    minLength: 8,
+    description:
+      'Mật khẩu mới tối thiểu 8 ký tự, phải có ít nhất 1 chữ hoa, 1 chữ thường, 1 số và 1 ký tự đặc biệt. / New password must be at least 8 characters and include uppercase, lowercase, number and special character.',
+    example: 'N3w!Passw0rd',
+  })
+  @IsString()
+  @IsStrongPassword(
+    {
+      minLength: 8,
+      minLowercase: 1,
+      minUppercase: 1,
+      minNumbers: 1,
+      minSymbols: 1,
+    },
+    {
+      message:
+        'Password must be at least 8 characters and include uppercase, lowercase, number and special character.',
+    },
+  )
+  newPassword!: string;
+}
@@ -9,6 +9,8 @@ import { RefreshTokenEntity } from '../../schemas/refresh-token.entity';
 import { v4 as uuid } from 'uuid';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../public.decorator';
+import * as crypto from 'crypto';
+import { getSessionClientInfo } from '../utils/session-client.util';
 
 /**
  * JwtAuthGuard with rolling refresh token support.
@@ -76,9 +78,12 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       | string
       | undefined;
     if (!refreshToken) return;
-    // Validate refresh token in DB
+    // Validate refresh token in DB (stored as sha256 hash)
     const stored = await this.refreshRepo.findOne({
-      where: { token: refreshToken, isRevoked: false },
+      where: {
+        token: crypto.createHash('sha256').update(refreshToken).digest('hex'),
+        isRevoked: false,
+      },
     });
     if (!stored || !stored.isValid) return;
 
@@ -90,35 +95,43 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       (stored.expiresAt.getTime() - Date.now()) / 1000,
     );
 
-    const newAccess = await this.signAccessToken(
-      request.user.id,
-      request.user.email,
-      request.user.role,
-      stored.id,
-    );
-    let newRefreshTokenValue: string | undefined = refreshToken;
+    let sessionTokenId = stored.id;
     if (refreshExpLeft < rotateWindowSeconds) {
-      // Soft rotate: invalidate old, create new
-      stored.isRevoked = true;
-      await this.refreshRepo.save(stored);
+      // Soft rotate: invalidate old, create new in the same family
       const newRtId = uuid();
+      const claimed = await this.refreshRepo.update(
+        { id: stored.id, isRevoked: false },
+        { isRevoked: true, lastUsedAt: new Date(), replacedById: newRtId },
+      );
+      if (!claimed.affected) return; // rotated concurrently; let /auth/refresh decide
       const newRtExpires = new Date();
       const cfg = this.configService.get<string>('JWT_REFRESH_DAYS');
       let ndays = Number(cfg ?? 7);
       if (!Number.isFinite(ndays) || ndays <= 0) ndays = 7;
       newRtExpires.setDate(newRtExpires.getDate() + ndays);
       const newRtValue = uuid().replace(/-/g, '') + uuid().replace(/-/g, '');
+      const client = getSessionClientInfo(request);
       await this.refreshRepo.insert({
         id: newRtId,
-        token: newRtValue,
+        token: crypto.createHash('sha256').update(newRtValue).digest('hex'),
         userId: request.user.id,
+        familyId: stored.familyId,
         expiresAt: newRtExpires,
         isRevoked: false,
+        userAgent: client.userAgent ?? stored.userAgent ?? null,
+        ipAddress: client.ipAddress ?? stored.ipAddress ?? null,
       });
-      newRefreshTokenValue = newRtValue;
-      this.setRefreshCookie(response, newRefreshTokenValue, newRtExpires);
+      sessionTokenId = newRtId;
+      this.setRefreshCookie(response, newRtValue, newRtExpires);
     }
 
+    const newAccess = await this.signAccessToken(
+      request.user.id,
+      request.user.email,
+      request.user.role,
+      sessionTokenId,
+    );
+
     // Set new access token in a response header so client can pick it up (or could use response body via interceptor)
     response.setHeader('x-access-token', newAccess);
   }
@@ -0,0 +1,21 @@
+/**
+ * Client details captured when a refresh token is issued
+ */
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * An active login session as returned by GET /auth/sessions
+ */
+export interface SessionData {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
@@ -0,0 +1,49 @@
+import { Request } from 'express';
+import { SessionClientInfo } from '../types/session.types';
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+/**
+ * Read user agent and IP from the request. `req.ip` honours the app's
+ * trust proxy setting, so forwarded headers are not parsed here.
+ */
+export function getSessionClientInfo(
+  req: Pick<Request, 'ip' | 'headers'>,
+): SessionClientInfo {
+  const userAgent = req.headers?.['user-agent'];
+  return {
+    userAgent: userAgent
+      ? userAgent.slice(0, MAX_USER_AGENT_LENGTH)
+      : undefined,
+    ipAddress: req.ip || undefined,
+  };
+}
+
+/**
+ * Short human readable label such as "Chrome on Windows"
+ */
+export function describeUserAgent(userAgent?: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\/|CriOS\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/PostmanRuntime/, 'Postman'],
+    [/okhttp|Dart|Expo|CFNetwork/, 'Mobile app'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iOS/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([re]) => re.test(userAgent))?.[1];
+  const system = systems.find(([re]) => re.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? 'Unknown device';
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BookingSyncService } from './booking-sync.service';
+import { BudgetModule } from '../budget/budget.module';
+import { BookingEntity } from '../schemas/booking.entity';
+import { BudgetItemEntity } from '../schemas/budget-item.entity';
+
+/**
+ * Kept apart from BookingModule so the payment, transport and attraction
+ * modules can sync bookings without importing the booking endpoints
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([BookingEntity, BudgetItemEntity]),
+    BudgetModule,
+  ],
+  providers: [BookingSyncService],
+  exports: [BookingSyncService],
+})
+export class BookingSyncModule {}
@@ -0,0 +1,255 @@
+import { DataSource, EntityTarget, Repository } from 'typeorm';
+import {
+  BOOKING_BUDGET_SOURCE,
+  BookingSyncService,
+} from './booking-sync.service';
+import {
+  BookingEntity,
+  BookingStatus,
+  BookingType,
+} from '../schemas/booking.entity';
+import { ActivityEntity } from '../schemas/activity.entity';
+import { ItineraryEntity } from '../schemas/itinerary.entity';
+import { TripEntity } from '../schemas/trip.entity';
+import { BudgetItemEntity } from '../schemas/budget-item.entity';
+import { BudgetService } from '../budget/budget.service';
+import { ActivityCategory } from '../trip/enum/trip-enum';
+
+type Row = Record<string, any>;
+
+describe('BookingSyncService', () => {
+  let service: BookingSyncService;
+  let booking: Row;
+  let days: Row[];
+  let activities: Row[];
+  let budgetItems: Row[];
+  let budgetService: {
+    getByTripId: jest.Mock;
+    addItem: jest.Mock;
+    updateItem: jest.Mock;
+    deleteItem: jest.Mock;
+  };
+
+  const trip = {
+    id: 'trip-1',
+    startDate: new Date('2026-11-01'),
+    endDate: new Date('2026-11-05'),
+  } as TripEntity;
+
+  beforeEach(() => {
+    booking = {
+      id: 'booking-1',
+      tripId: trip.id,
+      type: BookingType.HOTEL,
+      status: BookingStatus.CONFIRMED,
+      totalPrice: '280.00',
+      currency: 'EUR',
+      createdAt: new Date('2026-10-01T08:00:00Z'),
+      lodgingReservations: [
+        {
+          id: 'lodging-1',
+          hotelId: 'MCLONGHM',
+          checkIn: '2026-11-02',
+          checkOut: '2026-11-04',
+          details: { hotelName: 'Metropole', confirmationNumber: 'CONF1' },
+        },
+      ],
+      transportReservations: [],
+      attractionReservations: [],
+    };
+    days = [{ id: 'day-2', tripId: trip.id, dayNumber: 2 }];
+    activities = [];
+    budgetItems = [];
+    budgetService = {
+      getByTripId: jest.fn().mockResolvedValue({ id: 'budget-1' }),
+      addItem: jest.fn((dto: Row) => {
+        budgetItems.push({
+          id: 'item-1',
+          ...dto,
+          originalAmount: String(dto.amount),
+          originalCurrency: dto.currency,
+        });
+        return Promise.resolve(budgetItems[0]);
+      }),
+      updateItem: jest.fn(),
+      deleteItem: jest.fn(),
+    };
+
+    const activityRepo = {
+      createQueryBuilder: () => {
+        const qb = {
+          innerJoin: () => qb,
+          where: () => qb,
+          andWhere: () => qb,
+          getMany: () =>
+            Promise.resolve(
+              activities.filter(
+                (a) =>
+                  a.metadata?.bookingId === booking.id && a.metadata.syncKey,
+              ),
+            ),
+        };
+        return qb;
+      },
+      count: ({ where }: { where: Row }) =>
+        Promise.resolve(
+          activities.filter((a) => a.itineraryId === where.itineraryId).length,
+        ),
+      save: (data: Row) => {
+        const existing = activities.find((a) => data.id && a.id === data.id);
+        if (existing) return Promise.resolve(Object.assign(existing, data));
+        const saved = { id: `activity-${activities.length + 1}`, ...data };
+        activities.push(saved);
+        return Promise.resolve(saved);
+      },
+      remove: (rows: Row[]) => {
+        activities = activities.filter((a) => !rows.includes(a));
+        return Promise.resolve(rows);
+      },
+    };
+    const itineraryRepo = {
+      create: (data: Row) => ({ ...data }),
+      findOne: ({ where }: { where: Row }) =>
+        Promise.resolve(
+          days.find((d) => d.dayNumber === where.dayNumber) ?? null,
+        ),
+      save: (data: Row) => {
+        const saved = { id: `day-${data.dayNumber}`, ...data };
+        days.push(saved);
+        return Promise.resolve(saved);
+      },
+    };
+    const repos = new Map<EntityTarget<unknown>, unknown>([
+      [ActivityEntity, activityRepo],
+      [ItineraryEntity, itineraryRepo],
+      [TripEntity, { findOne: () => Promise.resolve(trip) }],
+    ]);
+    const dataSource = {
+      transaction: (work: (m: unknown) => Promise<unknown>) =>
+        work({ getRepository: (e: EntityTarget<unknown>) => repos.get(e) }),
+    } as unknown as DataSource;
+    const bookingRepo = { findOne: () => Promise.resolve(booking) };
+    const budgetItemRepo = { find: () => Promise.resolve(budgetItems) };
+
+    service = new BookingSyncService(
+      bookingRepo as unknown as Repository<BookingEntity>,
+      budgetItemRepo as unknown as Repository<BudgetItemEntity>,
+      budgetService as unknown as BudgetService,
+      dataSource,
+    );
+  });
+
+  it('adds check-in, check-out and an expense for a confirmed stay', async () => {
+    await service.sync('booking-1', 'user-1');
+
+    expect(activities).toEqual([
+      expect.objectContaining({
+        itineraryId: 'day-2',
+        time: '14:00',
+        title: 'Check in at Metropole',
+        type: ActivityCategory.HOTEL,
+        metadata: expect.objectContaining({
+          bookingId: 'booking-1',
+          syncKey: 'check-in:lodging-1',
+          confirmationNumber: 'CONF1',
+        }),
+      }),
+      expect.objectContaining({
+        itineraryId: 'day-4',
+        time: '12:00',
+        title: 'Check out of Metropole',
+      }),
+    ]);
+    expect(days.find((d) => d.dayNumber === 4)).toMatchObject({
+      title: 'Day 4',
+    });
+    expect(budgetService.addItem).toHaveBeenCalledWith(
+      {
+        tripBudgetId: 'budget-1',
+        category: ActivityCategory.HOTEL,
+        amount: 280,
+        currency: 'EUR',
+        expenseDate: '2026-10-01',
+        source: BOOKING_BUDGET_SOURCE,
+        refId: 'booking-1',
+        note: 'Hotel booking: Metropole',
+      },
+      'user-1',
+    );
+  });
+
+  it('moves activities and updates the expense when the booking changes', async () => {
+    await service.sync('booking-1', 'user-1');
+    booking.totalPrice = '350.00';
+    booking.lodgingReservations[0].checkOut = '2026-11-05';
+
+    await service.sync('booking-1', 'user-1');
+
+    expect(activities).toHaveLength(2);
+    expect(activities[1]).toMatchObject({ itineraryId: 'day-5' });
+    expect(budgetService.addItem).toHaveBeenCalledTimes(1);
+    expect(budgetService.updateItem).toHaveBeenCalledWith(
+      'item-1',
+      { amount: 350, currency: 'EUR', category: ActivityCategory.HOTEL },
+      'user-1',
+    );
+  });
+
+  it('removes activities and the expense when the booking falls through', async () => {
+    await service.sync('booking-1', 'user-1');
+    booking.status = BookingStatus.CANCELLED;
+
+    await service.sync('booking-1');
+
+    expect(activities).toHaveLength(0);
+    expect(budgetService.deleteItem).toHaveBeenCalledWith('item-1', undefined);
+  });
+
+  it('leaves the settled expense of a cancelled booking alone', async () => {
+    await service.sync('booking-1', 'user-1');
+    booking.status = BookingStatus.CANCELLED;
+    booking.providerPayload = { cancellation: { fee: 100 } };
+
+    await service.sync('booking-1', 'user-1');
+
+    expect(activities).toHaveLength(0);
+    expect(budgetService.deleteItem).not.toHaveBeenCalled();
+    expect(budgetService.updateItem).not.toHaveBeenCalled();
+  });
+
+  it('schedules flight segments at their departure time', async () => {
+    Object.assign(booking, {
+      type: BookingType.FLIGHT,
+      lodgingReservations: [],
+      transportReservations: [
+        {
+          id: 'segment-1',
+          origin: 'HAN',
+          destination: 'SGN',
+          departureAt: new Date('2026-11-03T07:30:00Z'),
+          carrierCode: 'VN',
+          flightNumber: '213',
+          details: { duration: 'PT2H10M', pnr: 'ABC123' },
+        },
+      ],
+    });
+
+    await service.sync('booking-1', 'user-1');
+
+    expect(activities).toEqual([
+      expect.objectContaining({
+        time: '07:30',
+        title: 'Flight VN213 HAN to SGN',
+        duration: 130,
+        type: ActivityCategory.FLIGHT,
+      }),
+    ]);
+    expect(budgetService.addItem).toHaveBeenCalledWith(
+      expect.objectContaining({
+        category: ActivityCategory.FLIGHT,
+        note: 'Flight booking: HAN to SGN',
+      }),
+      'user-1',
+    );
+  });
+});
@@ -0,0 +1,381 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import {
+  BookingEntity,
+  BookingStatus,
+  BookingType,
+} from 'src/schemas/booking.entity';
+import { ActivityEntity } from 'src/schemas/activity.entity';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { BudgetService } from 'src/budget/budget.service';
+import { ErrorUtilService } from 'src/shared/utils/error.util';
+import { toDateString } from 'src/shared/utils/date.util';
+
+/** `source` of budget items derived from a booking */
+export const BOOKING_BUDGET_SOURCE = 'booking';
+
+const CHECK_IN_TIME = '14:00';
+const CHECK_OUT_TIME = '12:00';
+
+/** Itinerary activity derived from a booking, keyed by `syncKey` */
+interface PlannedActivity {
+  syncKey: string;
+  date: string;
+  time: string;
+  title: string;
+  description?: string;
+  duration: number | null;
+  type: ActivityCategory;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Mirrors confirmed bookings into the itinerary (hotel check-in and
+ * check-out, flight departures) and the budget (one expense with
+ * `source = 'booking'` and `refId` set to the booking id). Later changes
+ * update those rows and cancellations remove them.
+ *
+ * Sync runs after the booking itself is saved. Itinerary or budget errors
+ * (such as a budget that refuses overruns) are logged rather than thrown,
+ * and the next sync of the booking catches up.
+ */
+@Injectable()
+export class BookingSyncService {
+  private readonly logger = new Logger(BookingSyncService.name);
+
+  constructor(
+    @InjectRepository(BookingEntity)
+    private readonly bookingRepo: Repository<BookingEntity>,
+    @InjectRepository(BudgetItemEntity)
+    private readonly budgetItemRepo: Repository<BudgetItemEntity>,
+    private readonly budgetService: BudgetService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /** Bring the activities and budget expense of a booking up to date */
+  async sync(bookingId: string, userId?: string): Promise<void> {
+    const booking = await this.bookingRepo.findOne({
+      where: { id: bookingId },
+      relations: [
+        'lodgingReservations',
+        'transportReservations',
+        'attractionReservations',
+      ],
+    });
+    if (!booking) return;
+
+    const planned =
+      booking.status === BookingStatus.CONFIRMED
+        ? this.plannedActivities(booking)
+        : [];
+    await this.attempt(booking.id, 'itinerary', () =>
+      this.syncActivities(booking.tripId, booking.id, planned),
+    );
+    await this.attempt(booking.id, 'budget', () =>
+      this.syncBudgetItem(booking, userId),
+    );
+  }
+
+  /** Drop what was derived from a booking that is being deleted */
+  async remove(
+    tripId: string,
+    bookingId: string,
+    userId?: string,
+  ): Promise<void> {
+    await this.attempt(bookingId, 'itinerary', () =>
+      this.syncActivities(tripId, bookingId, []),
+    );
+    await this.attempt(bookingId, 'budget', async () => {
+      for (const item of await this.derivedBudgetItems(bookingId)) {
+        await this.budgetService.deleteItem(item.id, userId);
+      }
+    });
+  }
+
+  /**
+   * Create, move or delete the derived activities of a booking so they match
+   * `planned`. Activities whose date falls outside the trip are skipped.
+   */
+  private async syncActivities(
+    tripId: string,
+    bookingId: string,
+    planned: PlannedActivity[],
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      const activityRepo = manager.getRepository(ActivityEntity);
+      const existing = await activityRepo
+        .createQueryBuilder('activity')
+        .innerJoin('activity.itinerary', 'itinerary')
+        .where('itinerary.tripId = :tripId', { tripId })
+        .andWhere("activity.metadata ->> 'bookingId' = :bookingId", {
+          bookingId,
+        })
+        .andWhere("activity.metadata ->> 'syncKey' IS NOT NULL")
+        .getMany();
+
+      const trip = planned.length
+        ? await manager.getRepository(TripEntity).findOne({
+            where: { id: tripId },
+          })
+        : null;
+      const kept = new Set<string>();
+      for (const plan of planned) {
+        const day = trip ? await this.dayFor(manager, trip, plan.date) : null;
+        if (!day) continue;
+
+        const current = existing.find(
+          (a) => a.metadata?.syncKey === plan.syncKey,
+        );
+        const orderIndex =
+          current?.itineraryId === day.id
+            ? current.orderIndex
+            : await activityRepo.count({ where: { itineraryId: day.id } });
+        const saved = await activityRepo.save({
+          ...(current ?? {}),
+          itineraryId: day.id,
+          time: plan.time,
+          title: plan.title,
+          description: plan.description,
+          duration: plan.duration,
+          type: plan.type,
+          orderIndex,
+          metadata: {
+            ...(current?.metadata ?? {}),
+            ...plan.metadata,
+            bookingId,
+            syncKey: plan.syncKey,
+          },
+        });
+        kept.add(saved.id);
+      }
+
+      const stale = existing.filter((a) => !kept.has(a.id));
+      if (stale.length) await activityRepo.remove(stale);
+    });
+  }
+
+  /**
+   * Keep one expense per confirmed booking at its total price. Bookings
+   * cancelled through `BookingService.cancelBooking` are left alone: their
+   * expense was already reduced to the fee kept by the provider.
+   */
+  private async syncBudgetItem(
+    booking: BookingEntity,
+    userId?: string,
+  ): Promise<void> {
+    if (
+      booking.status === BookingStatus.CANCELLED &&
+      booking.providerPayload?.cancellation
+    ) {
+      return;
+    }
+
+    const items = await this.derivedBudgetItems(booking.id);
+    const total = Number(booking.totalPrice ?? 0);
+    const wanted = booking.status === BookingStatus.CONFIRMED && total > 0;
+    const [item, ...duplicates] = wanted ? items : [];
+    for (const extra of wanted ? duplicates : items) {
+      await this.budgetService.deleteItem(extra.id, userId);
+    }
+    if (!wanted) return;
+
+    const currency = booking.currency.toUpperCase();
+    const category = this.budgetCategory(booking);
+    if (!item) {
+      const budget = await this.budgetService.getByTripId(booking.tripId);
+      if (!budget) return;
+      await this.budgetService.addItem(
+        {
+          tripBudgetId: budget.id,
+          category,
+          amount: total,
+          currency,
+          expenseDate: toDateString(booking.createdAt) ?? undefined,
+          source: BOOKING_BUDGET_SOURCE,
+          refId: booking.id,
+          note: this.describe(booking),
+        },
+        userId,
+      );
+      return;
+    }
+
+    if (
+      Number(item.originalAmount) !== total ||
+      item.originalCurrency !== currency ||
+      item.category !== category
+    ) {
+      await this.budgetService.updateItem(
+        item.id,
+        { amount: total, currency, category },
+        userId,
+      );
+    }
+  }
+
+  private plannedActivities(booking: BookingEntity): PlannedActivity[] {
+    const confirmation = (details?: Record<string, unknown>) =>
+      details?.confirmationNumber ?? details?.pnr ?? undefined;
+
+    if (booking.type === BookingType.HOTEL) {
+      return (booking.lodgingReservations ?? []).flatMap((lodging) => {
+        const name = (lodging.details?.hotelName as string) ?? 'hotel';
+        const metadata = {
+          lodgingReservationId: lodging.id,
+          hotelId: lodging.hotelId,
+          confirmationNumber: confirmation(lodging.details),
+        };
+        const checkIn = toDateString(lodging.checkIn);
+        const checkOut = toDateString(lodging.checkOut);
+        const plans: PlannedActivity[] = [];
+        if (checkIn) {
+          plans.push({
+            syncKey: `check-in:${lodging.id}`,
+            date: checkIn,
+            time: CHECK_IN_TIME,
+            title: `Check in at ${name}`,
+            description: lodging.roomDescription,
+            duration: null,
+            type: ActivityCategory.HOTEL,
+            metadata,
+          });
+        }
+        if (checkOut) {
+          plans.push({
+            syncKey: `check-out:${lodging.id}`,
+            date: checkOut,
+            time: CHECK_OUT_TIME,
+            title: `Check out of ${name}`,
+            duration: null,
+            type: ActivityCategory.HOTEL,
+            metadata,
+          });
+        }
+        return plans;
+      });
+    }
+
+    if (booking.type === BookingType.FLIGHT) {
+      return (booking.transportReservations ?? []).flatMap((segment) => {
+        // Amadeus departure times are airport-local, without an offset
+        const departure = segment.departureAt
+          ? new Date(segment.departureAt).toISOString()
+          : null;
+        if (!departure) return [];
+        const flight = `${segment.carrierCode ?? ''}${segment.flightNumber ?? ''}`;
+        return [
+          {
+            syncKey: `flight:${segment.id}`,
+            date: departure.slice(0, 10),
+            time: departure.slice(11, 16),
+            title:
+              `Flight ${flight} ${segment.origin} to ${segment.destination}`
+                .replace(/\s+/g, ' ')
+                .trim(),
+            duration: this.isoMinutes(segment.details?.duration as string),
+            type: ActivityCategory.FLIGHT,
+            metadata: {
+              transportReservationId: segment.id,
+              pnr: confirmation(segment.details),
+            },
+          },
+        ];
+      });
+    }
+
+    // Attraction activities are kept by AttractionReservationService
+    return [];
+  }
+
+  /** Itinerary day of a date, created when missing; null outside the trip */
+  private async dayFor(
+    manager: EntityManager,
+    trip: TripEntity,
+    date: string,
+  ): Promise<ItineraryEntity | null> {
+    const start = toDateString(trip.startDate);
+    const end = toDateString(trip.endDate);
+    if (!start || date < start || (end && date > end)) return null;
+
+    const dayNumber =
+      Math.round((Date.parse(date) - Date.parse(start)) / 86_400_000) + 1;
+    const itineraryRepo = manager.getRepository(ItineraryEntity);
+    const day = await itineraryRepo.findOne({
+      where: { tripId: trip.id, dayNumber },
+    });
+    return (
+      day ??
+      itineraryRepo.save(
+        itineraryRepo.create({
+          tripId: trip.id,
+          dayNumber,
+          date: new Date(date),
+          title: `Day ${dayNumber}`,
+        }),
+      )
+    );
+  }
+
+  private derivedBudgetItems(bookingId: string): Promise<BudgetItemEntity[]> {
+    return this.budgetItemRepo.find({
+      where: { source: BOOKING_BUDGET_SOURCE, refId: bookingId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private budgetCategory(booking: BookingEntity): ActivityCategory {
+    switch (booking.type) {
+      case BookingType.HOTEL:
+        return ActivityCategory.HOTEL;
+      case BookingType.FLIGHT:
+        return ActivityCategory.FLIGHT;
+      case BookingType.ATTRACTION:
+        return (
+          (booking.attractionReservations?.[0]?.details
+            ?.category as ActivityCategory) ?? ActivityCategory.SIGHTSEEING
+        );
+      default:
+        return ActivityCategory.OTHER;
+    }
+  }
+
+  private describe(booking: BookingEntity): string {
+    const hotel = booking.lodgingReservations?.[0]?.details?.hotelName as
+      | string
+      | undefined;
+    const segments = booking.transportReservations ?? [];
+    const subject =
+      hotel ??
+      booking.attractionReservations?.[0]?.title ??
+      (segments.length
+        ? `${segments[0].origin} to ${segments[segments.length - 1].destination}`
+        : undefined);
+    const label = `${booking.type.charAt(0)}${booking.type.slice(1).toLowerCase()} booking`;
+    return [label, subject].filter(Boolean).join(': ');
+  }
+
+  /** Minutes of an ISO 8601 duration such as `PT2H15M` */
+  private isoMinutes(value?: string): number | null {
+    const match = value?.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/);
+    if (!match) return null;
+    return Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0);
+  }
+
+  private async attempt(
+    bookingId: string,
+    target: string,
+    work: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await work();
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Could not sync booking ${bookingId} into the ${target}: ${ErrorUtilService.getErrorMessage(error)}`,
+      );
+    }
+  }
+}
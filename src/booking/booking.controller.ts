@@ -1,13 +1,18 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import { Body, Controller, Get, Param, Post, Query, Req } from '@nestjs/common';
 import {
   ApiBearerAuth,
   ApiOperation,
+  ApiParam,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
 import { BookingService } from './booking.service';
 import { ResponseUtil } from '../shared/utils/response.util';
 import { CreateHotelOrderDto } from './dto/create-hotel-order.dto';
+import { BookingQueryDto } from './dto/booking-query.dto';
+import { CancelBookingDto } from './dto/cancel-booking.dto';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { Idempotent } from 'src/idempotency/idempotent.decorator';
 
 @ApiTags('Booking')
 @ApiBearerAuth()
@@ -16,10 +21,59 @@ export class BookingController {
   constructor(private readonly bookingService: BookingService) {}
 
   @Post('hotels/order')
+  @Idempotent()
   @ApiOperation({ summary: 'Create hotel booking (Amadeus)' })
   @ApiResponse({ status: 201, description: 'Hotel order created' })
-  async createHotelOrder(@Body() dto: CreateHotelOrderDto) {
-    const data = await this.bookingService.createHotelOrder(dto);
+  @ApiResponse({ status: 403, description: 'Editor role required on trip' })
+  async createHotelOrder(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateHotelOrderDto,
+  ) {
+    const data = await this.bookingService.createHotelOrder(req.user.id, dto);
+    return ResponseUtil.success(data);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List bookings of a trip, or of the current user',
+  })
+  @ApiResponse({ status: 200, description: 'Bookings retrieved' })
+  async listBookings(
+    @Req() req: AuthenticatedRequest,
+    @Query() query: BookingQueryDto,
+  ) {
+    const data = await this.bookingService.listBookings(req.user.id, query);
+    return ResponseUtil.success(data);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get booking details' })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiResponse({ status: 200, description: 'Booking retrieved' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  async getBooking(@Req() req: AuthenticatedRequest, @Param('id') id: string) {
+    const data = await this.bookingService.getBooking(req.user.id, id);
+    return ResponseUtil.success(data);
+  }
+
+  @Post(':id/cancel')
+  @Idempotent()
+  @ApiOperation({
+    summary: 'Cancel a booking and refund it under its cancellation policy',
+  })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Booking cancelled, or an interrupted cancellation finished',
+  })
+  @ApiResponse({ status: 400, description: 'Booking is already cancelled' })
+  @ApiResponse({ status: 403, description: 'Editor role required on trip' })
+  async cancelBooking(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() dto: CancelBookingDto,
+  ) {
+    const data = await this.bookingService.cancelBooking(req.user.id, id, dto);
     return ResponseUtil.success(data);
   }
 }
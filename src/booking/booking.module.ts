@@ -1,10 +1,31 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { BookingService } from './booking.service';
 import { BookingController } from './booking.controller';
 import { AmadeusModule } from '../integrations/amadeus/amadeus.module';
+import { TripModule } from '../trip/trip.module';
+import { PaymentModule } from '../payment/payment.module';
+import { BudgetModule } from '../budget/budget.module';
+import { BookingSyncModule } from './booking-sync.module';
+import { BookingEntity } from '../schemas/booking.entity';
+import { LodgingReservationEntity } from '../schemas/lodging-reservation.entity';
+import { PaymentEntity } from '../schemas/payment.entity';
+import { BudgetItemEntity } from '../schemas/budget-item.entity';
 
 @Module({
-  imports: [AmadeusModule],
+  imports: [
+    TypeOrmModule.forFeature([
+      BookingEntity,
+      LodgingReservationEntity,
+      PaymentEntity,
+      BudgetItemEntity,
+    ]),
+    AmadeusModule,
+    TripModule,
+    PaymentModule,
+    BudgetModule,
+    BookingSyncModule,
+  ],
   controllers: [BookingController],
   providers: [BookingService],
 })
@@ -0,0 +1,429 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { BookingService } from './booking.service';
+import { AmadeusApiService } from '../integrations/amadeus/amadeus-api.service';
+import { TripCollaborationService } from '../trip/trip-collaboration.service';
+import { BookingEntity, BookingStatus } from '../schemas/booking.entity';
+import { LodgingReservationEntity } from '../schemas/lodging-reservation.entity';
+import { PaymentEntity, PaymentStatus } from '../schemas/payment.entity';
+import { BudgetItemEntity } from '../schemas/budget-item.entity';
+import { ExpenseSplitType } from '../schemas/budget-item-split.entity';
+import { ActivityAction } from '../schemas/trip-activity-log.entity';
+import { PaymentService } from '../payment/payment.service';
+import { BudgetService } from '../budget/budget.service';
+import { BookingSyncService } from './booking-sync.service';
+import {
+  CreateHotelOrderDto,
+  PaymentMethodEnum,
+} from './dto/create-hotel-order.dto';
+
+const repoMock = () => ({
+  create: jest.fn((data: Record<string, unknown>) => ({ ...data })),
+  save: jest.fn((entity: any) =>
+    Promise.resolve(
+      Array.isArray(entity) ? entity : { id: 'booking-1', ...entity },
+    ),
+  ),
+  findOne: jest.fn(),
+  update: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('BookingService', () => {
+  let service: BookingService;
+  let bookingRepo: any;
+  let lodgingRepo: any;
+  let paymentRepo: any;
+  let budgetItemRepo: any;
+  let amadeus: {
+    createHotelBooking: jest.Mock;
+    deleteHotelOrder: jest.Mock;
+    deleteFlightOrder: jest.Mock;
+  };
+  let collaboration: { checkPermission: jest.Mock; logActivity: jest.Mock };
+  let paymentService: { settleCancellation: jest.Mock };
+  let budgetService: { updateItem: jest.Mock; deleteItem: jest.Mock };
+  let bookingSync: { sync: jest.Mock };
+
+  const dto: CreateHotelOrderDto = {
+    tripId: 'trip-1',
+    stay: {
+      hotelId: 'MCLONGHM',
+      checkInDate: '2025-12-20',
+      checkOutDate: '2025-12-23',
+      totalPrice: 300,
+      currency: 'usd',
+    },
+    data: {
+      type: 'hotel-order',
+      guests: [
+        {
+          tid: 1,
+          firstName: 'BOB',
+          lastName: 'SMITH',
+          phone: '+33679278416',
+          email: 'bob@example.com',
+        },
+      ],
+      travelAgent: { contact: { email: 'bob@example.com' } },
+      roomAssociations: [
+        { guestReferences: [{ guestReference: '1' }], hotelOfferId: 'OFF1' },
+      ],
+      payment: {
+        method: PaymentMethodEnum.CREDIT_CARD,
+        paymentCard: {
+          paymentCardInfo: {
+            vendorCode: 'VI',
+            cardNumber: '4151289722471370',
+            expiryDate: '2026-08',
+          },
+        },
+      },
+    },
+  };
+
+  beforeEach(async () => {
+    bookingRepo = repoMock();
+    lodgingRepo = repoMock();
+    paymentRepo = repoMock();
+    budgetItemRepo = { find: jest.fn().mockResolvedValue([]) };
+    amadeus = {
+      createHotelBooking: jest.fn(),
+      deleteHotelOrder: jest.fn().mockResolvedValue(undefined),
+      deleteFlightOrder: jest.fn().mockResolvedValue(undefined),
+    };
+    collaboration = {
+      checkPermission: jest.fn().mockResolvedValue(true),
+      logActivity: jest.fn().mockResolvedValue(undefined),
+    };
+    paymentService = { settleCancellation: jest.fn().mockResolvedValue([]) };
+    budgetService = { updateItem: jest.fn(), deleteItem: jest.fn() };
+    bookingSync = { sync: jest.fn().mockResolvedValue(undefined) };
+
+    const repos = new Map<unknown, unknown>([
+      [BookingEntity, bookingRepo],
+      [LodgingReservationEntity, lodgingRepo],
+      [PaymentEntity, paymentRepo],
+    ]);
+    const dataSource = {
+      transaction: jest.fn((cb: (m: unknown) => Promise<unknown>) =>
+        cb({ getRepository: (e: unknown) => repos.get(e) }),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BookingService,
+        { provide: AmadeusApiService, useValue: amadeus },
+        { provide: getRepositoryToken(BookingEntity), useValue: bookingRepo },
+        {
+          provide: getRepositoryToken(BudgetItemEntity),
+          useValue: budgetItemRepo,
+        },
+        { provide: TripCollaborationService, useValue: collaboration },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: BudgetService, useValue: budgetService },
+        { provide: BookingSyncService, useValue: bookingSync },
+        { provide: DataSource, useValue: dataSource },
+      ],
+    }).compile();
+
+    service = module.get(BookingService);
+    bookingRepo.findOne.mockImplementation(() =>
+      Promise.resolve({ id: 'booking-1' }),
+    );
+  });
+
+  it('persists a confirmed booking with lodging and payment rows', async () => {
+    amadeus.createHotelBooking.mockResolvedValue({
+      data: {
+        id: 'ORDER1',
+        hotelBookings: [
+          {
+            id: 'HB1',
+            bookingStatus: 'CONFIRMED',
+            hotelProviderInformation: [{ confirmationNumber: 'CONF1' }],
+            hotelOffer: {
+              id: 'OFF1',
+              checkInDate: '2025-12-20',
+              checkOutDate: '2025-12-23',
+              guests: { adults: 2 },
+              price: { currency: 'EUR', total: '280.00' },
+            },
+            hotel: { hotelId: 'MCLONGHM', name: 'Long Hotel' },
+          },
+        ],
+      },
+    });
+
+    await service.createHotelOrder('user-1', dto);
+
+    const saved = bookingRepo.save.mock.calls.map(([b]) => ({ ...b }));
+    expect(saved[0].status).toBe(BookingStatus.PENDING);
+    expect(saved[1]).toMatchObject({
+      status: BookingStatus.CONFIRMED,
+      totalPrice: '280.00',
+      currency: 'EUR',
+    });
+
+    const [lodgings] = lodgingRepo.save.mock.calls[0];
+    expect(lodgings[0]).toMatchObject({
+      bookingId: 'booking-1',
+      tripId: 'trip-1',
+      hotelId: 'MCLONGHM',
+      guestCount: 2,
+      details: { confirmationNumber: 'CONF1' },
+    });
+
+    const [payment] = paymentRepo.save.mock.calls[0];
+    expect(payment).toMatchObject({
+      status: PaymentStatus.AUTHORIZED,
+      transactionRef: 'ORDER1',
+      amount: '280.00',
+    });
+    expect(JSON.stringify(payment.providerPayload)).not.toContain(
+      '4151289722471370',
+    );
+    expect(bookingSync.sync).toHaveBeenCalledWith('booking-1', 'user-1');
+  });
+
+  it('marks the booking cancelled when the provider call fails', async () => {
+    amadeus.createHotelBooking.mockRejectedValue(new Error('boom'));
+
+    await expect(service.createHotelOrder('user-1', dto)).rejects.toThrow(
+      'boom',
+    );
+
+    const last = bookingRepo.save.mock.calls.at(-1)[0];
+    expect(last.status).toBe(BookingStatus.CANCELLED);
+    expect(lodgingRepo.save).not.toHaveBeenCalled();
+    expect(paymentRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('keeps the Amadeus order on the pending booking when saving fails', async () => {
+    const response = { data: { id: 'ORDER1', hotelBookings: [] } };
+    amadeus.createHotelBooking.mockResolvedValue(response);
+    lodgingRepo.save.mockRejectedValue(new Error('db down'));
+
+    await expect(service.createHotelOrder('user-1', dto)).rejects.toThrow(
+      'db down',
+    );
+
+    expect(bookingRepo.update).toHaveBeenCalledWith('booking-1', {
+      providerPayload: response,
+    });
+    expect(bookingRepo.update.mock.invocationCallOrder[0]).toBeLessThan(
+      lodgingRepo.save.mock.invocationCallOrder[0],
+    );
+    expect(bookingSync.sync).not.toHaveBeenCalled();
+  });
+
+  it('requires editor access to the trip', async () => {
+    collaboration.checkPermission.mockResolvedValue(false);
+    await expect(
+      service.createHotelOrder('user-2', dto),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(amadeus.createHotelBooking).not.toHaveBeenCalled();
+  });
+
+  it('hides bookings from users outside the trip', async () => {
+    bookingRepo.findOne.mockResolvedValue({
+      id: 'booking-1',
+      userId: 'user-1',
+      tripId: 'trip-1',
+    });
+    collaboration.checkPermission.mockResolvedValue(false);
+    await expect(
+      service.getBooking('user-3', 'booking-1'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  describe('cancelBooking', () => {
+    const confirmed = () => ({
+      id: 'booking-1',
+      tripId: 'trip-1',
+      userId: 'user-1',
+      type: 'HOTEL',
+      provider: 'amadeus',
+      status: BookingStatus.CONFIRMED,
+      totalPrice: '300.00',
+      currency: 'EUR',
+      payments: [],
+      providerPayload: {
+        data: {
+          id: 'ORDER1',
+          hotelBookings: [
+            {
+              hotelOffer: {
+                checkInDate: '2025-12-20',
+                checkOutDate: '2025-12-23',
+                price: { total: '300.00' },
+                policies: {
+                  cancellations: [
+                    { deadline: '2025-12-18T12:00:00Z', numberOfNights: 1 },
+                  ],
+                },
+              },
+            },
+          ],
+        },
+      },
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2025-12-19T00:00:00Z') });
+      bookingRepo.update = jest.fn().mockResolvedValue(undefined);
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    it('cancels at Amadeus and settles payments and expenses with the fee', async () => {
+      bookingRepo.findOne.mockImplementation(() =>
+        Promise.resolve(confirmed()),
+      );
+      budgetItemRepo.find.mockResolvedValue([
+        { id: 'item-1', originalAmount: '300.00', note: 'Hotel' },
+      ]);
+
+      const result = await service.cancelBooking('user-1', 'booking-1', {
+        reason: 'Plans changed',
+      });
+
+      expect(amadeus.deleteHotelOrder).toHaveBeenCalledWith('ORDER1');
+      expect(result.cancellation).toEqual({
+        policy: 'penalty',
+        fee: 100,
+        refundable: 200,
+        freeUntil: null,
+        currency: 'EUR',
+      });
+      expect(bookingRepo.update).toHaveBeenCalledWith(
+        'booking-1',
+        expect.objectContaining({ status: BookingStatus.CANCELLED }),
+      );
+      expect(paymentService.settleCancellation).toHaveBeenCalledWith(
+        expect.objectContaining({ status: BookingStatus.CANCELLED }),
+        100,
+      );
+      expect(budgetService.updateItem).toHaveBeenCalledWith(
+        'item-1',
+        { amount: 100, note: 'Hotel - Booking cancelled, fee kept' },
+        'user-1',
+      );
+      expect(collaboration.logActivity.mock.calls.map((c) => c[2])).toEqual([
+        ActivityAction.BOOKING_CANCEL_REQUESTED,
+        ActivityAction.BOOKING_PROVIDER_CANCELLED,
+        ActivityAction.BOOKING_BUDGET_UPDATED,
+        ActivityAction.BOOKING_CANCELLED,
+      ]);
+      expect(bookingSync.sync).toHaveBeenCalledWith('booking-1', 'user-1');
+    });
+
+    it('logs the failure and leaves the booking when Amadeus refuses', async () => {
+      bookingRepo.findOne.mockImplementation(() =>
+        Promise.resolve(confirmed()),
+      );
+      amadeus.deleteHotelOrder.mockRejectedValue(new Error('gone'));
+
+      await expect(
+        service.cancelBooking('user-1', 'booking-1', {}),
+      ).rejects.toThrow('gone');
+
+      expect(bookingRepo.update).not.toHaveBeenCalled();
+      expect(paymentService.settleCancellation).not.toHaveBeenCalled();
+      expect(collaboration.logActivity).toHaveBeenLastCalledWith(
+        'trip-1',
+        'user-1',
+        ActivityAction.BOOKING_CANCEL_FAILED,
+        expect.objectContaining({ bookingId: 'booking-1', error: 'gone' }),
+      );
+    });
+
+    it('resumes a cancellation whose settlement failed part way', async () => {
+      let stored: Record<string, any> = confirmed();
+      bookingRepo.findOne.mockImplementation(() => Promise.resolve(stored));
+      bookingRepo.update.mockImplementation(
+        (_id: string, patch: Record<string, unknown>) => {
+          stored = { ...stored, ...patch };
+          return Promise.resolve();
+        },
+      );
+      budgetItemRepo.find.mockResolvedValue([
+        { id: 'item-1', originalAmount: '150.00' },
+        { id: 'item-2', originalAmount: '150.00' },
+      ]);
+      budgetService.updateItem
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Budget exceeded'));
+
+      await expect(
+        service.cancelBooking('user-1', 'booking-1', {}),
+      ).rejects.toThrow('Budget exceeded');
+      expect(stored.status).toBe(BookingStatus.CANCELLED);
+
+      const result = await service.cancelBooking('user-1', 'booking-1', {});
+
+      expect(amadeus.deleteHotelOrder).toHaveBeenCalledTimes(1);
+      expect(paymentService.settleCancellation).toHaveBeenCalledTimes(2);
+      expect(budgetService.updateItem.mock.calls.map((c) => c[0])).toEqual([
+        'item-1',
+        'item-2',
+        'item-2',
+      ]);
+      expect(result.budgetItems).toEqual([
+        { itemId: 'item-2', action: 'updated' },
+      ]);
+      expect(stored.providerPayload.cancellation.settledAt).toBeDefined();
+      await expect(
+        service.cancelBooking('user-1', 'booking-1', {}),
+      ).rejects.toThrow('Booking is already cancelled');
+    });
+
+    it('shrinks exact splits along with the expense', async () => {
+      bookingRepo.findOne.mockImplementation(() =>
+        Promise.resolve(confirmed()),
+      );
+      budgetItemRepo.find.mockResolvedValue([
+        {
+          id: 'item-1',
+          originalAmount: '300.00',
+          paidByMemberId: 'member-1',
+          splitType: ExpenseSplitType.EXACT,
+          splits: [
+            { memberId: 'member-1', value: '200.00' },
+            { memberId: 'member-2', value: '100.00' },
+          ],
+        },
+      ]);
+
+      await service.cancelBooking('user-1', 'booking-1', {});
+
+      expect(budgetService.updateItem).toHaveBeenCalledWith(
+        'item-1',
+        expect.objectContaining({
+          amount: 100,
+          paidByMemberId: 'member-1',
+          splitType: ExpenseSplitType.EXACT,
+          splits: [
+            { memberId: 'member-1', value: 66.67 },
+            { memberId: 'member-2', value: 33.33 },
+          ],
+        }),
+        'user-1',
+      );
+    });
+
+    it('rejects a booking that is already cancelled', async () => {
+      bookingRepo.findOne.mockResolvedValue({
+        ...confirmed(),
+        status: BookingStatus.CANCELLED,
+      });
+
+      await expect(
+        service.cancelBooking('user-1', 'booking-1', {}),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(amadeus.deleteHotelOrder).not.toHaveBeenCalled();
+    });
+  });
+});
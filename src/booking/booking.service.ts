@@ -1,15 +1,604 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
 import { AmadeusApiService } from '../integrations/amadeus/amadeus-api.service';
 import { CreateHotelOrderDto } from './dto/create-hotel-order.dto';
+import { BookingQueryDto } from './dto/booking-query.dto';
+import {
+  CancelBookingDto,
+  CancelBookingResultDto,
+  CancelledBudgetItemDto,
+} from './dto/cancel-booking.dto';
+import {
+  CancellationCharge,
+  cancellationCharge,
+} from './utils/cancellation-policy.util';
+import {
+  BookingEntity,
+  BookingStatus,
+  BookingType,
+} from 'src/schemas/booking.entity';
+import { LodgingReservationEntity } from 'src/schemas/lodging-reservation.entity';
+import { PaymentEntity, PaymentStatus } from 'src/schemas/payment.entity';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import { ExpenseSplitType } from 'src/schemas/budget-item-split.entity';
+import { ActivityAction } from 'src/schemas/trip-activity-log.entity';
+import { TripCollaborationService } from 'src/trip/trip-collaboration.service';
+import { PaymentService } from 'src/payment/payment.service';
+import { BudgetService } from 'src/budget/budget.service';
+import { UpdateBudgetItemDto } from 'src/budget/dto/update-item.dto';
+import {
+  allocateByWeight,
+  splitWeights,
+} from 'src/budget/utils/expense-split.util';
+import { fromCents, toCents } from 'src/shared/utils/money.util';
+import { BookingSyncService } from './booking-sync.service';
+import { ErrorUtilService } from 'src/shared/utils/error.util';
+
+const AMADEUS_PROVIDER = 'amadeus';
+
+/** `providerPayload.cancellation` of a cancelled booking */
+interface BookingCancellation extends CancellationCharge {
+  reason?: string;
+  cancelledBy: string;
+  cancelledAt: string;
+  /** Budget items already shrunk or removed for the fee */
+  settledItemIds?: string[];
+  /** Set once payments, expenses and the itinerary are settled */
+  settledAt?: string;
+}
+
+/** Subset of the Amadeus hotel-order response used for persistence */
+interface AmadeusHotelBooking {
+  id?: string;
+  bookingStatus?: string;
+  hotelProviderInformation?: { confirmationNumber?: string }[];
+  roomAssociations?: { hotelOfferId?: string; guestReferences?: unknown[] }[];
+  hotelOffer?: {
+    id?: string;
+    checkInDate?: string;
+    checkOutDate?: string;
+    guests?: { adults?: number };
+    price?: { currency?: string; total?: string };
+    room?: { description?: { text?: string } };
+  };
+  hotel?: { hotelId?: string; name?: string };
+  providerConfirmationId?: string;
+}
+
+interface AmadeusHotelOrderResponse {
+  data?:
+    | { id?: string; hotelBookings?: AmadeusHotelBooking[] }
+    | AmadeusHotelBooking[];
+}
 
 @Injectable()
 export class BookingService {
-  constructor(private readonly amadeus: AmadeusApiService) {}
+  private readonly logger = new Logger(BookingService.name);
+
+  constructor(
+    private readonly amadeus: AmadeusApiService,
+    @InjectRepository(BookingEntity)
+    private readonly bookingRepo: Repository<BookingEntity>,
+    @InjectRepository(BudgetItemEntity)
+    private readonly budgetItemRepo: Repository<BudgetItemEntity>,
+    private readonly collaborationService: TripCollaborationService,
+    private readonly paymentService: PaymentService,
+    private readonly budgetService: BudgetService,
+    private readonly bookingSync: BookingSyncService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Place a hotel order with Amadeus and persist it against the trip.
+   * The booking is stored as PENDING before the provider call, then moves to
+   * CONFIRMED (with lodging and payment rows) or CANCELLED in one transaction.
+   * The provider's answer is saved on the PENDING row first, so an order that
+   * Amadeus accepted can still be reconciled if that transaction fails.
+   * A confirmed stay is then synced into the itinerary and budget.
+   */
+  async createHotelOrder(
+    userId: string,
+    dto: CreateHotelOrderDto,
+  ): Promise<BookingEntity> {
+    await this.assertTripRole(dto.tripId, userId, MemberRole.EDITOR);
+
+    const offerIds = dto.data.roomAssociations.map((r) => r.hotelOfferId);
+    const pending = await this.bookingRepo.save(
+      this.bookingRepo.create({
+        tripId: dto.tripId,
+        userId,
+        type: BookingType.HOTEL,
+        provider: AMADEUS_PROVIDER,
+        status: BookingStatus.PENDING,
+        offerId: offerIds[0],
+        totalPrice: dto.stay.totalPrice?.toFixed(2),
+        currency: (dto.stay.currency ?? 'USD').toUpperCase(),
+      }),
+    );
+
+    let response: AmadeusHotelOrderResponse;
+    try {
+      // Amadeus expects payload under { data: { ... } } and dto.data already contains the required structure
+      response = (await this.amadeus.createHotelBooking(
+        dto.data as unknown as Record<string, unknown>,
+      )) as AmadeusHotelOrderResponse;
+    } catch (error: unknown) {
+      const err = error as {
+        message?: string;
+        response?: { status?: number; data?: unknown };
+      };
+      pending.status = BookingStatus.CANCELLED;
+      pending.providerPayload = {
+        error: err?.message || 'Unknown error',
+        providerStatus: err?.response?.status,
+        providerResponse: err?.response?.data,
+      };
+      await this.bookingRepo.save(pending);
+      this.logger.warn(
+        `Hotel order ${pending.id} failed at provider: ${err?.message || 'Unknown error'}`,
+      );
+      throw error;
+    }
+
+    const providerPayload = { ...response };
+    await this.bookingRepo.update(pending.id, { providerPayload });
+    pending.providerPayload = providerPayload;
+
+    const { orderId, hotelBookings } = this.parseHotelOrder(response);
+    const first = hotelBookings[0];
+    const total =
+      first?.hotelOffer?.price?.total ?? dto.stay.totalPrice?.toFixed(2);
+    const currency = (
+      first?.hotelOffer?.price?.currency ??
+      dto.stay.currency ??
+      'USD'
+    ).toUpperCase();
+    const allCancelled =
+      hotelBookings.length > 0 &&
+      hotelBookings.every((b) => b.bookingStatus === 'CANCELLED');
+
+    try {
+      await this.dataSource.transaction(async (manager) => {
+        const bookingRepoTx = manager.getRepository(BookingEntity);
+        const lodgingRepoTx = manager.getRepository(LodgingReservationEntity);
+        const paymentRepoTx = manager.getRepository(PaymentEntity);
 
-  async createHotelOrder(dto: CreateHotelOrderDto): Promise<unknown> {
-    // Amadeus expects payload under { data: { ... } } and dto.data already contains the required structure
-    return await this.amadeus.createHotelBooking(
-      dto.data as unknown as Record<string, unknown>,
+        pending.status = allCancelled
+          ? BookingStatus.CANCELLED
+          : BookingStatus.CONFIRMED;
+        pending.totalPrice = total;
+        pending.currency = currency;
+        await bookingRepoTx.save(pending);
+
+        const rooms: (AmadeusHotelBooking | undefined)[] = hotelBookings.length
+          ? hotelBookings
+          : [undefined];
+        await lodgingRepoTx.save(
+          rooms.map((room, idx) =>
+            lodgingRepoTx.create({
+              bookingId: pending.id,
+              tripId: dto.tripId,
+              hotelId: room?.hotel?.hotelId ?? dto.stay.hotelId,
+              offerId: room?.hotelOffer?.id ?? offerIds[idx] ?? offerIds[0],
+              checkIn: new Date(
+                room?.hotelOffer?.checkInDate ?? dto.stay.checkInDate,
+              ),
+              checkOut: new Date(
+                room?.hotelOffer?.checkOutDate ?? dto.stay.checkOutDate,
+              ),
+              guestCount:
+                room?.hotelOffer?.guests?.adults ??
+                dto.data.roomAssociations[idx]?.guestReferences.length ??
+                dto.data.guests.length,
+              roomDescription:
+                room?.hotelOffer?.room?.description?.text ??
+                dto.stay.roomDescription,
+              details: {
+                providerBookingId: room?.id,
+                confirmationNumber:
+                  room?.hotelProviderInformation?.[0]?.confirmationNumber ??
+                  room?.providerConfirmationId,
+                hotelName: room?.hotel?.name,
+              },
+            }),
+          ),
+        );
+
+        if (total !== undefined && !allCancelled) {
+          await paymentRepoTx.save(
+            paymentRepoTx.create({
+              bookingId: pending.id,
+              provider: AMADEUS_PROVIDER,
+              // Card is only guaranteed at booking time; the hotel charges it later
+              status: PaymentStatus.AUTHORIZED,
+              transactionRef: orderId,
+              amount: total,
+              currency,
+              providerPayload: {
+                method: dto.data.payment.method,
+                vendorCode:
+                  dto.data.payment.paymentCard.paymentCardInfo.vendorCode,
+              },
+            }),
+          );
+        }
+      });
+    } catch (error: unknown) {
+      this.logger.error(
+        `Hotel order ${orderId ?? 'unknown'} was placed at Amadeus but booking ${pending.id} could not be saved; it stays PENDING for reconciliation: ${ErrorUtilService.getErrorMessage(error)}`,
+      );
+      throw error;
+    }
+
+    await this.bookingSync.sync(pending.id, userId);
+    return this.findBookingWithRelations(pending.id);
+  }
+
+  /**
+   * List bookings of a trip (any member) or, without tripId, the caller's own
+   */
+  async listBookings(
+    userId: string,
+    query: BookingQueryDto,
+  ): Promise<BookingEntity[]> {
+    const qb = this.bookingRepo
+      .createQueryBuilder('booking')
+      .leftJoinAndSelect('booking.payments', 'payments')
+      .leftJoinAndSelect('booking.lodgingReservations', 'lodgingReservations')
+      .leftJoinAndSelect(
+        'booking.transportReservations',
+        'transportReservations',
+      )
+      .leftJoinAndSelect(
+        'booking.attractionReservations',
+        'attractionReservations',
+      )
+      .orderBy('booking.createdAt', 'DESC');
+
+    if (query.tripId) {
+      await this.assertTripRole(query.tripId, userId, MemberRole.VIEWER);
+      qb.where('booking.tripId = :tripId', { tripId: query.tripId });
+    } else {
+      qb.where('booking.userId = :userId', { userId });
+    }
+    if (query.type) {
+      qb.andWhere('booking.type = :type', { type: query.type });
+    }
+    if (query.status) {
+      qb.andWhere('booking.status = :status', { status: query.status });
+    }
+
+    return qb.getMany();
+  }
+
+  /**
+   * Get a booking visible to the caller (its creator or a trip member)
+   */
+  async getBooking(userId: string, id: string): Promise<BookingEntity> {
+    const booking = await this.findBookingWithRelations(id);
+    if (booking.userId !== userId) {
+      await this.assertTripRole(booking.tripId, userId, MemberRole.VIEWER);
+    }
+    return booking;
+  }
+
+  /**
+   * Cancel a booking at the provider, then settle its payments and linked
+   * budget expenses according to the cancellation policy of the stored
+   * offer. Each step is written to the trip activity log.
+   *
+   * Progress is kept on the booking, so calling this again after a failed
+   * settlement picks up where it stopped instead of reporting the booking
+   * as already cancelled.
+   */
+  async cancelBooking(
+    userId: string,
+    id: string,
+    dto: CancelBookingDto,
+  ): Promise<CancelBookingResultDto> {
+    const booking = await this.findBookingWithRelations(id);
+    await this.assertTripRole(booking.tripId, userId, MemberRole.EDITOR);
+    const cancellation =
+      booking.status === BookingStatus.CANCELLED
+        ? this.unsettledCancellation(booking)
+        : await this.cancelWithProvider(booking, userId, dto);
+    const charge: CancellationCharge = {
+      policy: cancellation.policy,
+      fee: cancellation.fee,
+      refundable: cancellation.refundable,
+      freeUntil: cancellation.freeUntil,
+    };
+
+    const payments = await this.paymentService.settleCancellation(
+      booking,
+      charge.fee,
     );
+    for (const payment of payments) {
+      await this.logBookingActivity(
+        booking,
+        userId,
+        ActivityAction.BOOKING_PAYMENT_SETTLED,
+        {
+          paymentId: payment.id,
+          provider: payment.provider,
+          status: payment.status,
+          currency: payment.currency,
+          capturedAmount: payment.capturedAmount,
+          refundedAmount: payment.refundedAmount,
+        },
+      );
+    }
+
+    const budgetItems = await this.settleBudgetItems(
+      booking,
+      cancellation,
+      userId,
+    );
+    if (budgetItems.length) {
+      await this.logBookingActivity(
+        booking,
+        userId,
+        ActivityAction.BOOKING_BUDGET_UPDATED,
+        { items: budgetItems },
+      );
+    }
+    // Drops the derived activities; expenses were settled above
+    await this.bookingSync.sync(booking.id, userId);
+    await this.saveCancellation(booking, {
+      ...cancellation,
+      settledAt: new Date().toISOString(),
+    });
+
+    await this.logBookingActivity(
+      booking,
+      userId,
+      ActivityAction.BOOKING_CANCELLED,
+      { fee: charge.fee, refundable: charge.refundable },
+    );
+    return {
+      booking: await this.findBookingWithRelations(booking.id),
+      cancellation: { ...charge, currency: booking.currency },
+      payments,
+      budgetItems,
+    };
+  }
+
+  /** Cancel the provider order and mark the booking cancelled */
+  private async cancelWithProvider(
+    booking: BookingEntity,
+    userId: string,
+    dto: CancelBookingDto,
+  ): Promise<BookingCancellation> {
+    const total = Number(booking.totalPrice ?? 0);
+    const charge = cancellationCharge(booking.providerPayload, total);
+    await this.logBookingActivity(
+      booking,
+      userId,
+      ActivityAction.BOOKING_CANCEL_REQUESTED,
+      { reason: dto.reason, currency: booking.currency, ...charge },
+    );
+
+    const orderId = this.providerOrderId(booking);
+    if (orderId) {
+      try {
+        if (booking.type === BookingType.FLIGHT) {
+          await this.amadeus.deleteFlightOrder(orderId);
+        } else {
+          await this.amadeus.deleteHotelOrder(orderId);
+        }
+      } catch (error: unknown) {
+        await this.logBookingActivity(
+          booking,
+          userId,
+          ActivityAction.BOOKING_CANCEL_FAILED,
+          {
+            provider: booking.provider,
+            orderId,
+            error: ErrorUtilService.getErrorMessage(error),
+          },
+        );
+        throw error;
+      }
+      await this.logBookingActivity(
+        booking,
+        userId,
+        ActivityAction.BOOKING_PROVIDER_CANCELLED,
+        { provider: booking.provider, orderId },
+      );
+    }
+
+    const cancellation: BookingCancellation = {
+      ...charge,
+      reason: dto.reason,
+      cancelledBy: userId,
+      cancelledAt: new Date().toISOString(),
+    };
+    booking.status = BookingStatus.CANCELLED;
+    await this.saveCancellation(booking, cancellation);
+    return cancellation;
+  }
+
+  /** Cancellation of a cancelled booking that still has settling to do */
+  private unsettledCancellation(booking: BookingEntity): BookingCancellation {
+    const cancellation = booking.providerPayload?.cancellation as
+      | BookingCancellation
+      | undefined;
+    if (!cancellation || cancellation.settledAt) {
+      throw new BadRequestException('Booking is already cancelled');
+    }
+    return cancellation;
+  }
+
+  private async saveCancellation(
+    booking: BookingEntity,
+    cancellation: BookingCancellation,
+  ): Promise<void> {
+    const providerPayload = { ...booking.providerPayload, cancellation };
+    await this.bookingRepo.update(booking.id, {
+      status: booking.status,
+      providerPayload,
+    });
+    booking.providerPayload = providerPayload;
+  }
+
+  private async findBookingWithRelations(id: string): Promise<BookingEntity> {
+    const booking = await this.bookingRepo.findOne({
+      where: { id },
+      relations: [
+        'payments',
+        'lodgingReservations',
+        'transportReservations',
+        'attractionReservations',
+      ],
+    });
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+    return booking;
+  }
+
+  private async assertTripRole(
+    tripId: string,
+    userId: string,
+    role: MemberRole,
+  ): Promise<void> {
+    const allowed = await this.collaborationService.checkPermission(
+      tripId,
+      userId,
+      role,
+    );
+    if (!allowed) {
+      throw new ForbiddenException(
+        `You need ${role} role or higher on this trip`,
+      );
+    }
+  }
+
+  /**
+   * Expenses recorded against the booking (`refId` set to its id) shrink to
+   * their share of the fee kept, or are removed when nothing is kept. Items
+   * already settled by an earlier attempt are recorded on the cancellation
+   * and skipped.
+   */
+  private async settleBudgetItems(
+    booking: BookingEntity,
+    cancellation: BookingCancellation,
+    userId: string,
+  ): Promise<CancelledBudgetItemDto[]> {
+    const items = await this.budgetItemRepo.find({
+      where: { refId: booking.id, tripBudget: { tripId: booking.tripId } },
+      relations: ['splits'],
+    });
+    const total = Number(booking.totalPrice ?? 0);
+    const done = new Set(cancellation.settledItemIds ?? []);
+    const settled: CancelledBudgetItemDto[] = [];
+
+    for (const item of items.filter((i) => !done.has(i.id))) {
+      const kept =
+        total > 0
+          ? Math.round(
+              (Number(item.originalAmount) * cancellation.fee * 100) / total,
+            ) / 100
+          : 0;
+      if (kept > 0) {
+        await this.budgetService.updateItem(
+          item.id,
+          {
+            amount: kept,
+            note: [item.note, 'Booking cancelled, fee kept']
+              .filter(Boolean)
+              .join(' - '),
+            ...this.rescaledExactSplit(item, kept),
+          },
+          userId,
+        );
+        settled.push({ itemId: item.id, action: 'updated' });
+      } else {
+        await this.budgetService.deleteItem(item.id, userId);
+        settled.push({ itemId: item.id, action: 'deleted' });
+      }
+      done.add(item.id);
+      await this.saveCancellation(booking, {
+        ...cancellation,
+        settledItemIds: [...done],
+      });
+    }
+    return settled;
+  }
+
+  /**
+   * Exact splits must add up to the item amount, so they shrink with it in
+   * proportion to the amounts they had
+   */
+  private rescaledExactSplit(
+    item: BudgetItemEntity,
+    amount: number,
+  ): Partial<UpdateBudgetItemDto> {
+    if (item.splitType !== ExpenseSplitType.EXACT || !item.splits?.length) {
+      return {};
+    }
+    const cents = allocateByWeight(
+      toCents(amount),
+      splitWeights(ExpenseSplitType.EXACT, item.splits),
+    );
+    return {
+      paidByMemberId: item.paidByMemberId ?? undefined,
+      splitType: ExpenseSplitType.EXACT,
+      splits: item.splits.map((split, i) => ({
+        memberId: split.memberId,
+        value: fromCents(cents[i]),
+      })),
+    };
+  }
+
+  /** Order id to cancel at Amadeus, if the provider ever accepted the booking */
+  private providerOrderId(booking: BookingEntity): string | undefined {
+    if (booking.provider !== AMADEUS_PROVIDER || !booking.providerPayload) {
+      return undefined;
+    }
+    if (booking.type === BookingType.FLIGHT) {
+      const data = booking.providerPayload.data as { id?: string } | undefined;
+      return data?.id;
+    }
+    return (
+      this.parseHotelOrder(booking.providerPayload as AmadeusHotelOrderResponse)
+        .orderId ??
+      booking.payments?.find((p) => p.provider === AMADEUS_PROVIDER)
+        ?.transactionRef
+    );
+  }
+
+  private async logBookingActivity(
+    booking: BookingEntity,
+    userId: string,
+    action: ActivityAction,
+    metadata: Record<string, unknown>,
+  ): Promise<void> {
+    await this.collaborationService.logActivity(
+      booking.tripId,
+      userId,
+      action,
+      { bookingId: booking.id, ...metadata },
+    );
+  }
+
+  /** Normalise the v1 (array) and v2 (hotel-order) response shapes */
+  private parseHotelOrder(response: AmadeusHotelOrderResponse): {
+    orderId?: string;
+    hotelBookings: AmadeusHotelBooking[];
+  } {
+    const data = response?.data;
+    if (Array.isArray(data)) {
+      return { orderId: data[0]?.id, hotelBookings: data };
+    }
+    return { orderId: data?.id, hotelBookings: data?.hotelBookings ?? [] };
   }
 }
@@ -0,0 +1,20 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { BookingStatus, BookingType } from 'src/schemas/booking.entity';
+
+export class BookingQueryDto {
+  @ApiPropertyOptional({ description: 'Only bookings of this trip' })
+  @IsOptional()
+  @IsUUID()
+  tripId?: string;
+
+  @ApiPropertyOptional({ enum: BookingType })
+  @IsOptional()
+  @IsEnum(BookingType)
+  type?: BookingType;
+
+  @ApiPropertyOptional({ enum: BookingStatus })
+  @IsOptional()
+  @IsEnum(BookingStatus)
+  status?: BookingStatus;
+}
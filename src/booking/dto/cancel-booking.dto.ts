@@ -0,0 +1,35 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { BookingEntity } from 'src/schemas/booking.entity';
+import { PaymentSummaryDto } from 'src/payment/dto/payment-ledger.dto';
+import { CancellationPolicyType } from '../utils/cancellation-policy.util';
+
+export class CancelBookingDto {
+  @ApiPropertyOptional({ description: 'Why the booking is cancelled' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class BookingCancellationDto {
+  policy: CancellationPolicyType;
+  currency: string;
+  /** Amount kept as cancellation fee */
+  fee: number;
+  refundable: number;
+  freeUntil: string | null;
+}
+
+export class CancelledBudgetItemDto {
+  itemId: string;
+  /** Updated to the fee kept, or deleted when nothing is kept */
+  action: 'updated' | 'deleted';
+}
+
+export class CancelBookingResultDto {
+  booking: BookingEntity;
+  cancellation: BookingCancellationDto;
+  payments: PaymentSummaryDto[];
+  budgetItems: CancelledBudgetItemDto[];
+}
@@ -5,12 +5,16 @@ import {
   IsEmail,
   IsEnum,
   IsIn,
+  IsDateString,
   IsInt,
   IsNotEmpty,
+  IsNumber,
   IsOptional,
   IsString,
+  IsUUID,
   Length,
   Matches,
+  Min,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
@@ -175,7 +179,56 @@ export class HotelOrderDataDto {
   payment!: PaymentPayloadDto;
 }
 
+export class HotelStayDto {
+  @ApiProperty({ example: 'MCLONGHM', required: false })
+  @IsOptional()
+  @IsString()
+  hotelId?: string;
+
+  @ApiProperty({ example: '2025-12-20' })
+  @IsDateString()
+  checkInDate!: string;
+
+  @ApiProperty({ example: '2025-12-23' })
+  @IsDateString()
+  checkOutDate!: string;
+
+  @ApiProperty({
+    example: 350.5,
+    required: false,
+    description: 'Offer total, used when the provider response omits it',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  totalPrice?: number;
+
+  @ApiProperty({ example: 'USD', required: false })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiProperty({ example: 'Deluxe king room, city view', required: false })
+  @IsOptional()
+  @IsString()
+  roomDescription?: string;
+}
+
 export class CreateHotelOrderDto {
+  @ApiProperty({ description: 'Trip the booking belongs to' })
+  @IsUUID()
+  tripId!: string;
+
+  @ApiProperty({
+    type: HotelStayDto,
+    description: 'Snapshot of the selected offer (dates, hotel, price)',
+  })
+  @ValidateNested()
+  @Type(() => HotelStayDto)
+  stay!: HotelStayDto;
+
   @ApiProperty({ type: HotelOrderDataDto })
   @ValidateNested()
   @Type(() => HotelOrderDataDto)
@@ -0,0 +1,65 @@
+import {
+  CancellationPolicyType,
+  cancellationCharge,
+} from './cancellation-policy.util';
+
+describe('cancellationCharge', () => {
+  const hotelPayload = (policies: Record<string, unknown>) => ({
+    data: [
+      {
+        hotelOffer: {
+          checkInDate: '2026-05-01',
+          checkOutDate: '2026-05-05',
+          price: { total: '400.00' },
+          policies,
+        },
+      },
+    ],
+  });
+
+  it('is free before the deadline and charges the penalty after it', () => {
+    const payload = hotelPayload({
+      cancellations: [
+        { deadline: '2026-04-28T23:59:00+02:00', percentage: '25' },
+      ],
+    });
+
+    expect(
+      cancellationCharge(payload, 400, new Date('2026-04-20T00:00:00Z')),
+    ).toEqual({
+      policy: CancellationPolicyType.FREE,
+      fee: 0,
+      refundable: 400,
+      freeUntil: '2026-04-28T21:59:00.000Z',
+    });
+    expect(
+      cancellationCharge(payload, 400, new Date('2026-04-30T00:00:00Z')),
+    ).toEqual({
+      policy: CancellationPolicyType.PENALTY,
+      fee: 100,
+      refundable: 300,
+      freeUntil: null,
+    });
+  });
+
+  it('keeps everything for non-refundable offers', () => {
+    const payload = hotelPayload({
+      refundable: { cancellationRefund: 'NON_REFUNDABLE' },
+    });
+
+    expect(cancellationCharge(payload, 400)).toMatchObject({
+      policy: CancellationPolicyType.NON_REFUNDABLE,
+      fee: 400,
+      refundable: 0,
+    });
+  });
+
+  it('refunds in full when the payload has no terms', () => {
+    expect(cancellationCharge(undefined, 250)).toEqual({
+      policy: CancellationPolicyType.NONE,
+      fee: 0,
+      refundable: 250,
+      freeUntil: null,
+    });
+  });
+});
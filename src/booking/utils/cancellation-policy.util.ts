@@ -0,0 +1,154 @@
+import { roundMoney } from 'src/shared/utils/money.util';
+
+export enum CancellationPolicyType {
+  /** The stored offer carries no cancellation terms */
+  NONE = 'none',
+  /** Cancelled before every penalty deadline */
+  FREE = 'free',
+  /** A penalty deadline has passed */
+  PENALTY = 'penalty',
+  NON_REFUNDABLE = 'non_refundable',
+}
+
+export interface CancellationCharge {
+  policy: CancellationPolicyType;
+  /** Amount the provider keeps, in the booking currency */
+  fee: number;
+  refundable: number;
+  /** Earliest penalty deadline still ahead, if any */
+  freeUntil: string | null;
+}
+
+/** Subset of the Amadeus hotel offer policies used for cancellation */
+interface HotelOfferPolicies {
+  cancellations?: {
+    deadline?: string;
+    amount?: string;
+    numberOfNights?: number;
+    percentage?: string;
+  }[];
+  refundable?: { cancellationRefund?: string };
+}
+
+interface StoredHotelOffer {
+  checkInDate?: string;
+  checkOutDate?: string;
+  price?: { total?: string };
+  policies?: HotelOfferPolicies;
+}
+
+interface StoredFlightOffer {
+  pricingOptions?: { refundableFare?: boolean };
+}
+
+/** Hotel offers of a v1 (array) or v2 (hotel-order) response */
+function hotelOffers(payload: Record<string, unknown>): StoredHotelOffer[] {
+  const data = payload.data as
+    | { hotelBookings?: { hotelOffer?: StoredHotelOffer }[] }
+    | { hotelOffer?: StoredHotelOffer }[]
+    | undefined;
+  const bookings = Array.isArray(data) ? data : (data?.hotelBookings ?? []);
+  return bookings
+    .map((b) => b.hotelOffer)
+    .filter((o): o is StoredHotelOffer => !!o);
+}
+
+function flightOffers(payload: Record<string, unknown>): StoredFlightOffer[] {
+  const data = payload.data as { flightOffers?: StoredFlightOffer[] };
+  return data?.flightOffers ?? [];
+}
+
+/** Penalty of one hotel offer at `at`, and its next deadline */
+function hotelOfferFee(
+  offer: StoredHotelOffer,
+  price: number,
+  at: Date,
+): { fee: number; nonRefundable: boolean; freeUntil: Date | null } {
+  if (offer.policies?.refundable?.cancellationRefund === 'NON_REFUNDABLE') {
+    return { fee: price, nonRefundable: true, freeUntil: null };
+  }
+
+  const nights =
+    offer.checkInDate && offer.checkOutDate
+      ? Math.max(
+          1,
+          Math.round(
+            (Date.parse(offer.checkOutDate) - Date.parse(offer.checkInDate)) /
+              86_400_000,
+          ),
+        )
+      : 1;
+  let fee = 0;
+  let freeUntil: Date | null = null;
+  for (const rule of offer.policies?.cancellations ?? []) {
+    const deadline = rule.deadline ? new Date(rule.deadline) : null;
+    if (deadline && deadline > at) {
+      if (!freeUntil || deadline < freeUntil) freeUntil = deadline;
+      continue;
+    }
+    let ruleFee = price;
+    if (rule.amount !== undefined) ruleFee = Number(rule.amount);
+    else if (rule.percentage !== undefined) {
+      ruleFee = (price * Number(rule.percentage)) / 100;
+    } else if (rule.numberOfNights !== undefined) {
+      ruleFee = (price / nights) * rule.numberOfNights;
+    }
+    fee = Math.max(fee, Number.isFinite(ruleFee) ? ruleFee : price);
+  }
+  return { fee: Math.min(fee, price), nonRefundable: false, freeUntil };
+}
+
+/**
+ * What cancelling now costs, read from the provider payload stored on the
+ * booking. Offers without cancellation terms are treated as refundable.
+ */
+export function cancellationCharge(
+  payload: Record<string, unknown> | undefined,
+  total: number,
+  at: Date = new Date(),
+): CancellationCharge {
+  const result = (
+    policy: CancellationPolicyType,
+    fee: number,
+    freeUntil: Date | null = null,
+  ): CancellationCharge => {
+    const kept = roundMoney(Math.min(Math.max(fee, 0), total));
+    return {
+      policy,
+      fee: kept,
+      refundable: roundMoney(total - kept),
+      freeUntil: freeUntil?.toISOString() ?? null,
+    };
+  };
+
+  const hotels = payload ? hotelOffers(payload) : [];
+  if (hotels.some((o) => o.policies)) {
+    let fee = 0;
+    let nonRefundable = true;
+    let freeUntil: Date | null = null;
+    for (const offer of hotels) {
+      const price = Number(offer.price?.total ?? total / hotels.length);
+      const charge = hotelOfferFee(offer, price, at);
+      fee += charge.fee;
+      nonRefundable &&= charge.nonRefundable;
+      if (charge.freeUntil && (!freeUntil || charge.freeUntil < freeUntil)) {
+        freeUntil = charge.freeUntil;
+      }
+    }
+    if (nonRefundable) {
+      return result(CancellationPolicyType.NON_REFUNDABLE, total);
+    }
+    return fee > 0
+      ? result(CancellationPolicyType.PENALTY, fee, freeUntil)
+      : result(CancellationPolicyType.FREE, 0, freeUntil);
+  }
+
+  const flights = payload ? flightOffers(payload) : [];
+  if (flights.length) {
+    return flights.some((o) => o.pricingOptions?.refundableFare === false)
+      ? result(CancellationPolicyType.NON_REFUNDABLE, total)
+      : result(CancellationPolicyType.FREE, 0);
+  }
+
+  return result(CancellationPolicyType.NONE, 0);
+}
@@ -0,0 +1,203 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { BudgetAlertService } from './budget-alert.service';
+import { BudgetAuditService } from './budget-audit.service';
+import { RedisCacheService } from 'src/redis/redis-cache.service';
+import { EmailService } from 'src/email/email.service';
+import { NotificationService } from 'src/notification/notification.service';
+import {
+  BudgetCapType,
+  BudgetOverrunPolicy,
+  TripBudgetEntity,
+} from 'src/schemas/trip-budget.entity';
+import { NotificationType } from 'src/schemas/notification.entity';
+
+describe('BudgetAlertService', () => {
+  // In-memory stand-in for the Redis keys used for dedupe
+  const keys = new Set<string>();
+  // An unavailable Redis answers with the caller's fallback
+  let redisDown = false;
+  const redis = {
+    setIfAbsent: jest.fn(
+      (key: string, _value: unknown, _ttl: number, failOpen = true) => {
+        if (redisDown) return Promise.resolve(failOpen);
+        if (keys.has(key)) return Promise.resolve(false);
+        keys.add(key);
+        return Promise.resolve(true);
+      },
+    ),
+    del: jest.fn((key: string) => {
+      keys.delete(key);
+      return Promise.resolve();
+    }),
+  };
+  const memberRepo = {
+    find: jest.fn().mockResolvedValue([
+      {
+        userId: 'u-an',
+        user: {
+          email: 'an@example.com',
+          displayName: 'An',
+          preferredLanguage: 'vi',
+        },
+      },
+      { userId: 'u-binh', user: { email: 'binh@example.com' } },
+    ]),
+  };
+  const tripRepo = {
+    findOne: jest.fn().mockResolvedValue({ id: 'trip-1', title: 'Da Lat' }),
+  };
+  const itemRepo = {
+    createQueryBuilder: jest.fn(() => ({
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn().mockResolvedValue({ total: '450' }),
+    })),
+  };
+  const auditService = { logAction: jest.fn() };
+  const notificationService = { createMany: jest.fn() };
+  const emailService = { sendBudgetAlert: jest.fn().mockResolvedValue(true) };
+
+  const service = new BudgetAlertService(
+    memberRepo as unknown as Repository<any>,
+    tripRepo as unknown as Repository<any>,
+    itemRepo as unknown as Repository<any>,
+    redis as unknown as RedisCacheService,
+    auditService as unknown as BudgetAuditService,
+    notificationService as unknown as NotificationService,
+    emailService as unknown as EmailService,
+    { get: () => 'https://app.example.com' } as unknown as ConfigService,
+  );
+
+  const budget = {
+    id: 'budget-1',
+    tripId: 'trip-1',
+    totalBudget: 1000,
+    currency: 'VND',
+    notifyThreshold: 0.8,
+    notifyThresholds: [1, 0.5, 0.8],
+  } as TripBudgetEntity;
+
+  beforeEach(() => {
+    keys.clear();
+    redisDown = false;
+    jest.clearAllMocks();
+  });
+
+  it('falls back to the single threshold when no levels are set', () => {
+    expect(
+      service.thresholdsFor({ ...budget, notifyThresholds: null }),
+    ).toEqual([0.8]);
+    expect(service.thresholdsFor(budget)).toEqual([0.5, 0.8, 1]);
+    expect(
+      service.thresholdsFor({
+        ...budget,
+        notifyThresholds: null,
+        overrunPolicy: BudgetOverrunPolicy.WARN,
+      }),
+    ).toEqual([0.8, 1]);
+  });
+
+  it('fires every level once while spending stays above it', async () => {
+    await expect(service.syncThresholdAlerts(budget, 400)).resolves.toEqual([]);
+    await expect(service.syncThresholdAlerts(budget, 500)).resolves.toEqual([
+      0.5,
+    ]);
+    await expect(service.syncThresholdAlerts(budget, 700)).resolves.toEqual([]);
+    await expect(service.syncThresholdAlerts(budget, 1000)).resolves.toEqual([
+      0.8, 1,
+    ]);
+
+    // One alert per call even when several levels are crossed at once
+    expect(auditService.logAction).toHaveBeenCalledTimes(2);
+    expect(emailService.sendBudgetAlert).toHaveBeenCalledTimes(4);
+    expect(emailService.sendBudgetAlert).toHaveBeenLastCalledWith(
+      'binh@example.com',
+      undefined,
+      'Da Lat',
+      expect.objectContaining({ thresholdPercent: 100, remaining: 0 }),
+      'https://app.example.com/trips/trip-1',
+      'en',
+    );
+  });
+
+  it('re-arms a level when spending drops below it', async () => {
+    await service.syncThresholdAlerts(budget, 850);
+    await service.syncThresholdAlerts(budget, 600);
+    await expect(service.syncThresholdAlerts(budget, 820)).resolves.toEqual([
+      0.8,
+    ]);
+    expect(redis.del).toHaveBeenCalledWith('budget:alert:budget-1:0.8');
+  });
+
+  it('notifies every trip member in-app and by email', async () => {
+    await service.syncThresholdAlerts(budget, 500);
+
+    const [notifications] = notificationService.createMany.mock.calls[0] as [
+      { userId: string; type: NotificationType; data: object }[],
+    ];
+    expect(notifications.map((n) => n.userId)).toEqual(['u-an', 'u-binh']);
+    expect(notifications[0]).toMatchObject({
+      type: NotificationType.BUDGET_THRESHOLD,
+      data: { tripId: 'trip-1', threshold: 0.5, percentageUsed: 50 },
+    });
+    expect(emailService.sendBudgetAlert).toHaveBeenCalledWith(
+      'an@example.com',
+      'An',
+      'Da Lat',
+      expect.objectContaining({ thresholdPercent: 50 }),
+      'https://app.example.com/trips/trip-1',
+      'vi',
+    );
+  });
+
+  it('alerts on category caps against the cap amount', async () => {
+    const capped = {
+      ...budget,
+      categoryCaps: [
+        { category: 'food', type: BudgetCapType.PERCENTAGE, value: 50 },
+        { category: 'transport', type: BudgetCapType.AMOUNT, value: 2000 },
+      ],
+    } as TripBudgetEntity;
+
+    // 450 of the 500 food cap; transport (450 of 2000) stays quiet
+    await service.syncCategoryAlerts(capped, ['food', 'transport']);
+
+    expect(auditService.logAction).toHaveBeenCalledTimes(1);
+    expect(redis.setIfAbsent).toHaveBeenCalledWith(
+      'budget:alert:budget-1:category:food:0.8',
+      expect.any(String),
+      expect.any(Number),
+      false,
+    );
+    expect(emailService.sendBudgetAlert).toHaveBeenCalledWith(
+      'an@example.com',
+      'An',
+      'Da Lat',
+      expect.objectContaining({
+        category: 'food',
+        totalBudget: 500,
+        percentageUsed: 90,
+      }),
+      'https://app.example.com/trips/trip-1',
+      'vi',
+    );
+  });
+
+  it('stays quiet instead of repeating alerts while Redis is down', async () => {
+    redisDown = true;
+
+    await service.syncThresholdAlerts(budget, 900);
+    await service.syncThresholdAlerts(budget, 950);
+
+    expect(auditService.logAction).not.toHaveBeenCalled();
+    expect(emailService.sendBudgetAlert).not.toHaveBeenCalled();
+  });
+
+  it('never throws when delivery fails', async () => {
+    notificationService.createMany.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(service.syncThresholdAlerts(budget, 900)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,254 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  BudgetOverrunPolicy,
+  TripBudgetEntity,
+} from 'src/schemas/trip-budget.entity';
+import { TripMemberEntity } from 'src/schemas/trip-member.entity';
+import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { BudgetAuditAction } from 'src/schemas/budget-audit-log.entity';
+import { NotificationType } from 'src/schemas/notification.entity';
+import { RedisCacheService } from 'src/redis/redis-cache.service';
+import { EmailService } from 'src/email/email.service';
+import { NotificationService } from 'src/notification/notification.service';
+import { ErrorUtilService } from 'src/shared/utils/error.util';
+import { BudgetAuditService } from './budget-audit.service';
+import { capAmount } from './utils/budget-caps.util';
+
+/**
+ * Budget threshold alerts. Every level fires once when spending reaches it
+ * and is re-armed when spending drops below it again. The same levels apply
+ * to the total budget and to each category cap. Fired levels are claimed in
+ * Redis; while it is unavailable no level fires, rather than every one
+ * firing again on each expense.
+ */
+@Injectable()
+export class BudgetAlertService {
+  private readonly logger = new Logger(BudgetAlertService.name);
+
+  /** A fired level stays claimed until spending drops; the TTL only bounds stale keys */
+  private readonly ALERT_TTL_SECONDS = 180 * 24 * 3600; // 180 days
+
+  constructor(
+    @InjectRepository(TripMemberEntity)
+    private readonly memberRepo: Repository<TripMemberEntity>,
+    @InjectRepository(TripEntity)
+    private readonly tripRepo: Repository<TripEntity>,
+    @InjectRepository(BudgetItemEntity)
+    private readonly itemRepo: Repository<BudgetItemEntity>,
+    private readonly redis: RedisCacheService,
+    private readonly auditService: BudgetAuditService,
+    private readonly notificationService: NotificationService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Alert levels of a budget, ascending and without duplicates. Budgets
+   * that warn on overruns always alert at 100%.
+   */
+  thresholdsFor(budget: TripBudgetEntity): number[] {
+    const levels = budget.notifyThresholds?.length
+      ? [...budget.notifyThresholds]
+      : [budget.notifyThreshold];
+    if (budget.overrunPolicy === BudgetOverrunPolicy.WARN) levels.push(1);
+    return [...new Set(levels.map(Number))]
+      .filter((level) => level > 0)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Fire alerts for levels reached by `spentAmount` and re-arm the ones it
+   * is below. Returns the newly fired levels. Never throws, so a failing
+   * mail server cannot break the spending operation.
+   */
+  async syncThresholdAlerts(
+    budget: TripBudgetEntity,
+    spentAmount: number,
+  ): Promise<number[]> {
+    return this.syncLevels(
+      budget,
+      `budget:alert:${budget.id}`,
+      spentAmount,
+      Number(budget.totalBudget),
+    );
+  }
+
+  /**
+   * Same as `syncThresholdAlerts` for every capped category in
+   * `categories`, measured against the category cap
+   */
+  async syncCategoryAlerts(
+    budget: TripBudgetEntity,
+    categories: string[],
+  ): Promise<void> {
+    const caps = (budget.categoryCaps ?? []).filter((cap) =>
+      categories.includes(cap.category),
+    );
+    for (const cap of caps) {
+      try {
+        const spent = await this.categorySpent(budget.id, cap.category);
+        await this.syncLevels(
+          budget,
+          `budget:alert:${budget.id}:category:${cap.category}`,
+          spent,
+          capAmount(cap, budget.totalBudget),
+          cap.category,
+        );
+      } catch (error: unknown) {
+        this.logger.error(
+          `Failed to process ${cap.category} cap alerts for budget ${budget.id}: ${ErrorUtilService.getErrorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  private async syncLevels(
+    budget: TripBudgetEntity,
+    keyPrefix: string,
+    spentAmount: number,
+    limit: number,
+    category?: string,
+  ): Promise<number[]> {
+    try {
+      const spentCents = Math.round(spentAmount * 100);
+      const limitCents = Math.round(limit * 100);
+      const fired: number[] = [];
+
+      for (const threshold of this.thresholdsFor(budget)) {
+        const key = `${keyPrefix}:${threshold}`;
+        if (
+          limitCents <= 0 ||
+          spentCents < Math.round(limitCents * threshold)
+        ) {
+          await this.redis.del(key);
+          continue;
+        }
+        const claimed = await this.redis.setIfAbsent(
+          key,
+          new Date().toISOString(),
+          this.ALERT_TTL_SECONDS,
+          false,
+        );
+        if (claimed) fired.push(threshold);
+      }
+
+      // Several levels crossed by one expense are reported as one alert
+      if (fired.length) {
+        await this.sendAlert(budget, spentAmount, limit, fired, category);
+      }
+      return fired;
+    } catch (error: unknown) {
+      this.logger.error(
+        `Failed to process budget alerts for budget ${budget.id}: ${ErrorUtilService.getErrorMessage(error)}`,
+      );
+      return [];
+    }
+  }
+
+  private async categorySpent(
+    budgetId: string,
+    category: string,
+  ): Promise<number> {
+    const row = await this.itemRepo
+      .createQueryBuilder('item')
+      .select('COALESCE(SUM(item.amount), 0)', 'total')
+      .where('item.tripBudgetId = :budgetId', { budgetId })
+      .andWhere('item.category = :category', { category })
+      .getRawOne<{ total: string }>();
+    return Number(row?.total ?? 0);
+  }
+
+  private async sendAlert(
+    budget: TripBudgetEntity,
+    spentAmount: number,
+    limit: number,
+    levels: number[],
+    category?: string,
+  ): Promise<void> {
+    const threshold = levels[levels.length - 1];
+    const thresholdPercent = Math.round(threshold * 100);
+    const percentageUsed = parseFloat(((spentAmount / limit) * 100).toFixed(2));
+    const remaining = parseFloat((limit - spentAmount).toFixed(2));
+    const scope = category ? `${category} cap` : 'budget';
+
+    this.logger.warn(
+      `Budget threshold alert: Trip ${budget.tripId} has spent ${spentAmount} ${budget.currency} (${percentageUsed}%) of its ${scope} ${limit}. Remaining: ${remaining}`,
+    );
+
+    await this.auditService.logAction(
+      budget.id,
+      BudgetAuditAction.THRESHOLD_ALERT,
+      undefined,
+      {
+        spentAmount,
+        ...(category && { category, cap: limit }),
+        thresholdAmount: limit * threshold,
+        thresholds: levels,
+        percentageUsed,
+        remaining,
+      },
+      category
+        ? `Threshold of ${thresholdPercent}% of the ${category} cap exceeded`
+        : `Budget threshold of ${thresholdPercent}% exceeded`,
+    );
+
+    const [trip, members] = await Promise.all([
+      this.tripRepo.findOne({
+        where: { id: budget.tripId },
+        select: ['id', 'title'],
+      }),
+      this.memberRepo.find({
+        where: { tripId: budget.tripId },
+        relations: ['user'],
+      }),
+    ]);
+    const tripTitle = trip?.title ?? 'Trip';
+    const tripUrl = `${this.configService.get('FRONTEND_URL')}/trips/${budget.tripId}`;
+
+    await this.notificationService.createMany(
+      members.map((member) => ({
+        userId: member.userId,
+        type: NotificationType.BUDGET_THRESHOLD,
+        title: `${tripTitle}: ${thresholdPercent}% of ${scope} used`,
+        message: `Spent ${spentAmount} of ${limit} ${budget.currency} (${percentageUsed}%). Remaining: ${remaining} ${budget.currency}.`,
+        data: {
+          tripId: budget.tripId,
+          budgetId: budget.id,
+          category: category ?? null,
+          threshold,
+          percentageUsed,
+          spentAmount,
+          limit,
+          currency: budget.currency,
+        },
+      })),
+    );
+
+    await Promise.all(
+      members
+        .filter((member) => member.user?.email)
+        .map((member) =>
+          this.emailService.sendBudgetAlert(
+            member.user.email,
+            member.user.displayName,
+            tripTitle,
+            {
+              thresholdPercent,
+              percentageUsed,
+              spentAmount,
+              totalBudget: limit,
+              remaining,
+              currency: budget.currency,
+              category,
+            },
+            tripUrl,
+            member.user.preferredLanguage === 'vi' ? 'vi' : 'en',
+          ),
+        ),
+    );
+  }
+}
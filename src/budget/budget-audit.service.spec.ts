@@ -0,0 +1,105 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { BudgetAuditService } from './budget-audit.service';
+import { BudgetAuditAction } from 'src/schemas/budget-audit-log.entity';
+
+describe('BudgetAuditService', () => {
+  const qb = {
+    leftJoin: jest.fn(() => qb),
+    addSelect: jest.fn(() => qb),
+    where: jest.fn(() => qb),
+    andWhere: jest.fn(() => qb),
+    orderBy: jest.fn(() => qb),
+    skip: jest.fn(() => qb),
+    take: jest.fn(() => qb),
+    getMany: jest.fn(),
+    getManyAndCount: jest.fn(),
+  };
+  const auditLogRepo = {
+    create: jest.fn((x: unknown) => x),
+    save: jest.fn(),
+    createQueryBuilder: jest.fn(() => qb),
+  };
+  const service = new BudgetAuditService(
+    auditLogRepo as unknown as Repository<any>,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('records the acting user', async () => {
+    await service.logAction(
+      'budget-1',
+      BudgetAuditAction.ADD_ITEM,
+      undefined,
+      { amount: 100 },
+      'Added food expense',
+      'user-1',
+    );
+
+    expect(auditLogRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ budgetId: 'budget-1', userId: 'user-1' }),
+    );
+  });
+
+  it('paginates and applies every filter', async () => {
+    qb.getManyAndCount.mockResolvedValue([[{ id: 'log-1' }], 21]);
+
+    const result = await service.findAuditLogs('budget-1', {
+      page: 2,
+      limit: 20,
+      action: BudgetAuditAction.DELETE_ITEM,
+      userId: 'user-1',
+      from: '2026-03-01',
+      to: '2026-03-31',
+    });
+
+    expect(result.meta).toMatchObject({ page: 2, total: 21, hasPrev: true });
+    expect(qb.skip).toHaveBeenCalledWith(20);
+    expect(qb.andWhere).toHaveBeenCalledWith('audit.action = :action', {
+      action: BudgetAuditAction.DELETE_ITEM,
+    });
+    expect(qb.andWhere).toHaveBeenCalledWith('audit.userId = :userId', {
+      userId: 'user-1',
+    });
+    expect(qb.andWhere).toHaveBeenCalledWith('audit.createdAt <= :to', {
+      to: new Date('2026-03-31T23:59:59.999Z'),
+    });
+  });
+
+  it('rejects a reversed date range', async () => {
+    await expect(
+      service.findAuditLogs('budget-1', {
+        from: '2026-04-01',
+        to: '2026-03-01',
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('exports a CSV with escaped values and the acting user', async () => {
+    qb.getMany.mockResolvedValue([
+      {
+        createdAt: new Date('2026-03-02T10:00:00Z'),
+        action: BudgetAuditAction.ADD_ITEM,
+        userId: 'user-1',
+        user: { email: 'an@example.com', firstName: 'An', lastName: 'Nguyen' },
+        description: 'Added "street food", dinner',
+        newValue: { amount: 100 },
+      },
+      {
+        createdAt: new Date('2026-03-03T10:00:00Z'),
+        action: BudgetAuditAction.THRESHOLD_ALERT,
+        userId: null,
+        description: '=HYPERLINK("x")',
+      },
+    ]);
+
+    const csv = await service.exportAuditLogsCsv('budget-1', {});
+
+    expect(qb.orderBy).toHaveBeenLastCalledWith('audit.createdAt', 'ASC');
+    expect(csv.split('\r\n')).toEqual([
+      'Date,Action,User ID,User Email,User Name,Description,Previous Value,New Value',
+      '2026-03-02T10:00:00.000Z,ADD_ITEM,user-1,an@example.com,An Nguyen,"Added ""street food"", dinner",,"{""amount"":100}"',
+      `2026-03-03T10:00:00.000Z,THRESHOLD_ALERT,,,,"'=HYPERLINK(""x"")",,`,
+    ]);
+  });
+});
@@ -1,15 +1,24 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
 import {
   BudgetAuditLogEntity,
   BudgetAuditAction,
 } from 'src/schemas/budget-audit-log.entity';
+import { Paged, PaginationHelper } from 'src/shared/types/pagination';
+import { toCsv } from 'src/shared/utils/csv.util';
+import {
+  BudgetAuditFilterDto,
+  BudgetAuditQueryDto,
+} from './dto/budget-audit-query.dto';
 
 @Injectable()
 export class BudgetAuditService {
   private readonly logger = new Logger(BudgetAuditService.name);
 
+  /** Upper bound of rows in one CSV export */
+  private readonly EXPORT_LIMIT = 10000;
+
   constructor(
     @InjectRepository(BudgetAuditLogEntity)
     private readonly auditLogRepo: Repository<BudgetAuditLogEntity>,
@@ -92,4 +101,93 @@ export class BudgetAuditService {
       .orderBy('audit.createdAt', 'DESC')
       .getMany();
   }
+
+  /**
+   * Paginated audit trail of a budget, newest first, with the acting user
+   */
+  async findAuditLogs(
+    budgetId: string,
+    query: BudgetAuditQueryDto,
+  ): Promise<Paged<BudgetAuditLogEntity>> {
+    const { page, limit, skip } = PaginationHelper.validateParams(
+      query.page,
+      query.limit,
+    );
+    const [items, total] = await this.filteredQuery(budgetId, query)
+      .skip(skip)
+      .take(limit)
+      .getManyAndCount();
+    return PaginationHelper.createResult(items, total, page, limit);
+  }
+
+  /**
+   * Audit trail as CSV, oldest first so it reads like a ledger
+   */
+  async exportAuditLogsCsv(
+    budgetId: string,
+    filter: BudgetAuditFilterDto,
+  ): Promise<string> {
+    const logs = await this.filteredQuery(budgetId, filter)
+      .orderBy('audit.createdAt', 'ASC')
+      .take(this.EXPORT_LIMIT)
+      .getMany();
+
+    return toCsv(
+      [
+        'Date',
+        'Action',
+        'User ID',
+        'User Email',
+        'User Name',
+        'Description',
+        'Previous Value',
+        'New Value',
+      ],
+      logs.map((log) => [
+        log.createdAt,
+        log.action,
+        log.userId,
+        log.user?.email,
+        [log.user?.firstName, log.user?.lastName].filter(Boolean).join(' '),
+        log.description,
+        log.previousValue ? JSON.stringify(log.previousValue) : '',
+        log.newValue ? JSON.stringify(log.newValue) : '',
+      ]),
+    );
+  }
+
+  private filteredQuery(
+    budgetId: string,
+    filter: BudgetAuditFilterDto,
+  ): SelectQueryBuilder<BudgetAuditLogEntity> {
+    const from = filter.from ? new Date(filter.from) : undefined;
+    const to = filter.to ? this.endOfRange(filter.to) : undefined;
+    if (from && to && from > to) {
+      throw new BadRequestException('`from` must not be after `to`');
+    }
+
+    const qb = this.auditLogRepo
+      .createQueryBuilder('audit')
+      .leftJoin('audit.user', 'user')
+      .addSelect(['user.id', 'user.email', 'user.firstName', 'user.lastName'])
+      .where('audit.budgetId = :budgetId', { budgetId })
+      .orderBy('audit.createdAt', 'DESC');
+
+    if (filter.action) {
+      qb.andWhere('audit.action = :action', { action: filter.action });
+    }
+    if (filter.userId) {
+      qb.andWhere('audit.userId = :userId', { userId: filter.userId });
+    }
+    if (from) qb.andWhere('audit.createdAt >= :from', { from });
+    if (to) qb.andWhere('audit.createdAt <= :to', { to });
+    return qb;
+  }
+
+  /** A plain date includes the whole day */
+  private endOfRange(value: string): Date {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T23:59:59.999Z`)
+      : new Date(value);
+  }
 }
@@ -0,0 +1,182 @@
+import { DataSource, Repository } from 'typeorm';
+import { BudgetConversionService } from './budget-conversion.service';
+import { BudgetAuditService } from './budget-audit.service';
+import { CurrencyService } from 'src/currency/services/currency.service';
+import {
+  BudgetCapType,
+  TripBudgetEntity,
+} from 'src/schemas/trip-budget.entity';
+import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import {
+  BudgetItemSplitEntity,
+  ExpenseSplitType,
+} from 'src/schemas/budget-item-split.entity';
+
+describe('BudgetConversionService', () => {
+  const RATES: Record<string, number> = {
+    'VND:USD': 0.00004,
+    'THB:USD': 0.0285,
+    'USD:VND': 25000,
+    'THB:VND': 700,
+  };
+
+  const budgetRepo = { findOne: jest.fn() };
+  const manager = { update: jest.fn() };
+  const queryRunner = {
+    connect: jest.fn(),
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+    release: jest.fn(),
+    manager,
+  };
+  const currencyService = {
+    convertCurrency: jest.fn((amount: number, from: string, to: string) =>
+      Promise.resolve({ exchangeRate: RATES[`${from}:${to}`] }),
+    ),
+  };
+
+  const service = new BudgetConversionService(
+    budgetRepo as unknown as Repository<TripBudgetEntity>,
+    {} as unknown as Repository<BudgetItemEntity>,
+    currencyService as unknown as CurrencyService,
+    { logAction: jest.fn() } as unknown as BudgetAuditService,
+    {
+      createQueryRunner: () => queryRunner,
+    } as unknown as DataSource,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('re-derives item amounts from their originals', async () => {
+    budgetRepo.findOne.mockResolvedValue({
+      id: 'budget-1',
+      currency: 'VND',
+      totalBudget: '10000000',
+      spentAmount: '1050000',
+      items: [
+        {
+          id: 'item-vnd',
+          amount: '350000',
+          originalAmount: '350000',
+          originalCurrency: 'VND',
+        },
+        {
+          id: 'item-thb',
+          amount: '700000',
+          originalAmount: '1000',
+          originalCurrency: 'THB',
+          splitType: ExpenseSplitType.EXACT,
+          splits: [
+            { id: 'split-a', value: '600' },
+            { id: 'split-b', value: '400' },
+          ],
+        },
+      ],
+    });
+
+    await service.convertBudgetCurrency('budget-1', 'USD');
+
+    expect(manager.update).toHaveBeenCalledWith(
+      TripBudgetEntity,
+      { id: 'budget-1' },
+      {
+        totalBudget: 400,
+        spentAmount: 42.5,
+        currency: 'USD',
+        baseline: {
+          currency: 'VND',
+          totalBudget: 10000000,
+          categoryCaps: null,
+          dailyAllowance: null,
+        },
+      },
+    );
+    // 1000 THB at the THB rate, not 700000 VND at the VND rate
+    expect(manager.update).toHaveBeenCalledWith(
+      BudgetItemEntity,
+      { id: 'item-thb' },
+      { amount: 28.5, exchangeRate: 0.0285 },
+    );
+    expect(manager.update).toHaveBeenCalledWith(
+      BudgetItemSplitEntity,
+      { id: 'split-a' },
+      { amount: 17.1 },
+    );
+    expect(manager.update).toHaveBeenCalledWith(
+      BudgetItemSplitEntity,
+      { id: 'split-b' },
+      { amount: 11.4 },
+    );
+  });
+
+  it('converts fixed category caps and the daily allowance', async () => {
+    budgetRepo.findOne.mockResolvedValue({
+      id: 'budget-1',
+      currency: 'VND',
+      totalBudget: '10000000',
+      spentAmount: '0',
+      dailyAllowance: '500000',
+      categoryCaps: [
+        { category: 'food', type: BudgetCapType.AMOUNT, value: 2500000 },
+        { category: 'hotel', type: BudgetCapType.PERCENTAGE, value: 40 },
+      ],
+      items: [],
+    });
+
+    await service.convertBudgetCurrency('budget-1', 'USD');
+
+    expect(manager.update).toHaveBeenCalledWith(
+      TripBudgetEntity,
+      { id: 'budget-1' },
+      expect.objectContaining({
+        dailyAllowance: 20,
+        categoryCaps: [
+          { category: 'food', type: BudgetCapType.AMOUNT, value: 100 },
+          { category: 'hotel', type: BudgetCapType.PERCENTAGE, value: 40 },
+        ],
+      }),
+    );
+  });
+
+  it('converts limits from their baseline instead of the last conversion', async () => {
+    const baseline = {
+      currency: 'VND',
+      totalBudget: 10000001,
+      categoryCaps: [
+        { category: 'food', type: BudgetCapType.AMOUNT, value: 2500001 },
+      ],
+      dailyAllowance: 500001,
+    };
+    // Already switched to USD once, which rounded every limit
+    budgetRepo.findOne.mockResolvedValue({
+      id: 'budget-1',
+      currency: 'USD',
+      totalBudget: '400',
+      spentAmount: '0',
+      dailyAllowance: '20',
+      categoryCaps: [
+        { category: 'food', type: BudgetCapType.AMOUNT, value: 100 },
+      ],
+      baseline,
+      items: [],
+    });
+
+    await service.convertBudgetCurrency('budget-1', 'VND');
+
+    expect(manager.update).toHaveBeenCalledWith(
+      TripBudgetEntity,
+      { id: 'budget-1' },
+      {
+        totalBudget: 10000001,
+        spentAmount: 0,
+        currency: 'VND',
+        categoryCaps: baseline.categoryCaps,
+        dailyAllowance: 500001,
+        baseline,
+      },
+    );
+  });
+});
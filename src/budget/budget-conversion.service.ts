@@ -4,12 +4,20 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
-import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
+import { Repository, DataSource, EntityManager } from 'typeorm';
+import {
+  BudgetBaseline,
+  BudgetCapType,
+  TripBudgetEntity,
+} from 'src/schemas/trip-budget.entity';
 import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import { BudgetItemSplitEntity } from 'src/schemas/budget-item-split.entity';
 import { CurrencyService } from 'src/currency/services/currency.service';
 import { BudgetAuditService } from './budget-audit.service';
 import { BudgetAuditAction } from 'src/schemas/budget-audit-log.entity';
+import { allocateByWeight, splitWeights } from './utils/expense-split.util';
+import { toDateString } from 'src/shared/utils/date.util';
+import { fromCents, roundMoney, toCents } from 'src/shared/utils/money.util';
 
 @Injectable()
 export class BudgetConversionService {
@@ -26,10 +34,11 @@ export class BudgetConversionService {
   async convertBudgetCurrency(
     budgetId: string,
     newCurrency: string,
+    userId?: string,
   ): Promise<TripBudgetEntity> {
     const budget = await this.budgetRepo.findOne({
       where: { id: budgetId },
-      relations: ['items'],
+      relations: ['items', 'items.splits'],
     });
 
     if (!budget) {
@@ -41,23 +50,62 @@ export class BudgetConversionService {
     }
 
     const oldCurrency = budget.currency;
-
-    // Get exchange rate
-    const conversion = await this.currencyService.convertCurrency(
-      1,
-      oldCurrency,
+    const rates = new Map<string, number>();
+    const exchangeRate = await this.getRate(oldCurrency, newCurrency, rates);
+    // Limits are re-derived from the values they were set with, like items
+    const baseline: BudgetBaseline = budget.baseline ?? {
+      currency: oldCurrency,
+      totalBudget: Number(budget.totalBudget),
+      categoryCaps: budget.categoryCaps ?? null,
+      dailyAllowance:
+        budget.dailyAllowance == null ? null : Number(budget.dailyAllowance),
+    };
+    const baselineRate = await this.getRate(
+      baseline.currency,
       newCurrency,
+      rates,
     );
-    const exchangeRate = conversion.convertedAmount;
+
+    // Re-derive items from their original amounts so repeated switches do
+    // not compound rounding
+    const convertedItems: {
+      item: BudgetItemEntity;
+      amount: number;
+      exchangeRate: number;
+    }[] = [];
+    for (const item of budget.items) {
+      const rate = await this.getRate(
+        item.originalCurrency,
+        newCurrency,
+        rates,
+        item.expenseDate ? toDateString(item.expenseDate) : undefined,
+      );
+      convertedItems.push({
+        item,
+        amount: roundMoney(Number(item.originalAmount) * rate),
+        exchangeRate: rate,
+      });
+    }
 
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
     await queryRunner.startTransaction();
 
     try {
-      // Convert budget amounts
-      const newTotalBudget = Number(budget.totalBudget) * exchangeRate;
-      const newSpentAmount = Number(budget.spentAmount) * exchangeRate;
+      const newTotalBudget = roundMoney(baseline.totalBudget * baselineRate);
+      const newSpentAmount = roundMoney(
+        convertedItems.reduce((sum, c) => sum + c.amount, 0),
+      );
+      // Percentage caps follow the total; fixed amounts are converted
+      const newCategoryCaps = baseline.categoryCaps?.map((cap) =>
+        cap.type === BudgetCapType.AMOUNT
+          ? { ...cap, value: roundMoney(cap.value * baselineRate) }
+          : cap,
+      );
+      const newDailyAllowance =
+        baseline.dailyAllowance == null
+          ? undefined
+          : roundMoney(baseline.dailyAllowance * baselineRate);
 
       await queryRunner.manager.update(
         TripBudgetEntity,
@@ -66,17 +114,19 @@ export class BudgetConversionService {
           totalBudget: newTotalBudget,
           spentAmount: newSpentAmount,
           currency: newCurrency,
+          categoryCaps: newCategoryCaps,
+          dailyAllowance: newDailyAllowance,
+          baseline,
         },
       );
 
-      // Convert all budget items
-      for (const item of budget.items) {
-        const newAmount = Number(item.amount) * exchangeRate;
+      for (const { item, amount, exchangeRate: rate } of convertedItems) {
         await queryRunner.manager.update(
           BudgetItemEntity,
           { id: item.id },
-          { amount: newAmount },
+          { amount, exchangeRate: rate },
         );
+        await this.reallocateSplits(queryRunner.manager, item, amount);
       }
 
       await queryRunner.commitTransaction();
@@ -97,6 +147,7 @@ export class BudgetConversionService {
           exchangeRate,
         },
         `Currency converted from ${oldCurrency} to ${newCurrency} at rate ${exchangeRate.toFixed(4)}`,
+        userId,
       );
 
       return (await this.budgetRepo.findOne({
@@ -112,4 +163,63 @@ export class BudgetConversionService {
       await queryRunner.release();
     }
   }
+
+  /**
+   * Convert an amount into a budget currency at the rate of `date`. Returns
+   * the rate used so it can be stored with the expense.
+   */
+  async convertAmount(
+    amount: number,
+    from: string,
+    to: string,
+    date?: string,
+  ): Promise<{ amount: number; exchangeRate: number }> {
+    const exchangeRate = await this.getRate(from, to, new Map(), date);
+    return { amount: roundMoney(amount * exchangeRate), exchangeRate };
+  }
+
+  /**
+   * Re-split a new item amount with the weights the split was created
+   * with, so member shares still add up to the item
+   */
+  async reallocateSplits(
+    manager: EntityManager,
+    item: BudgetItemEntity,
+    newAmount: number,
+  ): Promise<void> {
+    const splits = item.splits ?? [];
+    if (!splits.length || !item.splitType) return;
+    const weights = splitWeights(item.splitType, splits);
+    if (!weights.some((w) => w > 0)) return;
+    const parts = allocateByWeight(toCents(newAmount), weights);
+    for (const [i, split] of splits.entries()) {
+      await manager.update(
+        BudgetItemSplitEntity,
+        { id: split.id },
+        { amount: fromCents(parts[i]) },
+      );
+    }
+  }
+
+  private async getRate(
+    from: string,
+    to: string,
+    cache: Map<string, number>,
+    date?: string,
+  ): Promise<number> {
+    if (from.toUpperCase() === to.toUpperCase()) return 1;
+    const key = `${from}:${to}:${date ?? 'latest'}`.toUpperCase();
+    let rate = cache.get(key);
+    if (rate === undefined) {
+      const conversion = await this.currencyService.convertCurrency(
+        1,
+        from,
+        to,
+        date,
+      );
+      rate = conversion.exchangeRate;
+      cache.set(key, rate);
+    }
+    return rate;
+  }
 }
@@ -0,0 +1,187 @@
+import { NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { BudgetForecastService } from './budget-forecast.service';
+import { BudgetConversionService } from './budget-conversion.service';
+import { BudgetCapType } from 'src/schemas/trip-budget.entity';
+
+describe('BudgetForecastService', () => {
+  const budgetRepo = { findOne: jest.fn() };
+  const tripRepo = { findOne: jest.fn() };
+  const itineraryRepo = { find: jest.fn() };
+  const conversionService = {
+    convertAmount: jest
+      .fn()
+      .mockResolvedValue({ amount: 25000, exchangeRate: 25000 }),
+  };
+
+  const service = new BudgetForecastService(
+    budgetRepo as unknown as Repository<any>,
+    tripRepo as unknown as Repository<any>,
+    itineraryRepo as unknown as Repository<any>,
+    conversionService as unknown as BudgetConversionService,
+  );
+
+  const item = (date: string, category: string, amount: number) => ({
+    expenseDate: date,
+    category,
+    amount: String(amount),
+  });
+
+  const budget = {
+    id: 'budget-1',
+    tripId: 'trip-1',
+    currency: 'VND',
+    totalBudget: '4000000',
+    items: [
+      item('2026-02-20', 'flight', 1500000),
+      item('2026-03-01', 'food', 900000),
+      item('2026-03-02', 'food', 400000),
+      item('2026-03-03', 'hotel', 600000),
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tripRepo.findOne.mockResolvedValue({
+      id: 'trip-1',
+      startDate: '2026-03-01',
+      endDate: '2026-03-04',
+      currency: 'USD',
+    });
+    budgetRepo.findOne.mockResolvedValue(budget);
+    itineraryRepo.find.mockResolvedValue([
+      {
+        dayNumber: 1,
+        estimatedCost: '20',
+        activities: [{ cost: '20', type: 'food' }],
+      },
+      {
+        dayNumber: 2,
+        estimatedCost: '0',
+        activities: [],
+        costBreakdown: { food: 16 },
+      },
+      {
+        dayNumber: 3,
+        estimatedCost: '0',
+        activities: [{ cost: null, type: 'hotel' }],
+        activityCosts: [
+          { costType: 'hotel', estimatedAmount: '20' },
+          { costType: 'tickets', estimatedAmount: '8' },
+        ],
+      },
+      { dayNumber: 4, estimatedCost: '40', activities: [] },
+    ]);
+  });
+
+  it('projects spend from past days and plans for the rest', async () => {
+    const forecast = await service.getForecast('trip-1', '2026-03-03');
+
+    expect(conversionService.convertAmount).toHaveBeenCalledWith(
+      1,
+      'USD',
+      'VND',
+    );
+    expect(
+      forecast.days.map((d) => [d.date, d.planned, d.actual, d.projected]),
+    ).toEqual([
+      ['2026-02-20', 0, 1500000, 1500000],
+      ['2026-03-01', 500000, 900000, 900000],
+      ['2026-03-02', 400000, 400000, 400000],
+      // Today: 600k spent on the hotel beats the 500k planned, tickets still come
+      ['2026-03-03', 700000, 600000, 800000],
+      ['2026-03-04', 1000000, 0, 1000000],
+    ]);
+    expect(forecast).toMatchObject({
+      spentToDate: 3400000,
+      projectedTotal: 4600000,
+      plannedRemaining: 1200000,
+      projectedRemaining: -600000,
+      projectedOverrun: 600000,
+      isProjectedOverBudget: true,
+      elapsedDays: 2,
+      remainingDays: 2,
+      burnRate: {
+        actualPerDay: 650000,
+        plannedPerDay: 600000,
+        affordablePerDay: 300000,
+      },
+    });
+  });
+
+  it('flags the days and categories behind an overrun', async () => {
+    budgetRepo.findOne.mockResolvedValue({
+      ...budget,
+      dailyAllowance: '850000',
+      categoryCaps: [
+        { category: 'hotel', type: BudgetCapType.AMOUNT, value: 1000000 },
+      ],
+    });
+
+    const forecast = await service.getForecast('trip-1', '2026-03-03');
+
+    expect(forecast.drivers.days.map((d) => [d.date, d.overBy])).toEqual([
+      ['2026-03-04', 150000],
+      ['2026-03-01', 50000],
+    ]);
+    expect(
+      forecast.drivers.categories.map((c) => [c.category, c.overBy]),
+    ).toEqual([
+      ['flight', 1500000],
+      ['food', 400000],
+    ]);
+    expect(
+      forecast.categories.find((c) => c.category === 'hotel'),
+    ).toMatchObject({ cap: 1000000, projected: 600000, overBy: 0 });
+  });
+
+  it('reports no drivers while the projection fits the budget', async () => {
+    budgetRepo.findOne.mockResolvedValue({
+      ...budget,
+      totalBudget: '5000000',
+    });
+
+    const forecast = await service.getForecast('trip-1', '2026-03-03');
+
+    expect(forecast.projectedOverrun).toBe(0);
+    expect(forecast.drivers).toEqual({ days: [], categories: [] });
+  });
+
+  it('counts itinerary actuals on days without budget items', async () => {
+    itineraryRepo.find.mockResolvedValue([
+      { dayNumber: 1, estimatedCost: '20', actualCost: '99', activities: [] },
+      {
+        dayNumber: 2,
+        estimatedCost: '0',
+        activities: [],
+        activityCosts: [
+          { costType: 'tickets', estimatedAmount: '8', actualAmount: '10' },
+        ],
+      },
+      { dayNumber: 4, estimatedCost: '40', actualCost: '30', activities: [] },
+    ]);
+    budgetRepo.findOne.mockResolvedValue({
+      ...budget,
+      items: [item('2026-03-01', 'food', 900000)],
+    });
+
+    const forecast = await service.getForecast('trip-1', '2026-03-05');
+
+    // Day 1 keeps its recorded expense; days 2 and 4 use the itinerary
+    expect(forecast.days.map((d) => [d.date, d.actual])).toEqual([
+      ['2026-03-01', 900000],
+      ['2026-03-02', 250000],
+      ['2026-03-03', 0],
+      ['2026-03-04', 750000],
+    ]);
+    expect(forecast.spentToDate).toBe(1900000);
+  });
+
+  it('throws when the trip has no budget', async () => {
+    budgetRepo.findOne.mockResolvedValue(null);
+
+    await expect(service.getForecast('trip-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
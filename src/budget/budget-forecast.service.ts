@@ -0,0 +1,370 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { BudgetConversionService } from './budget-conversion.service';
+import {
+  BudgetForecastCategoryDto,
+  BudgetForecastDayDto,
+  BudgetForecastDto,
+} from './dto/budget-forecast.dto';
+import {
+  capAmount,
+  dailyAllowanceFor,
+  tripDays,
+} from './utils/budget-caps.util';
+import { toDateString } from 'src/shared/utils/date.util';
+import { roundMoney } from 'src/shared/utils/money.util';
+
+const CATEGORIES = new Set<string>(Object.values(ActivityCategory));
+
+interface ForecastDay {
+  date: string | null;
+  dayNumber: number | null;
+  planned: Map<string, number>;
+  actual: Map<string, number>;
+}
+
+/**
+ * End-of-trip projection that reconciles itinerary cost estimates with
+ * recorded spend: past days count what was spent, later days what is
+ * planned unless more has already been spent on them.
+ */
+@Injectable()
+export class BudgetForecastService {
+  constructor(
+    @InjectRepository(TripBudgetEntity)
+    private readonly budgetRepo: Repository<TripBudgetEntity>,
+    @InjectRepository(TripEntity)
+    private readonly tripRepo: Repository<TripEntity>,
+    @InjectRepository(ItineraryEntity)
+    private readonly itineraryRepo: Repository<ItineraryEntity>,
+    private readonly conversionService: BudgetConversionService,
+  ) {}
+
+  async getForecast(
+    tripId: string,
+    asOf: string = new Date().toISOString().slice(0, 10),
+  ): Promise<BudgetForecastDto> {
+    const [budget, trip, itinerary] = await Promise.all([
+      this.budgetRepo.findOne({
+        where: { tripId },
+        relations: ['items'],
+        order: { createdAt: 'ASC' },
+      }),
+      this.tripRepo.findOne({
+        where: { id: tripId },
+        select: ['id', 'startDate', 'endDate', 'currency'],
+      }),
+      this.itineraryRepo.find({
+        where: { tripId },
+        relations: ['activities', 'activityCosts'],
+        order: { dayNumber: 'ASC' },
+      }),
+    ]);
+    if (!budget) throw new NotFoundException('Trip budget not found');
+    if (!trip) throw new NotFoundException('Trip not found');
+
+    // Itinerary estimates are kept in the trip currency
+    const plannedCurrency = trip.currency ?? budget.currency;
+    const rate =
+      plannedCurrency.toUpperCase() === budget.currency.toUpperCase()
+        ? 1
+        : (
+            await this.conversionService.convertAmount(
+              1,
+              plannedCurrency,
+              budget.currency,
+            )
+          ).exchangeRate;
+
+    const start = trip.startDate ? toDateString(trip.startDate) : null;
+    const end = trip.endDate ? toDateString(trip.endDate) : null;
+    const scheduled = start && end ? tripDays(start, end) : [];
+
+    const days = new Map<string, ForecastDay>();
+    const dayFor = (key: string, date: string | null) => {
+      let day = days.get(key);
+      if (!day) {
+        day = { date, dayNumber: null, planned: new Map(), actual: new Map() };
+        days.set(key, day);
+      }
+      return day;
+    };
+    for (const date of scheduled) dayFor(date, date);
+
+    const itineraryDays: [ForecastDay, ItineraryEntity][] = [];
+    for (const entry of itinerary) {
+      const date = entry.date
+        ? toDateString(entry.date)
+        : start
+          ? this.addDays(start, entry.dayNumber - 1)
+          : null;
+      const day = dayFor(date ?? `day-${entry.dayNumber}`, date);
+      day.dayNumber = entry.dayNumber;
+      itineraryDays.push([day, entry]);
+      for (const [category, amount] of this.plannedCosts(entry)) {
+        this.addTo(day.planned, category, amount * rate);
+      }
+    }
+
+    for (const item of budget.items ?? []) {
+      const date = toDateString(item.expenseDate ?? item.createdAt);
+      this.addTo(dayFor(date, date).actual, item.category, Number(item.amount));
+    }
+
+    // Actuals noted on the itinerary count for days without budget items
+    const withItems = new Set(
+      [...days.values()].filter((day) => day.actual.size),
+    );
+    for (const [day, entry] of itineraryDays) {
+      if (withItems.has(day)) continue;
+      for (const [category, amount] of this.actualCosts(entry)) {
+        this.addTo(day.actual, category, amount * rate);
+      }
+    }
+
+    const totalBudget = Number(budget.totalBudget);
+    const tripDayCount = scheduled.length || itinerary.length;
+    const allowance = dailyAllowanceFor(
+      budget.dailyAllowance,
+      totalBudget,
+      tripDayCount,
+    );
+    const scheduledSet = new Set(scheduled);
+
+    const categories = new Map<string, BudgetForecastCategoryDto>();
+    const categoryFor = (category: string) => {
+      let entry = categories.get(category);
+      if (!entry) {
+        entry = {
+          category,
+          planned: 0,
+          actual: 0,
+          projected: 0,
+          cap: null,
+          overBy: 0,
+        };
+        categories.set(category, entry);
+      }
+      return entry;
+    };
+
+    // Undated itinerary days sort last and count as upcoming
+    const forecastDays = [...days.values()]
+      .sort((a, b) => (a.date ?? '\uffff').localeCompare(b.date ?? '\uffff'))
+      .map((day): BudgetForecastDayDto => {
+        const isPast = day.date !== null && day.date < asOf;
+        let planned = 0;
+        let actual = 0;
+        let projected = 0;
+        for (const category of new Set([
+          ...day.planned.keys(),
+          ...day.actual.keys(),
+        ])) {
+          const dayPlanned = day.planned.get(category) ?? 0;
+          const dayActual = day.actual.get(category) ?? 0;
+          const dayProjected = isPast
+            ? dayActual
+            : Math.max(dayActual, dayPlanned);
+          const entry = categoryFor(category);
+          entry.planned += dayPlanned;
+          entry.actual += dayActual;
+          entry.projected += dayProjected;
+          planned += dayPlanned;
+          actual += dayActual;
+          projected += dayProjected;
+        }
+
+        const isTripDay =
+          day.dayNumber !== null ||
+          (day.date !== null && scheduledSet.has(day.date));
+        return {
+          date: day.date,
+          dayNumber: day.dayNumber,
+          isPast,
+          planned: roundMoney(planned),
+          actual: roundMoney(actual),
+          projected: roundMoney(projected),
+          overBy:
+            isTripDay && allowance !== null
+              ? roundMoney(Math.max(0, projected - allowance))
+              : 0,
+        };
+      });
+
+    const caps = new Map(
+      (budget.categoryCaps ?? []).map((cap) => [
+        cap.category as string,
+        capAmount(cap, totalBudget),
+      ]),
+    );
+    const forecastCategories = [...categories.values()]
+      .map((entry) => {
+        const cap = caps.get(entry.category) ?? null;
+        return {
+          ...entry,
+          planned: roundMoney(entry.planned),
+          actual: roundMoney(entry.actual),
+          projected: roundMoney(entry.projected),
+          cap,
+          overBy: roundMoney(
+            Math.max(0, entry.projected - (cap ?? entry.planned)),
+          ),
+        };
+      })
+      .sort((a, b) => b.projected - a.projected);
+
+    const spentToDate = roundMoney(
+      forecastDays.reduce((sum, day) => sum + day.actual, 0),
+    );
+    const projectedTotal = roundMoney(
+      forecastDays.reduce((sum, day) => sum + day.projected, 0),
+    );
+    const projectedOverrun = roundMoney(
+      Math.max(0, projectedTotal - totalBudget),
+    );
+
+    const tripDaysOnly = forecastDays.filter(
+      (day) =>
+        day.dayNumber !== null ||
+        (day.date !== null && scheduledSet.has(day.date)),
+    );
+    const elapsed = tripDaysOnly.filter((day) => day.isPast);
+    const remainingDays = tripDaysOnly.length - elapsed.length;
+    const plannedRemaining = roundMoney(projectedTotal - spentToDate);
+
+    return {
+      tripId,
+      currency: budget.currency,
+      plannedCurrency,
+      totalBudget,
+      spentToDate,
+      plannedRemaining,
+      projectedTotal,
+      projectedRemaining: roundMoney(totalBudget - projectedTotal),
+      projectedOverrun,
+      isProjectedOverBudget: projectedOverrun > 0,
+      elapsedDays: elapsed.length,
+      remainingDays,
+      burnRate: {
+        actualPerDay: elapsed.length
+          ? roundMoney(
+              elapsed.reduce((sum, day) => sum + day.actual, 0) /
+                elapsed.length,
+            )
+          : 0,
+        plannedPerDay: remainingDays
+          ? roundMoney(plannedRemaining / remainingDays)
+          : 0,
+        affordablePerDay: remainingDays
+          ? roundMoney((totalBudget - spentToDate) / remainingDays)
+          : null,
+      },
+      days: forecastDays,
+      categories: forecastCategories,
+      drivers:
+        projectedOverrun > 0
+          ? {
+              days: forecastDays
+                .filter((day) => day.overBy > 0)
+                .sort((a, b) => b.overBy - a.overBy),
+              categories: forecastCategories
+                .filter((category) => category.overBy > 0)
+                .sort((a, b) => b.overBy - a.overBy),
+            }
+          : { days: [], categories: [] },
+    };
+  }
+
+  /**
+   * Planned cost of an itinerary day by category, from the most detailed
+   * source available: activity costs, activity prices, the day's cost
+   * breakdown, then its single estimate
+   */
+  private plannedCosts(day: ItineraryEntity): Map<string, number> {
+    const costs = new Map<string, number>();
+
+    if (day.activityCosts?.length) {
+      for (const cost of day.activityCosts) {
+        this.addTo(
+          costs,
+          this.toCategory(cost.costType),
+          Number(cost.estimatedAmount),
+        );
+      }
+      return costs;
+    }
+
+    const priced = (day.activities ?? []).filter((a) => Number(a.cost) > 0);
+    if (priced.length) {
+      for (const activity of priced) {
+        this.addTo(
+          costs,
+          this.toCategory(activity.type),
+          Number(activity.cost),
+        );
+      }
+      return costs;
+    }
+
+    if (day.costBreakdown && Object.keys(day.costBreakdown).length) {
+      for (const [key, amount] of Object.entries(day.costBreakdown)) {
+        this.addTo(costs, this.toCategory(key), Number(amount));
+      }
+      return costs;
+    }
+
+    if (Number(day.estimatedCost) > 0) {
+      costs.set(ActivityCategory.OTHER, Number(day.estimatedCost));
+    }
+    return costs;
+  }
+
+  /**
+   * Actual cost of an itinerary day by category: the actual amounts of its
+   * activity costs, otherwise the day's single actual cost
+   */
+  private actualCosts(day: ItineraryEntity): Map<string, number> {
+    const costs = new Map<string, number>();
+    const paid = (day.activityCosts ?? []).filter(
+      (cost) => cost.actualAmount != null,
+    );
+    if (paid.length) {
+      for (const cost of paid) {
+        this.addTo(
+          costs,
+          this.toCategory(cost.costType),
+          Number(cost.actualAmount),
+        );
+      }
+      return costs;
+    }
+
+    if (Number(day.actualCost) > 0) {
+      costs.set(ActivityCategory.OTHER, Number(day.actualCost));
+    }
+    return costs;
+  }
+
+  private toCategory(value?: string | null): string {
+    const category = value?.toLowerCase();
+    return category && CATEGORIES.has(category)
+      ? category
+      : ActivityCategory.OTHER;
+  }
+
+  private addTo(map: Map<string, number>, key: string, amount: number) {
+    if (!Number.isFinite(amount) || amount === 0) return;
+    map.set(key, (map.get(key) ?? 0) + amount);
+  }
+
+  private addDays(date: string, days: number): string {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + days);
+    return next.toISOString().slice(0, 10);
+  }
+}
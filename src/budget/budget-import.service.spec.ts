@@ -0,0 +1,196 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { BudgetImportService } from './budget-import.service';
+import { BudgetService } from './budget.service';
+import {
+  ExpenseImportDateFormat,
+  ExpenseImportFormat,
+  ExpenseImportRowStatus,
+  ImportBudgetItemsDto,
+} from './dto/import-items.dto';
+import { GlobalValidationPipe } from '../shared/pipes/global-validation.pipe';
+
+describe('BudgetImportService', () => {
+  const budgetRepo = { findOne: jest.fn() };
+  const budgetService = { addItem: jest.fn() };
+
+  const service = new BudgetImportService(
+    budgetRepo as unknown as Repository<any>,
+    budgetService as unknown as BudgetService,
+  );
+
+  const file = (text: string, originalname = 'expenses.csv') => ({
+    originalname,
+    buffer: Buffer.from(text, 'utf8'),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    budgetRepo.findOne.mockResolvedValue({
+      id: 'budget-1',
+      currency: 'VND',
+      items: [
+        {
+          expenseDate: '2026-03-01',
+          amount: '120000',
+          originalAmount: '120000',
+          originalCurrency: 'VND',
+          exchangeRate: '1',
+          category: 'food',
+          note: 'Pho Thin',
+          source: 'manual',
+          createdAt: new Date('2026-03-01T12:00:00Z'),
+        },
+      ],
+    });
+    budgetService.addItem.mockImplementation(() =>
+      Promise.resolve({
+        id: `item-${budgetService.addItem.mock.calls.length}`,
+      }),
+    );
+  });
+
+  it('previews mapped CSV rows with errors and duplicates', async () => {
+    const csv = [
+      'Ngay;So tien;Loai;Ghi chu',
+      '01/03/2026;120.000;food;pho thin ',
+      '02/03/2026;"1.250.000";Hotel;Homestay',
+      '31/02/2026;abc;food;',
+      '03/03/2026;45000,50;;Bus',
+      '03/03/2026;45000,50;;Bus',
+    ].join('\r\n');
+
+    const result = await service.importItems('budget-1', file(csv), {
+      delimiter: ';',
+      dateColumn: 'Ngay',
+      amountColumn: 'So tien',
+      categoryColumn: 'Loai',
+      noteColumn: 'Ghi chu',
+      dateFormat: ExpenseImportDateFormat.DMY,
+    });
+
+    expect(result).toMatchObject({
+      dryRun: true,
+      format: ExpenseImportFormat.CSV,
+      total: 5,
+      valid: 2,
+      invalid: 1,
+      duplicates: 2,
+      imported: 0,
+    });
+    expect(
+      result.rows.map((r) => [r.line, r.status, r.date, r.amount, r.category]),
+    ).toEqual([
+      [2, ExpenseImportRowStatus.DUPLICATE, '2026-03-01', 120000, 'food'],
+      [3, ExpenseImportRowStatus.VALID, '2026-03-02', 1250000, 'hotel'],
+      [4, ExpenseImportRowStatus.INVALID, null, null, 'food'],
+      [5, ExpenseImportRowStatus.VALID, '2026-03-03', 45000.5, 'other'],
+      [6, ExpenseImportRowStatus.DUPLICATE, '2026-03-03', 45000.5, 'other'],
+    ]);
+    expect(result.rows[2].errors).toEqual([
+      'Invalid date "31/02/2026"',
+      'Invalid amount "abc"',
+    ]);
+    expect(budgetService.addItem).not.toHaveBeenCalled();
+  });
+
+  it('rejects a file without the mapped columns', async () => {
+    await expect(
+      service.importItems('budget-1', file('When,Amount\n2026-03-01,10'), {}),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('commits valid rows through addItem and reports failures', async () => {
+    budgetService.addItem
+      .mockResolvedValueOnce({ id: 'item-1' })
+      .mockRejectedValueOnce(
+        new BadRequestException('Cannot add this expense'),
+      );
+    const csv = [
+      'Date,Amount,Currency,Category,Note,Reference',
+      '2026-03-02,25.5,usd,food,Dinner,r-1',
+      '2026-03-03,900,USD,shopping,Souvenirs,',
+      '2026-03-01,120000,,food,Pho Thin,',
+    ].join('\n');
+
+    const result = await service.importItems(
+      'budget-1',
+      file(csv),
+      { dryRun: false },
+      'user-1',
+    );
+
+    expect(budgetService.addItem).toHaveBeenCalledTimes(2);
+    expect(budgetService.addItem).toHaveBeenCalledWith(
+      {
+        tripBudgetId: 'budget-1',
+        category: 'food',
+        amount: 25.5,
+        currency: 'USD',
+        expenseDate: '2026-03-02',
+        note: 'Dinner',
+        refId: 'r-1',
+        source: 'csv-import',
+      },
+      'user-1',
+    );
+    expect(result.rows.map((r) => r.status)).toEqual([
+      ExpenseImportRowStatus.IMPORTED,
+      ExpenseImportRowStatus.FAILED,
+      ExpenseImportRowStatus.DUPLICATE,
+    ]);
+    expect(result.rows[0].itemId).toBe('item-1');
+    expect(result.rows[1].errors).toEqual(['Cannot add this expense']);
+  });
+
+  it('reads debits from an OFX statement', async () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>VND
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260302093000<TRNAMT>-350000.00<FITID>F1<NAME>GRAB*TRIP<MEMO>Airport &amp; hotel
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260303<TRNAMT>500000<FITID>F2<NAME>Refund
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+    const result = await service.importItems(
+      'budget-1',
+      file(ofx, 'statement.ofx'),
+      {},
+    );
+
+    expect(result.format).toBe(ExpenseImportFormat.OFX);
+    expect(result.rows[0]).toMatchObject({
+      status: ExpenseImportRowStatus.VALID,
+      date: '2026-03-02',
+      amount: 350000,
+      currency: 'VND',
+      note: 'GRAB*TRIP - Airport & hotel',
+      refId: 'F1',
+    });
+    expect(result.rows[1]).toMatchObject({
+      status: ExpenseImportRowStatus.INVALID,
+      errors: ['Credit transactions are not expenses'],
+    });
+  });
+
+  it('exports items in the layout the import reads', async () => {
+    const csv = await service.exportItemsCsv('budget-1');
+
+    expect(csv.split('\r\n')).toEqual([
+      'Date,Category,Amount,Currency,Converted Amount,Budget Currency,Exchange Rate,Note,Source,Reference',
+      '2026-03-01,food,120000,VND,120000,VND,1,Pho Thin,manual,',
+    ]);
+
+    const reimported = await service.importItems('budget-1', file(csv), {});
+    expect(reimported.rows[0].status).toBe(ExpenseImportRowStatus.DUPLICATE);
+  });
+
+  it('reads multipart boolean fields sent as strings', async () => {
+    const dto = (await new GlobalValidationPipe().transform(
+      { dryRun: 'false', skipDuplicates: 'false' },
+      { type: 'body', metatype: ImportBudgetItemsDto },
+    )) as ImportBudgetItemsDto;
+
+    expect(dto.dryRun).toBe(false);
+    expect(dto.skipDuplicates).toBe(false);
+  });
+});
@@ -0,0 +1,409 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { parseCsv, toCsv } from 'src/shared/utils/csv.util';
+import { ErrorUtilService } from 'src/shared/utils/error.util';
+import { BudgetService } from './budget.service';
+import {
+  ExpenseImportDateFormat,
+  ExpenseImportFormat,
+  ExpenseImportResultDto,
+  ExpenseImportRowDto,
+  ExpenseImportRowStatus,
+  ImportBudgetItemsDto,
+} from './dto/import-items.dto';
+import { toDateString } from 'src/shared/utils/date.util';
+
+const CATEGORIES = new Set<string>(Object.values(ActivityCategory));
+
+/**
+ * Expense import from CSV or OFX files and the matching CSV export. Imported
+ * rows go through `BudgetService.addItem`, so conversion, overrun policy,
+ * alerts and audit logs behave as for manual expenses.
+ */
+@Injectable()
+export class BudgetImportService {
+  /** Largest number of expenses accepted in one file */
+  private readonly MAX_ROWS = 1000;
+
+  private readonly EXPORT_HEADERS = [
+    'Date',
+    'Category',
+    'Amount',
+    'Currency',
+    'Converted Amount',
+    'Budget Currency',
+    'Exchange Rate',
+    'Note',
+    'Source',
+    'Reference',
+  ];
+
+  constructor(
+    @InjectRepository(TripBudgetEntity)
+    private readonly budgetRepo: Repository<TripBudgetEntity>,
+    private readonly budgetService: BudgetService,
+  ) {}
+
+  /**
+   * Validate the rows of an expense file and, unless it is a dry run, add
+   * the valid ones. Rows that fail on commit (e.g. blocked by the overrun
+   * policy) are reported without stopping the others.
+   */
+  async importItems(
+    budgetId: string,
+    file: { originalname?: string; buffer: Buffer },
+    dto: ImportBudgetItemsDto,
+    userId?: string,
+  ): Promise<ExpenseImportResultDto> {
+    const budget = await this.budgetRepo.findOne({
+      where: { id: budgetId },
+      relations: ['items'],
+    });
+    if (!budget) throw new NotFoundException('Trip budget not found');
+
+    const text = file.buffer.toString('utf8');
+    const format = dto.format ?? this.detectFormat(file.originalname, text);
+    const defaultCategory = dto.defaultCategory ?? ActivityCategory.OTHER;
+    const rows =
+      format === ExpenseImportFormat.OFX
+        ? this.parseOfx(text, budget.currency, defaultCategory)
+        : this.parseCsvRows(text, dto, budget.currency, defaultCategory);
+    if (!rows.length) {
+      throw new BadRequestException('The file contains no expenses');
+    }
+    if (rows.length > this.MAX_ROWS) {
+      throw new BadRequestException(
+        `A file can contain at most ${this.MAX_ROWS} expenses`,
+      );
+    }
+
+    // Duplicates match an existing expense or an earlier row of the file
+    const seen = new Set(
+      (budget.items ?? []).map((item) =>
+        this.duplicateKey(
+          toDateString(item.expenseDate ?? item.createdAt),
+          Number(item.originalAmount ?? item.amount),
+          item.note,
+        ),
+      ),
+    );
+    for (const row of rows) {
+      if (row.status !== ExpenseImportRowStatus.VALID) continue;
+      const key = this.duplicateKey(row.date!, row.amount!, row.note);
+      if (seen.has(key)) row.status = ExpenseImportRowStatus.DUPLICATE;
+      seen.add(key);
+    }
+
+    const dryRun = dto.dryRun ?? true;
+    const skipDuplicates = dto.skipDuplicates ?? true;
+    if (!dryRun) {
+      for (const row of rows) {
+        const importable =
+          row.status === ExpenseImportRowStatus.VALID ||
+          (row.status === ExpenseImportRowStatus.DUPLICATE && !skipDuplicates);
+        if (!importable) continue;
+        try {
+          const item = await this.budgetService.addItem(
+            {
+              tripBudgetId: budget.id,
+              category: row.category,
+              amount: row.amount!,
+              currency: row.currency,
+              expenseDate: row.date!,
+              note: row.note ?? undefined,
+              refId: row.refId ?? undefined,
+              source: `${format}-import`,
+            },
+            userId,
+          );
+          row.status = ExpenseImportRowStatus.IMPORTED;
+          row.itemId = item.id;
+        } catch (error: unknown) {
+          if (!(error instanceof HttpException)) throw error;
+          row.status = ExpenseImportRowStatus.FAILED;
+          row.errors.push(ErrorUtilService.getErrorMessage(error));
+        }
+      }
+    }
+
+    const count = (status: ExpenseImportRowStatus) =>
+      rows.filter((row) => row.status === status).length;
+    return {
+      dryRun,
+      format,
+      total: rows.length,
+      valid: count(ExpenseImportRowStatus.VALID),
+      invalid: count(ExpenseImportRowStatus.INVALID),
+      duplicates: count(ExpenseImportRowStatus.DUPLICATE),
+      imported: count(ExpenseImportRowStatus.IMPORTED),
+      failed: count(ExpenseImportRowStatus.FAILED),
+      rows,
+    };
+  }
+
+  /** Expenses of a budget as CSV, in the layout the CSV import expects */
+  async exportItemsCsv(budgetId: string): Promise<string> {
+    const budget = await this.budgetRepo.findOne({
+      where: { id: budgetId },
+      relations: ['items'],
+    });
+    if (!budget) throw new NotFoundException('Trip budget not found');
+
+    const items = [...(budget.items ?? [])].sort(
+      (a, b) =>
+        toDateString(a.expenseDate).localeCompare(
+          toDateString(b.expenseDate),
+        ) || a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+    return toCsv(
+      this.EXPORT_HEADERS,
+      items.map((item) => [
+        toDateString(item.expenseDate),
+        item.category,
+        Number(item.originalAmount ?? item.amount),
+        item.originalCurrency ?? budget.currency,
+        Number(item.amount),
+        budget.currency,
+        Number(item.exchangeRate ?? 1),
+        item.note,
+        item.source,
+        item.refId,
+      ]),
+    );
+  }
+
+  private detectFormat(
+    fileName: string | undefined,
+    text: string,
+  ): ExpenseImportFormat {
+    return /\.(ofx|qfx)$/i.test(fileName ?? '') ||
+      /<OFX>/i.test(text.slice(0, 4096))
+      ? ExpenseImportFormat.OFX
+      : ExpenseImportFormat.CSV;
+  }
+
+  private parseCsvRows(
+    text: string,
+    dto: ImportBudgetItemsDto,
+    budgetCurrency: string,
+    defaultCategory: ActivityCategory,
+  ): ExpenseImportRowDto[] {
+    const [header = [], ...records] = parseCsv(text, dto.delimiter ?? ',');
+    const names = header.map((name) => name.trim().toLowerCase());
+    const column = (name: string | undefined, required: boolean) => {
+      const index = name ? names.indexOf(name.trim().toLowerCase()) : -1;
+      if (required && index < 0) {
+        throw new BadRequestException(`Column "${name}" not found in the file`);
+      }
+      return index;
+    };
+    const columns = {
+      date: column(dto.dateColumn ?? 'Date', true),
+      amount: column(dto.amountColumn ?? 'Amount', true),
+      currency: column(dto.currencyColumn ?? 'Currency', false),
+      category: column(dto.categoryColumn ?? 'Category', false),
+      note: column(dto.noteColumn ?? 'Note', false),
+      reference: column(dto.referenceColumn ?? 'Reference', false),
+    };
+    const cell = (record: string[], index: number) =>
+      index < 0 ? '' : (record[index] ?? '').trim();
+
+    return records.map((record, i) => {
+      const errors: string[] = [];
+      const rawDate = cell(record, columns.date);
+      const date = this.parseDate(
+        rawDate,
+        dto.dateFormat ?? ExpenseImportDateFormat.ISO,
+      );
+      if (!date) errors.push(`Invalid date "${rawDate}"`);
+
+      const rawAmount = cell(record, columns.amount);
+      const amount = this.parseAmount(rawAmount);
+      if (amount === null) errors.push(`Invalid amount "${rawAmount}"`);
+
+      const currency = (
+        cell(record, columns.currency) || budgetCurrency
+      ).toUpperCase();
+      if (!/^[A-Z]{3}$/.test(currency)) {
+        errors.push(`Invalid currency "${currency}"`);
+      }
+
+      return this.toRow(
+        i + 2,
+        errors,
+        date,
+        amount,
+        currency,
+        this.toCategory(cell(record, columns.category), defaultCategory),
+        cell(record, columns.note),
+        cell(record, columns.reference),
+      );
+    });
+  }
+
+  /**
+   * Debit transactions of an OFX statement (SGML or XML flavour). Credits
+   * are listed as invalid since they are not expenses.
+   */
+  private parseOfx(
+    text: string,
+    budgetCurrency: string,
+    defaultCategory: ActivityCategory,
+  ): ExpenseImportRowDto[] {
+    const tag = (block: string, name: string) =>
+      this.decodeOfx(
+        new RegExp(`<${name}>([^<\\r\\n]*)`, 'i').exec(block)?.[1] ?? '',
+      );
+    const currency = (tag(text, 'CURDEF') || budgetCurrency).toUpperCase();
+
+    return text
+      .split(/<STMTTRN>/i)
+      .slice(1)
+      .map((block, i) => {
+        const errors: string[] = [];
+        const posted = tag(block, 'DTPOSTED');
+        const date = /^\d{8}/.test(posted)
+          ? this.parseDate(
+              `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`,
+              ExpenseImportDateFormat.ISO,
+            )
+          : null;
+        if (!date) errors.push(`Invalid date "${posted}"`);
+
+        const rawAmount = tag(block, 'TRNAMT');
+        let amount = this.parseAmount(rawAmount);
+        if (amount === null) {
+          errors.push(`Invalid amount "${rawAmount}"`);
+        } else if (!rawAmount.startsWith('-')) {
+          errors.push('Credit transactions are not expenses');
+          amount = null;
+        }
+
+        const name = tag(block, 'NAME');
+        const memo = tag(block, 'MEMO');
+        const note = [name, memo]
+          .filter((part, index, parts) => part && parts.indexOf(part) === index)
+          .join(' - ');
+
+        return this.toRow(
+          i + 1,
+          errors,
+          date,
+          amount,
+          currency,
+          defaultCategory,
+          note,
+          tag(block, 'FITID'),
+        );
+      });
+  }
+
+  private toRow(
+    line: number,
+    errors: string[],
+    date: string | null,
+    amount: number | null,
+    currency: string,
+    category: ActivityCategory,
+    note: string,
+    refId: string,
+  ): ExpenseImportRowDto {
+    if (note.length > 1000) errors.push('Note is longer than 1000 characters');
+    if (refId.length > 255) {
+      errors.push('Reference is longer than 255 characters');
+    }
+    return {
+      line,
+      status: errors.length
+        ? ExpenseImportRowStatus.INVALID
+        : ExpenseImportRowStatus.VALID,
+      errors,
+      date,
+      amount,
+      currency,
+      category,
+      note: note || null,
+      refId: refId || null,
+    };
+  }
+
+  /** Calendar date as YYYY-MM-DD, or null when it does not exist */
+  private parseDate(
+    value: string,
+    format: ExpenseImportDateFormat,
+  ): string | null {
+    let parts: RegExpExecArray | null;
+    let year: number, month: number, day: number;
+    if (format === ExpenseImportDateFormat.ISO) {
+      parts = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(value);
+      if (!parts) return null;
+      [year, month, day] = [parts[1], parts[2], parts[3]].map(Number);
+    } else {
+      parts = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+      if (!parts) return null;
+      [day, month] = [parts[1], parts[2]].map(Number);
+      if (format === ExpenseImportDateFormat.MDY) [day, month] = [month, day];
+      year = Number(parts[3]);
+    }
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+      ? date.toISOString().slice(0, 10)
+      : null;
+  }
+
+  /**
+   * Positive amount from spreadsheet or bank formatting: currency symbols
+   * and thousands separators are ignored and the sign is dropped, since
+   * bank exports list debits as negative amounts
+   */
+  private parseAmount(value: string): number | null {
+    let text = value.replace(/[^\d.,-]/g, '');
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    // A trailing comma with one or two digits is a decimal comma and dots
+    // grouping digits by three are thousands separators (150.000)
+    if (lastComma > lastDot && /,\d{1,2}$/.test(text)) {
+      text = text.replace(/\./g, '').replace(',', '.');
+    } else if (/^-?\d{1,3}(\.\d{3})+$/.test(text)) {
+      text = text.replace(/\./g, '');
+    } else {
+      text = text.replace(/,/g, '');
+    }
+    const amount = Math.abs(Number(text));
+    return text && Number.isFinite(amount) && amount > 0
+      ? Math.round(amount * 100) / 100
+      : null;
+  }
+
+  private toCategory(
+    value: string,
+    fallback: ActivityCategory,
+  ): ActivityCategory {
+    const category = value.toLowerCase();
+    return CATEGORIES.has(category) ? (category as ActivityCategory) : fallback;
+  }
+
+  private decodeOfx(value: string): string {
+    return value
+      .trim()
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+
+  private duplicateKey(
+    date: string,
+    amount: number,
+    note: string | null | undefined,
+  ): string {
+    return `${date}|${amount.toFixed(2)}|${(note ?? '').trim().toLowerCase()}`;
+  }
+}
@@ -0,0 +1,285 @@
+import { BadRequestException } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { BudgetSplitService } from './budget-split.service';
+import { BudgetAuditService } from './budget-audit.service';
+import { CurrencyService } from 'src/currency/services/currency.service';
+import { ExpenseSplitType } from 'src/schemas/budget-item-split.entity';
+
+describe('BudgetSplitService', () => {
+  const members = [
+    {
+      id: 'm-an',
+      userId: 'u-an',
+      user: { firstName: 'An', lastName: 'Nguyen', email: 'an@example.com' },
+    },
+    { id: 'm-binh', userId: 'u-binh', user: { email: 'binh@example.com' } },
+    { id: 'm-chi', userId: 'u-chi', user: { firstName: 'Chi' } },
+    { id: 'm-dung', userId: 'u-dung', user: { firstName: 'Dung' } },
+  ];
+
+  const budgetRepo = { findOne: jest.fn() };
+  const settlementRepo = {
+    find: jest.fn(),
+    create: jest.fn((x: unknown) => x),
+    save: jest.fn((x: unknown) =>
+      Promise.resolve({ id: 's-1', ...(x as object) }),
+    ),
+  };
+  const memberRepo = { find: jest.fn() };
+  const currencyService = { convertCurrency: jest.fn() };
+  const auditService = { logAction: jest.fn() };
+
+  const service = new BudgetSplitService(
+    budgetRepo as unknown as Repository<any>,
+    {} as unknown as Repository<any>,
+    settlementRepo as unknown as Repository<any>,
+    memberRepo as unknown as Repository<any>,
+    currencyService as unknown as CurrencyService,
+    auditService as unknown as BudgetAuditService,
+    {} as unknown as DataSource,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    memberRepo.find.mockResolvedValue(members);
+  });
+
+  describe('resolveSplit', () => {
+    it('returns null when no split is requested', async () => {
+      await expect(service.resolveSplit('trip-1', 100, {})).resolves.toBeNull();
+      expect(memberRepo.find).not.toHaveBeenCalled();
+    });
+
+    it('splits equally between all members and keeps every cent', async () => {
+      const result = await service.resolveSplit('trip-1', 100, {
+        paidByMemberId: 'm-an',
+      });
+
+      expect(result?.splitType).toBe(ExpenseSplitType.EQUAL);
+      expect(result?.splits.map((s) => s.amount)).toEqual([25, 25, 25, 25]);
+
+      const uneven = await service.resolveSplit('trip-1', 10, {
+        paidByMemberId: 'm-an',
+        splits: [
+          { memberId: 'm-an' },
+          { memberId: 'm-binh' },
+          { memberId: 'm-chi' },
+        ],
+      });
+      expect(uneven?.splits.map((s) => s.amount)).toEqual([3.34, 3.33, 3.33]);
+    });
+
+    it('splits by shares and percentages', async () => {
+      const shares = await service.resolveSplit('trip-1', 90, {
+        paidByMemberId: 'm-an',
+        splitType: ExpenseSplitType.SHARES,
+        splits: [
+          { memberId: 'm-an', value: 2 },
+          { memberId: 'm-binh', value: 1 },
+        ],
+      });
+      expect(shares?.splits.map((s) => s.amount)).toEqual([60, 30]);
+
+      const percentages = await service.resolveSplit('trip-1', 200, {
+        paidByMemberId: 'm-an',
+        splitType: ExpenseSplitType.PERCENTAGE,
+        splits: [
+          { memberId: 'm-an', value: 70 },
+          { memberId: 'm-chi', value: 30 },
+        ],
+      });
+      expect(percentages?.splits.map((s) => s.amount)).toEqual([140, 60]);
+    });
+
+    it.each([
+      [
+        'exact amounts that do not add up',
+        {
+          splitType: ExpenseSplitType.EXACT,
+          splits: [
+            { memberId: 'm-an', value: 40 },
+            { memberId: 'm-binh', value: 50 },
+          ],
+        },
+      ],
+      [
+        'percentages that do not add up to 100',
+        {
+          splitType: ExpenseSplitType.PERCENTAGE,
+          splits: [
+            { memberId: 'm-an', value: 50 },
+            { memberId: 'm-binh', value: 40 },
+          ],
+        },
+      ],
+      [
+        'a participant outside the trip',
+        { splits: [{ memberId: 'm-stranger' }] },
+      ],
+      [
+        'the same member twice',
+        { splits: [{ memberId: 'm-an' }, { memberId: 'm-an' }] },
+      ],
+    ])('rejects %s', async (_label, input) => {
+      await expect(
+        service.resolveSplit('trip-1', 100, {
+          paidByMemberId: 'm-an',
+          ...input,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('balances and settle-up', () => {
+    const item = (
+      paidByMemberId: string | null,
+      amount: number,
+      splits: [string, number][],
+    ) => ({
+      paidByMemberId,
+      amount: String(amount),
+      splits: splits.map(([memberId, share]) => ({
+        memberId,
+        amount: String(share),
+      })),
+    });
+
+    beforeEach(() => {
+      budgetRepo.findOne.mockResolvedValue({
+        id: 'budget-1',
+        tripId: 'trip-1',
+        currency: 'VND',
+        items: [
+          item('m-an', 400, [
+            ['m-an', 100],
+            ['m-binh', 100],
+            ['m-chi', 100],
+            ['m-dung', 100],
+          ]),
+          item('m-binh', 200, [
+            ['m-chi', 100],
+            ['m-dung', 100],
+          ]),
+          item(null, 999, []),
+        ],
+      });
+      settlementRepo.find.mockResolvedValue([
+        // 2 USD at 25 VND/USD = 50 VND
+        {
+          fromMemberId: 'm-dung',
+          toMemberId: 'm-an',
+          amount: '2',
+          currency: 'USD',
+          createdAt: new Date('2025-12-21T10:00:00Z'),
+        },
+      ]);
+      currencyService.convertCurrency.mockResolvedValue({ exchangeRate: 25 });
+    });
+
+    it('computes balances in the budget currency', async () => {
+      const result = await service.getBalances('trip-1');
+
+      expect(currencyService.convertCurrency).toHaveBeenCalledWith(
+        1,
+        'USD',
+        'VND',
+        '2025-12-21',
+      );
+      expect(result.unassignedItemCount).toBe(1);
+      expect(
+        Object.fromEntries(result.balances.map((b) => [b.memberId, b.balance])),
+      ).toEqual({ 'm-an': 250, 'm-binh': 100, 'm-chi': -200, 'm-dung': -150 });
+      expect(result.balances.map((b) => b.name)).toEqual([
+        'An Nguyen',
+        'binh@example.com',
+        'Chi',
+        'Dung',
+      ]);
+    });
+
+    it('converts each settlement at the rate of its own day', async () => {
+      settlementRepo.find.mockResolvedValue([
+        {
+          fromMemberId: 'm-dung',
+          toMemberId: 'm-an',
+          amount: '2',
+          currency: 'USD',
+          createdAt: new Date('2025-12-21T10:00:00Z'),
+        },
+        {
+          fromMemberId: 'm-chi',
+          toMemberId: 'm-an',
+          amount: '2',
+          currency: 'USD',
+          createdAt: new Date('2025-12-24T10:00:00Z'),
+        },
+      ]);
+      currencyService.convertCurrency.mockImplementation(
+        (_amount: number, _from: string, _to: string, date?: string) =>
+          Promise.resolve({ exchangeRate: date === '2025-12-21' ? 25 : 30 }),
+      );
+
+      const result = await service.getBalances('trip-1');
+
+      expect(
+        Object.fromEntries(
+          result.balances.map((b) => [b.memberId, b.settlementsReceived]),
+        ),
+      ).toMatchObject({ 'm-an': 110 });
+    });
+
+    it('settles everyone with at most n - 1 transfers', async () => {
+      const plan = await service.getSettleUpPlan('trip-1');
+
+      expect(plan.transfers).toEqual([
+        { fromMemberId: 'm-chi', toMemberId: 'm-an', amount: 200 },
+        { fromMemberId: 'm-dung', toMemberId: 'm-binh', amount: 100 },
+        { fromMemberId: 'm-dung', toMemberId: 'm-an', amount: 50 },
+      ]);
+    });
+  });
+
+  describe('recordSettlement', () => {
+    it('rejects members outside the trip', async () => {
+      budgetRepo.findOne.mockResolvedValue({
+        id: 'budget-1',
+        tripId: 'trip-1',
+        currency: 'VND',
+      });
+      memberRepo.find.mockResolvedValue([members[0]]);
+
+      await expect(
+        service.recordSettlement({
+          tripBudgetId: 'budget-1',
+          fromMemberId: 'm-an',
+          toMemberId: 'm-stranger',
+          amount: 100,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(settlementRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('stores the settlement in the budget currency by default', async () => {
+      budgetRepo.findOne.mockResolvedValue({
+        id: 'budget-1',
+        tripId: 'trip-1',
+        currency: 'VND',
+      });
+      memberRepo.find.mockResolvedValue([members[0], members[1]]);
+
+      const saved = await service.recordSettlement(
+        {
+          tripBudgetId: 'budget-1',
+          fromMemberId: 'm-binh',
+          toMemberId: 'm-an',
+          amount: 100,
+        },
+        'u-binh',
+      );
+
+      expect(saved).toMatchObject({ currency: 'VND', createdBy: 'u-binh' });
+      expect(currencyService.convertCurrency).not.toHaveBeenCalled();
+      expect(auditService.logAction).toHaveBeenCalled();
+    });
+  });
+});
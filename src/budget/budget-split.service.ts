@@ -0,0 +1,424 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
+import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import {
+  BudgetItemSplitEntity,
+  ExpenseSplitType,
+} from 'src/schemas/budget-item-split.entity';
+import { BudgetSettlementEntity } from 'src/schemas/budget-settlement.entity';
+import { TripMemberEntity } from 'src/schemas/trip-member.entity';
+import { BudgetAuditAction } from 'src/schemas/budget-audit-log.entity';
+import { CurrencyService } from 'src/currency/services/currency.service';
+import { BudgetAuditService } from './budget-audit.service';
+import { ExpenseSplitDto, SetExpenseSplitDto } from './dto/expense-split.dto';
+import { CreateSettlementDto } from './dto/create-settlement.dto';
+import {
+  BudgetBalancesDto,
+  MemberBalanceDto,
+  SettleUpPlanDto,
+} from './dto/budget-balances.dto';
+import {
+  allocateByWeight,
+  planSettlements,
+  splitWeights,
+} from './utils/expense-split.util';
+import { fromCents, toCents } from 'src/shared/utils/money.util';
+import { toDateString } from 'src/shared/utils/date.util';
+
+export interface ExpenseSplitInput {
+  paidByMemberId?: string;
+  splitType?: ExpenseSplitType;
+  splits?: ExpenseSplitDto[];
+}
+
+export interface ResolvedExpenseSplit {
+  paidByMemberId: string;
+  splitType: ExpenseSplitType;
+  splits: Pick<BudgetItemSplitEntity, 'memberId' | 'value' | 'amount'>[];
+}
+
+/**
+ * Who paid for what between trip members. Balances are kept in the budget
+ * currency; settlements in other currencies are converted when read.
+ */
+@Injectable()
+export class BudgetSplitService {
+  constructor(
+    @InjectRepository(TripBudgetEntity)
+    private readonly budgetRepo: Repository<TripBudgetEntity>,
+    @InjectRepository(BudgetItemEntity)
+    private readonly itemRepo: Repository<BudgetItemEntity>,
+    @InjectRepository(BudgetSettlementEntity)
+    private readonly settlementRepo: Repository<BudgetSettlementEntity>,
+    @InjectRepository(TripMemberEntity)
+    private readonly memberRepo: Repository<TripMemberEntity>,
+    private readonly currencyService: CurrencyService,
+    private readonly auditService: BudgetAuditService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Validate a payer and split against the trip members and work out each
+   * member's share of `amount` (budget currency). Exact splits are entered
+   * in the item's original currency and must add up to `originalAmount`.
+   * Returns null when no split was requested.
+   */
+  async resolveSplit(
+    tripId: string,
+    amount: number,
+    input: ExpenseSplitInput,
+    originalAmount = amount,
+  ): Promise<ResolvedExpenseSplit | null> {
+    if (!input.paidByMemberId && !input.splitType && !input.splits) {
+      return null;
+    }
+    if (!input.paidByMemberId) {
+      throw new BadRequestException('paidByMemberId is required for a split');
+    }
+    const splitType = input.splitType ?? ExpenseSplitType.EQUAL;
+
+    const members = await this.memberRepo.find({ where: { tripId } });
+    const memberIds = new Set(members.map((m) => m.id));
+    if (!memberIds.has(input.paidByMemberId)) {
+      throw new BadRequestException('Payer is not a member of this trip');
+    }
+
+    const splits: ExpenseSplitDto[] =
+      input.splits ??
+      (splitType === ExpenseSplitType.EQUAL
+        ? members.map((m) => ({ memberId: m.id }))
+        : []);
+    if (!splits.length) {
+      throw new BadRequestException(
+        `splits are required for a ${splitType} split`,
+      );
+    }
+    const seen = new Set<string>();
+    for (const split of splits) {
+      if (!memberIds.has(split.memberId)) {
+        throw new BadRequestException(
+          `Member ${split.memberId} is not part of this trip`,
+        );
+      }
+      if (seen.has(split.memberId)) {
+        throw new BadRequestException(
+          `Member ${split.memberId} appears more than once in the split`,
+        );
+      }
+      seen.add(split.memberId);
+      if (splitType !== ExpenseSplitType.EQUAL && split.value === undefined) {
+        throw new BadRequestException(
+          `Every participant needs a value for a ${splitType} split`,
+        );
+      }
+    }
+
+    const values = splits.map((s) => Number(s.value ?? 0));
+    if (splitType === ExpenseSplitType.EXACT) {
+      const expected = toCents(originalAmount);
+      const sum = values.reduce((acc, v) => acc + toCents(v), 0);
+      if (sum !== expected) {
+        throw new BadRequestException(
+          `Exact split amounts add up to ${fromCents(sum)} instead of ${fromCents(expected)}`,
+        );
+      }
+    } else if (splitType === ExpenseSplitType.PERCENTAGE) {
+      const sum = values.reduce((acc, v) => acc + v, 0);
+      if (Math.abs(sum - 100) > 0.01) {
+        throw new BadRequestException(
+          `Split percentages add up to ${sum} instead of 100`,
+        );
+      }
+    } else if (
+      splitType === ExpenseSplitType.SHARES &&
+      !values.some((v) => v > 0)
+    ) {
+      throw new BadRequestException('At least one share is required');
+    }
+    const parts = allocateByWeight(
+      toCents(amount),
+      splitWeights(splitType, splits),
+    );
+
+    return {
+      paidByMemberId: input.paidByMemberId,
+      splitType,
+      splits: splits.map((s, i) => ({
+        memberId: s.memberId,
+        value:
+          splitType === ExpenseSplitType.EQUAL ? undefined : Number(s.value),
+        amount: fromCents(parts[i]),
+      })),
+    };
+  }
+
+  /** Replace the payer and split of an existing expense */
+  async setItemSplit(
+    itemId: string,
+    dto: SetExpenseSplitDto,
+    userId?: string,
+  ): Promise<BudgetItemEntity> {
+    const item = await this.itemRepo.findOne({
+      where: { id: itemId },
+      relations: ['tripBudget', 'splits'],
+    });
+    if (!item) throw new NotFoundException('Budget item not found');
+
+    const resolved = (await this.resolveSplit(
+      item.tripBudget.tripId,
+      Number(item.amount),
+      dto,
+      Number(item.originalAmount),
+    ))!;
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(BudgetItemSplitEntity, { itemId });
+      await manager.insert(
+        BudgetItemSplitEntity,
+        resolved.splits.map((s) => ({ ...s, itemId })),
+      );
+      await manager.update(
+        BudgetItemEntity,
+        { id: itemId },
+        {
+          paidByMemberId: resolved.paidByMemberId,
+          splitType: resolved.splitType,
+        },
+      );
+    });
+
+    await this.auditService.logAction(
+      item.tripBudgetId,
+      BudgetAuditAction.UPDATE_ITEM,
+      {
+        itemId,
+        paidByMemberId: item.paidByMemberId ?? null,
+        splitType: item.splitType ?? null,
+        splits: (item.splits ?? []).map((s) => ({
+          memberId: s.memberId,
+          amount: Number(s.amount),
+        })),
+      },
+      {
+        itemId,
+        paidByMemberId: resolved.paidByMemberId,
+        splitType: resolved.splitType,
+        splits: resolved.splits.map((s) => ({
+          memberId: s.memberId,
+          amount: s.amount,
+        })),
+      },
+      `Updated ${resolved.splitType} split of ${item.category} expense`,
+      userId,
+    );
+
+    return (await this.itemRepo.findOne({
+      where: { id: itemId },
+      relations: ['splits'],
+    }))!;
+  }
+
+  async getBalances(tripId: string): Promise<BudgetBalancesDto> {
+    const { budget, balances, unassignedItemCount } =
+      await this.computeBalances(tripId);
+    return {
+      tripId,
+      budgetId: budget.id,
+      currency: budget.currency,
+      balances,
+      unassignedItemCount,
+    };
+  }
+
+  /** Fewest transfers that bring every member balance back to zero */
+  async getSettleUpPlan(tripId: string): Promise<SettleUpPlanDto> {
+    const { budget, balances } = await this.computeBalances(tripId);
+    const transfers = planSettlements(
+      new Map(balances.map((b) => [b.memberId, toCents(b.balance)])),
+    );
+    return {
+      tripId,
+      budgetId: budget.id,
+      currency: budget.currency,
+      transfers: transfers.map((t) => ({
+        fromMemberId: t.from,
+        toMemberId: t.to,
+        amount: fromCents(t.cents),
+      })),
+    };
+  }
+
+  async recordSettlement(
+    dto: CreateSettlementDto,
+    userId?: string,
+  ): Promise<BudgetSettlementEntity> {
+    const budget = await this.budgetRepo.findOne({
+      where: { id: dto.tripBudgetId },
+    });
+    if (!budget) throw new NotFoundException('Trip budget not found');
+    if (dto.fromMemberId === dto.toMemberId) {
+      throw new BadRequestException('A member cannot settle with themselves');
+    }
+
+    const members = await this.memberRepo.find({
+      where: {
+        tripId: budget.tripId,
+        id: In([dto.fromMemberId, dto.toMemberId]),
+      },
+    });
+    if (members.length !== 2) {
+      throw new BadRequestException('Both members must be part of this trip');
+    }
+
+    const currency = (dto.currency ?? budget.currency).toUpperCase();
+    // Fail early when the amount could not be counted in the balances
+    await this.exchangeRate(currency, budget.currency, new Map());
+
+    const saved = await this.settlementRepo.save(
+      this.settlementRepo.create({
+        tripBudgetId: budget.id,
+        fromMemberId: dto.fromMemberId,
+        toMemberId: dto.toMemberId,
+        amount: dto.amount,
+        currency,
+        note: dto.note,
+        createdBy: userId,
+      }),
+    );
+
+    await this.auditService.logAction(
+      budget.id,
+      BudgetAuditAction.RECORD_SETTLEMENT,
+      undefined,
+      {
+        settlementId: saved.id,
+        fromMemberId: saved.fromMemberId,
+        toMemberId: saved.toMemberId,
+        amount: saved.amount,
+        currency: saved.currency,
+      },
+      `Recorded settlement of ${dto.amount} ${currency}`,
+      userId,
+    );
+
+    return saved;
+  }
+
+  async listSettlements(tripId: string): Promise<BudgetSettlementEntity[]> {
+    const budget = await this.budgetRepo.findOne({ where: { tripId } });
+    if (!budget) throw new NotFoundException('Budget not found for this trip');
+    return this.settlementRepo.find({
+      where: { tripBudgetId: budget.id },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  private async computeBalances(tripId: string): Promise<{
+    budget: TripBudgetEntity;
+    balances: MemberBalanceDto[];
+    unassignedItemCount: number;
+  }> {
+    const budget = await this.budgetRepo.findOne({
+      where: { tripId },
+      relations: ['items', 'items.splits'],
+    });
+    if (!budget) throw new NotFoundException('Budget not found for this trip');
+
+    const [members, settlements] = await Promise.all([
+      this.memberRepo.find({
+        where: { tripId },
+        relations: ['user'],
+        order: { joinedAt: 'ASC' },
+      }),
+      this.settlementRepo.find({ where: { tripBudgetId: budget.id } }),
+    ]);
+
+    const totals = new Map(
+      members.map((m) => [m.id, { paid: 0, owed: 0, sent: 0, received: 0 }]),
+    );
+    const entry = (memberId: string) => {
+      let t = totals.get(memberId);
+      if (!t) {
+        t = { paid: 0, owed: 0, sent: 0, received: 0 };
+        totals.set(memberId, t);
+      }
+      return t;
+    };
+
+    let unassignedItemCount = 0;
+    for (const item of budget.items ?? []) {
+      if (!item.paidByMemberId || !item.splits?.length) {
+        unassignedItemCount += 1;
+        continue;
+      }
+      entry(item.paidByMemberId).paid += toCents(item.amount);
+      for (const split of item.splits) {
+        entry(split.memberId).owed += toCents(split.amount);
+      }
+    }
+
+    const rates = new Map<string, number>();
+    for (const settlement of settlements) {
+      // At the rate of the day it was paid, so balances do not drift later
+      const rate = await this.exchangeRate(
+        settlement.currency,
+        budget.currency,
+        rates,
+        toDateString(settlement.createdAt),
+      );
+      const cents = toCents(Number(settlement.amount) * rate);
+      entry(settlement.fromMemberId).sent += cents;
+      entry(settlement.toMemberId).received += cents;
+    }
+
+    const byId = new Map(members.map((m) => [m.id, m]));
+    const balances = Array.from(totals.entries()).map(([memberId, t]) => {
+      const member = byId.get(memberId);
+      const user = member?.user;
+      const name =
+        [user?.firstName, user?.lastName].filter(Boolean).join(' ') ||
+        user?.email ||
+        'Former member';
+      return {
+        memberId,
+        userId: member?.userId ?? '',
+        name,
+        paid: fromCents(t.paid),
+        owed: fromCents(t.owed),
+        settlementsSent: fromCents(t.sent),
+        settlementsReceived: fromCents(t.received),
+        balance: fromCents(t.paid - t.owed + t.sent - t.received),
+      };
+    });
+
+    return { budget, balances, unassignedItemCount };
+  }
+
+  private async exchangeRate(
+    from: string,
+    to: string,
+    cache: Map<string, number>,
+    date?: string,
+  ): Promise<number> {
+    if (from.toUpperCase() === to.toUpperCase()) return 1;
+    const key = `${from}:${to}:${date ?? 'latest'}`.toUpperCase();
+    let rate = cache.get(key);
+    if (rate === undefined) {
+      const conversion = await this.currencyService.convertCurrency(
+        1,
+        from,
+        to,
+        date,
+      );
+      rate = conversion.exchangeRate;
+      cache.set(key, rate);
+    }
+    return rate;
+  }
+}
@@ -3,10 +3,21 @@ import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { ActivityCategory } from 'src/trip/enum/trip-enum';
 import { BudgetService } from 'src/budget/budget.service';
 import { BudgetController } from 'src/budget/budget.controller';
+import { BudgetConversionService } from 'src/budget/budget-conversion.service';
+import { BudgetSplitService } from 'src/budget/budget-split.service';
+import { BudgetAuditService } from 'src/budget/budget-audit.service';
+import { BudgetForecastService } from 'src/budget/budget-forecast.service';
+import { BudgetImportService } from 'src/budget/budget-import.service';
+import { TripAccessService } from 'src/trip/access/trip-access.service';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
 
 describe('BudgetController', () => {
   let controller: BudgetController;
   let service: BudgetService;
+  let auditService: BudgetAuditService;
+  let importService: BudgetImportService;
+
+  const req = { user: { id: 'user-1' } } as AuthenticatedRequest;
 
   const mockBudget = {
     id: 'budget-1',
@@ -74,11 +85,33 @@ describe('BudgetController', () => {
             getBudgetAnalytics: jest.fn(),
           },
         },
+        {
+          provide: BudgetConversionService,
+          useValue: { convertBudgetCurrency: jest.fn() },
+        },
+        { provide: BudgetSplitService, useValue: {} },
+        {
+          provide: BudgetAuditService,
+          useValue: {
+            findAuditLogs: jest.fn(),
+            exportAuditLogsCsv: jest.fn(),
+          },
+        },
+        { provide: BudgetForecastService, useValue: {} },
+        {
+          provide: BudgetImportService,
+          useValue: { importItems: jest.fn(), exportItemsCsv: jest.fn() },
+        },
+        // Needed to build TripPermissionGuard; guard behaviour is covered in
+        // trip-permission.guard.spec.ts
+        { provide: TripAccessService, useValue: {} },
       ],
     }).compile();
 
     controller = module.get<BudgetController>(BudgetController);
     service = module.get<BudgetService>(BudgetService);
+    auditService = module.get<BudgetAuditService>(BudgetAuditService);
+    importService = module.get<BudgetImportService>(BudgetImportService);
   });
 
   afterEach(() => {
@@ -106,10 +139,10 @@ describe('BudgetController', () => {
 
       jest.spyOn(service, 'createBudget').mockResolvedValue(mockBudget as any);
 
-      const result = await controller.create(dto);
+      const result = await controller.create(dto, req);
 
       expect(result.data).toEqual(mockBudget);
-      expect(service.createBudget).toHaveBeenCalledWith(dto);
+      expect(service.createBudget).toHaveBeenCalledWith(dto, 'user-1');
     });
 
     it('should handle budget already exists error', async () => {
@@ -124,7 +157,9 @@ describe('BudgetController', () => {
           new BadRequestException('Budget already exists for this trip'),
         );
 
-      await expect(controller.create(dto)).rejects.toThrow(BadRequestException);
+      await expect(controller.create(dto, req)).rejects.toThrow(
+        BadRequestException,
+      );
     });
   });
 
@@ -144,10 +179,10 @@ describe('BudgetController', () => {
 
       jest.spyOn(service, 'addItem').mockResolvedValue(mockItem as any);
 
-      const result = await controller.addItem(dto);
+      const result = await controller.addItem(dto, req);
 
       expect(result.data).toEqual(mockItem);
-      expect(service.addItem).toHaveBeenCalledWith(dto);
+      expect(service.addItem).toHaveBeenCalledWith(dto, 'user-1');
     });
 
     it('should handle amount exceeding budget error', async () => {
@@ -165,7 +200,7 @@ describe('BudgetController', () => {
           ),
         );
 
-      await expect(controller.addItem(dto)).rejects.toThrow(
+      await expect(controller.addItem(dto, req)).rejects.toThrow(
         BadRequestException,
       );
     });
@@ -181,10 +216,14 @@ describe('BudgetController', () => {
 
       jest.spyOn(service, 'updateBudget').mockResolvedValue(updated as any);
 
-      const result = await controller.update('budget-1', dto);
+      const result = await controller.update('budget-1', dto, req);
 
       expect(result.data).toEqual(updated);
-      expect(service.updateBudget).toHaveBeenCalledWith('budget-1', dto);
+      expect(service.updateBudget).toHaveBeenCalledWith(
+        'budget-1',
+        dto,
+        'user-1',
+      );
     });
   });
 
@@ -192,10 +231,10 @@ describe('BudgetController', () => {
     it('should delete budget item', async () => {
       jest.spyOn(service, 'deleteItem').mockResolvedValue({ deleted: true });
 
-      const result = await controller.deleteItem('item-1');
+      const result = await controller.deleteItem('item-1', req);
 
       expect(result.data).toEqual({ deleted: true });
-      expect(service.deleteItem).toHaveBeenCalledWith('item-1');
+      expect(service.deleteItem).toHaveBeenCalledWith('item-1', 'user-1');
     });
   });
 
@@ -245,4 +284,61 @@ describe('BudgetController', () => {
       ).rejects.toThrow(NotFoundException);
     });
   });
+
+  describe('audit', () => {
+    it('returns the filtered audit trail', async () => {
+      const page = { items: [], meta: { page: 1, limit: 20, total: 0 } };
+      jest.spyOn(auditService, 'findAuditLogs').mockResolvedValue(page as any);
+
+      const query = { page: 1, limit: 20, userId: 'user-2' };
+      const result = await controller.getAuditLogs('budget-1', query);
+
+      expect(result.data).toEqual(page);
+      expect(auditService.findAuditLogs).toHaveBeenCalledWith(
+        'budget-1',
+        query,
+      );
+    });
+
+    it('exports the audit trail as a CSV attachment', async () => {
+      jest
+        .spyOn(auditService, 'exportAuditLogsCsv')
+        .mockResolvedValue('Date,Action');
+
+      const file = await controller.exportAuditLogs('budget-1', {});
+
+      expect(file.getHeaders()).toMatchObject({
+        type: 'text/csv; charset=utf-8',
+        disposition: 'attachment; filename="budget-budget-1-audit.csv"',
+      });
+    });
+  });
+
+  describe('importItems', () => {
+    it('rejects a request without a file', async () => {
+      await expect(
+        controller.importItems(
+          'budget-1',
+          undefined as unknown as Express.Multer.File,
+          {},
+          req,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('imports as the acting user', async () => {
+      const file = {
+        buffer: Buffer.from('Date,Amount'),
+      } as Express.Multer.File;
+
+      await controller.importItems('budget-1', file, { dryRun: false }, req);
+
+      expect(importService.importItems).toHaveBeenCalledWith(
+        'budget-1',
+        file,
+        { dryRun: false },
+        'user-1',
+      );
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   Body,
   Controller,
   Delete,
@@ -6,60 +7,180 @@ import {
   Param,
   Patch,
   Post,
+  Put,
+  Query,
+  Req,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { BudgetService } from './budget.service';
 import { BudgetConversionService } from './budget-conversion.service';
+import { BudgetSplitService } from './budget-split.service';
 import { CreateBudgetDto } from './dto/create-budget.dto';
 import { CreateBudgetItemDto } from './dto/create-item.dto';
 import { UpdateBudgetDto } from './dto/update-budget.dto';
+import { UpdateBudgetItemDto } from './dto/update-item.dto';
 import { ConvertCurrencyDto } from './dto/convert-currency.dto';
+import { SetExpenseSplitDto } from './dto/expense-split.dto';
+import { CreateSettlementDto } from './dto/create-settlement.dto';
+import {
+  BudgetAuditFilterDto,
+  BudgetAuditQueryDto,
+} from './dto/budget-audit-query.dto';
+import { BudgetAuditService } from './budget-audit.service';
+import { BudgetForecastService } from './budget-forecast.service';
+import { BudgetImportService } from './budget-import.service';
+import { ImportBudgetItemsDto } from './dto/import-items.dto';
 import { ResponseUtil } from 'src/shared/utils/response.util';
-import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import {
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
+import { TripPermissionGuard } from 'src/trip/guards/trip-permission.guard';
+import { RequireRole } from 'src/trip/decorators/require-role.decorator';
+import { TripResource } from 'src/trip/decorators/trip-resource.decorator';
+import { TripResourceType } from 'src/trip/access/trip-resource.types';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
 
 @Controller('budget')
 @ApiTags('Budget Management')
 @ApiBearerAuth()
+@UseGuards(TripPermissionGuard)
 export class BudgetController {
   constructor(
     private readonly budgetService: BudgetService,
     private readonly conversionService: BudgetConversionService,
+    private readonly splitService: BudgetSplitService,
+    private readonly auditService: BudgetAuditService,
+    private readonly forecastService: BudgetForecastService,
+    private readonly importService: BudgetImportService,
   ) {}
 
   @Get(':tripId')
+  @RequireRole(MemberRole.VIEWER)
   async getBudget(@Param('tripId') tripId: string) {
     const budget = await this.budgetService.getByTripId(tripId);
     return ResponseUtil.success(budget);
   }
 
   @Post()
-  async create(@Body() dto: CreateBudgetDto) {
-    const created = await this.budgetService.createBudget(dto);
+  @RequireRole(MemberRole.EDITOR)
+  async create(@Body() dto: CreateBudgetDto, @Req() req: AuthenticatedRequest) {
+    const created = await this.budgetService.createBudget(dto, req.user.id);
     return ResponseUtil.success(created);
   }
 
   @Post('item')
-  async addItem(@Body() dto: CreateBudgetItemDto) {
-    const item = await this.budgetService.addItem(dto);
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.BUDGET, { in: 'body', key: 'tripBudgetId' })
+  async addItem(
+    @Body() dto: CreateBudgetItemDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const item = await this.budgetService.addItem(dto, req.user.id);
     return ResponseUtil.success(item);
   }
 
   @Patch(':id')
-  async update(@Param('id') id: string, @Body() dto: UpdateBudgetDto) {
-    const updated = await this.budgetService.updateBudget(id, dto);
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.BUDGET)
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateBudgetDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const updated = await this.budgetService.updateBudget(id, dto, req.user.id);
     return ResponseUtil.success(updated);
   }
 
+  @Patch('item/:id')
+  @ApiOperation({ summary: 'Edit a budget item' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.BUDGET_ITEM)
+  async updateItem(
+    @Param('id') id: string,
+    @Body() dto: UpdateBudgetItemDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const item = await this.budgetService.updateItem(id, dto, req.user.id);
+    return ResponseUtil.success(item);
+  }
+
   @Delete('item/:id')
   @ApiOperation({ summary: 'Delete a budget item' })
-  async deleteItem(@Param('id') id: string) {
-    const result = await this.budgetService.deleteItem(id);
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.BUDGET_ITEM)
+  async deleteItem(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    const result = await this.budgetService.deleteItem(id, req.user.id);
     return ResponseUtil.success(result);
   }
 
+  @Put('item/:id/split')
+  @ApiOperation({ summary: 'Set who paid a budget item and how it is split' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.BUDGET_ITEM)
+  async setItemSplit(
+    @Param('id') id: string,
+    @Body() dto: SetExpenseSplitDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const item = await this.splitService.setItemSplit(id, dto, req.user.id);
+    return ResponseUtil.success(item);
+  }
+
+  @Get('balances/:tripId')
+  @ApiOperation({ summary: 'Get what each trip member paid and owes' })
+  @RequireRole(MemberRole.VIEWER)
+  async getBalances(@Param('tripId') tripId: string) {
+    const balances = await this.splitService.getBalances(tripId);
+    return ResponseUtil.success(balances);
+  }
+
+  @Get('settle-up/:tripId')
+  @ApiOperation({
+    summary: 'Get the fewest transfers that settle all member balances',
+  })
+  @RequireRole(MemberRole.VIEWER)
+  async getSettleUpPlan(@Param('tripId') tripId: string) {
+    const plan = await this.splitService.getSettleUpPlan(tripId);
+    return ResponseUtil.success(plan);
+  }
+
+  @Get('settlements/:tripId')
+  @ApiOperation({ summary: 'List recorded settlements between members' })
+  @RequireRole(MemberRole.VIEWER)
+  async listSettlements(@Param('tripId') tripId: string) {
+    const settlements = await this.splitService.listSettlements(tripId);
+    return ResponseUtil.success(settlements);
+  }
+
+  @Post('settlements')
+  @ApiOperation({ summary: 'Record a payment between two trip members' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.BUDGET, { in: 'body', key: 'tripBudgetId' })
+  async recordSettlement(
+    @Body() dto: CreateSettlementDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const settlement = await this.splitService.recordSettlement(
+      dto,
+      req.user.id,
+    );
+    return ResponseUtil.success(settlement);
+  }
+
   @Get('summary/:tripId')
   @ApiOperation({
     summary: 'Get budget summary with percentages and remaining amount',
   })
+  @RequireRole(MemberRole.VIEWER)
   async getBudgetSummary(@Param('tripId') tripId: string) {
     const summary = await this.budgetService.getBudgetSummary(tripId);
     return ResponseUtil.success(summary);
@@ -69,23 +190,110 @@ export class BudgetController {
   @ApiOperation({
     summary: 'Get budget analytics with breakdown by category',
   })
+  @RequireRole(MemberRole.VIEWER)
   async getBudgetAnalytics(@Param('tripId') tripId: string) {
     const analytics = await this.budgetService.getBudgetAnalytics(tripId);
     return ResponseUtil.success(analytics);
   }
 
+  @Get('forecast/:tripId')
+  @ApiOperation({
+    summary:
+      'Project end-of-trip spending from recorded spend and itinerary estimates',
+  })
+  @RequireRole(MemberRole.VIEWER)
+  async getBudgetForecast(@Param('tripId') tripId: string) {
+    const forecast = await this.forecastService.getForecast(tripId);
+    return ResponseUtil.success(forecast);
+  }
+
   @Patch(':id/convert-currency')
   @ApiOperation({
     summary: 'Convert budget and all items to a different currency',
   })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.BUDGET)
   async convertBudgetCurrency(
     @Param('id') id: string,
     @Body() dto: ConvertCurrencyDto,
+    @Req() req: AuthenticatedRequest,
   ) {
     const budget = await this.conversionService.convertBudgetCurrency(
       id,
       dto.newCurrency,
+      req.user.id,
     );
     return ResponseUtil.success(budget);
   }
+
+  @Get(':budgetId/audit')
+  @ApiOperation({ summary: 'List the audit trail of a budget' })
+  @RequireRole(MemberRole.VIEWER)
+  @TripResource(TripResourceType.BUDGET, { in: 'params', key: 'budgetId' })
+  async getAuditLogs(
+    @Param('budgetId') budgetId: string,
+    @Query() query: BudgetAuditQueryDto,
+  ) {
+    const logs = await this.auditService.findAuditLogs(budgetId, query);
+    return ResponseUtil.success(logs);
+  }
+
+  @Get(':budgetId/audit/export')
+  @ApiOperation({ summary: 'Export the audit trail of a budget as CSV' })
+  @ApiProduces('text/csv')
+  @RequireRole(MemberRole.VIEWER)
+  @TripResource(TripResourceType.BUDGET, { in: 'params', key: 'budgetId' })
+  async exportAuditLogs(
+    @Param('budgetId') budgetId: string,
+    @Query() filter: BudgetAuditFilterDto,
+  ) {
+    const csv = await this.auditService.exportAuditLogsCsv(budgetId, filter);
+    return new StreamableFile(Buffer.from(csv, 'utf8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="budget-${budgetId}-audit.csv"`,
+    });
+  }
+
+  @Post(':budgetId/import')
+  @ApiOperation({
+    summary: 'Import expenses from a CSV or OFX file',
+    description:
+      'Previews the rows with validation errors and duplicates unless dryRun is false',
+  })
+  @ApiConsumes('multipart/form-data')
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.BUDGET, { in: 'params', key: 'budgetId' })
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 2 * 1024 * 1024 } }),
+  )
+  async importItems(
+    @Param('budgetId') budgetId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: ImportBudgetItemsDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+    const result = await this.importService.importItems(
+      budgetId,
+      file,
+      dto,
+      req.user.id,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  @Get(':budgetId/items/export')
+  @ApiOperation({ summary: 'Export the expenses of a budget as CSV' })
+  @ApiProduces('text/csv')
+  @RequireRole(MemberRole.VIEWER)
+  @TripResource(TripResourceType.BUDGET, { in: 'params', key: 'budgetId' })
+  async exportItems(@Param('budgetId') budgetId: string) {
+    const csv = await this.importService.exportItemsCsv(budgetId);
+    return new StreamableFile(Buffer.from(csv, 'utf8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="budget-${budgetId}-items.csv"`,
+    });
+  }
 }
@@ -4,12 +4,23 @@ import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
 import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
 import { BudgetAuditLogEntity } from 'src/schemas/budget-audit-log.entity';
 import { RefreshTokenEntity } from 'src/schemas/refresh-token.entity';
+import { BudgetItemSplitEntity } from 'src/schemas/budget-item-split.entity';
+import { BudgetSettlementEntity } from 'src/schemas/budget-settlement.entity';
+import { TripMemberEntity } from 'src/schemas/trip-member.entity';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
 import { BudgetService } from './budget.service';
 import { BudgetController } from './budget.controller';
 import { BudgetAuditService } from './budget-audit.service';
 import { BudgetConversionService } from './budget-conversion.service';
+import { BudgetSplitService } from './budget-split.service';
+import { BudgetAlertService } from './budget-alert.service';
+import { BudgetForecastService } from './budget-forecast.service';
+import { BudgetImportService } from './budget-import.service';
 import { RedisModule } from 'src/redis/redis.module';
 import { CurrencyModule } from 'src/currency/currency.module';
+import { TripAccessModule } from 'src/trip/access/trip-access.module';
+import { NotificationModule } from 'src/notification/notification.module';
 
 @Module({
   imports: [
@@ -18,12 +29,32 @@ import { CurrencyModule } from 'src/currency/currency.module';
       BudgetItemEntity,
       BudgetAuditLogEntity,
       RefreshTokenEntity,
+      BudgetItemSplitEntity,
+      BudgetSettlementEntity,
+      TripMemberEntity,
+      TripEntity,
+      ItineraryEntity,
     ]),
     RedisModule,
     CurrencyModule,
+    TripAccessModule,
+    NotificationModule,
   ],
   controllers: [BudgetController],
-  providers: [BudgetService, BudgetAuditService, BudgetConversionService],
-  exports: [BudgetService, BudgetAuditService, BudgetConversionService],
+  providers: [
+    BudgetService,
+    BudgetAuditService,
+    BudgetConversionService,
+    BudgetSplitService,
+    BudgetAlertService,
+    BudgetForecastService,
+    BudgetImportService,
+  ],
+  exports: [
+    BudgetService,
+    BudgetAuditService,
+    BudgetConversionService,
+    BudgetSplitService,
+  ],
 })
 export class BudgetModule {}
@@ -1,12 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
-import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
+import {
+  BudgetCapType,
+  BudgetOverrunPolicy,
+  TripBudgetEntity,
+} from 'src/schemas/trip-budget.entity';
 import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import { TripEntity } from 'src/schemas/trip.entity';
 import { Repository, DataSource } from 'typeorm';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { RedisCacheService } from 'src/redis/redis-cache.service';
 import { ActivityCategory } from 'src/trip/enum/trip-enum';
 import { BudgetService } from 'src/budget/budget.service';
+import { BudgetAuditService } from 'src/budget/budget-audit.service';
+import { BudgetSplitService } from 'src/budget/budget-split.service';
+import { BudgetConversionService } from 'src/budget/budget-conversion.service';
+import { BudgetAlertService } from 'src/budget/budget-alert.service';
+import { ExpenseSplitType } from 'src/schemas/budget-item-split.entity';
+import { BudgetAuditAction } from 'src/schemas/budget-audit-log.entity';
 
 describe('BudgetService', () => {
   let service: BudgetService;
@@ -14,6 +25,8 @@ describe('BudgetService', () => {
   let itemRepository: Repository<BudgetItemEntity>;
   let redisService: RedisCacheService;
   let dataSource: DataSource;
+  let auditService: BudgetAuditService;
+  let tripRepository: Repository<TripEntity>;
 
   const mockBudget: Partial<TripBudgetEntity> = {
     id: 'budget-1',
@@ -55,6 +68,10 @@ describe('BudgetService', () => {
             delete: jest.fn(),
           },
         },
+        {
+          provide: getRepositoryToken(TripEntity),
+          useValue: { findOne: jest.fn() },
+        },
         {
           provide: RedisCacheService,
           useValue: {
@@ -68,6 +85,37 @@ describe('BudgetService', () => {
             createQueryRunner: jest.fn(),
           },
         },
+        {
+          provide: BudgetAuditService,
+          useValue: { logAction: jest.fn() },
+        },
+        {
+          provide: BudgetSplitService,
+          useValue: { resolveSplit: jest.fn().mockResolvedValue(null) },
+        },
+        {
+          provide: BudgetConversionService,
+          useValue: {
+            convertAmount: jest.fn((amount: number, from: string) =>
+              Promise.resolve(
+                from === 'THB'
+                  ? { amount: amount * 700, exchangeRate: 700 }
+                  : { amount, exchangeRate: 1 },
+              ),
+            ),
+            reallocateSplits: jest.fn(),
+          },
+        },
+        {
+          provide: BudgetAlertService,
+          useValue: {
+            syncThresholdAlerts: jest.fn().mockResolvedValue([]),
+            syncCategoryAlerts: jest.fn(),
+            thresholdsFor: jest.fn((budget: TripBudgetEntity) => [
+              Number(budget.notifyThreshold),
+            ]),
+          },
+        },
       ],
     }).compile();
 
@@ -80,6 +128,10 @@ describe('BudgetService', () => {
     );
     redisService = module.get<RedisCacheService>(RedisCacheService);
     dataSource = module.get<DataSource>(DataSource);
+    auditService = module.get<BudgetAuditService>(BudgetAuditService);
+    tripRepository = module.get<Repository<TripEntity>>(
+      getRepositoryToken(TripEntity),
+    );
   });
 
   afterEach(() => {
@@ -143,6 +195,45 @@ describe('BudgetService', () => {
       });
     });
 
+    it.each([
+      [
+        'a category capped twice',
+        [
+          {
+            category: ActivityCategory.FOOD,
+            type: BudgetCapType.AMOUNT,
+            value: 100,
+          },
+          {
+            category: ActivityCategory.FOOD,
+            type: BudgetCapType.PERCENTAGE,
+            value: 20,
+          },
+        ],
+      ],
+      [
+        'a percentage above 100',
+        [
+          {
+            category: ActivityCategory.HOTEL,
+            type: BudgetCapType.PERCENTAGE,
+            value: 120,
+          },
+        ],
+      ],
+    ])('should reject %s', async (_label, categoryCaps) => {
+      jest.spyOn(budgetRepository, 'findOne').mockResolvedValue(null);
+
+      await expect(
+        service.createBudget({
+          tripId: 'trip-1',
+          totalBudget: 1000,
+          categoryCaps,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(budgetRepository.create).not.toHaveBeenCalled();
+    });
+
     it('should throw error if budget already exists', async () => {
       const dto = {
         tripId: 'trip-1',
@@ -160,7 +251,7 @@ describe('BudgetService', () => {
   });
 
   describe('addItem', () => {
-    it('should add item successfully when within budget', () => {
+    it('should add item successfully when within budget', async () => {
       const dto = {
         tripBudgetId: 'budget-1',
         category: ActivityCategory.FOOD,
@@ -187,11 +278,73 @@ describe('BudgetService', () => {
         .mockReturnValue(mockQueryRunner as any);
       jest.spyOn(redisService, 'set').mockResolvedValue(undefined);
       jest.spyOn(redisService, 'get').mockResolvedValue(null);
+      jest.spyOn(itemRepository, 'create').mockReturnValue(dto as any);
+
+      await service.addItem(dto);
 
       expect(mockQueryRunner.startTransaction).toHaveBeenCalled();
       expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
     });
 
+    it('should store the original amount and aggregate the converted one', async () => {
+      const dto = {
+        tripBudgetId: 'budget-1',
+        category: ActivityCategory.FOOD,
+        amount: 1,
+        currency: 'thb',
+      };
+      const mockQueryRunner = {
+        connect: jest.fn(),
+        startTransaction: jest.fn(),
+        manager: {
+          save: jest.fn((item: unknown) => Promise.resolve(item)),
+          update: jest.fn(),
+        },
+        commitTransaction: jest.fn(),
+        rollbackTransaction: jest.fn(),
+        release: jest.fn(),
+      };
+
+      jest
+        .spyOn(budgetRepository, 'findOne')
+        .mockResolvedValue(mockBudget as TripBudgetEntity);
+      jest
+        .spyOn(dataSource, 'createQueryRunner')
+        .mockReturnValue(mockQueryRunner as any);
+      jest.spyOn(itemRepository, 'create').mockImplementation((x) => x as any);
+
+      await service.addItem(dto);
+
+      expect(itemRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 700,
+          originalAmount: 1,
+          originalCurrency: 'THB',
+          exchangeRate: 700,
+        }),
+      );
+      expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+        TripBudgetEntity,
+        { id: 'budget-1' },
+        { spentAmount: 700 },
+      );
+    });
+
+    it('should reject a converted amount that exceeds the budget', async () => {
+      jest
+        .spyOn(budgetRepository, 'findOne')
+        .mockResolvedValue(mockBudget as TripBudgetEntity);
+
+      await expect(
+        service.addItem({
+          tripBudgetId: 'budget-1',
+          category: ActivityCategory.FOOD,
+          amount: 2,
+          currency: 'THB',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
     it('should throw error when item amount exceeds budget', async () => {
       const dto = {
         tripBudgetId: 'budget-1',
@@ -233,6 +386,172 @@ describe('BudgetService', () => {
     });
   });
 
+  describe('updateItem', () => {
+    const storedItem = {
+      ...mockItem,
+      amount: 100,
+      originalAmount: 100,
+      originalCurrency: 'VND',
+      exchangeRate: 1,
+      expenseDate: '2026-03-01',
+      splits: [],
+    };
+    let queryRunner: {
+      connect: jest.Mock;
+      startTransaction: jest.Mock;
+      manager: { update: jest.Mock; delete: jest.Mock; insert: jest.Mock };
+      commitTransaction: jest.Mock;
+      rollbackTransaction: jest.Mock;
+      release: jest.Mock;
+    };
+
+    const givenItem = (
+      item: Record<string, unknown>,
+      budget: Partial<TripBudgetEntity> = {},
+    ) => {
+      jest.spyOn(itemRepository, 'findOne').mockResolvedValue({
+        ...storedItem,
+        ...item,
+        tripBudget: { ...mockBudget, spentAmount: 600, ...budget },
+      } as any);
+    };
+
+    beforeEach(() => {
+      queryRunner = {
+        connect: jest.fn(),
+        startTransaction: jest.fn(),
+        manager: { update: jest.fn(), delete: jest.fn(), insert: jest.fn() },
+        commitTransaction: jest.fn(),
+        rollbackTransaction: jest.fn(),
+        release: jest.fn(),
+      };
+      jest
+        .spyOn(dataSource, 'createQueryRunner')
+        .mockReturnValue(queryRunner as any);
+      jest.spyOn(budgetRepository, 'findOne').mockResolvedValue(null);
+    });
+
+    it('converts the new amount and adjusts the spent total', async () => {
+      givenItem({});
+
+      await service.updateItem(
+        'item-1',
+        { amount: 0.5, currency: 'THB' },
+        'user-1',
+      );
+
+      expect(queryRunner.manager.update).toHaveBeenCalledWith(
+        BudgetItemEntity,
+        { id: 'item-1' },
+        expect.objectContaining({
+          amount: 350,
+          originalAmount: 0.5,
+          originalCurrency: 'THB',
+          exchangeRate: 700,
+        }),
+      );
+      expect(queryRunner.manager.update).toHaveBeenCalledWith(
+        TripBudgetEntity,
+        { id: 'budget-1' },
+        { spentAmount: 850 },
+      );
+      expect(auditService.logAction).toHaveBeenCalledWith(
+        'budget-1',
+        BudgetAuditAction.UPDATE_ITEM,
+        expect.objectContaining({ amount: 100 }),
+        expect.objectContaining({ newSpentTotal: 850 }),
+        expect.any(String),
+        'user-1',
+      );
+    });
+
+    it('blocks an increase over the budget by default', async () => {
+      givenItem({});
+
+      await expect(
+        service.updateItem('item-1', { amount: 600 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(queryRunner.startTransaction).not.toHaveBeenCalled();
+    });
+
+    it('still allows lowering an expense of an overspent budget', async () => {
+      givenItem({}, { spentAmount: 1200 });
+
+      await service.updateItem('item-1', { amount: 50 });
+
+      expect(queryRunner.manager.update).toHaveBeenCalledWith(
+        TripBudgetEntity,
+        { id: 'budget-1' },
+        { spentAmount: 1150 },
+      );
+    });
+
+    it('asks for a new exact split when the amount changes', async () => {
+      givenItem({ splitType: ExpenseSplitType.EXACT });
+
+      await expect(
+        service.updateItem('item-1', { amount: 120 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('overrun policy', () => {
+    it.each([BudgetOverrunPolicy.WARN, BudgetOverrunPolicy.ALLOW])(
+      'accepts an expense over the budget with %s',
+      async (overrunPolicy) => {
+        const queryRunner = {
+          connect: jest.fn(),
+          startTransaction: jest.fn(),
+          manager: {
+            save: jest.fn((item: unknown) => Promise.resolve(item)),
+            update: jest.fn(),
+          },
+          commitTransaction: jest.fn(),
+          rollbackTransaction: jest.fn(),
+          release: jest.fn(),
+        };
+        jest
+          .spyOn(budgetRepository, 'findOne')
+          .mockResolvedValue({ ...mockBudget, overrunPolicy } as any);
+        jest
+          .spyOn(dataSource, 'createQueryRunner')
+          .mockReturnValue(queryRunner as any);
+        jest
+          .spyOn(itemRepository, 'create')
+          .mockImplementation((x) => x as any);
+
+        await service.addItem({
+          tripBudgetId: 'budget-1',
+          category: ActivityCategory.HOTEL,
+          amount: 1500,
+        });
+
+        expect(queryRunner.manager.update).toHaveBeenCalledWith(
+          TripBudgetEntity,
+          { id: 'budget-1' },
+          { spentAmount: 1500 },
+        );
+      },
+    );
+
+    it('reports overspending in the summary', async () => {
+      jest.spyOn(service, 'getByTripId').mockResolvedValue({
+        ...mockBudget,
+        spentAmount: 1250.5,
+        overrunPolicy: BudgetOverrunPolicy.WARN,
+      } as TripBudgetEntity);
+
+      const result = await service.getBudgetSummary('trip-1');
+
+      expect(result).toMatchObject({
+        remainingBudget: -250.5,
+        isOverBudget: true,
+        overspentAmount: 250.5,
+        overrunPolicy: BudgetOverrunPolicy.WARN,
+      });
+    });
+  });
+
   describe('updateBudget', () => {
     it('should update budget successfully', async () => {
       const dto = {
@@ -253,7 +572,11 @@ describe('BudgetService', () => {
       const result = await service.updateBudget('budget-1', dto);
 
       expect(result).toEqual(updated);
-      expect(budgetRepository.update).toHaveBeenCalledWith('budget-1', dto);
+      // A new total resets the conversion baseline
+      expect(budgetRepository.update).toHaveBeenCalledWith('budget-1', {
+        ...dto,
+        baseline: null,
+      });
     });
 
     it('should throw error when budget not found', async () => {
@@ -406,6 +729,106 @@ describe('BudgetService', () => {
       });
     });
 
+    it('should report variance against category caps', async () => {
+      jest.spyOn(service, 'getByTripId').mockResolvedValue({
+        ...mockBudget,
+        categoryCaps: [
+          {
+            category: ActivityCategory.FOOD,
+            type: BudgetCapType.PERCENTAGE,
+            value: 25,
+          },
+          {
+            category: ActivityCategory.TRANSPORT,
+            type: BudgetCapType.AMOUNT,
+            value: 200,
+          },
+        ],
+        items: [
+          { ...mockItem, category: ActivityCategory.FOOD, amount: 300 },
+          { ...mockItem, category: ActivityCategory.HOTEL, amount: 400 },
+        ],
+      } as TripBudgetEntity);
+
+      const result = await service.getBudgetAnalytics('trip-1');
+
+      const byCategory = Object.fromEntries(
+        result.breakdown.map((b) => [b.category, b]),
+      );
+      expect(byCategory[ActivityCategory.FOOD]).toMatchObject({
+        cap: 250,
+        variance: -50,
+        capUsedPercentage: 120,
+        isOverCap: true,
+      });
+      expect(byCategory[ActivityCategory.TRANSPORT]).toMatchObject({
+        amount: 0,
+        cap: 200,
+        variance: 200,
+        isOverCap: false,
+      });
+      expect(byCategory[ActivityCategory.HOTEL]).toMatchObject({
+        cap: null,
+        variance: null,
+        isOverCap: false,
+      });
+      expect(result.daily).toEqual([]);
+    });
+
+    it('should compare daily spending with the allowance', async () => {
+      jest.spyOn(service, 'getByTripId').mockResolvedValue({
+        ...mockBudget,
+        totalBudget: 900,
+        dailyAllowanceEnabled: true,
+        dailyAllowance: null,
+        items: [
+          { ...mockItem, amount: 100, expenseDate: new Date('2026-03-01') },
+          { ...mockItem, amount: 150, expenseDate: '2026-03-02' },
+          { ...mockItem, amount: 200, expenseDate: '2026-03-02' },
+          { ...mockItem, amount: 500, expenseDate: '2026-02-20' },
+        ],
+      } as unknown as TripBudgetEntity);
+      jest.spyOn(tripRepository, 'findOne').mockResolvedValue({
+        id: 'trip-1',
+        startDate: '2026-03-01',
+        endDate: '2026-03-03',
+      } as unknown as TripEntity);
+
+      const result = await service.getBudgetAnalytics('trip-1');
+
+      expect(result.dailyAllowance).toBe(300);
+      expect(result.daily).toEqual([
+        {
+          date: '2026-02-20',
+          spent: 500,
+          allowance: null,
+          variance: null,
+          isOverAllowance: false,
+        },
+        {
+          date: '2026-03-01',
+          spent: 100,
+          allowance: 300,
+          variance: 200,
+          isOverAllowance: false,
+        },
+        {
+          date: '2026-03-02',
+          spent: 350,
+          allowance: 300,
+          variance: -50,
+          isOverAllowance: true,
+        },
+        {
+          date: '2026-03-03',
+          spent: 0,
+          allowance: 300,
+          variance: 300,
+          isOverAllowance: false,
+        },
+      ]);
+    });
+
     it('should throw error when budget not found', async () => {
       jest.spyOn(service, 'getByTripId').mockResolvedValue(null);
 
@@ -6,19 +6,40 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
-import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
+import {
+  BudgetCapType,
+  BudgetCategoryCap,
+  BudgetOverrunPolicy,
+  TripBudgetEntity,
+} from 'src/schemas/trip-budget.entity';
+import { TripEntity } from 'src/schemas/trip.entity';
 import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import {
+  BudgetItemSplitEntity,
+  ExpenseSplitType,
+} from 'src/schemas/budget-item-split.entity';
 import { CreateBudgetDto } from './dto/create-budget.dto';
 import { CreateBudgetItemDto } from './dto/create-item.dto';
 import { UpdateBudgetDto } from './dto/update-budget.dto';
+import { UpdateBudgetItemDto } from './dto/update-item.dto';
 import { BudgetSummaryDto } from './dto/budget-summary.dto';
 import {
   BudgetAnalyticsDto,
   BudgetBreakdownDto,
+  BudgetDailyVarianceDto,
 } from './dto/budget-analytics.dto';
+import {
+  capAmount,
+  dailyAllowanceFor,
+  tripDays,
+} from './utils/budget-caps.util';
 import { RedisCacheService } from 'src/redis/redis-cache.service';
 import { BudgetAuditService } from './budget-audit.service';
 import { BudgetAuditAction } from 'src/schemas/budget-audit-log.entity';
+import { BudgetSplitService } from './budget-split.service';
+import { BudgetConversionService } from './budget-conversion.service';
+import { BudgetAlertService } from './budget-alert.service';
+import { toDateString } from 'src/shared/utils/date.util';
 
 @Injectable()
 export class BudgetService {
@@ -30,9 +51,14 @@ export class BudgetService {
     private readonly budgetRepo: Repository<TripBudgetEntity>,
     @InjectRepository(BudgetItemEntity)
     private readonly itemRepo: Repository<BudgetItemEntity>,
+    @InjectRepository(TripEntity)
+    private readonly tripRepo: Repository<TripEntity>,
     private readonly redis: RedisCacheService,
     private readonly dataSource: DataSource,
     private readonly auditService: BudgetAuditService,
+    private readonly splitService: BudgetSplitService,
+    private readonly conversionService: BudgetConversionService,
+    private readonly alertService: BudgetAlertService,
   ) {}
 
   async getByTripId(tripId: string): Promise<TripBudgetEntity | null> {
@@ -43,17 +69,26 @@ export class BudgetService {
     });
   }
 
-  async createBudget(dto: CreateBudgetDto): Promise<TripBudgetEntity> {
+  async createBudget(
+    dto: CreateBudgetDto,
+    userId?: string,
+  ): Promise<TripBudgetEntity> {
     const existing = await this.budgetRepo.findOne({
       where: { tripId: dto.tripId },
     });
     if (existing)
       throw new BadRequestException('Budget already exists for this trip');
+    if (dto.categoryCaps) this.validateCategoryCaps(dto.categoryCaps);
     const entity = this.budgetRepo.create({
       tripId: dto.tripId,
       totalBudget: dto.totalBudget,
       currency: dto.currency ?? 'VND',
       notifyThreshold: dto.notifyThreshold ?? 0.8,
+      notifyThresholds: dto.notifyThresholds,
+      overrunPolicy: dto.overrunPolicy,
+      categoryCaps: dto.categoryCaps,
+      dailyAllowanceEnabled: dto.dailyAllowanceEnabled,
+      dailyAllowance: dto.dailyAllowance,
       spentAmount: 0,
     });
     const saved = await this.budgetRepo.save(entity);
@@ -68,15 +103,24 @@ export class BudgetService {
         totalBudget: saved.totalBudget,
         currency: saved.currency,
         notifyThreshold: saved.notifyThreshold,
+        notifyThresholds: saved.notifyThresholds,
+        overrunPolicy: saved.overrunPolicy,
+        categoryCaps: saved.categoryCaps,
+        dailyAllowanceEnabled: saved.dailyAllowanceEnabled,
+        dailyAllowance: saved.dailyAllowance,
       },
       `Budget created for trip ${saved.tripId}`,
+      userId,
     );
 
     await this.updateSummaryCache(saved.tripId);
     return saved;
   }
 
-  async addItem(dto: CreateBudgetItemDto): Promise<BudgetItemEntity> {
+  async addItem(
+    dto: CreateBudgetItemDto,
+    userId?: string,
+  ): Promise<BudgetItemEntity> {
     const budget = await this.budgetRepo.findOne({
       where: { id: dto.tripBudgetId },
       relations: ['items'],
@@ -88,17 +132,33 @@ export class BudgetService {
       throw new BadRequestException('Expense amount must be greater than 0');
     }
 
+    // Aggregates are always kept in the budget currency, converted at the
+    // rate of the day the expense was paid
+    const currency = (dto.currency ?? budget.currency).toUpperCase();
+    const { amount, exchangeRate } = await this.conversionService.convertAmount(
+      dto.amount,
+      currency,
+      budget.currency,
+      dto.expenseDate?.slice(0, 10),
+    );
+
     // Calculate new total spending
     const currentSpent = Number(budget.spentAmount);
-    const newSpent = currentSpent + Number(dto.amount);
+    const newSpent = currentSpent + amount;
 
-    // Validate spending doesn't exceed budget
-    if (newSpent > Number(budget.totalBudget)) {
-      const difference = newSpent - Number(budget.totalBudget);
-      throw new BadRequestException(
-        `Cannot add this expense. Adding ${dto.amount} would exceed budget by ${difference.toFixed(2)} ${budget.currency}. Current: ${currentSpent} / ${budget.totalBudget}`,
-      );
-    }
+    this.checkOverrun(
+      budget,
+      currentSpent,
+      newSpent,
+      `Cannot add this expense. Adding ${amount} ${budget.currency}`,
+    );
+
+    const split = await this.splitService.resolveSplit(
+      budget.tripId,
+      amount,
+      dto,
+      dto.amount,
+    );
 
     // Use transaction for atomic update
     const queryRunner = this.dataSource.createQueryRunner();
@@ -109,10 +169,17 @@ export class BudgetService {
       const item = this.itemRepo.create({
         tripBudgetId: dto.tripBudgetId,
         category: dto.category,
-        amount: dto.amount,
+        amount,
+        originalAmount: dto.amount,
+        originalCurrency: currency,
+        exchangeRate,
+        expenseDate: dto.expenseDate ? new Date(dto.expenseDate) : undefined,
         source: dto.source,
         refId: dto.refId,
         note: dto.note,
+        paidByMemberId: split?.paidByMemberId,
+        splitType: split?.splitType,
+        splits: split?.splits,
       });
       const saved = await queryRunner.manager.save(item);
 
@@ -125,12 +192,8 @@ export class BudgetService {
 
       await queryRunner.commitTransaction();
 
-      // Check if spending exceeded threshold and trigger notification
-      const thresholdAmount =
-        Number(budget.totalBudget) * Number(budget.notifyThreshold);
-      if (newSpent >= thresholdAmount) {
-        await this.triggerThresholdAlert(budget, newSpent);
-      }
+      await this.alertService.syncThresholdAlerts(budget, newSpent);
+      await this.alertService.syncCategoryAlerts(budget, [saved.category]);
 
       // Log item addition
       await this.auditService.logAction(
@@ -141,14 +204,18 @@ export class BudgetService {
           itemId: saved.id,
           category: saved.category,
           amount: saved.amount,
+          originalAmount: dto.amount,
+          originalCurrency: currency,
+          exchangeRate,
           newSpentTotal: newSpent,
         },
-        `Added ${saved.category} expense of ${dto.amount} ${budget.currency}`,
+        `Added ${saved.category} expense of ${dto.amount} ${currency}`,
+        userId,
       );
 
       await this.updateSummaryCache(budget.tripId);
       this.logger.log(
-        `Added expense item ${saved.id}: ${dto.amount} ${budget.currency}`,
+        `Added expense item ${saved.id}: ${dto.amount} ${currency} (${amount} ${budget.currency})`,
       );
       return saved;
     } catch (error) {
@@ -166,6 +233,7 @@ export class BudgetService {
   async updateBudget(
     id: string,
     dto: UpdateBudgetDto,
+    userId?: string,
   ): Promise<TripBudgetEntity> {
     const budget = await this.budgetRepo.findOne({ where: { id } });
     if (!budget) throw new NotFoundException('Trip budget not found');
@@ -175,6 +243,11 @@ export class BudgetService {
       totalBudget: budget.totalBudget,
       currency: budget.currency,
       notifyThreshold: budget.notifyThreshold,
+      notifyThresholds: budget.notifyThresholds,
+      overrunPolicy: budget.overrunPolicy,
+      categoryCaps: budget.categoryCaps,
+      dailyAllowanceEnabled: budget.dailyAllowanceEnabled,
+      dailyAllowance: budget.dailyAllowance,
     };
 
     const updates: Partial<TripBudgetEntity> = {};
@@ -182,6 +255,27 @@ export class BudgetService {
     if (dto.currency !== undefined) updates.currency = dto.currency;
     if (dto.notifyThreshold !== undefined)
       updates.notifyThreshold = dto.notifyThreshold;
+    if (dto.notifyThresholds !== undefined)
+      updates.notifyThresholds = dto.notifyThresholds;
+    if (dto.overrunPolicy !== undefined)
+      updates.overrunPolicy = dto.overrunPolicy;
+    if (dto.categoryCaps !== undefined) {
+      this.validateCategoryCaps(dto.categoryCaps);
+      updates.categoryCaps = dto.categoryCaps.length ? dto.categoryCaps : null;
+    }
+    if (dto.dailyAllowanceEnabled !== undefined)
+      updates.dailyAllowanceEnabled = dto.dailyAllowanceEnabled;
+    if (dto.dailyAllowance !== undefined)
+      updates.dailyAllowance = dto.dailyAllowance;
+    // Limits set by hand become the new originals for later conversions
+    if (
+      dto.totalBudget !== undefined ||
+      dto.currency !== undefined ||
+      dto.categoryCaps !== undefined ||
+      dto.dailyAllowance !== undefined
+    ) {
+      updates.baseline = null;
+    }
 
     await this.budgetRepo.update(id, updates);
     const updated = await this.budgetRepo.findOne({ where: { id } });
@@ -195,15 +289,190 @@ export class BudgetService {
         totalBudget: updated?.totalBudget,
         currency: updated?.currency,
         notifyThreshold: updated?.notifyThreshold,
+        notifyThresholds: updated?.notifyThresholds,
+        overrunPolicy: updated?.overrunPolicy,
+        categoryCaps: updated?.categoryCaps,
+        dailyAllowanceEnabled: updated?.dailyAllowanceEnabled,
+        dailyAllowance: updated?.dailyAllowance,
       },
       `Budget updated`,
+      userId,
     );
 
+    // A new total, new levels or new caps may cross or re-arm thresholds
+    if (updated) {
+      await this.alertService.syncThresholdAlerts(
+        updated,
+        Number(updated.spentAmount),
+      );
+      await this.alertService.syncCategoryAlerts(
+        updated,
+        (updated.categoryCaps ?? []).map((cap) => cap.category),
+      );
+    }
+
     await this.updateSummaryCache(budget.tripId);
     return updated!;
   }
 
-  async deleteItem(itemId: string): Promise<{ deleted: true }> {
+  /**
+   * Edit an expense. Amount, currency and date changes are converted again
+   * and the budget's spent total adjusted; the split follows the new amount.
+   */
+  async updateItem(
+    itemId: string,
+    dto: UpdateBudgetItemDto,
+    userId?: string,
+  ): Promise<BudgetItemEntity> {
+    const item = await this.itemRepo.findOne({
+      where: { id: itemId },
+      relations: ['tripBudget', 'splits'],
+    });
+    if (!item) throw new NotFoundException('Budget item not found');
+    const budget = item.tripBudget;
+
+    if (dto.amount !== undefined && dto.amount <= 0) {
+      throw new BadRequestException('Expense amount must be greater than 0');
+    }
+
+    const originalAmount = dto.amount ?? Number(item.originalAmount);
+    const currency = (dto.currency ?? item.originalCurrency).toUpperCase();
+    const expenseDate =
+      dto.expenseDate?.slice(0, 10) ?? toDateString(item.expenseDate);
+    const repriced =
+      dto.amount !== undefined ||
+      dto.currency !== undefined ||
+      dto.expenseDate !== undefined;
+
+    let amount = Number(item.amount);
+    let exchangeRate = Number(item.exchangeRate);
+    if (repriced) {
+      ({ amount, exchangeRate } = await this.conversionService.convertAmount(
+        originalAmount,
+        currency,
+        budget.currency,
+        expenseDate,
+      ));
+    }
+
+    const currentSpent = Number(budget.spentAmount);
+    const newSpent =
+      Math.round((currentSpent - Number(item.amount) + amount) * 100) / 100;
+    this.checkOverrun(
+      budget,
+      currentSpent,
+      newSpent,
+      `Cannot update this expense. Changing it to ${amount} ${budget.currency}`,
+    );
+
+    const splitRequested =
+      dto.paidByMemberId !== undefined ||
+      dto.splitType !== undefined ||
+      dto.splits !== undefined;
+    const split = splitRequested
+      ? await this.splitService.resolveSplit(
+          budget.tripId,
+          amount,
+          {
+            paidByMemberId:
+              dto.paidByMemberId ?? item.paidByMemberId ?? undefined,
+            splitType: dto.splitType,
+            splits: dto.splits,
+          },
+          originalAmount,
+        )
+      : null;
+    if (
+      !split &&
+      item.splitType === ExpenseSplitType.EXACT &&
+      originalAmount !== Number(item.originalAmount)
+    ) {
+      throw new BadRequestException(
+        'This expense has an exact split. Send splits that add up to the new amount',
+      );
+    }
+
+    const previousValue = this.itemSnapshot(item);
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      await queryRunner.manager.update(
+        BudgetItemEntity,
+        { id: itemId },
+        {
+          category: dto.category ?? item.category,
+          amount,
+          originalAmount,
+          originalCurrency: currency,
+          exchangeRate,
+          expenseDate: new Date(expenseDate),
+          refId: dto.refId ?? item.refId,
+          note: dto.note ?? item.note,
+          ...(split && {
+            paidByMemberId: split.paidByMemberId,
+            splitType: split.splitType,
+          }),
+        },
+      );
+      if (split) {
+        await queryRunner.manager.delete(BudgetItemSplitEntity, { itemId });
+        await queryRunner.manager.insert(
+          BudgetItemSplitEntity,
+          split.splits.map((s) => ({ ...s, itemId })),
+        );
+      } else if (amount !== Number(item.amount)) {
+        await this.conversionService.reallocateSplits(
+          queryRunner.manager,
+          item,
+          amount,
+        );
+      }
+      await queryRunner.manager.update(
+        TripBudgetEntity,
+        { id: budget.id },
+        { spentAmount: newSpent },
+      );
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      this.logger.error(`Failed to update budget item: ${error}`, error);
+      throw new BadRequestException('Failed to update expense item');
+    } finally {
+      await queryRunner.release();
+    }
+
+    const updated = (await this.itemRepo.findOne({
+      where: { id: itemId },
+      relations: ['splits'],
+    }))!;
+
+    await this.auditService.logAction(
+      budget.id,
+      BudgetAuditAction.UPDATE_ITEM,
+      previousValue,
+      { ...this.itemSnapshot(updated), newSpentTotal: newSpent },
+      `Updated ${updated.category} expense to ${originalAmount} ${currency}`,
+      userId,
+    );
+
+    await this.alertService.syncThresholdAlerts(budget, newSpent);
+    await this.alertService.syncCategoryAlerts(budget, [
+      item.category,
+      updated.category,
+    ]);
+    await this.updateSummaryCache(budget.tripId);
+    this.logger.log(
+      `Updated expense item ${itemId}: ${item.amount} -> ${amount} ${budget.currency}`,
+    );
+    return updated;
+  }
+
+  async deleteItem(
+    itemId: string,
+    userId?: string,
+  ): Promise<{ deleted: true }> {
     const item = await this.itemRepo.findOne({ where: { id: itemId } });
     if (!item) throw new NotFoundException('Budget item not found');
     const budget = await this.budgetRepo.findOne({
@@ -217,6 +486,8 @@ export class BudgetService {
       Number(budget.spentAmount) - Number(item.amount),
     );
     await this.budgetRepo.update(budget.id, { spentAmount: nextSpent });
+    await this.alertService.syncThresholdAlerts(budget, nextSpent);
+    await this.alertService.syncCategoryAlerts(budget, [item.category]);
 
     // Log item deletion
     await this.auditService.logAction(
@@ -229,6 +500,7 @@ export class BudgetService {
       },
       { newSpentTotal: nextSpent },
       `Deleted ${item.category} expense of ${item.amount} ${budget.currency}`,
+      userId,
     );
 
     await this.updateSummaryCache(budget.tripId);
@@ -250,8 +522,10 @@ export class BudgetService {
     const remainingBudget = totalBudget - spentAmount;
     const percentageUsed =
       totalBudget > 0 ? (spentAmount / totalBudget) * 100 : 0;
+    const overspentAmount = Math.max(0, spentAmount - totalBudget);
+    const thresholds = this.alertService.thresholdsFor(budget);
     const isThresholdExceeded =
-      percentageUsed >= Number(budget.notifyThreshold) * 100;
+      thresholds.length > 0 && percentageUsed >= thresholds[0] * 100;
 
     return {
       tripId: budget.tripId,
@@ -261,6 +535,10 @@ export class BudgetService {
       percentageUsed: parseFloat(percentageUsed.toFixed(2)),
       currency: budget.currency,
       notifyThreshold: Number(budget.notifyThreshold),
+      notifyThresholds: thresholds,
+      overrunPolicy: budget.overrunPolicy ?? BudgetOverrunPolicy.BLOCK,
+      isOverBudget: overspentAmount > 0,
+      overspentAmount: parseFloat(overspentAmount.toFixed(2)),
       itemCount: budget.items?.length ?? 0,
       isThresholdExceeded,
       createdAt: budget.createdAt,
@@ -298,18 +576,44 @@ export class BudgetService {
       }
     }
 
+    // Capped categories are listed even before anything is spent on them
+    const caps = new Map<string, number>(
+      (budget.categoryCaps ?? []).map((cap) => [
+        cap.category,
+        capAmount(cap, totalBudget),
+      ]),
+    );
+    for (const category of caps.keys()) {
+      if (!categoryMap.has(category)) {
+        categoryMap.set(category, { amount: 0, count: 0 });
+      }
+    }
+
     // Convert to breakdown DTOs
     const breakdown: BudgetBreakdownDto[] = Array.from(
       categoryMap.entries(),
-    ).map(([category, data]) => ({
-      category,
-      amount: parseFloat(data.amount.toFixed(2)),
-      itemCount: data.count,
-      percentageOfTotal:
-        totalSpent > 0
-          ? parseFloat(((data.amount / totalSpent) * 100).toFixed(2))
-          : 0,
-    }));
+    ).map(([category, data]) => {
+      const cap = caps.get(category);
+      return {
+        category,
+        amount: parseFloat(data.amount.toFixed(2)),
+        itemCount: data.count,
+        percentageOfTotal:
+          totalSpent > 0
+            ? parseFloat(((data.amount / totalSpent) * 100).toFixed(2))
+            : 0,
+        cap: cap ?? null,
+        variance:
+          cap === undefined ? null : parseFloat((cap - data.amount).toFixed(2)),
+        capUsedPercentage:
+          cap === undefined || cap <= 0
+            ? null
+            : parseFloat(((data.amount / cap) * 100).toFixed(2)),
+        isOverCap: cap !== undefined && data.amount > cap,
+      };
+    });
+
+    const { dailyAllowance, daily } = await this.getDailyVariance(budget);
 
     return {
       tripId: budget.tripId,
@@ -318,11 +622,134 @@ export class BudgetService {
       remainingBudget: totalBudget - totalSpent,
       currency: budget.currency,
       breakdown: breakdown.sort((a, b) => b.amount - a.amount),
+      dailyAllowance,
+      daily,
       createdAt: budget.createdAt,
       updatedAt: budget.updatedAt,
     };
   }
 
+  /**
+   * Spending per day against the daily allowance. Days with expenses
+   * outside the trip dates (e.g. flights booked ahead) are listed without
+   * an allowance.
+   */
+  private async getDailyVariance(budget: TripBudgetEntity): Promise<{
+    dailyAllowance: number | null;
+    daily: BudgetDailyVarianceDto[];
+  }> {
+    if (!budget.dailyAllowanceEnabled) {
+      return { dailyAllowance: null, daily: [] };
+    }
+
+    const trip = await this.tripRepo.findOne({
+      where: { id: budget.tripId },
+      select: ['id', 'startDate', 'endDate'],
+    });
+    const days =
+      trip?.startDate && trip?.endDate
+        ? tripDays(toDateString(trip.startDate), toDateString(trip.endDate))
+        : [];
+    const allowance = dailyAllowanceFor(
+      budget.dailyAllowance,
+      Number(budget.totalBudget),
+      days.length,
+    );
+
+    const spentByDay = new Map<string, number>();
+    for (const item of budget.items ?? []) {
+      const day = toDateString(item.expenseDate ?? item.createdAt);
+      spentByDay.set(day, (spentByDay.get(day) ?? 0) + Number(item.amount));
+    }
+
+    const tripDaySet = new Set(days);
+    const daily = [...new Set([...days, ...spentByDay.keys()])]
+      .sort()
+      .map((date) => {
+        const spent = parseFloat((spentByDay.get(date) ?? 0).toFixed(2));
+        const dayAllowance =
+          allowance !== null && (!days.length || tripDaySet.has(date))
+            ? allowance
+            : null;
+        return {
+          date,
+          spent,
+          allowance: dayAllowance,
+          variance:
+            dayAllowance === null
+              ? null
+              : parseFloat((dayAllowance - spent).toFixed(2)),
+          isOverAllowance: dayAllowance !== null && spent > dayAllowance,
+        };
+      });
+
+    return { dailyAllowance: allowance, daily };
+  }
+
+  /** Reject duplicate categories and percentages above 100 */
+  private validateCategoryCaps(caps: BudgetCategoryCap[]): void {
+    const seen = new Set<string>();
+    for (const cap of caps) {
+      if (seen.has(cap.category)) {
+        throw new BadRequestException(
+          `Category ${cap.category} has more than one cap`,
+        );
+      }
+      seen.add(cap.category);
+      if (cap.type === BudgetCapType.PERCENTAGE && cap.value > 100) {
+        throw new BadRequestException(
+          `Cap of ${cap.category} cannot exceed 100% of the budget`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Apply the budget's overrun policy to a change in spending. Only
+   * increases are checked, so an overspent budget can still be corrected.
+   */
+  private checkOverrun(
+    budget: TripBudgetEntity,
+    currentSpent: number,
+    newSpent: number,
+    action: string,
+  ): void {
+    const totalBudget = Number(budget.totalBudget);
+    if (newSpent <= totalBudget || newSpent <= currentSpent) return;
+
+    const difference = (newSpent - totalBudget).toFixed(2);
+    const policy = budget.overrunPolicy ?? BudgetOverrunPolicy.BLOCK;
+    if (policy === BudgetOverrunPolicy.BLOCK) {
+      throw new BadRequestException(
+        `${action} would exceed budget by ${difference} ${budget.currency}. Current: ${currentSpent} / ${budget.totalBudget}`,
+      );
+    }
+    this.logger.warn(
+      `Budget ${budget.id} overrun by ${difference} ${budget.currency} (policy: ${policy})`,
+    );
+  }
+
+  /** Audited fields of an expense */
+  private itemSnapshot(item: BudgetItemEntity): Record<string, any> {
+    return {
+      itemId: item.id,
+      category: item.category,
+      amount: Number(item.amount),
+      originalAmount: Number(item.originalAmount),
+      originalCurrency: item.originalCurrency,
+      exchangeRate: Number(item.exchangeRate),
+      expenseDate: toDateString(item.expenseDate),
+      refId: item.refId ?? null,
+      note: item.note ?? null,
+      paidByMemberId: item.paidByMemberId ?? null,
+      splitType: item.splitType ?? null,
+      splits: (item.splits ?? []).map((s) => ({
+        memberId: s.memberId,
+        amount: Number(s.amount),
+      })),
+    };
+  }
+
   private async updateSummaryCache(tripId: string): Promise<void> {
     const budget = await this.budgetRepo.findOne({
       where: { tripId },
@@ -342,58 +769,4 @@ export class BudgetService {
       this.SUMMARY_TTL_SECONDS,
     );
   }
-
-  /**
-   * Trigger alert when spending exceeds threshold
-   * This method can be extended to send emails, push notifications, etc.
-   */
-  private async triggerThresholdAlert(
-    budget: TripBudgetEntity,
-    spentAmount: number,
-  ): Promise<void> {
-    const thresholdAmount =
-      Number(budget.totalBudget) * Number(budget.notifyThreshold);
-    const percentageUsed = (
-      (spentAmount / Number(budget.totalBudget)) *
-      100
-    ).toFixed(2);
-    const remaining = Number(budget.totalBudget) - spentAmount;
-
-    const alertKey = `budget:alert:${budget.id}`;
-    const lastAlertTime = (await this.redis.get(alertKey)) as string;
-
-    // Only alert once per hour to avoid spamming
-    if (!lastAlertTime) {
-      this.logger.warn(
-        `Budget threshold alert: Trip ${budget.tripId} has spent ${spentAmount} ${budget.currency} (${percentageUsed}%) of total ${budget.totalBudget}. Remaining: ${remaining.toFixed(2)}`,
-      );
-
-      // Log threshold alert
-      await this.auditService.logAction(
-        budget.id,
-        BudgetAuditAction.THRESHOLD_ALERT,
-        undefined,
-        {
-          spentAmount,
-          thresholdAmount,
-          percentageUsed,
-          remaining,
-        },
-        `Budget threshold of ${(Number(budget.notifyThreshold) * 100).toFixed(0)}% exceeded`,
-      );
-
-      // Cache alert to prevent duplicate notifications
-      await this.redis.set(alertKey, 'true', 3600); // 1 hour
-
-      // TODO: Integrate with email/notification service
-      // await this.notificationService.sendBudgetAlert({
-      //   tripId: budget.tripId,
-      //   spentAmount,
-      //   totalBudget: budget.totalBudget,
-      //   currency: budget.currency,
-      //   percentageUsed,
-      //   remaining,
-      // });
-    }
-  }
 }
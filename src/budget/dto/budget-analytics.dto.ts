@@ -3,6 +3,22 @@ export class BudgetBreakdownDto {
   amount: number;
   itemCount: number;
   percentageOfTotal: number;
+  /** Cap of the category in the budget currency; null when uncapped */
+  cap: number | null;
+  /** Cap minus spent; negative when over the cap */
+  variance: number | null;
+  capUsedPercentage: number | null;
+  isOverCap: boolean;
+}
+
+export class BudgetDailyVarianceDto {
+  date: string;
+  spent: number;
+  /** Null for days outside the trip */
+  allowance: number | null;
+  /** Allowance minus spent; negative when over the allowance */
+  variance: number | null;
+  isOverAllowance: boolean;
 }
 
 export class BudgetAnalyticsDto {
@@ -12,6 +28,9 @@ export class BudgetAnalyticsDto {
   remainingBudget: number;
   currency: string;
   breakdown: BudgetBreakdownDto[];
+  /** Null when daily allowance tracking is off */
+  dailyAllowance: number | null;
+  daily: BudgetDailyVarianceDto[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,37 @@
+import { IsDateString, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional, IntersectionType } from '@nestjs/swagger';
+import { PaginationDto } from 'src/shared/dto/page-query.dto';
+import { BudgetAuditAction } from 'src/schemas/budget-audit-log.entity';
+
+export class BudgetAuditFilterDto {
+  @IsEnum(BudgetAuditAction)
+  @IsOptional()
+  @ApiPropertyOptional({ enum: BudgetAuditAction })
+  action?: BudgetAuditAction;
+
+  @IsDateString()
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'Only entries created on or after this date',
+  })
+  from?: string;
+
+  @IsDateString()
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: '2026-01-31',
+    description: 'Only entries created on or before this date',
+  })
+  to?: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiPropertyOptional({ description: 'Only entries made by this user' })
+  userId?: string;
+}
+
+export class BudgetAuditQueryDto extends IntersectionType(
+  PaginationDto,
+  BudgetAuditFilterDto,
+) {}
@@ -0,0 +1,35 @@
+export class MemberBalanceDto {
+  memberId: string;
+  userId: string;
+  name: string;
+  /** Expenses paid for the group */
+  paid: number;
+  /** Own share of the expenses */
+  owed: number;
+  settlementsSent: number;
+  settlementsReceived: number;
+  /** Positive: the member should receive money; negative: the member owes */
+  balance: number;
+}
+
+export class SettleUpTransferDto {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+}
+
+export class BudgetBalancesDto {
+  tripId: string;
+  budgetId: string;
+  currency: string;
+  balances: MemberBalanceDto[];
+  /** Expenses without a payer or split; not part of the balances */
+  unassignedItemCount: number;
+}
+
+export class SettleUpPlanDto {
+  tripId: string;
+  budgetId: string;
+  currency: string;
+  transfers: SettleUpTransferDto[];
+}
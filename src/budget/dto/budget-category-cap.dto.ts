@@ -0,0 +1,23 @@
+import { IsEnum, IsNumber, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { BudgetCapType } from 'src/schemas/trip-budget.entity';
+
+export class BudgetCategoryCapDto {
+  @IsEnum(ActivityCategory)
+  @ApiProperty({ example: ActivityCategory.FOOD })
+  category: ActivityCategory;
+
+  @IsEnum(BudgetCapType)
+  @ApiProperty({ enum: BudgetCapType, example: BudgetCapType.PERCENTAGE })
+  type: BudgetCapType;
+
+  @IsNumber({ allowInfinity: false, allowNaN: false })
+  @Min(0.01)
+  @ApiProperty({
+    example: 30,
+    description:
+      'Percent of the total budget (0..100) or an amount in the budget currency',
+  })
+  value: number;
+}
@@ -0,0 +1,58 @@
+export class BudgetForecastDayDto {
+  /** Null for itinerary days that cannot be dated */
+  date: string | null;
+  /** Itinerary day number; null for expenses outside the itinerary */
+  dayNumber: number | null;
+  isPast: boolean;
+  /** Planned itinerary cost converted to the budget currency */
+  planned: number;
+  actual: number;
+  /** Actual spend for past days, the larger of plan and spend otherwise */
+  projected: number;
+  /** Projected spend above the daily allowance; 0 when within it */
+  overBy: number;
+}
+
+export class BudgetForecastCategoryDto {
+  category: string;
+  planned: number;
+  actual: number;
+  projected: number;
+  cap: number | null;
+  /** Projected spend above the cap, or above the plan when uncapped */
+  overBy: number;
+}
+
+export class BudgetBurnRateDto {
+  /** Average actual spend per elapsed trip day */
+  actualPerDay: number;
+  /** Average planned spend per remaining trip day */
+  plannedPerDay: number;
+  /** What can still be spent per remaining day to stay within budget */
+  affordablePerDay: number | null;
+}
+
+export class BudgetForecastDto {
+  tripId: string;
+  currency: string;
+  /** Currency of the itinerary estimates before conversion */
+  plannedCurrency: string;
+  totalBudget: number;
+  spentToDate: number;
+  plannedRemaining: number;
+  projectedTotal: number;
+  /** Negative when the projection exceeds the budget */
+  projectedRemaining: number;
+  projectedOverrun: number;
+  isProjectedOverBudget: boolean;
+  elapsedDays: number;
+  remainingDays: number;
+  burnRate: BudgetBurnRateDto;
+  days: BudgetForecastDayDto[];
+  categories: BudgetForecastCategoryDto[];
+  /** Days and categories behind a projected overrun, largest first */
+  drivers: {
+    days: BudgetForecastDayDto[];
+    categories: BudgetForecastCategoryDto[];
+  };
+}
@@ -1,3 +1,5 @@
+import { BudgetOverrunPolicy } from 'src/schemas/trip-budget.entity';
+
 export class BudgetSummaryDto {
   tripId: string;
   totalBudget: number;
@@ -6,6 +8,11 @@ export class BudgetSummaryDto {
   percentageUsed: number;
   currency: string;
   notifyThreshold: number;
+  notifyThresholds: number[];
+  overrunPolicy: BudgetOverrunPolicy;
+  /** Spending above the total budget; 0 when within budget */
+  overspentAmount: number;
+  isOverBudget: boolean;
   itemCount: number;
   isThresholdExceeded: boolean;
   createdAt: Date;
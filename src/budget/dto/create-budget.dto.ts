@@ -1,4 +1,9 @@
 import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
   IsNumber,
   IsOptional,
   IsString,
@@ -6,8 +11,12 @@ import {
   Length,
   Max,
   Min,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BudgetOverrunPolicy } from 'src/schemas/trip-budget.entity';
+import { BudgetCategoryCapDto } from './budget-category-cap.dto';
 
 export class CreateBudgetDto {
   @IsUUID()
@@ -38,4 +47,59 @@ export class CreateBudgetDto {
     description: 'Fraction of budget used to trigger notification (0..1)',
   })
   notifyThreshold?: number = 0.8;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(5)
+  @IsNumber({}, { each: true })
+  @Min(0.01, { each: true })
+  @Max(2, { each: true })
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: [0.5, 0.8, 1],
+    type: [Number],
+    description:
+      'Alert levels as fractions of the budget (above 1 once overruns are allowed). Each level is notified once until spending drops below it again',
+  })
+  notifyThresholds?: number[];
+
+  @IsEnum(BudgetOverrunPolicy)
+  @IsOptional()
+  @ApiPropertyOptional({
+    enum: BudgetOverrunPolicy,
+    example: BudgetOverrunPolicy.WARN,
+    description:
+      'block rejects expenses over the total budget, warn accepts them and alerts members, allow accepts them silently',
+  })
+  overrunPolicy?: BudgetOverrunPolicy;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => BudgetCategoryCapDto)
+  @IsOptional()
+  @ApiPropertyOptional({
+    type: [BudgetCategoryCapDto],
+    description: 'Spending limit per category. An empty list removes all caps',
+  })
+  categoryCaps?: BudgetCategoryCapDto[];
+
+  @IsBoolean()
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Track spending against a per-day allowance',
+  })
+  dailyAllowanceEnabled?: boolean;
+
+  @IsNumber({ allowInfinity: false, allowNaN: false })
+  @Min(0.01)
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: 1000000,
+    nullable: true,
+    description:
+      'Fixed allowance per day. When empty the total budget is spread over the trip dates',
+  })
+  dailyAllowance?: number | null;
 }
@@ -1,4 +1,8 @@
 import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
   IsEnum,
   IsNumber,
   IsOptional,
@@ -6,9 +10,13 @@ import {
   IsUUID,
   Length,
   Min,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ActivityCategory } from 'src/trip/enum/trip-enum';
+import { ExpenseSplitType } from 'src/schemas/budget-item-split.entity';
+import { ExpenseSplitDto } from './expense-split.dto';
 
 export class CreateBudgetItemDto {
   @IsUUID()
@@ -23,10 +31,28 @@ export class CreateBudgetItemDto {
   @Min(0)
   @ApiProperty({
     example: 150000,
-    description: 'Amount in the budget currency',
+    description: 'Amount as paid, in `currency`',
   })
   amount: number;
 
+  @IsString()
+  @Length(3, 3)
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: 'THB',
+    description:
+      'Currency the expense was paid in. Defaults to the budget currency',
+  })
+  currency?: string;
+
+  @IsDateString()
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: '2025-11-06',
+    description: 'Day the expense was paid. Defaults to today',
+  })
+  expenseDate?: string;
+
   @IsString()
   @Length(1, 20)
   @IsOptional()
@@ -43,4 +69,28 @@ export class CreateBudgetItemDto {
   @IsOptional()
   @ApiPropertyOptional({ example: 'Lunch near train station' })
   note?: string;
+
+  @IsUUID()
+  @IsOptional()
+  @ApiPropertyOptional({
+    description: 'Trip member who paid. Required when splitType is set',
+  })
+  paidByMemberId?: string;
+
+  @IsEnum(ExpenseSplitType)
+  @IsOptional()
+  @ApiPropertyOptional({ enum: ExpenseSplitType })
+  splitType?: ExpenseSplitType;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseSplitDto)
+  @IsOptional()
+  @ApiPropertyOptional({
+    type: [ExpenseSplitDto],
+    description: 'Participants. Equal splits default to every trip member',
+  })
+  splits?: ExpenseSplitDto[];
 }
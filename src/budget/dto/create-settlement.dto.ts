@@ -0,0 +1,42 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateSettlementDto {
+  @IsUUID()
+  @ApiProperty({ example: '8d6f3b45-1f2a-4c6b-a7d5-9b0a12345678' })
+  tripBudgetId: string;
+
+  @IsUUID()
+  @ApiProperty({ description: 'Trip member who paid' })
+  fromMemberId: string;
+
+  @IsUUID()
+  @ApiProperty({ description: 'Trip member who received the money' })
+  toMemberId: string;
+
+  @IsNumber({ allowInfinity: false, allowNaN: false })
+  @Min(0.01)
+  @ApiProperty({ example: 250000 })
+  amount: number;
+
+  @IsString()
+  @Length(3, 3)
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: 'VND',
+    description: 'Defaults to the budget currency',
+  })
+  currency?: string;
+
+  @IsString()
+  @IsOptional()
+  @ApiPropertyOptional({ example: 'Bank transfer' })
+  note?: string;
+}
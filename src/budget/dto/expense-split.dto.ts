@@ -0,0 +1,52 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExpenseSplitType } from 'src/schemas/budget-item-split.entity';
+
+export class ExpenseSplitDto {
+  @IsUUID()
+  @ApiProperty({ description: 'Trip member id' })
+  memberId: string;
+
+  @IsNumber({ allowInfinity: false, allowNaN: false })
+  @Min(0)
+  @IsOptional()
+  @ApiPropertyOptional({
+    example: 50,
+    description:
+      'Exact amount, percentage or number of shares depending on splitType. Ignored for equal splits',
+  })
+  value?: number;
+}
+
+export class SetExpenseSplitDto {
+  @IsUUID()
+  @ApiProperty({ description: 'Trip member who paid the expense' })
+  paidByMemberId: string;
+
+  @IsEnum(ExpenseSplitType)
+  @ApiProperty({ enum: ExpenseSplitType, example: ExpenseSplitType.EQUAL })
+  splitType: ExpenseSplitType;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseSplitDto)
+  @IsOptional()
+  @ApiPropertyOptional({
+    type: [ExpenseSplitDto],
+    description: 'Participants. Equal splits default to every trip member',
+  })
+  splits?: ExpenseSplitDto[];
+}
@@ -0,0 +1,162 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+
+export enum ExpenseImportFormat {
+  CSV = 'csv',
+  OFX = 'ofx',
+}
+
+export enum ExpenseImportDateFormat {
+  ISO = 'YYYY-MM-DD',
+  DMY = 'DD/MM/YYYY',
+  MDY = 'MM/DD/YYYY',
+}
+
+/**
+ * Multipart fields arrive as strings. Reads the raw field, because implicit
+ * conversion has already turned `'false'` into `true` in `value`.
+ */
+const toBoolean = ({
+  obj,
+  key,
+}: {
+  obj: Record<string, unknown>;
+  key: string;
+}) => obj[key] === true || obj[key] === 'true';
+
+/**
+ * Multipart fields sent with an expense file. CSV columns are matched by
+ * header name, case-insensitively; the defaults match the item export.
+ */
+export class ImportBudgetItemsDto {
+  @ApiPropertyOptional({
+    enum: ExpenseImportFormat,
+    description: 'Detected from the file name or content when omitted',
+  })
+  @IsOptional()
+  @IsEnum(ExpenseImportFormat)
+  format?: ExpenseImportFormat;
+
+  @ApiPropertyOptional({
+    default: true,
+    description: 'Only validate and preview the rows; nothing is saved',
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    default: true,
+    description: 'Leave out rows matching an existing expense',
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  skipDuplicates?: boolean;
+
+  @ApiPropertyOptional({ default: 'Date' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  dateColumn?: string;
+
+  @ApiPropertyOptional({ default: 'Amount' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  amountColumn?: string;
+
+  @ApiPropertyOptional({
+    default: 'Currency',
+    description: 'Rows without a currency use the budget currency',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  currencyColumn?: string;
+
+  @ApiPropertyOptional({ default: 'Category' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  categoryColumn?: string;
+
+  @ApiPropertyOptional({ default: 'Note' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  noteColumn?: string;
+
+  @ApiPropertyOptional({ default: 'Reference' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  referenceColumn?: string;
+
+  @ApiPropertyOptional({
+    enum: ExpenseImportDateFormat,
+    default: ExpenseImportDateFormat.ISO,
+  })
+  @IsOptional()
+  @IsEnum(ExpenseImportDateFormat)
+  dateFormat?: ExpenseImportDateFormat;
+
+  @ApiPropertyOptional({ default: ',' })
+  @IsOptional()
+  @IsIn([',', ';', '\t'])
+  delimiter?: string;
+
+  @ApiPropertyOptional({
+    enum: ActivityCategory,
+    default: ActivityCategory.OTHER,
+    description: 'Category for rows without a recognised category',
+  })
+  @IsOptional()
+  @IsEnum(ActivityCategory)
+  defaultCategory?: ActivityCategory;
+}
+
+export enum ExpenseImportRowStatus {
+  VALID = 'valid',
+  INVALID = 'invalid',
+  DUPLICATE = 'duplicate',
+  IMPORTED = 'imported',
+  FAILED = 'failed',
+}
+
+export class ExpenseImportRowDto {
+  /** CSV record number counting the header, or OFX transaction number */
+  line: number;
+  status: ExpenseImportRowStatus;
+  errors: string[];
+  date: string | null;
+  amount: number | null;
+  currency: string;
+  category: ActivityCategory;
+  note: string | null;
+  refId: string | null;
+  /** Id of the created item once imported */
+  itemId?: string;
+}
+
+export class ExpenseImportResultDto {
+  dryRun: boolean;
+  format: ExpenseImportFormat;
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  imported: number;
+  failed: number;
+  rows: ExpenseImportRowDto[];
+}
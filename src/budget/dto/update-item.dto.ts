@@ -0,0 +1,10 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateBudgetItemDto } from './create-item.dto';
+
+/**
+ * Fields of an expense that can be edited. Changing amount, currency or
+ * date converts the expense again; send the split fields to re-split it.
+ */
+export class UpdateBudgetItemDto extends PartialType(
+  OmitType(CreateBudgetItemDto, ['tripBudgetId', 'source'] as const),
+) {}
@@ -0,0 +1,39 @@
+import {
+  BudgetCapType,
+  BudgetCategoryCap,
+} from 'src/schemas/trip-budget.entity';
+import { roundMoney } from 'src/shared/utils/money.util';
+
+/** Cap of a category in the budget currency */
+export function capAmount(cap: BudgetCategoryCap, totalBudget: number): number {
+  return cap.type === BudgetCapType.PERCENTAGE
+    ? roundMoney((Number(totalBudget) * Number(cap.value)) / 100)
+    : roundMoney(Number(cap.value));
+}
+
+/** Every day from `start` to `end` inclusive, as YYYY-MM-DD */
+export function tripDays(start: string, end: string): string[] {
+  const days: string[] = [];
+  const cursor = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  while (cursor <= last) {
+    days.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+/**
+ * Allowance per day: the fixed amount when set, otherwise the total budget
+ * spread over the trip days. Null when neither is available.
+ */
+export function dailyAllowanceFor(
+  fixedAllowance: number | string | null | undefined,
+  totalBudget: number,
+  dayCount: number,
+): number | null {
+  if (fixedAllowance !== null && fixedAllowance !== undefined) {
+    return roundMoney(Number(fixedAllowance));
+  }
+  return dayCount > 0 ? roundMoney(Number(totalBudget) / dayCount) : null;
+}
@@ -0,0 +1,44 @@
+import { planSettlements } from './expense-split.util';
+
+describe('planSettlements', () => {
+  const plan = (balances: Record<string, number>) =>
+    planSettlements(new Map(Object.entries(balances)));
+
+  const settles = (
+    balances: Record<string, number>,
+    transfers: { from: string; to: string; cents: number }[],
+  ) => {
+    const left = { ...balances };
+    for (const { from, to, cents } of transfers) {
+      left[from] += cents;
+      left[to] -= cents;
+    }
+    return Object.values(left).every((cents) => cents === 0);
+  };
+
+  it('settles zero-sum groups on their own to use the fewest transfers', () => {
+    // Greedy matching needs 4 transfers here
+    const balances = { a: 200, b: 200, c: -400, d: -300, e: 300 };
+
+    const transfers = plan(balances);
+
+    expect(transfers).toHaveLength(3);
+    expect(transfers).toContainEqual({ from: 'd', to: 'e', cents: 300 });
+    expect(settles(balances, transfers)).toBe(true);
+  });
+
+  it('needs n - 1 transfers when no smaller group sums to zero', () => {
+    const balances = { a: 250, b: 100, c: -200, d: -150 };
+
+    const transfers = plan(balances);
+
+    expect(transfers).toHaveLength(3);
+    expect(settles(balances, transfers)).toBe(true);
+  });
+
+  it('skips members that are already settled', () => {
+    expect(plan({ a: 0, b: 500, c: -500 })).toEqual([
+      { from: 'c', to: 'b', cents: 500 },
+    ]);
+  });
+});
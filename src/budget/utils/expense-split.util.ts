@@ -0,0 +1,158 @@
+import { ExpenseSplitType } from 'src/schemas/budget-item-split.entity';
+import { toCents } from 'src/shared/utils/money.util';
+
+/**
+ * Weights a stored split was created with: one per member for equal splits,
+ * otherwise the raw values (exact amounts are in the item's original
+ * currency)
+ */
+export function splitWeights(
+  splitType: ExpenseSplitType,
+  splits: { value?: number | string | null }[],
+): number[] {
+  if (splitType === ExpenseSplitType.EQUAL) return splits.map(() => 1);
+  return splits.map((s) =>
+    splitType === ExpenseSplitType.EXACT
+      ? toCents(Number(s.value ?? 0))
+      : Number(s.value ?? 0),
+  );
+}
+
+/**
+ * Split `totalCents` proportionally to `weights`. Leftover cents go to the
+ * largest fractional remainders (ties: earlier entries first), so the parts
+ * always add up to the total.
+ */
+export function allocateByWeight(
+  totalCents: number,
+  weights: number[],
+): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weightSum <= 0) {
+    throw new Error('Split weights must add up to more than zero');
+  }
+  const raw = weights.map((w) => (totalCents * w) / weightSum);
+  const parts = raw.map((r) => Math.floor(r));
+  let leftover = totalCents - parts.reduce((sum, p) => sum + p, 0);
+  const order = raw
+    .map((r, i) => ({ i, fraction: r - Math.floor(r) }))
+    .sort((a, b) => b.fraction - a.fraction || a.i - b.i);
+  for (const { i } of order) {
+    if (leftover <= 0) break;
+    parts[i] += 1;
+    leftover -= 1;
+  }
+  return parts;
+}
+
+export interface PlannedTransfer {
+  from: string;
+  to: string;
+  cents: number;
+}
+
+/**
+ * Above this many members with a non-zero balance the exact search (2^n
+ * subsets) gets too slow and the plan falls back to one greedy group
+ */
+const MAX_EXACT_MEMBERS = 16;
+
+/**
+ * Turn net balances (positive: receives, negative: owes) into the fewest
+ * transfers. A group of k members whose balances add up to zero settles in
+ * k - 1 transfers, so n members need n - g transfers where g is the largest
+ * number of disjoint zero-sum groups they split into. That split is found
+ * with an exact search over subsets, then each group is settled greedily.
+ */
+export function planSettlements(
+  balances: Map<string, number>,
+): PlannedTransfer[] {
+  const members = [...balances]
+    .filter(([, cents]) => cents !== 0)
+    .map(([id, cents]) => ({ id, cents }));
+  const groups =
+    members.length > MAX_EXACT_MEMBERS
+      ? [members]
+      : zeroSumGroups(members.map((m) => m.cents)).map((group) =>
+          group.map((i) => members[i]),
+        );
+  return groups.flatMap(settleGreedily);
+}
+
+/**
+ * Split `amounts` (which add up to zero) into as many zero-sum groups as
+ * possible. `best[mask]` is the most zero-sum groups that the prefixes of
+ * some ordering of `mask` close; walking it back recovers that ordering, and
+ * the groups are the runs between its zero-sum prefixes.
+ */
+function zeroSumGroups(amounts: number[]): number[][] {
+  const full = (1 << amounts.length) - 1;
+  const sum = new Array<number>(full + 1).fill(0);
+  const best = new Array<number>(full + 1).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = 31 - Math.clz32(mask & -mask);
+    sum[mask] = sum[mask & (mask - 1)] + amounts[low];
+    for (let i = 0; i < amounts.length; i++) {
+      if (mask & (1 << i))
+        best[mask] = Math.max(best[mask], best[mask ^ (1 << i)]);
+    }
+    if (sum[mask] === 0) best[mask] += 1;
+  }
+
+  const order: number[] = [];
+  for (let mask = full; mask; ) {
+    const closes = sum[mask] === 0 ? 1 : 0;
+    const i = amounts.findIndex(
+      (_, j) =>
+        mask & (1 << j) && best[mask ^ (1 << j)] + closes === best[mask],
+    );
+    order.unshift(i);
+    mask ^= 1 << i;
+  }
+
+  const groups: number[][] = [];
+  let group: number[] = [];
+  let running = 0;
+  for (const i of order) {
+    group.push(i);
+    running += amounts[i];
+    if (running === 0) {
+      groups.push(group.sort((a, b) => a - b));
+      group = [];
+    }
+  }
+  return groups;
+}
+
+/**
+ * Repeatedly match the largest debtor with the largest creditor. Every
+ * transfer settles at least one member and the last one settles two, so a
+ * zero-sum group of k members needs at most k - 1 transfers.
+ */
+function settleGreedily(
+  members: { id: string; cents: number }[],
+): PlannedTransfer[] {
+  const creditors: { id: string; cents: number }[] = [];
+  const debtors: { id: string; cents: number }[] = [];
+  for (const { id, cents } of members) {
+    if (cents > 0) creditors.push({ id, cents });
+    else if (cents < 0) debtors.push({ id, cents: -cents });
+  }
+
+  const transfers: PlannedTransfer[] = [];
+  const byAmount = (a: { cents: number }, b: { cents: number }) =>
+    b.cents - a.cents;
+  while (creditors.length && debtors.length) {
+    creditors.sort(byAmount);
+    debtors.sort(byAmount);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const cents = Math.min(creditor.cents, debtor.cents);
+    transfers.push({ from: debtor.id, to: creditor.id, cents });
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+  return transfers;
+}
@@ -12,7 +12,12 @@ import {
   ExchangeRates,
   CurrencyConversion,
 } from './services/currency.service';
-import { CurrencyConversionDto, ExchangeRatesDto } from './dto/currency.dto';
+import {
+  CurrencyConversionDto,
+  ExchangeRateHistoryDto,
+  ExchangeRatesDto,
+} from './dto/currency.dto';
+import { HistoricalRates } from './services/exchange-rate-snapshot.service';
 import { ResponseUtil } from '../shared/utils/response.util';
 
 @ApiTags('Currency')
@@ -112,6 +117,48 @@ export class CurrencyController {
     return ResponseUtil.success(rates);
   }
 
+  @Get('rates/history')
+  @ApiOperation({ summary: 'Get stored daily exchange rates for a date range' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange rate history retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        result: { type: 'string', example: 'OK' },
+        status: { type: 'number', example: 200 },
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', example: '2024-06-04' },
+              rates: {
+                type: 'object',
+                example: { VND: 24350.5, EUR: 0.92 },
+              },
+              source: { type: 'string', example: 'exchangerate-api' },
+            },
+          },
+        },
+      },
+    },
+  })
+  async getRateHistory(@Query() historyDto: ExchangeRateHistoryDto): Promise<{
+    result: string;
+    status: number;
+    data: HistoricalRates[];
+  }> {
+    const history = await this.currencyService.getRateHistory(
+      historyDto.base || 'USD',
+      historyDto.symbols.split(',').map((c) => c.trim().toUpperCase()),
+      historyDto.from,
+      historyDto.to,
+    );
+
+    return ResponseUtil.success(history);
+  }
+
   @Post('convert')
   @HttpCode(200)
   @ApiOperation({ summary: 'Convert currency amount' })
@@ -191,6 +238,7 @@ export class CurrencyController {
       conversionDto.amount,
       conversionDto.from,
       conversionDto.to,
+      conversionDto.date,
     );
 
     return ResponseUtil.success(conversion);
@@ -1,13 +1,19 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { CurrencyController } from './currency.controller';
 import { CurrencyService } from './services/currency.service';
+import { ExchangeRateSnapshotService } from './services/exchange-rate-snapshot.service';
 import { APIThrottleService } from '../shared/services/api-throttle.service';
+import { ExchangeRateSnapshotEntity } from '../schemas/exchange-rate-snapshot.entity';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [
+    ConfigModule,
+    TypeOrmModule.forFeature([ExchangeRateSnapshotEntity]),
+  ],
   controllers: [CurrencyController],
-  providers: [CurrencyService, APIThrottleService],
+  providers: [CurrencyService, ExchangeRateSnapshotService, APIThrottleService],
   exports: [CurrencyService, APIThrottleService],
 })
 export class CurrencyModule {}
@@ -1,4 +1,12 @@
-import { IsString, IsNumber, IsOptional, Min, Length } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  Min,
+  Length,
+  IsDateString,
+  Matches,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 
@@ -34,6 +42,49 @@ export class CurrencyConversionDto {
   @IsString()
   @Length(3, 3)
   to: string;
+
+  @ApiProperty({
+    description:
+      'Use the exchange rate of this day (YYYY-MM-DD). Defaults to the latest rate',
+    example: '2024-06-01',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  date?: string;
+}
+
+/**
+ * DTO for exchange rate history requests
+ */
+export class ExchangeRateHistoryDto {
+  @ApiProperty({
+    description: 'Base currency code (ISO 4217)',
+    example: 'USD',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  base?: string = 'USD';
+
+  @ApiProperty({
+    description: 'Comma-separated target currencies',
+    example: 'VND,EUR',
+  })
+  @IsString()
+  @Matches(/^[A-Za-z]{3}(,[A-Za-z]{3})*$/, {
+    message: 'symbols must be comma-separated currency codes',
+  })
+  symbols: string;
+
+  @ApiProperty({ description: 'First day (YYYY-MM-DD)', example: '2024-06-01' })
+  @IsDateString({ strict: true })
+  from: string;
+
+  @ApiProperty({ description: 'Last day (YYYY-MM-DD)', example: '2024-06-30' })
+  @IsDateString({ strict: true })
+  to: string;
 }
 
 /**
@@ -105,6 +156,13 @@ export class CurrencyConversionResponseDto {
     example: '2024-06-04T08:30:00Z',
   })
   conversionDate: string;
+
+  @ApiProperty({
+    description: 'Day of the exchange rate used',
+    example: '2024-06-04',
+    required: false,
+  })
+  rateDate?: string;
 }
 
 /**
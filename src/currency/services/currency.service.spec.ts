@@ -4,6 +4,7 @@ import { HttpException, HttpStatus } from '@nestjs/common';
 import axios from 'axios';
 
 import { CurrencyService } from './currency.service';
+import { ExchangeRateSnapshotService } from './exchange-rate-snapshot.service';
 import { APIThrottleService } from '../../shared/services/api-throttle.service';
 import { CurrencyConversionDto } from '../dto/currency.dto';
 
@@ -23,6 +24,12 @@ describe('CurrencyService', () => {
     getUsageStats: jest.fn(),
   };
 
+  const mockSnapshotService = {
+    saveSnapshot: jest.fn(),
+    findRates: jest.fn(),
+    getHistory: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -35,6 +42,10 @@ describe('CurrencyService', () => {
           provide: APIThrottleService,
           useValue: mockApiThrottleService,
         },
+        {
+          provide: ExchangeRateSnapshotService,
+          useValue: mockSnapshotService,
+        },
       ],
     }).compile();
 
@@ -53,6 +64,7 @@ describe('CurrencyService', () => {
 
     // Setup default API throttle service responses
     mockApiThrottleService.checkAndLog.mockReturnValue(true);
+    mockSnapshotService.findRates.mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -288,4 +300,94 @@ describe('CurrencyService', () => {
       );
     });
   });
+
+  describe('rate snapshots', () => {
+    const storedRates = {
+      base: 'USD',
+      date: '2024-05-31',
+      rates: { VND: 25400 },
+      lastUpdated: '2024-05-31T23:00:00.000Z',
+      source: 'snapshot:exchangerate-api',
+    };
+
+    it('should store fetched rates as a daily snapshot', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: {
+          result: 'success',
+          conversion_rates: { VND: 24500 },
+          base_code: 'USD',
+          time_last_update_utc: 'Mon, 01 Jan 2024 00:00:01 +0000',
+        },
+      });
+
+      await service.getExchangeRates('USD', ['VND']);
+
+      expect(mockSnapshotService.saveSnapshot).toHaveBeenCalledWith(
+        expect.objectContaining({ base: 'USD', rates: { VND: 24500 } }),
+      );
+    });
+
+    it('should fall back to the last snapshot when all providers fail', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('offline'));
+      mockSnapshotService.findRates.mockResolvedValue(storedRates);
+
+      const result = await service.convertCurrency(2, 'USD', 'VND');
+
+      expect(result.convertedAmount).toBe(50800);
+      expect(result.rateDate).toBe('2024-05-31');
+      expect(mockSnapshotService.findRates).toHaveBeenCalledWith('USD', [
+        'VND',
+      ]);
+    });
+
+    it('should convert with the stored rate of a past date', async () => {
+      mockSnapshotService.findRates.mockResolvedValue(storedRates);
+
+      const result = await service.convertCurrency(
+        1,
+        'USD',
+        'VND',
+        '2024-05-31',
+      );
+
+      expect(result.exchangeRate).toBe(25400);
+      expect(result.rateDate).toBe('2024-05-31');
+      expect(mockSnapshotService.findRates).toHaveBeenCalledWith(
+        'USD',
+        ['VND'],
+        '2024-05-31',
+      );
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should fetch and store a past date that has no snapshot', async () => {
+      mockConfigService.get.mockReturnValue(undefined);
+      mockedAxios.get.mockResolvedValueOnce({
+        data: { base: 'USD', date: '2024-03-01', rates: { VND: 24700 } },
+      });
+
+      const result = await service.convertCurrency(
+        1,
+        'USD',
+        'VND',
+        '2024-03-01',
+      );
+
+      expect(result.exchangeRate).toBe(24700);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://api.exchangeratesapi.io/2024-03-01',
+        expect.any(Object),
+      );
+      expect(mockSnapshotService.saveSnapshot).toHaveBeenCalledWith(
+        expect.objectContaining({ date: '2024-03-01' }),
+      );
+    });
+
+    it('should reject a history range that ends before it starts', async () => {
+      await expect(
+        service.getRateHistory('USD', ['VND'], '2024-06-10', '2024-06-01'),
+      ).rejects.toThrow(HttpException);
+      expect(mockSnapshotService.getHistory).not.toHaveBeenCalled();
+    });
+  });
 });
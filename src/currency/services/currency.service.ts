@@ -3,6 +3,10 @@ import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { APIThrottleService } from '../../shared/services/api-throttle.service';
 import { ErrorUtilService } from '../../shared/utils/error.util';
+import {
+  ExchangeRateSnapshotService,
+  HistoricalRates,
+} from './exchange-rate-snapshot.service';
 
 export interface ExchangeRates {
   base: string;
@@ -20,6 +24,8 @@ export interface CurrencyConversion {
   exchangeRate: number;
   formattedAmount: string;
   conversionDate: string;
+  /** Day of the exchange rate used */
+  rateDate?: string;
 }
 
 // API Response interfaces for type safety
@@ -80,9 +86,13 @@ export class CurrencyService {
     DKK: 'kr',
   };
 
+  /** Longest range served by the rate history endpoint */
+  private readonly MAX_HISTORY_DAYS = 366;
+
   constructor(
     private configService: ConfigService,
     private apiThrottleService: APIThrottleService,
+    private snapshotService: ExchangeRateSnapshotService,
   ) {}
 
   /**
@@ -116,14 +126,33 @@ export class CurrencyService {
           return cached.data;
         }
 
+        const stored = await this.snapshotService.findRates(base, currencies);
+        if (stored) {
+          this.logger.warn(
+            `Returning stored ${stored.date} exchange rates due to rate limits`,
+          );
+          return stored;
+        }
+
         throw new HttpException(
           'Exchange rate service temporarily unavailable due to rate limits',
           HttpStatus.TOO_MANY_REQUESTS,
         );
       }
 
-      // Fetch fresh rates
-      const rates = await this.fetchExchangeRates(base, currencies);
+      // Fetch fresh rates, falling back to the last stored snapshot
+      let rates: ExchangeRates;
+      try {
+        rates = await this.fetchExchangeRates(base, currencies);
+      } catch (error: unknown) {
+        const stored = await this.snapshotService.findRates(base, currencies);
+        if (!stored) throw error;
+        this.logger.warn(
+          `Exchange rate providers unavailable, using stored ${stored.date} rates`,
+        );
+        return stored;
+      }
+      await this.snapshotService.saveSnapshot(rates);
 
       // Cache the result
       this.ratesCache.set(cacheKey, {
@@ -149,13 +178,94 @@ export class CurrencyService {
     }
   }
 
+  /**
+   * Get the rates of a past day: the stored snapshot of that day, otherwise
+   * a provider's historical endpoint, otherwise the closest earlier snapshot
+   */
+  async getHistoricalRates(
+    base: string,
+    currencies: string[],
+    date: string,
+  ): Promise<ExchangeRates> {
+    const upperBase = base.toUpperCase();
+    const stored = await this.snapshotService.findRates(
+      upperBase,
+      currencies,
+      date,
+    );
+    if (stored?.date === date) return stored;
+
+    if (this.apiThrottleService.checkAndLog('exchangerate')) {
+      try {
+        const rates = await this.fetchHistoricalRates(
+          upperBase,
+          currencies,
+          date,
+        );
+        await this.snapshotService.saveSnapshot(rates);
+        if (currencies.every((c) => rates.rates[c] !== undefined)) {
+          return rates;
+        }
+      } catch (error: unknown) {
+        this.logger.warn(
+          `Historical rates for ${date} unavailable: ${ErrorUtilService.getErrorMessage(error)}`,
+        );
+      }
+    }
+
+    if (stored) return stored;
+    throw new HttpException(
+      `Exchange rate not available for ${currencies.join(', ')} on ${date}`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+
+  /**
+   * Stored daily rates between two dates (inclusive)
+   */
+  async getRateHistory(
+    base: string,
+    currencies: string[],
+    from: string,
+    to: string,
+  ): Promise<HistoricalRates[]> {
+    const days =
+      (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86400000;
+    if (days < 0) {
+      throw new HttpException(
+        '`from` must not be after `to`',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (days >= this.MAX_HISTORY_DAYS) {
+      throw new HttpException(
+        `Rate history is limited to ${this.MAX_HISTORY_DAYS} days`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return this.snapshotService.getHistory(
+      base.toUpperCase(),
+      currencies.map((c) => c.toUpperCase()),
+      from,
+      to,
+    );
+  }
+
+  /**
+   * Convert an amount, at the rates of `date` (YYYY-MM-DD) when given and
+   * in the past
+   */
   async convertCurrency(
     amount: number,
     from: string,
     to: string,
+    date?: string,
   ): Promise<CurrencyConversion> {
     try {
-      this.logger.log(`Converting ${amount} ${from} to ${to}`);
+      this.logger.log(
+        `Converting ${amount} ${from} to ${to}${date ? ` at ${date}` : ''}`,
+      );
 
       // If same currency, return as-is
       if (from.toUpperCase() === to.toUpperCase()) {
@@ -167,13 +277,19 @@ export class CurrencyService {
           exchangeRate: 1,
           formattedAmount: this.formatCurrency(amount, to.toUpperCase()),
           conversionDate: new Date().toISOString(),
+          rateDate: date,
         };
       }
 
       // Get exchange rates
-      const rates = await this.getExchangeRates(from.toUpperCase(), [
-        to.toUpperCase(),
-      ]);
+      const rates =
+        date && date < new Date().toISOString().slice(0, 10)
+          ? await this.getHistoricalRates(
+              from.toUpperCase(),
+              [to.toUpperCase()],
+              date,
+            )
+          : await this.getExchangeRates(from.toUpperCase(), [to.toUpperCase()]);
       const exchangeRate = rates.rates[to.toUpperCase()];
 
       if (!exchangeRate) {
@@ -193,6 +309,7 @@ export class CurrencyService {
         exchangeRate,
         formattedAmount: this.formatCurrency(convertedAmount, to.toUpperCase()),
         conversionDate: new Date().toISOString(),
+        rateDate: rates.date,
       };
     } catch (error: unknown) {
       this.logger.error(
@@ -274,6 +391,28 @@ export class CurrencyService {
     }
   }
 
+  /**
+   * Fetch rates of a past day. ExchangeRate-API only serves history on paid
+   * plans, so only Fixer.io and ExchangeRatesAPI are tried.
+   */
+  private async fetchHistoricalRates(
+    base: string,
+    currencies: string[],
+    date: string,
+  ): Promise<ExchangeRates> {
+    try {
+      const fixerApiKey = this.configService.get<string>('FIXER_API_KEY');
+      if (fixerApiKey) {
+        return await this.fetchFromFixerIO(base, currencies, fixerApiKey, date);
+      }
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Fixer.io history failed: ${ErrorUtilService.getErrorMessage(error)}`,
+      );
+    }
+    return this.fetchFromExchangeRatesAPI(base, currencies, date);
+  }
+
   /**
    * Fetch from ExchangeRate-API
    */
@@ -298,7 +437,7 @@ export class CurrencyService {
 
     return {
       base: data.base_code,
-      date: data.time_last_update_utc.split(' ')[0],
+      date: this.toRateDate(data.time_last_update_utc),
       rates: filteredRates,
       lastUpdated: data.time_last_update_utc,
       source: 'exchangerate-api',
@@ -312,9 +451,10 @@ export class CurrencyService {
     base: string,
     currencies: string[],
     apiKey: string,
+    date = 'latest',
   ): Promise<ExchangeRates> {
     const response = await axios.get<FixerIOResponse>(
-      'https://api.fixer.io/latest',
+      `https://api.fixer.io/${date}`,
       {
         params: {
           access_key: apiKey,
@@ -351,9 +491,10 @@ export class CurrencyService {
   private async fetchFromExchangeRatesAPI(
     base: string,
     currencies: string[],
+    date = 'latest',
   ): Promise<ExchangeRates> {
     const response = await axios.get<ExchangeRatesAPIResponse>(
-      'https://api.exchangeratesapi.io/latest',
+      `https://api.exchangeratesapi.io/${date}`,
       {
         params: {
           base,
@@ -374,6 +515,16 @@ export class CurrencyService {
     };
   }
 
+  /**
+   * ExchangeRate-API reports an RFC 1123 timestamp; snapshots need YYYY-MM-DD
+   */
+  private toRateDate(timestamp: string): string {
+    const parsed = new Date(timestamp);
+    return isNaN(parsed.getTime())
+      ? timestamp.split(' ')[0]
+      : parsed.toISOString().slice(0, 10);
+  }
+
   /**
    * Format currency amount with proper symbol and locale
    */
@@ -0,0 +1,73 @@
+import { Repository } from 'typeorm';
+import { ExchangeRateSnapshotService } from './exchange-rate-snapshot.service';
+import { ExchangeRateSnapshotEntity } from '../../schemas/exchange-rate-snapshot.entity';
+
+describe('ExchangeRateSnapshotService', () => {
+  const snapshot = (
+    base: string,
+    date: string,
+    rates: Record<string, number>,
+  ) =>
+    ({
+      base,
+      date,
+      rates,
+      source: 'exchangerate-api',
+      updatedAt: new Date(`${date}T12:00:00Z`),
+    }) as ExchangeRateSnapshotEntity;
+
+  const repo = { find: jest.fn(), query: jest.fn() };
+  const service = new ExchangeRateSnapshotService(
+    repo as unknown as Repository<ExchangeRateSnapshotEntity>,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('derives rates for another base from the same snapshot', async () => {
+    repo.find.mockResolvedValue([
+      snapshot('USD', '2024-06-01', { VND: 25000, EUR: 0.9 }),
+    ]);
+
+    const result = await service.findRates('EUR', ['VND', 'USD'], '2024-06-03');
+
+    expect(result?.date).toBe('2024-06-01');
+    expect(result?.rates.VND).toBeCloseTo(27777.78, 2);
+    expect(result?.rates.USD).toBeCloseTo(1.1111, 4);
+  });
+
+  it('prefers a snapshot of the requested base on the same day', async () => {
+    repo.find.mockResolvedValue([
+      snapshot('USD', '2024-06-01', { VND: 25000, EUR: 0.9 }),
+      snapshot('EUR', '2024-06-01', { VND: 27500 }),
+    ]);
+
+    const result = await service.findRates('EUR', ['VND']);
+
+    expect(result?.rates).toEqual({ VND: 27500 });
+  });
+
+  it('skips snapshots that do not cover every currency', async () => {
+    repo.find.mockResolvedValue([
+      snapshot('USD', '2024-06-02', { EUR: 0.91 }),
+      snapshot('USD', '2024-06-01', { EUR: 0.9, VND: 25000 }),
+    ]);
+
+    const result = await service.findRates('USD', ['EUR', 'VND']);
+
+    expect(result?.date).toBe('2024-06-01');
+  });
+
+  it('does not fail when a snapshot cannot be stored', async () => {
+    repo.query.mockRejectedValue(new Error('relation does not exist'));
+
+    await expect(
+      service.saveSnapshot({
+        base: 'USD',
+        date: '2024-06-01',
+        rates: { VND: 25000 },
+        lastUpdated: '',
+        source: 'exchangerate-api',
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,162 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, LessThanOrEqual, Repository } from 'typeorm';
+import { ExchangeRateSnapshotEntity } from '../../schemas/exchange-rate-snapshot.entity';
+import { ErrorUtilService } from '../../shared/utils/error.util';
+import type { ExchangeRates } from './currency.service';
+
+export interface HistoricalRates {
+  date: string;
+  rates: Record<string, number>;
+  source: string;
+}
+
+/**
+ * Daily exchange-rate snapshots. Rates for a base that was never fetched
+ * directly are derived from another base stored for the same day.
+ */
+@Injectable()
+export class ExchangeRateSnapshotService {
+  private readonly logger = new Logger(ExchangeRateSnapshotService.name);
+
+  /** How many recent snapshots to scan when looking for a usable one */
+  private readonly LOOKBACK_SNAPSHOTS = 60;
+
+  constructor(
+    @InjectRepository(ExchangeRateSnapshotEntity)
+    private readonly snapshotRepo: Repository<ExchangeRateSnapshotEntity>,
+  ) {}
+
+  /**
+   * Merge provider rates into the snapshot of their day. Failures are only
+   * logged: a missing snapshot must never break a live conversion.
+   */
+  async saveSnapshot(rates: ExchangeRates): Promise<void> {
+    if (!Object.keys(rates.rates).length) return;
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(rates.date)
+      ? rates.date
+      : new Date().toISOString().slice(0, 10);
+    try {
+      await this.snapshotRepo.query(
+        `INSERT INTO "exchange_rate_snapshots" ("base", "date", "rates", "source")
+         VALUES ($1, $2, $3::jsonb, $4)
+         ON CONFLICT ("base", "date") DO UPDATE
+         SET "rates" = "exchange_rate_snapshots"."rates" || EXCLUDED."rates",
+             "source" = EXCLUDED."source",
+             "updated_at" = now()`,
+        [
+          rates.base.toUpperCase(),
+          date,
+          JSON.stringify(rates.rates),
+          rates.source.slice(0, 50),
+        ],
+      );
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Failed to store exchange rate snapshot: ${ErrorUtilService.getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Most recent stored rates on or before `date` (default: any date) that
+   * cover every requested currency
+   */
+  async findRates(
+    base: string,
+    currencies: string[],
+    date?: string,
+  ): Promise<ExchangeRates | null> {
+    const snapshots = await this.snapshotRepo.find({
+      where: date ? { date: LessThanOrEqual(date) } : {},
+      order: { date: 'DESC' },
+      take: this.LOOKBACK_SNAPSHOTS,
+    });
+
+    for (const snapshot of this.preferBase(snapshots, base)) {
+      const rates = this.resolveRates(snapshot, base, currencies);
+      if (rates && currencies.every((c) => rates[c] !== undefined)) {
+        return {
+          base: base.toUpperCase(),
+          date: snapshot.date,
+          rates,
+          lastUpdated: snapshot.updatedAt.toISOString(),
+          source: `snapshot:${snapshot.source}`,
+        };
+      }
+    }
+    return null;
+  }
+
+  /** Stored rates per day between `from` and `to`, oldest first */
+  async getHistory(
+    base: string,
+    currencies: string[],
+    from: string,
+    to: string,
+  ): Promise<HistoricalRates[]> {
+    const snapshots = await this.snapshotRepo.find({
+      where: { date: Between(from, to) },
+      order: { date: 'ASC' },
+    });
+
+    const byDate = new Map<string, ExchangeRateSnapshotEntity[]>();
+    for (const snapshot of snapshots) {
+      const list = byDate.get(snapshot.date) ?? [];
+      list.push(snapshot);
+      byDate.set(snapshot.date, list);
+    }
+
+    const history: HistoricalRates[] = [];
+    for (const [date, daySnapshots] of byDate) {
+      for (const snapshot of this.preferBase(daySnapshots, base)) {
+        const rates = this.resolveRates(snapshot, base, currencies);
+        if (rates && Object.keys(rates).length) {
+          history.push({ date, rates, source: snapshot.source });
+          break;
+        }
+      }
+    }
+    return history;
+  }
+
+  /** Keep date order but try snapshots of the requested base first per day */
+  private preferBase(
+    snapshots: ExchangeRateSnapshotEntity[],
+    base: string,
+  ): ExchangeRateSnapshotEntity[] {
+    const upper = base.toUpperCase();
+    return snapshots
+      .map((snapshot, index) => ({ snapshot, index }))
+      .sort((a, b) => {
+        if (a.snapshot.date !== b.snapshot.date) return a.index - b.index;
+        const preferred =
+          Number(b.snapshot.base === upper) - Number(a.snapshot.base === upper);
+        return preferred || a.index - b.index;
+      })
+      .map(({ snapshot }) => snapshot);
+  }
+
+  /**
+   * Rates of `currencies` against `base`, derived through the snapshot base
+   * when needed. Returns null when the snapshot cannot express `base`.
+   */
+  private resolveRates(
+    snapshot: ExchangeRateSnapshotEntity,
+    base: string,
+    currencies: string[],
+  ): Record<string, number> | null {
+    const upper = base.toUpperCase();
+    const baseRate =
+      snapshot.base === upper ? 1 : Number(snapshot.rates[upper] ?? 0);
+    if (!baseRate) return null;
+
+    const rates: Record<string, number> = {};
+    for (const currency of currencies) {
+      const target =
+        currency === snapshot.base ? 1 : Number(snapshot.rates[currency] ?? 0);
+      if (target) rates[currency] = target / baseRate;
+    }
+    return rates;
+  }
+}
@@ -415,4 +415,65 @@ export class EmailService {
       return false;
     }
   }
+
+  /**
+   * Send budget threshold alert to a trip member
+   * @param email - Member's email address
+   * @param memberName - Name of the member
+   * @param tripTitle - Title of the trip
+   * @param alert - Threshold reached and current spending (of the whole budget or one category cap)
+   * @param tripUrl - URL to view the trip
+   * @param language - Email language preference (en | vi)
+   * @returns Success status
+   */
+  async sendBudgetAlert(
+    email: string,
+    memberName: string,
+    tripTitle: string,
+    alert: {
+      thresholdPercent: number;
+      percentageUsed: number;
+      spentAmount: number;
+      totalBudget: number;
+      remaining: number;
+      currency: string;
+      /** Set when the alert is about a category cap */
+      category?: string;
+    },
+    tripUrl: string,
+    language: 'en' | 'vi' = 'en',
+  ): Promise<boolean> {
+    try {
+      const subjects = alert.category
+        ? {
+            en: `Budget alert: ${tripTitle} reached ${alert.thresholdPercent}% of its ${alert.category} cap`,
+            vi: `Cảnh báo ngân sách: ${tripTitle} đã dùng ${alert.thresholdPercent}% hạn mức ${alert.category}`,
+          }
+        : {
+            en: `Budget alert: ${tripTitle} reached ${alert.thresholdPercent}% of its budget`,
+            vi: `Cảnh báo ngân sách: ${tripTitle} đã dùng ${alert.thresholdPercent}% ngân sách`,
+          };
+
+      await this.mailerService.sendMail({
+        to: email,
+        subject: subjects[language],
+        template: './budget-alert',
+        context: {
+          memberName,
+          tripTitle,
+          ...alert,
+          isExhausted: alert.remaining <= 0,
+          tripUrl,
+          language,
+          isVietnamese: language === 'vi',
+        },
+      });
+
+      this.logger.log(`Budget alert sent successfully to ${email}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to send budget alert to ${email}:`, error);
+      return false;
+    }
+  }
 }
@@ -0,0 +1,9 @@
+export const IDEMPOTENT_KEY = 'idempotent';
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export interface IdempotentOptions {
+  /** Reject requests without the header (default: false) */
+  required?: boolean;
+  /** How long the response is kept for replays (default: 24 hours) */
+  ttlSeconds?: number;
+}
@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  ExecutionContext,
+  HttpException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyInterceptor', () => {
+  const service = {
+    begin: jest.fn(),
+    complete: jest.fn(),
+    release: jest.fn(),
+    hold: jest.fn(),
+  };
+  const reflector = { get: jest.fn() };
+  const interceptor = new IdempotencyInterceptor(
+    reflector as unknown as Reflector,
+    service as unknown as IdempotencyService,
+  );
+  const res = { setHeader: jest.fn() };
+
+  const context = (headers: Record<string, string>, body: unknown) => {
+    const req = {
+      method: 'POST',
+      path: '/booking/hotels/order',
+      route: { path: '/booking/hotels/order' },
+      params: {},
+      query: {},
+      body,
+      user: { id: 'user-1' },
+      get: (name: string) => headers[name.toLowerCase()],
+    };
+    return {
+      getHandler: () => undefined,
+      switchToHttp: () => ({ getRequest: () => req, getResponse: () => res }),
+    } as unknown as ExecutionContext;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reflector.get.mockReturnValue(undefined);
+    service.complete.mockResolvedValue(undefined);
+    service.release.mockResolvedValue(undefined);
+    service.hold.mockReturnValue(jest.fn());
+  });
+
+  it('passes through without a key unless one is required', async () => {
+    const handler = { handle: () => of('fresh') };
+    const result = await interceptor.intercept(context({}, {}), handler);
+    await expect(lastValueFrom(result)).resolves.toBe('fresh');
+
+    reflector.get.mockReturnValueOnce({ required: true });
+    await expect(
+      interceptor.intercept(context({}, {}), handler),
+    ).rejects.toThrow(BadRequestException);
+    expect(service.begin).not.toHaveBeenCalled();
+  });
+
+  it('hashes the request independently of key order', async () => {
+    service.begin.mockResolvedValue({ replay: true, status: 201, body: 'x' });
+    const handler = { handle: jest.fn() };
+
+    await interceptor.intercept(
+      context({ 'idempotency-key': 'k1' }, { a: 1, b: { c: 2, d: 3 } }),
+      handler,
+    );
+    await interceptor.intercept(
+      context({ 'idempotency-key': 'k1' }, { b: { d: 3, c: 2 }, a: 1 }),
+      handler,
+    );
+
+    const [first, second] = service.begin.mock.calls;
+    expect(first[0]).toBe('user-1:POST:/booking/hotels/order');
+    expect(first[2]).toBe(second[2]);
+    expect(handler.handle).not.toHaveBeenCalled();
+    expect(res.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('stores the response, or frees the key when the handler fails', async () => {
+    const record = { id: 'key-1' };
+    service.begin.mockResolvedValue({ replay: false, record });
+
+    const ok = await interceptor.intercept(
+      context({ 'idempotency-key': 'k1' }, {}),
+      { handle: () => of({ success: true }) },
+    );
+    await expect(lastValueFrom(ok)).resolves.toEqual({ success: true });
+    expect(service.complete).toHaveBeenCalledWith(record, 201, {
+      success: true,
+    });
+
+    const rejected = await interceptor.intercept(
+      context({ 'idempotency-key': 'k2' }, {}),
+      { handle: () => throwError(() => new BadRequestException('bad date')) },
+    );
+    await expect(lastValueFrom(rejected)).rejects.toThrow('bad date');
+    expect(service.release).toHaveBeenCalledWith(record);
+  });
+
+  it('keeps the key of a request that failed past its checks', async () => {
+    const record = { id: 'key-1' };
+    service.begin.mockResolvedValue({ replay: false, record });
+
+    const failed = await interceptor.intercept(
+      context({ 'idempotency-key': 'k1' }, {}),
+      { handle: () => throwError(() => new Error('save failed')) },
+    );
+    await expect(lastValueFrom(failed)).rejects.toThrow('save failed');
+    expect(service.release).not.toHaveBeenCalled();
+    expect(service.complete).toHaveBeenCalledWith(record, 500, {
+      message: 'save failed',
+    });
+
+    service.begin.mockResolvedValue({
+      replay: true,
+      status: 500,
+      body: { message: 'save failed' },
+    });
+    const handler = { handle: jest.fn() };
+    await expect(
+      interceptor.intercept(context({ 'idempotency-key': 'k1' }, {}), handler),
+    ).rejects.toBeInstanceOf(HttpException);
+    expect(handler.handle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import type { Request, Response } from 'express';
+import {
+  Observable,
+  catchError,
+  finalize,
+  from,
+  mergeMap,
+  of,
+  throwError,
+} from 'rxjs';
+import { IdempotencyKeyEntity } from 'src/schemas/idempotency-key.entity';
+import { ErrorUtilService } from 'src/shared/utils/error.util';
+import { IdempotencyService } from './idempotency.service';
+import {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENT_KEY,
+  IdempotentOptions,
+} from './idempotency.constants';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const MAX_KEY_LENGTH = 255;
+
+/** JSON with object keys sorted, so equal payloads hash the same */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (k) =>
+          `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Applied through `@Idempotent()`. Replays the stored response of a
+ * repeated `Idempotency-Key`, otherwise runs the handler and stores what it
+ * returned. Client errors (4xx) free the key again; other failures are
+ * stored and replayed like responses.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly idempotencyService: IdempotencyService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const options =
+      this.reflector.get<IdempotentOptions>(
+        IDEMPOTENT_KEY,
+        context.getHandler(),
+      ) ?? {};
+    const http = context.switchToHttp();
+    const req = http.getRequest<Request & { user?: { id?: string } }>();
+    const res = http.getResponse<Response>();
+
+    const key = req.get(IDEMPOTENCY_HEADER)?.trim();
+    if (!key) {
+      if (options.required) {
+        throw new BadRequestException(
+          `${IDEMPOTENCY_HEADER} header is required`,
+        );
+      }
+      return next.handle();
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const route = (req.route as { path?: string } | undefined)?.path;
+    const scope = `${req.user?.id ?? 'anonymous'}:${req.method}:${route ?? req.path}`;
+    const requestHash = createHash('sha256')
+      .update(
+        canonicalJson({
+          params: req.params,
+          query: req.query,
+          body: req.body as unknown,
+        }),
+      )
+      .digest('hex');
+
+    const outcome = await this.idempotencyService.begin(
+      scope,
+      key,
+      requestHash,
+      options.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+    );
+    if (outcome.replay) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      if (outcome.status >= 400) {
+        throw new HttpException(outcome.body as object, outcome.status);
+      }
+      return of(outcome.body);
+    }
+
+    const status =
+      this.reflector.get<number>(HTTP_CODE_METADATA, context.getHandler()) ??
+      (req.method === 'POST' ? HttpStatus.CREATED : HttpStatus.OK);
+    const stopHolding = this.idempotencyService.hold(outcome.record);
+    return next.handle().pipe(
+      mergeMap(async (body: unknown) => {
+        await this.idempotencyService.complete(outcome.record, status, body);
+        return body;
+      }),
+      catchError((error: unknown) =>
+        from(this.settleFailure(outcome.record, error)).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+      finalize(stopHolding),
+    );
+  }
+
+  /**
+   * Client errors come from checks that run before a handler changes
+   * anything, so the key is freed for a corrected retry. Any other failure
+   * may come after a provider accepted the request (a booking whose local
+   * save failed, say): it is stored, so a retry replays it instead of
+   * booking again.
+   */
+  private settleFailure(
+    record: IdempotencyKeyEntity,
+    error: unknown,
+  ): Promise<void> {
+    if (error instanceof HttpException && error.getStatus() < 500) {
+      return this.idempotencyService.release(record);
+    }
+    return error instanceof HttpException
+      ? this.idempotencyService.complete(
+          record,
+          error.getStatus(),
+          error.getResponse(),
+        )
+      : this.idempotencyService.complete(
+          record,
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          { message: ErrorUtilService.getErrorMessage(error) },
+        );
+  }
+}
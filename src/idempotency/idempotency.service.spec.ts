@@ -0,0 +1,184 @@
+import {
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { FindOperator, Repository } from 'typeorm';
+import { IdempotencyService } from './idempotency.service';
+import {
+  IdempotencyKeyEntity,
+  IdempotencyKeyStatus,
+} from '../schemas/idempotency-key.entity';
+import { RedisCacheService } from '../redis/redis-cache.service';
+
+describe('IdempotencyService', () => {
+  let store: Map<string, unknown>;
+  let rows: IdempotencyKeyEntity[];
+  let service: IdempotencyService;
+
+  const cache = {
+    get: jest.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    set: jest.fn((key: string, value: unknown) => {
+      store.set(key, value);
+      return Promise.resolve();
+    }),
+    setIfAbsent: jest.fn((key: string, value: unknown) => {
+      if (store.has(key)) return Promise.resolve(false);
+      store.set(key, value);
+      return Promise.resolve(true);
+    }),
+    del: jest.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve();
+    }),
+  };
+  const keyRepo = {
+    create: (data: Partial<IdempotencyKeyEntity>) => ({ ...data }),
+    save: jest.fn((row: IdempotencyKeyEntity) => {
+      const saved = {
+        ...row,
+        id: `key-${rows.length + 1}`,
+        updatedAt: new Date(),
+      };
+      rows.push(saved);
+      return Promise.resolve(saved);
+    }),
+    findOne: jest.fn(({ where }: { where: { scope: string; key: string } }) =>
+      Promise.resolve(
+        rows.find((r) => r.scope === where.scope && r.key === where.key) ??
+          null,
+      ),
+    ),
+    update: jest.fn(
+      (
+        criteria: string | Record<string, unknown>,
+        patch: Partial<IdempotencyKeyEntity>,
+      ) => {
+        const where =
+          typeof criteria === 'string' ? { id: criteria } : criteria;
+        const row = rows.find((r) =>
+          Object.entries(where).every(([k, v]) => {
+            const value = r[k as keyof IdempotencyKeyEntity];
+            return v instanceof FindOperator
+              ? (value as Date) < (v.value as Date)
+              : value === v;
+          }),
+        );
+        if (row) Object.assign(row, patch);
+        return Promise.resolve({ affected: row ? 1 : 0 });
+      },
+    ),
+    delete: jest.fn((id: string) => {
+      rows = rows.filter((r) => r.id !== id);
+      return Promise.resolve();
+    }),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new Map();
+    rows = [];
+    service = new IdempotencyService(
+      keyRepo as unknown as Repository<IdempotencyKeyEntity>,
+      cache as unknown as RedisCacheService,
+    );
+  });
+
+  it('claims a new key, then replays the stored response', async () => {
+    const first = await service.begin('user-1:POST:/x', 'k1', 'hash-a', 60);
+    expect(first.replay).toBe(false);
+    if (first.replay) return;
+    await service.complete(first.record, 201, { id: 'booking-1' });
+
+    await expect(
+      service.begin('user-1:POST:/x', 'k1', 'hash-a', 60),
+    ).resolves.toEqual({
+      replay: true,
+      status: 201,
+      body: { id: 'booking-1' },
+    });
+    expect(rows[0].status).toBe(IdempotencyKeyStatus.COMPLETED);
+  });
+
+  it('rejects a reused key with a different request', async () => {
+    const first = await service.begin('user-1:POST:/x', 'k1', 'hash-a', 60);
+    if (!first.replay) await service.complete(first.record, 201, {});
+
+    await expect(
+      service.begin('user-1:POST:/x', 'k1', 'hash-b', 60),
+    ).rejects.toThrow(UnprocessableEntityException);
+  });
+
+  it('locks out a duplicate while the first request runs', async () => {
+    await service.begin('user-1:POST:/x', 'k1', 'hash-a', 60);
+
+    await expect(
+      service.begin('user-1:POST:/x', 'k1', 'hash-a', 60),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('falls back to the table when Redis lost the response', async () => {
+    const first = await service.begin('user-1:POST:/x', 'k1', 'hash-a', 60);
+    if (!first.replay) await service.complete(first.record, 200, { ok: 1 });
+    store.clear();
+
+    await expect(
+      service.begin('user-1:POST:/x', 'k1', 'hash-a', 60),
+    ).resolves.toEqual({ replay: true, status: 200, body: { ok: 1 } });
+  });
+
+  it('frees the key after a failed request and ignores expired keys', async () => {
+    const first = await service.begin('user-1:POST:/x', 'k1', 'hash-a', 60);
+    if (!first.replay) await service.release(first.record);
+    expect(rows).toHaveLength(0);
+
+    rows.push({
+      id: 'old',
+      scope: 'user-1:POST:/x',
+      key: 'k2',
+      requestHash: 'hash-z',
+      status: IdempotencyKeyStatus.COMPLETED,
+      expiresAt: new Date(Date.now() - 1000),
+    } as IdempotencyKeyEntity);
+    const again = await service.begin('user-1:POST:/x', 'k2', 'hash-a', 60);
+    expect(again.replay).toBe(false);
+    expect(rows.map((r) => [r.key, r.requestHash])).toEqual([['k2', 'hash-a']]);
+  });
+
+  it('keeps a running request from being taken over', async () => {
+    jest.useFakeTimers();
+    try {
+      const first = await service.begin('user-1:POST:/x', 'k1', 'hash-a', 60);
+      const stop = service.hold(
+        (first as { record: IdempotencyKeyEntity }).record,
+      );
+      store.clear();
+      rows[0].updatedAt = new Date(Date.now() - 2 * 60 * 1000);
+
+      await jest.advanceTimersByTimeAsync(20_000);
+      store.clear();
+      stop();
+
+      await expect(
+        service.begin('user-1:POST:/x', 'k1', 'hash-a', 60),
+      ).rejects.toThrow(ConflictException);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('lets a retry take over a key whose request died', async () => {
+    await service.begin('user-1:POST:/x', 'k1', 'hash-a', 60);
+    // The holder crashed: its Redis lock expired and the row went stale
+    store.clear();
+    rows[0].updatedAt = new Date(Date.now() - 2 * 60 * 1000);
+
+    const retry = await service.begin('user-1:POST:/x', 'k1', 'hash-a', 60);
+    expect(retry.replay).toBe(false);
+    expect(rows).toHaveLength(1);
+
+    store.clear();
+    await expect(
+      service.begin('user-1:POST:/x', 'k1', 'hash-a', 60),
+    ).rejects.toThrow(ConflictException);
+  });
+});
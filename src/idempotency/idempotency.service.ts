@@ -0,0 +1,258 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, QueryFailedError, Repository } from 'typeorm';
+import {
+  IdempotencyKeyEntity,
+  IdempotencyKeyStatus,
+} from 'src/schemas/idempotency-key.entity';
+import { RedisCacheService } from 'src/redis/redis-cache.service';
+import { ErrorUtilService } from 'src/shared/utils/error.util';
+
+/**
+ * How long a key stays claimed without a heartbeat. A running request keeps
+ * refreshing it, so only a key whose request died can be taken over.
+ */
+const LOCK_TTL_SECONDS = 60;
+const HEARTBEAT_MS = (LOCK_TTL_SECONDS * 1000) / 3;
+
+interface StoredResponse {
+  requestHash: string;
+  status: number;
+  body: unknown;
+}
+
+export type IdempotencyOutcome =
+  | { replay: true; status: number; body: unknown }
+  | { replay: false; record: IdempotencyKeyEntity };
+
+/**
+ * Stores the response of requests sent with an `Idempotency-Key`. Redis
+ * answers retries quickly and locks out concurrent ones; the table keeps
+ * the key when Redis is down or evicted it.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(
+    @InjectRepository(IdempotencyKeyEntity)
+    private readonly keyRepo: Repository<IdempotencyKeyEntity>,
+    private readonly cache: RedisCacheService,
+  ) {}
+
+  /**
+   * Claim a key for a request, or return the response to replay. Throws 422
+   * when the key was used for a different request and 409 while the first
+   * request with the key is still running.
+   */
+  async begin(
+    scope: string,
+    key: string,
+    requestHash: string,
+    ttlSeconds: number,
+  ): Promise<IdempotencyOutcome> {
+    const cached = await this.cache.get<StoredResponse>(
+      this.cacheKey(scope, key),
+    );
+    if (cached) return this.replay(cached, requestHash);
+
+    const lockKey = this.lockKey(scope, key);
+    const locked = await this.cache.setIfAbsent(
+      lockKey,
+      requestHash,
+      LOCK_TTL_SECONDS,
+    );
+    if (!locked) {
+      const holder = await this.cache.get<string>(lockKey);
+      if (holder && holder !== requestHash) throw this.mismatch();
+      throw this.inProgress();
+    }
+
+    try {
+      const existing = await this.findLive(scope, key);
+      if (existing) {
+        return await this.resume(existing, requestHash, ttlSeconds);
+      }
+
+      try {
+        const record = await this.keyRepo.save(
+          this.keyRepo.create({
+            scope,
+            key,
+            requestHash,
+            status: IdempotencyKeyStatus.IN_PROGRESS,
+            expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+          }),
+        );
+        return { replay: false, record };
+      } catch (error: unknown) {
+        // Another instance claimed the key while Redis was unavailable
+        if (!this.isUniqueViolation(error)) throw error;
+        const winner = await this.findLive(scope, key);
+        if (!winner) throw this.inProgress();
+        return await this.resume(winner, requestHash, ttlSeconds);
+      }
+    } catch (error: unknown) {
+      await this.cache.del(lockKey);
+      throw error;
+    }
+  }
+
+  /** Store the response of a claimed key for later replays */
+  async complete(
+    record: IdempotencyKeyEntity,
+    status: number,
+    body: unknown,
+  ): Promise<void> {
+    await this.keyRepo.update(record.id, {
+      status: IdempotencyKeyStatus.COMPLETED,
+      responseStatus: status,
+      responseBody: body as object,
+    });
+    const ttl = Math.ceil((record.expiresAt.getTime() - Date.now()) / 1000);
+    if (ttl > 0) {
+      await this.cache.set<StoredResponse>(
+        this.cacheKey(record.scope, record.key),
+        { requestHash: record.requestHash, status, body },
+        ttl,
+      );
+    }
+    await this.cache.del(this.lockKey(record.scope, record.key));
+  }
+
+  /**
+   * Keep a claimed key fresh while its handler runs, so a retry cannot take
+   * it over from a request that is still going. Returns the stop function.
+   */
+  hold(record: IdempotencyKeyEntity): () => void {
+    const timer = setInterval(() => {
+      this.refresh(record).catch((error: unknown) =>
+        this.logger.warn(
+          `Could not refresh idempotency key ${record.id}: ${ErrorUtilService.getErrorMessage(error)}`,
+        ),
+      );
+    }, HEARTBEAT_MS);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  /** Free a key whose request failed, so the client can retry with it */
+  async release(record: IdempotencyKeyEntity): Promise<void> {
+    await this.keyRepo.delete(record.id);
+    await this.cache.del(this.lockKey(record.scope, record.key));
+  }
+
+  private async resume(
+    record: IdempotencyKeyEntity,
+    requestHash: string,
+    ttlSeconds: number,
+  ): Promise<IdempotencyOutcome> {
+    if (record.status !== IdempotencyKeyStatus.COMPLETED) {
+      if (record.requestHash !== requestHash) throw this.mismatch();
+      const takenOver = await this.takeOver(record, ttlSeconds);
+      if (!takenOver) throw this.inProgress();
+      return { replay: false, record: takenOver };
+    }
+    const stored: StoredResponse = {
+      requestHash: record.requestHash,
+      status: record.responseStatus ?? 200,
+      body: record.responseBody,
+    };
+    const ttl = Math.ceil((record.expiresAt.getTime() - Date.now()) / 1000);
+    await this.cache.set(this.cacheKey(record.scope, record.key), stored, ttl);
+    await this.cache.del(this.lockKey(record.scope, record.key));
+    return this.replay(stored, requestHash);
+  }
+
+  private async refresh(record: IdempotencyKeyEntity): Promise<void> {
+    await this.cache.set(
+      this.lockKey(record.scope, record.key),
+      record.requestHash,
+      LOCK_TTL_SECONDS,
+    );
+    await this.keyRepo.update(
+      { id: record.id, status: IdempotencyKeyStatus.IN_PROGRESS },
+      { updatedAt: new Date() },
+    );
+  }
+
+  /**
+   * Claim an in-progress key whose holder has not refreshed it within the
+   * lock TTL. The stale condition is part of the update, so only one retry
+   * wins when several arrive together.
+   */
+  private async takeOver(
+    record: IdempotencyKeyEntity,
+    ttlSeconds: number,
+  ): Promise<IdempotencyKeyEntity | null> {
+    const staleBefore = new Date(Date.now() - LOCK_TTL_SECONDS * 1000);
+    if (record.updatedAt > staleBefore) return null;
+
+    const claimed = {
+      updatedAt: new Date(),
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    };
+    const result = await this.keyRepo.update(
+      {
+        id: record.id,
+        status: IdempotencyKeyStatus.IN_PROGRESS,
+        updatedAt: LessThan(staleBefore),
+      },
+      claimed,
+    );
+    return result.affected ? { ...record, ...claimed } : null;
+  }
+
+  private replay(
+    stored: StoredResponse,
+    requestHash: string,
+  ): IdempotencyOutcome {
+    if (stored.requestHash !== requestHash) throw this.mismatch();
+    return { replay: true, status: stored.status, body: stored.body };
+  }
+
+  /** Key row that has not expired; expired rows are dropped on the way */
+  private async findLive(
+    scope: string,
+    key: string,
+  ): Promise<IdempotencyKeyEntity | null> {
+    const record = await this.keyRepo.findOne({ where: { scope, key } });
+    if (record && record.expiresAt.getTime() <= Date.now()) {
+      await this.keyRepo.delete(record.id);
+      return null;
+    }
+    return record;
+  }
+
+  private isUniqueViolation(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error.driverError as { code?: string })?.code === '23505'
+    );
+  }
+
+  private mismatch() {
+    return new UnprocessableEntityException(
+      'Idempotency-Key was already used with a different request',
+    );
+  }
+
+  private inProgress() {
+    return new ConflictException(
+      'A request with this Idempotency-Key is still being processed',
+    );
+  }
+
+  private cacheKey(scope: string, key: string) {
+    return `idempotency:${scope}:${key}`;
+  }
+
+  private lockKey(scope: string, key: string) {
+    return `idempotency-lock:${scope}:${key}`;
+  }
+}
@@ -0,0 +1,26 @@
+import { SetMetadata, UseInterceptors, applyDecorators } from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENT_KEY,
+  IdempotentOptions,
+} from './idempotency.constants';
+
+/**
+ * Make a route safe to retry: a request repeated with the same
+ * `Idempotency-Key` header gets the stored response instead of running
+ * again. Meant for routes that return JSON. Handlers must do their
+ * validation before any side effect: only 4xx errors free the key.
+ */
+export const Idempotent = (options: IdempotentOptions = {}) =>
+  applyDecorators(
+    SetMetadata(IDEMPOTENT_KEY, options),
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_HEADER,
+      required: options.required ?? false,
+      description:
+        'Unique key per operation; retries with the same key replay the first response',
+    }),
+  );
@@ -84,6 +84,23 @@ export class AmadeusApiService {
     }
   }
 
+  /** Cancel a hotel booking; Amadeus answers 204 with no body */
+  async deleteHotelOrder(orderId: string): Promise<void> {
+    const token = await this.auth.getAccessToken();
+    const url = `${this.getBaseUrl()}/v1/booking/hotel-bookings/${encodeURIComponent(orderId)}`;
+    try {
+      await axios.delete(url, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      this.logger.error(
+        `Amadeus deleteHotelOrder failed: ${err?.message || 'Unknown error'}`,
+      );
+      throw error;
+    }
+  }
+
   // Flight Services
   async searchFlights(params: Record<string, unknown>): Promise<unknown[]> {
     const token = await this.auth.getAccessToken();
@@ -106,4 +123,71 @@ export class AmadeusApiService {
       throw error;
     }
   }
+
+  async priceFlightOffers(
+    flightOffers: Record<string, unknown>[],
+  ): Promise<unknown> {
+    const token = await this.auth.getAccessToken();
+    const url = `${this.getBaseUrl()}/v1/shopping/flight-offers/pricing`;
+    try {
+      const resp = await axios.post(
+        url,
+        { data: { type: 'flight-offers-pricing', flightOffers } },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+      return resp.data;
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      this.logger.error(
+        `Amadeus priceFlightOffers failed: ${err?.message || 'Unknown error'}`,
+      );
+      throw error;
+    }
+  }
+
+  async createFlightOrder(payload: Record<string, unknown>): Promise<unknown> {
+    const token = await this.auth.getAccessToken();
+    const url = `${this.getBaseUrl()}/v1/booking/flight-orders`;
+    try {
+      const resp = await axios.post(
+        url,
+        { data: { type: 'flight-order', ...payload } },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+      return resp.data;
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      this.logger.error(
+        `Amadeus createFlightOrder failed: ${err?.message || 'Unknown error'}`,
+      );
+      throw error;
+    }
+  }
+
+  /** Cancel a flight order that has not been ticketed yet */
+  async deleteFlightOrder(orderId: string): Promise<void> {
+    const token = await this.auth.getAccessToken();
+    const url = `${this.getBaseUrl()}/v1/booking/flight-orders/${encodeURIComponent(orderId)}`;
+    try {
+      await axios.delete(url, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      this.logger.error(
+        `Amadeus deleteFlightOrder failed: ${err?.message || 'Unknown error'}`,
+      );
+      throw error;
+    }
+  }
 }
@@ -8,6 +8,7 @@ import {
   Put,
   Query,
   Req,
+  UseGuards,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
@@ -21,14 +22,22 @@ import { UpdateItineraryDto } from './dto/update-itinerary.dto';
 import { BaseResponse } from 'src/shared/types/base-response.types';
 import { ResponseUtil } from 'src/shared/utils/response.util';
 import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { TripPermissionGuard } from 'src/trip/guards/trip-permission.guard';
+import { RequireRole } from 'src/trip/decorators/require-role.decorator';
+import { TripResource } from 'src/trip/decorators/trip-resource.decorator';
+import { TripResourceType } from 'src/trip/access/trip-resource.types';
+import { MemberRole } from 'src/schemas/trip-member.entity';
 
 @ApiTags('Itineraries')
 @ApiBearerAuth()
 @Controller('itineraries')
+@UseGuards(TripPermissionGuard)
 export class ItineraryController {
   constructor(private readonly service: ItineraryService) {}
 
-  @ApiOperation({ summary: 'Create itinerary for a trip the user owns' })
+  @ApiOperation({ summary: 'Create itinerary (trip editor or owner)' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.TRIP, { in: 'body', key: 'tripId' })
   @Post()
   async create(
     @Req() req: AuthenticatedRequest,
@@ -39,7 +48,7 @@ export class ItineraryController {
   }
 
   @ApiOperation({
-    summary: 'List itineraries for current user, optionally by trip',
+    summary: 'List itineraries of trips the user is a member of',
   })
   @ApiQuery({ name: 'tripId', required: false })
   @Get()
@@ -52,6 +61,8 @@ export class ItineraryController {
   }
 
   @ApiOperation({ summary: 'Get itinerary' })
+  @RequireRole(MemberRole.VIEWER)
+  @TripResource(TripResourceType.ITINERARY)
   @Get(':id')
   async getOne(
     @Req() req: AuthenticatedRequest,
@@ -62,6 +73,8 @@ export class ItineraryController {
   }
 
   @ApiOperation({ summary: 'Update itinerary' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.ITINERARY)
   @Put(':id')
   async update(
     @Req() req: AuthenticatedRequest,
@@ -73,6 +86,8 @@ export class ItineraryController {
   }
 
   @ApiOperation({ summary: 'Delete itinerary' })
+  @RequireRole(MemberRole.EDITOR)
+  @TripResource(TripResourceType.ITINERARY)
   @Delete(':id')
   async remove(
     @Req() req: AuthenticatedRequest,
@@ -8,10 +8,12 @@ import { ItineraryService } from './itinerary.service';
 import { ItineraryController } from './itinerary.controller';
 import { WithinTripRangeConstraint } from './validators/within-trip-range.validator';
 import { DateMatchesDayNumberConstraint } from './validators/date-matches-day-number.validator';
+import { TripAccessModule } from 'src/trip/access/trip-access.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([ItineraryEntity, TripEntity, RefreshTokenEntity]),
+    TripAccessModule,
   ],
   controllers: [ItineraryController],
   providers: [
@@ -23,28 +23,18 @@ export class ItineraryRepository {
     });
   }
 
-  async findByIdForUser(
-    id: string,
-    userId: string,
-  ): Promise<ItineraryEntity | null> {
-    return this.repo
-      .createQueryBuilder('iti')
-      .innerJoin('iti.trip', 'trip')
-      .leftJoinAndSelect('iti.trip', 'tripData')
-      .where('iti.id = :id', { id })
-      .andWhere('trip.userId = :userId', { userId })
-      .getOne();
-  }
-
+  /** Itineraries of every trip the user created or is a member of */
   async listForUser(
     userId: string,
     tripId?: string,
   ): Promise<ItineraryEntity[]> {
     const qb = this.repo
       .createQueryBuilder('iti')
-      .innerJoin('iti.trip', 'trip')
-      .leftJoinAndSelect('iti.trip', 'tripData')
-      .where('trip.userId = :userId', { userId });
+      .innerJoinAndSelect('iti.trip', 'trip')
+      .leftJoin('trip.members', 'member', 'member.userId = :userId', {
+        userId,
+      })
+      .where('(trip.userId = :userId OR member.id IS NOT NULL)', { userId });
     if (tripId) qb.andWhere('iti.tripId = :tripId', { tripId });
     return qb.orderBy('iti.dayNumber', 'ASC').getMany();
   }
@@ -57,16 +47,6 @@ export class ItineraryRepository {
     await this.repo.delete(id);
   }
 
-  async tripOwnedByUser(tripId: string, userId: string): Promise<boolean> {
-    const exists = await this.repo.manager
-      .getRepository(TripEntity)
-      .createQueryBuilder('trip')
-      .where('trip.id = :tripId', { tripId })
-      .andWhere('trip.userId = :userId', { userId })
-      .getExists();
-    return exists;
-  }
-
   async getTripById(tripId: string) {
     return this.repo.manager
       .getRepository(TripEntity)
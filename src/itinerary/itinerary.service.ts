@@ -1,23 +1,27 @@
-import {
-  ForbiddenException,
-  Injectable,
-  NotFoundException,
-} from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { ItineraryRepository } from './itinerary.repository';
 import { CreateItineraryDto } from './dto/create-itinerary.dto';
 import { UpdateItineraryDto } from './dto/update-itinerary.dto';
 import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { TripAccessService } from 'src/trip/access/trip-access.service';
+import { TripResourceType } from 'src/trip/access/trip-resource.types';
 
+/**
+ * Itinerary CRUD. Role checks on the route's own ids happen in
+ * TripPermissionGuard; only ids taken from the body are checked here.
+ */
 @Injectable()
 export class ItineraryService {
-  constructor(private readonly repo: ItineraryRepository) {}
+  constructor(
+    private readonly repo: ItineraryRepository,
+    private readonly accessService: TripAccessService,
+  ) {}
 
   async create(
     userId: string,
     dto: CreateItineraryDto,
   ): Promise<ItineraryEntity> {
-    const ok = await this.repo.tripOwnedByUser(dto.tripId, userId);
-    if (!ok) throw new ForbiddenException('Trip not accessible');
     // If no date provided, but trip has startDate, compute date = startDate + (dayNumber - 1)
     let computedDate: Date | undefined = undefined;
     if (!dto.date) {
@@ -51,7 +55,7 @@ export class ItineraryService {
   }
 
   async getOne(userId: string, id: string): Promise<ItineraryEntity> {
-    const found = await this.repo.findByIdForUser(id, userId);
+    const found = await this.repo.findById(id);
     if (!found) throw new NotFoundException('Itinerary not found');
     return found;
   }
@@ -61,11 +65,15 @@ export class ItineraryService {
     id: string,
     dto: UpdateItineraryDto,
   ): Promise<ItineraryEntity> {
-    const existing = await this.repo.findByIdForUser(id, userId);
+    const existing = await this.repo.findById(id);
     if (!existing) throw new NotFoundException('Itinerary not found');
     if (dto.tripId && dto.tripId !== existing.tripId) {
-      const ok = await this.repo.tripOwnedByUser(dto.tripId, userId);
-      if (!ok) throw new ForbiddenException('Trip not accessible');
+      await this.accessService.assertAccess(
+        TripResourceType.TRIP,
+        dto.tripId,
+        userId,
+        MemberRole.EDITOR,
+      );
     }
 
     // Determine target tripId and dayNumber for potential recompute
@@ -99,7 +107,7 @@ export class ItineraryService {
   }
 
   async remove(userId: string, id: string): Promise<void> {
-    const existing = await this.repo.findByIdForUser(id, userId);
+    const existing = await this.repo.findById(id);
     if (!existing) throw new NotFoundException('Itinerary not found');
     await this.repo.remove(id);
   }
@@ -7,7 +7,7 @@ import { randomUUID } from 'crypto';
 import type { NextFunction, Request, Response } from 'express';
 
 async function bootstrap(): Promise<void> {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   const port = process.env.PORT ?? 3000;
 
   app.use(cookieParser());
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessionInfoToRefreshTokens1765400000000
+  implements MigrationInterface
+{
+  name = 'AddSessionInfoToRefreshTokens1765400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "family_id" uuid`,
+    );
+    // Existing tokens each start their own family
+    await queryRunner.query(
+      `UPDATE "refresh_tokens" SET "family_id" = "id" WHERE "family_id" IS NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ALTER COLUMN "family_id" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "replaced_by_id" uuid`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "user_agent" varchar(512)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ADD COLUMN IF NOT EXISTS "ip_address" varchar(64)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_refresh_tokens_family" ON "refresh_tokens" ("family_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_refresh_tokens_family"`);
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "ip_address"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "user_agent"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "replaced_by_id"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" DROP COLUMN IF EXISTS "family_id"`,
+    );
+  }
+}
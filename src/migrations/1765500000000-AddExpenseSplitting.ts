@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddExpenseSplitting1765500000000 implements MigrationInterface {
+  name = 'AddExpenseSplitting1765500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "expense_split_type_enum" AS ENUM ('equal', 'exact', 'percentage', 'shares');
+      EXCEPTION WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" ADD COLUMN IF NOT EXISTS "paid_by_member_id" uuid`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" ADD COLUMN IF NOT EXISTS "split_type" "expense_split_type_enum"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "budget_items"
+      ADD CONSTRAINT "FK_budget_items_paid_by_member" FOREIGN KEY ("paid_by_member_id") REFERENCES "trip_members"("id") ON DELETE SET NULL
+    `);
+
+    if (!(await queryRunner.hasTable('budget_item_splits'))) {
+      await queryRunner.query(`
+        CREATE TABLE "budget_item_splits" (
+          "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "item_id" uuid NOT NULL,
+          "member_id" uuid NOT NULL,
+          "value" numeric(12,4),
+          "amount" numeric(12,2) NOT NULL,
+          CONSTRAINT "PK_budget_item_splits" PRIMARY KEY ("id"),
+          CONSTRAINT "UQ_budget_item_splits_item_member" UNIQUE ("item_id", "member_id"),
+          CONSTRAINT "FK_budget_item_splits_item" FOREIGN KEY ("item_id") REFERENCES "budget_items"("id") ON DELETE CASCADE,
+          CONSTRAINT "FK_budget_item_splits_member" FOREIGN KEY ("member_id") REFERENCES "trip_members"("id") ON DELETE CASCADE
+        )
+      `);
+      await queryRunner.query(
+        `CREATE INDEX "IDX_budget_item_splits_member" ON "budget_item_splits" ("member_id")`,
+      );
+    }
+
+    if (!(await queryRunner.hasTable('budget_settlements'))) {
+      await queryRunner.query(`
+        CREATE TABLE "budget_settlements" (
+          "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+          "trip_budget_id" uuid NOT NULL,
+          "from_member_id" uuid NOT NULL,
+          "to_member_id" uuid NOT NULL,
+          "amount" numeric(12,2) NOT NULL,
+          "currency" character varying(3) NOT NULL,
+          "note" text,
+          "created_by" uuid,
+          "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+          CONSTRAINT "PK_budget_settlements" PRIMARY KEY ("id"),
+          CONSTRAINT "FK_budget_settlements_budget" FOREIGN KEY ("trip_budget_id") REFERENCES "trip_budgets"("id") ON DELETE CASCADE,
+          CONSTRAINT "FK_budget_settlements_from_member" FOREIGN KEY ("from_member_id") REFERENCES "trip_members"("id") ON DELETE CASCADE,
+          CONSTRAINT "FK_budget_settlements_to_member" FOREIGN KEY ("to_member_id") REFERENCES "trip_members"("id") ON DELETE CASCADE
+        )
+      `);
+      await queryRunner.query(
+        `CREATE INDEX "IDX_budget_settlements_budget" ON "budget_settlements" ("trip_budget_id")`,
+      );
+    }
+
+    await queryRunner.query(
+      `ALTER TYPE "budget_audit_action_enum" ADD VALUE IF NOT EXISTS 'RECORD_SETTLEMENT'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop a single enum value; RECORD_SETTLEMENT stays
+    await queryRunner.query(`DROP TABLE IF EXISTS "budget_settlements"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "budget_item_splits"`);
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" DROP CONSTRAINT IF EXISTS "FK_budget_items_paid_by_member"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" DROP COLUMN IF EXISTS "split_type"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" DROP COLUMN IF EXISTS "paid_by_member_id"`,
+    );
+    await queryRunner.query(`DROP TYPE IF EXISTS "expense_split_type_enum"`);
+  }
+}
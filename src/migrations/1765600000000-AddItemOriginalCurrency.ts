@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddItemOriginalCurrency1765600000000
+  implements MigrationInterface
+{
+  name = 'AddItemOriginalCurrency1765600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" ADD COLUMN IF NOT EXISTS "original_amount" numeric(12,2)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" ADD COLUMN IF NOT EXISTS "original_currency" character varying(3)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" ADD COLUMN IF NOT EXISTS "exchange_rate" numeric(18,8) NOT NULL DEFAULT 1`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" ADD COLUMN IF NOT EXISTS "expense_date" date NOT NULL DEFAULT CURRENT_DATE`,
+    );
+
+    // Existing items were entered in the budget currency
+    await queryRunner.query(`
+      UPDATE "budget_items" i
+      SET "original_amount" = i."amount",
+          "original_currency" = b."currency",
+          "exchange_rate" = 1,
+          "expense_date" = i."created_at"::date
+      FROM "trip_budgets" b
+      WHERE b."id" = i."trip_budget_id" AND i."original_amount" IS NULL
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" ALTER COLUMN "original_amount" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" ALTER COLUMN "original_currency" SET NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" DROP COLUMN IF EXISTS "expense_date"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" DROP COLUMN IF EXISTS "exchange_rate"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" DROP COLUMN IF EXISTS "original_currency"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_items" DROP COLUMN IF EXISTS "original_amount"`,
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateExchangeRateSnapshots1765700000000
+  implements MigrationInterface
+{
+  name = 'CreateExchangeRateSnapshots1765700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasTable('exchange_rate_snapshots')) return;
+
+    await queryRunner.query(`
+      CREATE TABLE "exchange_rate_snapshots" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "base" character varying(3) NOT NULL,
+        "date" date NOT NULL,
+        "rates" jsonb NOT NULL,
+        "source" character varying(50) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_exchange_rate_snapshots" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_exchange_rate_snapshots_base_date" UNIQUE ("base", "date")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_exchange_rate_snapshots_date" ON "exchange_rate_snapshots" ("date")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "exchange_rate_snapshots"`);
+  }
+}
@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBudgetNotifications1765800000000 implements MigrationInterface {
+  name = 'AddBudgetNotifications1765800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "trip_budgets" ADD COLUMN IF NOT EXISTS "notify_thresholds" jsonb`,
+    );
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "notification_type_enum" AS ENUM ('budget_threshold');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+
+    if (await queryRunner.hasTable('notifications')) return;
+
+    await queryRunner.query(`
+      CREATE TABLE "notifications" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "type" "notification_type_enum" NOT NULL,
+        "title" character varying(255) NOT NULL,
+        "message" text NOT NULL,
+        "data" jsonb,
+        "read_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_notifications" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_notifications_user" FOREIGN KEY ("user_id")
+          REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_notifications_user_created" ON "notifications" ("user_id", "created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "notifications"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "notification_type_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "trip_budgets" DROP COLUMN IF EXISTS "notify_thresholds"`,
+    );
+  }
+}
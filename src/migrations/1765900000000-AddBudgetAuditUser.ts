@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBudgetAuditUser1765900000000 implements MigrationInterface {
+  name = 'AddBudgetAuditUser1765900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // user_id was never written before; drop anything that is not a uuid
+    await queryRunner.query(`
+      UPDATE "budget_audit_logs" SET "user_id" = NULL
+      WHERE "user_id" IS NOT NULL
+        AND "user_id" !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "budget_audit_logs" ALTER COLUMN "user_id" TYPE uuid USING "user_id"::uuid`,
+    );
+    await queryRunner.query(`
+      UPDATE "budget_audit_logs" a SET "user_id" = NULL
+      WHERE "user_id" IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM "users" u WHERE u."id" = a."user_id")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "budget_audit_logs"
+      ADD CONSTRAINT "FK_budget_audit_logs_user" FOREIGN KEY ("user_id")
+      REFERENCES "users"("id") ON DELETE SET NULL
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "idx_budget_audit_logs_budget_created" ON "budget_audit_logs" ("budget_id", "created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "idx_budget_audit_logs_budget_created"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_audit_logs" DROP CONSTRAINT IF EXISTS "FK_budget_audit_logs_user"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "budget_audit_logs" ALTER COLUMN "user_id" TYPE character varying USING "user_id"::text`,
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBudgetOverrunPolicy1766000000000 implements MigrationInterface {
+  name = 'AddBudgetOverrunPolicy1766000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "budget_overrun_policy_enum" AS ENUM ('block', 'warn', 'allow');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "trip_budgets" ADD COLUMN IF NOT EXISTS "overrun_policy" "budget_overrun_policy_enum" NOT NULL DEFAULT 'block'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "trip_budgets" DROP COLUMN IF EXISTS "overrun_policy"`,
+    );
+    await queryRunner.query(`DROP TYPE IF EXISTS "budget_overrun_policy_enum"`);
+  }
+}
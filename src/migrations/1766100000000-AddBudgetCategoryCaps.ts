@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBudgetCategoryCaps1766100000000 implements MigrationInterface {
+  name = 'AddBudgetCategoryCaps1766100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "trip_budgets"
+        ADD COLUMN IF NOT EXISTS "category_caps" jsonb,
+        ADD COLUMN IF NOT EXISTS "daily_allowance_enabled" boolean NOT NULL DEFAULT false,
+        ADD COLUMN IF NOT EXISTS "daily_allowance" numeric(12,2)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "trip_budgets"
+        DROP COLUMN IF EXISTS "daily_allowance",
+        DROP COLUMN IF EXISTS "daily_allowance_enabled",
+        DROP COLUMN IF EXISTS "category_caps"
+    `);
+  }
+}
@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPaymentLedger1766200000000 implements MigrationInterface {
+  name = 'AddPaymentLedger1766200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'payments_status_enum') THEN
+          ALTER TYPE "payments_status_enum" ADD VALUE IF NOT EXISTS 'VOIDED';
+        END IF;
+      END $$;
+    `);
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "payment_operation_enum" AS ENUM ('authorize', 'capture', 'refund', 'void');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+    // The booking tables predate the migrations, so only touch them if present
+    await queryRunner.query(`
+      DO $$ BEGIN
+        IF to_regclass('public.payments') IS NOT NULL THEN
+          ALTER TABLE "payments"
+            ADD COLUMN IF NOT EXISTS "operation" "payment_operation_enum" NOT NULL DEFAULT 'authorize',
+            ADD COLUMN IF NOT EXISTS "parent_payment_id" uuid,
+            ADD COLUMN IF NOT EXISTS "failure_reason" text;
+          IF NOT EXISTS (
+            SELECT 1 FROM pg_constraint WHERE conname = 'FK_payments_parent_payment'
+          ) THEN
+            ALTER TABLE "payments" ADD CONSTRAINT "FK_payments_parent_payment"
+              FOREIGN KEY ("parent_payment_id") REFERENCES "payments"("id") ON DELETE CASCADE;
+          END IF;
+          CREATE INDEX IF NOT EXISTS "IDX_payments_parent_payment_id" ON "payments" ("parent_payment_id");
+          CREATE INDEX IF NOT EXISTS "IDX_payments_provider_transaction_ref" ON "payments" ("provider", "transaction_ref");
+        END IF;
+      END $$;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_payments_provider_transaction_ref"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_payments_parent_payment_id"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE IF EXISTS "payments"
+        DROP CONSTRAINT IF EXISTS "FK_payments_parent_payment",
+        DROP COLUMN IF EXISTS "failure_reason",
+        DROP COLUMN IF EXISTS "parent_payment_id",
+        DROP COLUMN IF EXISTS "operation"
+    `);
+    await queryRunner.query(`DROP TYPE IF EXISTS "payment_operation_enum"`);
+    // Postgres cannot drop the VOIDED enum value; it is left in place
+  }
+}
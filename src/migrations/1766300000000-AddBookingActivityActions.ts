@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const BOOKING_ACTIONS = [
+  'booking_cancel_requested',
+  'booking_provider_cancelled',
+  'booking_cancel_failed',
+  'booking_payment_settled',
+  'booking_budget_updated',
+  'booking_cancelled',
+];
+
+export class AddBookingActivityActions1766300000000
+  implements MigrationInterface
+{
+  name = 'AddBookingActivityActions1766300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const action of BOOKING_ACTIONS) {
+      await queryRunner.query(
+        `ALTER TYPE "activity_action_enum" ADD VALUE IF NOT EXISTS '${action}'`,
+      );
+    }
+  }
+
+  public async down(): Promise<void> {
+    // Postgres cannot drop enum values; the extra actions are left in place
+  }
+}
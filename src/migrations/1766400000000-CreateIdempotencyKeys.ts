@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateIdempotencyKeys1766400000000 implements MigrationInterface {
+  name = 'CreateIdempotencyKeys1766400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "idempotency_key_status_enum" AS ENUM ('in_progress', 'completed');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+
+    if (await queryRunner.hasTable('idempotency_keys')) return;
+
+    await queryRunner.query(`
+      CREATE TABLE "idempotency_keys" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "key" character varying(255) NOT NULL,
+        "scope" character varying(512) NOT NULL,
+        "request_hash" character varying(64) NOT NULL,
+        "status" "idempotency_key_status_enum" NOT NULL DEFAULT 'in_progress',
+        "response_status" integer,
+        "response_body" jsonb,
+        "expires_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_idempotency_keys" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_idempotency_keys_scope_key" ON "idempotency_keys" ("scope", "key")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_idempotency_keys_expires_at" ON "idempotency_keys" ("expires_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "idempotency_keys"`);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "idempotency_key_status_enum"`,
+    );
+  }
+}
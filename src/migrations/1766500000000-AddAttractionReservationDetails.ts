@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAttractionReservationDetails1766500000000
+  implements MigrationInterface
+{
+  name = 'AddAttractionReservationDetails1766500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The booking tables predate the migrations, so only touch them if present
+    await queryRunner.query(`
+      DO $$ BEGIN
+        IF to_regclass('public.attraction_reservations') IS NOT NULL THEN
+          ALTER TABLE "attraction_reservations"
+            ADD COLUMN IF NOT EXISTS "activity_id" uuid,
+            ADD COLUMN IF NOT EXISTS "title" character varying(255) NOT NULL DEFAULT '',
+            ADD COLUMN IF NOT EXISTS "confirmation_code" character varying(100),
+            ADD COLUMN IF NOT EXISTS "attachments" jsonb NOT NULL DEFAULT '[]'::jsonb;
+          IF NOT EXISTS (
+            SELECT 1 FROM pg_constraint WHERE conname = 'FK_attraction_reservations_activity'
+          ) THEN
+            ALTER TABLE "attraction_reservations"
+              ADD CONSTRAINT "FK_attraction_reservations_activity"
+              FOREIGN KEY ("activity_id") REFERENCES "activities"("id") ON DELETE SET NULL;
+          END IF;
+          CREATE INDEX IF NOT EXISTS "IDX_attraction_reservations_activity_id"
+            ON "attraction_reservations" ("activity_id");
+        END IF;
+      END $$;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        IF to_regclass('public.attraction_reservations') IS NOT NULL THEN
+          DROP INDEX IF EXISTS "IDX_attraction_reservations_activity_id";
+          ALTER TABLE "attraction_reservations"
+            DROP CONSTRAINT IF EXISTS "FK_attraction_reservations_activity",
+            DROP COLUMN IF EXISTS "attachments",
+            DROP COLUMN IF EXISTS "confirmation_code",
+            DROP COLUMN IF EXISTS "title",
+            DROP COLUMN IF EXISTS "activity_id";
+        END IF;
+      END $$;
+    `);
+  }
+}
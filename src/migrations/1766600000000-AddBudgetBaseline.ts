@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBudgetBaseline1766600000000 implements MigrationInterface {
+  name = 'AddBudgetBaseline1766600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "trip_budgets" ADD COLUMN IF NOT EXISTS "baseline" jsonb
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "trip_budgets" DROP COLUMN IF EXISTS "baseline"
+    `);
+  }
+}
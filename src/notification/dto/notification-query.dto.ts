@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { PaginationDto } from 'src/shared/dto/page-query.dto';
+
+export class NotificationQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Only return unread notifications' })
+  @IsOptional()
+  // Reads the raw query value: implicit conversion turns 'false' into true
+  @Transform(
+    ({ obj, key }: { obj: Record<string, unknown>; key: string }) =>
+      obj[key] === true || obj[key] === 'true',
+  )
+  @IsBoolean()
+  unreadOnly?: boolean;
+}
@@ -0,0 +1,54 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { ResponseUtil } from 'src/shared/utils/response.util';
+import { NotificationService } from './notification.service';
+import { NotificationQueryDto } from './dto/notification-query.dto';
+
+@Controller('notifications')
+@ApiTags('Notifications')
+@ApiBearerAuth()
+export class NotificationController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List in-app notifications of the current user' })
+  async list(
+    @Req() req: AuthenticatedRequest,
+    @Query() query: NotificationQueryDto,
+  ) {
+    const result = await this.notificationService.listForUser(
+      req.user.id,
+      query,
+    );
+    return ResponseUtil.success(result);
+  }
+
+  @Patch('read-all')
+  @ApiOperation({ summary: 'Mark every notification as read' })
+  async markAllRead(@Req() req: AuthenticatedRequest) {
+    const result = await this.notificationService.markAllRead(req.user.id);
+    return ResponseUtil.success(result);
+  }
+
+  @Patch(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  async markRead(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const notification = await this.notificationService.markRead(
+      req.user.id,
+      id,
+    );
+    return ResponseUtil.success(notification);
+  }
+}
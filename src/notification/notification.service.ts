@@ -0,0 +1,73 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import {
+  NotificationEntity,
+  NotificationType,
+} from 'src/schemas/notification.entity';
+import { Paged, PaginationHelper } from 'src/shared/types/pagination';
+import { NotificationQueryDto } from './dto/notification-query.dto';
+
+export interface CreateNotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+@Injectable()
+export class NotificationService {
+  constructor(
+    @InjectRepository(NotificationEntity)
+    private readonly notificationRepo: Repository<NotificationEntity>,
+  ) {}
+
+  async createMany(inputs: CreateNotificationInput[]): Promise<void> {
+    if (!inputs.length) return;
+    await this.notificationRepo.insert(inputs);
+  }
+
+  async listForUser(
+    userId: string,
+    query: NotificationQueryDto,
+  ): Promise<Paged<NotificationEntity> & { unreadCount: number }> {
+    const { page, limit, skip } = PaginationHelper.validateParams(
+      query.page,
+      query.limit,
+    );
+    const [[items, total], unreadCount] = await Promise.all([
+      this.notificationRepo.findAndCount({
+        where: query.unreadOnly ? { userId, readAt: IsNull() } : { userId },
+        order: { createdAt: 'DESC' },
+        skip,
+        take: limit,
+      }),
+      this.notificationRepo.count({ where: { userId, readAt: IsNull() } }),
+    ]);
+    return {
+      ...PaginationHelper.createResult(items, total, page, limit),
+      unreadCount,
+    };
+  }
+
+  async markRead(userId: string, id: string): Promise<NotificationEntity> {
+    const notification = await this.notificationRepo.findOne({
+      where: { id, userId },
+    });
+    if (!notification) throw new NotFoundException('Notification not found');
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await this.notificationRepo.update(id, { readAt: notification.readAt });
+    }
+    return notification;
+  }
+
+  async markAllRead(userId: string): Promise<{ updated: number }> {
+    const result = await this.notificationRepo.update(
+      { userId, readAt: IsNull() },
+      { readAt: new Date() },
+    );
+    return { updated: result.affected ?? 0 };
+  }
+}
@@ -0,0 +1,51 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Min,
+} from 'class-validator';
+
+export class AuthorizePaymentDto {
+  @ApiProperty({ example: '8d6f3b45-1f2a-4c6b-a7d5-9b0a12345678' })
+  @IsUUID()
+  bookingId: string;
+
+  @ApiPropertyOptional({
+    example: 300,
+    description: 'Defaults to the booking total price',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @ApiPropertyOptional({
+    example: 'USD',
+    description: 'Defaults to the booking currency',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiPropertyOptional({
+    example: 'sandbox',
+    description: 'Defaults to PAYMENT_PROVIDER',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  provider?: string;
+
+  @ApiPropertyOptional({
+    example: { token: 'tok_visa' },
+    description: 'Provider-specific payment source',
+  })
+  @IsOptional()
+  @IsObject()
+  source?: Record<string, unknown>;
+}
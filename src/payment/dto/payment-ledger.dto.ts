@@ -0,0 +1,23 @@
+import { BookingStatus } from 'src/schemas/booking.entity';
+import { PaymentEntity, PaymentStatus } from 'src/schemas/payment.entity';
+
+export class PaymentSummaryDto {
+  /** Id of the authorization entry; operations address the payment by it */
+  id: string;
+  bookingId: string;
+  provider: string;
+  status: PaymentStatus;
+  currency: string;
+  transactionRef: string | null;
+  authorizedAmount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  /** Every ledger entry of the payment, oldest first */
+  entries: PaymentEntity[];
+}
+
+export class BookingPaymentsDto {
+  bookingId: string;
+  bookingStatus: BookingStatus;
+  payments: PaymentSummaryDto[];
+}
@@ -0,0 +1,127 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { PaymentService } from './payment.service';
+import { ResponseUtil } from '../shared/utils/response.util';
+import { AuthorizePaymentDto } from './dto/authorize-payment.dto';
+import { PaymentAmountDto } from './dto/payment-amount.dto';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { Idempotent } from 'src/idempotency/idempotent.decorator';
+import { Public } from 'src/auth/public.decorator';
+
+@ApiTags('Payment')
+@ApiBearerAuth()
+@Controller('payments')
+export class PaymentController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  @Post('authorize')
+  @Idempotent()
+  @ApiOperation({ summary: 'Authorize a payment for a booking' })
+  @ApiResponse({
+    status: 201,
+    description: 'Authorization recorded; check status for declines',
+  })
+  @ApiResponse({ status: 403, description: 'Editor role required on trip' })
+  async authorize(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: AuthorizePaymentDto,
+  ) {
+    const data = await this.paymentService.authorize(req.user.id, dto);
+    return ResponseUtil.success(data);
+  }
+
+  @Post(':id/capture')
+  @Idempotent()
+  @ApiOperation({ summary: 'Capture an authorized payment' })
+  @ApiParam({ name: 'id', description: 'Authorization payment ID' })
+  @ApiResponse({ status: 201, description: 'Capture recorded' })
+  @ApiResponse({ status: 400, description: 'Payment cannot be captured' })
+  async capture(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: PaymentAmountDto,
+  ) {
+    const data = await this.paymentService.capture(req.user.id, id, dto);
+    return ResponseUtil.success(data);
+  }
+
+  @Post(':id/refund')
+  @Idempotent()
+  @ApiOperation({ summary: 'Refund a captured payment, fully or partially' })
+  @ApiParam({ name: 'id', description: 'Authorization payment ID' })
+  @ApiResponse({ status: 201, description: 'Refund recorded' })
+  @ApiResponse({ status: 400, description: 'Payment cannot be refunded' })
+  async refund(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: PaymentAmountDto,
+  ) {
+    const data = await this.paymentService.refund(req.user.id, id, dto);
+    return ResponseUtil.success(data);
+  }
+
+  @Post(':id/void')
+  @Idempotent()
+  @ApiOperation({ summary: 'Void an authorization that was not captured' })
+  @ApiParam({ name: 'id', description: 'Authorization payment ID' })
+  @ApiResponse({ status: 201, description: 'Void recorded' })
+  @ApiResponse({ status: 400, description: 'Payment cannot be voided' })
+  async void(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    const data = await this.paymentService.void(req.user.id, id);
+    return ResponseUtil.success(data);
+  }
+
+  @Get('booking/:bookingId')
+  @ApiOperation({ summary: 'List payments and ledger entries of a booking' })
+  @ApiParam({ name: 'bookingId', description: 'Booking ID' })
+  @ApiResponse({ status: 200, description: 'Payments retrieved' })
+  async getBookingPayments(
+    @Req() req: AuthenticatedRequest,
+    @Param('bookingId', ParseUUIDPipe) bookingId: string,
+  ) {
+    const data = await this.paymentService.getBookingPayments(
+      req.user.id,
+      bookingId,
+    );
+    return ResponseUtil.success(data);
+  }
+
+  @Public()
+  @Post('webhooks/:provider')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Receive a signed payment provider callback' })
+  @ApiParam({ name: 'provider', description: 'Provider name, e.g. sandbox' })
+  @ApiResponse({ status: 200, description: 'Callback acknowledged' })
+  @ApiResponse({ status: 401, description: 'Invalid signature' })
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    const data = await this.paymentService.handleWebhook(
+      provider,
+      req.rawBody,
+      req.headers,
+    );
+    return ResponseUtil.success(data);
+  }
+}
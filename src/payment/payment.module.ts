@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PaymentService } from './payment.service';
+import { PaymentController } from './payment.controller';
+import { TripModule } from '../trip/trip.module';
+import { BookingSyncModule } from '../booking/booking-sync.module';
+import { BookingEntity } from '../schemas/booking.entity';
+import { PaymentEntity } from '../schemas/payment.entity';
+import { PAYMENT_PROVIDERS } from './providers/payment-provider.interface';
+import { SandboxPaymentProvider } from './providers/sandbox-payment.provider';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([BookingEntity, PaymentEntity]),
+    TripModule,
+    BookingSyncModule,
+  ],
+  controllers: [PaymentController],
+  providers: [
+    SandboxPaymentProvider,
+    {
+      provide: PAYMENT_PROVIDERS,
+      // The sandbox approves everything, so it never serves production
+      useFactory: (config: ConfigService, sandbox: SandboxPaymentProvider) =>
+        config.get<string>('NODE_ENV') === 'production' ? [] : [sandbox],
+      inject: [ConfigService, SandboxPaymentProvider],
+    },
+    PaymentService,
+  ],
+  exports: [PaymentService],
+})
+export class PaymentModule {}
@@ -0,0 +1,356 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, FindOperator, Repository } from 'typeorm';
+import { PaymentService } from './payment.service';
+import { SandboxPaymentProvider } from './providers/sandbox-payment.provider';
+import { BookingEntity, BookingStatus } from '../schemas/booking.entity';
+import {
+  PaymentEntity,
+  PaymentOperation,
+  PaymentStatus,
+} from '../schemas/payment.entity';
+import { TripCollaborationService } from '../trip/trip-collaboration.service';
+import { BookingSyncService } from '../booking/booking-sync.service';
+
+/** Where clauses used by the service: plain equality or IsNull() */
+const matches = (
+  row: Record<string, unknown>,
+  where: Record<string, unknown>,
+) =>
+  Object.entries(where).every(([key, value]) =>
+    value instanceof FindOperator ? row[key] == null : row[key] === value,
+  );
+
+describe('PaymentService', () => {
+  let ledger: PaymentEntity[];
+  let booking: BookingEntity;
+  let service: PaymentService;
+  let collaboration: { checkPermission: jest.Mock };
+  let sandbox: SandboxPaymentProvider;
+  const settings: Record<string, string | undefined> = {};
+  const config = {
+    get: jest.fn((key: string) => settings[key]),
+    getOrThrow: jest.fn((key: string) => {
+      if (!settings[key]) throw new Error(`${key} is not set`);
+      return settings[key];
+    }),
+  } as unknown as ConfigService;
+  const bookingSync = { sync: jest.fn() };
+
+  const paymentRepo = {
+    create: (data: Partial<PaymentEntity>) => ({ ...data }),
+    save: (entry: PaymentEntity) => {
+      const existing = ledger.find((row) => entry.id && row.id === entry.id);
+      if (existing) return Promise.resolve(Object.assign(existing, entry));
+      const saved = {
+        ...entry,
+        id: `pay-${ledger.length + 1}`,
+        createdAt: new Date(),
+      };
+      ledger.push(saved);
+      return Promise.resolve(saved);
+    },
+    find: ({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(ledger.filter((row) => matches({ ...row }, where))),
+    findOne: ({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(ledger.find((row) => matches({ ...row }, where)) ?? null),
+  };
+  const bookingRepo = {
+    findOne: jest.fn(() => Promise.resolve(booking)),
+  };
+  const manager = {
+    getRepository: () => paymentRepo,
+    update: jest.fn(
+      (_entity: unknown, _where: unknown, patch: Partial<BookingEntity>) => {
+        Object.assign(booking, patch);
+        return Promise.resolve();
+      },
+    ),
+  };
+  // Transactions run one at a time, as they would behind the row lock
+  let queue: Promise<unknown> = Promise.resolve();
+  const dataSource = {
+    transaction: (work: (m: typeof manager) => Promise<unknown>) => {
+      const run = queue.then(() => work(manager));
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ledger = [];
+    booking = {
+      id: 'booking-1',
+      tripId: 'trip-1',
+      userId: 'user-1',
+      status: BookingStatus.PENDING,
+      totalPrice: '300.00',
+      currency: 'USD',
+    } as BookingEntity;
+    collaboration = { checkPermission: jest.fn().mockResolvedValue(true) };
+    sandbox = new SandboxPaymentProvider(config);
+    service = new PaymentService(
+      paymentRepo as unknown as Repository<PaymentEntity>,
+      bookingRepo as unknown as Repository<BookingEntity>,
+      [sandbox],
+      collaboration as unknown as TripCollaborationService,
+      config,
+      bookingSync as unknown as BookingSyncService,
+      dataSource as unknown as DataSource,
+    );
+  });
+
+  it('walks a payment through authorize, capture and partial refunds', async () => {
+    const authorized = await service.authorize('user-1', {
+      bookingId: 'booking-1',
+    });
+    expect(authorized).toMatchObject({
+      status: PaymentStatus.AUTHORIZED,
+      authorizedAmount: 300,
+      provider: 'sandbox',
+    });
+    expect(booking.status).toBe(BookingStatus.CONFIRMED);
+
+    const captured = await service.capture('user-1', authorized.id, {});
+    expect(captured).toMatchObject({
+      status: PaymentStatus.CAPTURED,
+      capturedAmount: 300,
+    });
+
+    await service.refund('user-1', authorized.id, { amount: 100.1 });
+    await expect(
+      service.refund('user-1', authorized.id, { amount: 250 }),
+    ).rejects.toThrow(BadRequestException);
+    const refunded = await service.refund('user-1', authorized.id, {});
+
+    expect(refunded).toMatchObject({
+      status: PaymentStatus.REFUNDED,
+      refundedAmount: 300,
+    });
+    expect(refunded.entries.map((e) => [e.operation, e.amount])).toEqual([
+      [PaymentOperation.AUTHORIZE, '300.00'],
+      [PaymentOperation.CAPTURE, '300.00'],
+      [PaymentOperation.REFUND, '100.10'],
+      [PaymentOperation.REFUND, '199.90'],
+    ]);
+    expect(booking.status).toBe(BookingStatus.CANCELLED);
+    // Synced when confirmed and when cancelled, not on every entry
+    expect(bookingSync.sync).toHaveBeenCalledTimes(2);
+  });
+
+  it('re-checks the ledger under the lock so concurrent captures cannot both pass', async () => {
+    const authorized = await service.authorize('user-1', {
+      bookingId: 'booking-1',
+    });
+    const findOne = jest.spyOn(paymentRepo, 'findOne');
+
+    const results = await Promise.allSettled([
+      service.capture('user-1', authorized.id, {}),
+      service.capture('user-1', authorized.id, {}),
+    ]);
+
+    expect(results.map((r) => r.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(
+      ledger.filter((e) => e.operation === PaymentOperation.CAPTURE),
+    ).toHaveLength(1);
+    expect(findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ lock: { mode: 'pessimistic_write' } }),
+    );
+  });
+
+  it('voids an authorization and rejects capturing it afterwards', async () => {
+    const authorized = await service.authorize('user-1', {
+      bookingId: 'booking-1',
+      amount: 50,
+    });
+
+    const voided = await service.void('user-1', authorized.id);
+
+    expect(voided.status).toBe(PaymentStatus.VOIDED);
+    expect(booking.status).toBe(BookingStatus.CANCELLED);
+    await expect(service.capture('user-1', authorized.id, {})).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('records declines as failed entries without moving the booking', async () => {
+    const declined = await service.authorize('user-1', {
+      bookingId: 'booking-1',
+      source: { token: 'tok_declined' },
+    });
+    expect(declined.status).toBe(PaymentStatus.FAILED);
+    expect(ledger[0].failureReason).toBe('Card declined');
+    expect(booking.status).toBe(BookingStatus.PENDING);
+
+    const authorized = await service.authorize('user-1', {
+      bookingId: 'booking-1',
+      source: { token: 'tok_capture_declined' },
+    });
+    const capture = await service.capture('user-1', authorized.id, {});
+
+    expect(capture.status).toBe(PaymentStatus.AUTHORIZED);
+    expect(capture.entries[1]).toMatchObject({
+      status: PaymentStatus.FAILED,
+      failureReason: 'Sandbox declined the capture',
+    });
+  });
+
+  it('requires editor access on the trip', async () => {
+    collaboration.checkPermission.mockResolvedValue(false);
+
+    await expect(
+      service.authorize('user-2', { bookingId: 'booking-1' }),
+    ).rejects.toThrow('You need editor role or higher on this trip');
+  });
+
+  it('settles a cancelled booking, keeping the fee', async () => {
+    const captured = await service.authorize('user-1', {
+      bookingId: 'booking-1',
+    });
+    await service.capture('user-1', captured.id, {});
+    ledger.push({
+      id: 'pay-amadeus',
+      bookingId: 'booking-1',
+      provider: 'amadeus',
+      operation: PaymentOperation.AUTHORIZE,
+      status: PaymentStatus.AUTHORIZED,
+      amount: '80.00',
+      currency: 'USD',
+      transactionRef: 'ORDER1',
+    } as PaymentEntity);
+    booking.status = BookingStatus.CANCELLED;
+
+    const settled = await service.settleCancellation(booking, 50);
+
+    expect(
+      settled.map((p) => [p.provider, p.status, p.refundedAmount]),
+    ).toEqual([
+      ['sandbox', PaymentStatus.CAPTURED, 250],
+      ['amadeus', PaymentStatus.VOIDED, 0],
+    ]);
+    expect(ledger.at(-1)).toMatchObject({
+      parentPaymentId: 'pay-amadeus',
+      operation: PaymentOperation.VOID,
+      providerPayload: { settledBy: 'booking-cancellation' },
+    });
+    expect(booking.status).toBe(BookingStatus.CANCELLED);
+  });
+
+  it('settles a cancellation under the payment lock so a concurrent refund cannot double it', async () => {
+    const authorized = await service.authorize('user-1', {
+      bookingId: 'booking-1',
+    });
+    await service.capture('user-1', authorized.id, {});
+    booking.status = BookingStatus.CANCELLED;
+    const findOne = jest.spyOn(paymentRepo, 'findOne');
+    findOne.mockClear();
+
+    await Promise.allSettled([
+      service.refund('user-1', authorized.id, {}),
+      service.settleCancellation(booking, 50),
+    ]);
+
+    const refunded = ledger
+      .filter((e) => e.operation === PaymentOperation.REFUND)
+      .reduce((sum, e) => sum + Number(e.amount), 0);
+    expect(refunded).toBe(300);
+    const locks = findOne.mock.calls.filter(([options]) =>
+      Object.prototype.hasOwnProperty.call(options, 'lock'),
+    );
+    expect(locks).toHaveLength(2);
+  });
+
+  describe('handleWebhook', () => {
+    beforeEach(() => {
+      settings.PAYMENT_SANDBOX_WEBHOOK_SECRET = 'whsec_test';
+    });
+    afterEach(() => {
+      delete settings.PAYMENT_SANDBOX_WEBHOOK_SECRET;
+    });
+
+    const deliver = (body: Record<string, unknown>, signature?: string) => {
+      const raw = Buffer.from(JSON.stringify(body));
+      return service.handleWebhook('sandbox', raw, {
+        [SandboxPaymentProvider.SIGNATURE_HEADER]:
+          signature ?? sandbox.sign(raw),
+      });
+    };
+
+    it('rejects callbacks with a bad signature', async () => {
+      await expect(
+        deliver({ id: 'evt-1', operation: 'capture' }, 'forged'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('rejects every callback while no secret is configured', async () => {
+      const raw = Buffer.from(JSON.stringify({ id: 'evt-1' }));
+      const signature = sandbox.sign(raw);
+      delete settings.PAYMENT_SANDBOX_WEBHOOK_SECRET;
+
+      await expect(
+        service.handleWebhook('sandbox', raw, {
+          [SandboxPaymentProvider.SIGNATURE_HEADER]: signature,
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('applies an event once and ignores redeliveries', async () => {
+      const authorized = await service.authorize('user-1', {
+        bookingId: 'booking-1',
+      });
+      const event = {
+        id: 'evt-1',
+        operation: 'capture',
+        transactionRef: authorized.transactionRef,
+        amount: 120,
+      };
+
+      await expect(deliver(event)).resolves.toEqual({ processed: true });
+      await expect(deliver(event)).resolves.toEqual({ processed: false });
+
+      const { payments } = await service.getBookingPayments(
+        'user-1',
+        'booking-1',
+      );
+      expect(payments[0]).toMatchObject({
+        status: PaymentStatus.CAPTURED,
+        capturedAmount: 120,
+      });
+      expect(payments[0].entries).toHaveLength(2);
+    });
+
+    it('matches a callback to the operation the API already recorded', async () => {
+      const authorized = await service.authorize('user-1', {
+        bookingId: 'booking-1',
+      });
+      const captured = await service.capture('user-1', authorized.id, {});
+      const operationRef = captured.entries[1].providerPayload?.operationRef;
+      expect(operationRef).toEqual(expect.any(String));
+      const event = {
+        operation: 'capture',
+        transactionRef: authorized.transactionRef,
+        operationRef,
+      };
+
+      await expect(deliver({ ...event, id: 'evt-1' })).resolves.toEqual({
+        processed: false,
+      });
+      await expect(
+        deliver({ ...event, id: 'evt-2', success: false }),
+      ).resolves.toEqual({ processed: true });
+
+      const captures = ledger.filter(
+        (e) => e.operation === PaymentOperation.CAPTURE,
+      );
+      expect(captures).toHaveLength(1);
+      expect(captures[0]).toMatchObject({
+        status: PaymentStatus.FAILED,
+        failureReason: 'Declined by provider',
+      });
+    });
+  });
+});
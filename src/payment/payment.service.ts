@@ -0,0 +1,651 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, IsNull, Repository } from 'typeorm';
+import { BookingEntity, BookingStatus } from 'src/schemas/booking.entity';
+import {
+  PaymentEntity,
+  PaymentOperation,
+  PaymentStatus,
+} from 'src/schemas/payment.entity';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { TripCollaborationService } from 'src/trip/trip-collaboration.service';
+import { BookingSyncService } from 'src/booking/booking-sync.service';
+import {
+  PAYMENT_PROVIDERS,
+  PaymentProvider,
+  PaymentProviderResult,
+  PaymentWebhookEvent,
+} from './providers/payment-provider.interface';
+import { AuthorizePaymentDto } from './dto/authorize-payment.dto';
+import { PaymentAmountDto } from './dto/payment-amount.dto';
+import {
+  BookingPaymentsDto,
+  PaymentSummaryDto,
+} from './dto/payment-ledger.dto';
+import { deriveBookingStatus, paymentState } from './utils/payment-ledger.util';
+import { toCents } from 'src/shared/utils/money.util';
+
+/** A ledger row to append, before it is saved */
+interface LedgerEntry {
+  operation: PaymentOperation;
+  status: PaymentStatus;
+  provider: string;
+  amount: number;
+  currency: string;
+  parentPaymentId?: string;
+  result: PaymentProviderResult;
+}
+
+/**
+ * Payment ledger for bookings. Every operation, successful or not, is
+ * appended to `payments` and the booking status is re-derived from the
+ * resulting payment states.
+ */
+@Injectable()
+export class PaymentService {
+  private readonly logger = new Logger(PaymentService.name);
+
+  constructor(
+    @InjectRepository(PaymentEntity)
+    private readonly paymentRepo: Repository<PaymentEntity>,
+    @InjectRepository(BookingEntity)
+    private readonly bookingRepo: Repository<BookingEntity>,
+    @Inject(PAYMENT_PROVIDERS)
+    private readonly providers: PaymentProvider[],
+    private readonly collaborationService: TripCollaborationService,
+    private readonly configService: ConfigService,
+    private readonly bookingSync: BookingSyncService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async authorize(
+    userId: string,
+    dto: AuthorizePaymentDto,
+  ): Promise<PaymentSummaryDto> {
+    const booking = await this.findBooking(dto.bookingId);
+    await this.assertTripRole(booking.tripId, userId, MemberRole.EDITOR);
+    if (booking.status === BookingStatus.CANCELLED) {
+      throw new BadRequestException('Cannot pay for a cancelled booking');
+    }
+
+    const amount = dto.amount ?? Number(booking.totalPrice ?? 0);
+    if (!(amount > 0)) {
+      throw new BadRequestException(
+        'Payment amount is required when the booking has no price',
+      );
+    }
+    const currency = (dto.currency ?? booking.currency).toUpperCase();
+    const provider = this.getProvider(
+      dto.provider ??
+        this.configService.get<string>('PAYMENT_PROVIDER') ??
+        'sandbox',
+    );
+
+    const result = await provider.authorize({
+      reference: booking.id,
+      amount,
+      currency,
+      source: dto.source,
+    });
+    const entry = await this.record(booking, {
+      operation: PaymentOperation.AUTHORIZE,
+      status: result.success ? PaymentStatus.AUTHORIZED : PaymentStatus.FAILED,
+      provider: provider.name,
+      amount,
+      currency,
+      result,
+    });
+    return this.summarize(entry, []);
+  }
+
+  /** Capture an authorization, in full unless an amount is given */
+  async capture(
+    userId: string,
+    paymentId: string,
+    dto: PaymentAmountDto,
+  ): Promise<PaymentSummaryDto> {
+    return this.operate(userId, paymentId, PaymentOperation.CAPTURE, dto);
+  }
+
+  /** Refund captured money, all that is left unless an amount is given */
+  async refund(
+    userId: string,
+    paymentId: string,
+    dto: PaymentAmountDto,
+  ): Promise<PaymentSummaryDto> {
+    return this.operate(userId, paymentId, PaymentOperation.REFUND, dto);
+  }
+
+  /** Release an authorization that was not captured */
+  async void(userId: string, paymentId: string): Promise<PaymentSummaryDto> {
+    return this.operate(userId, paymentId, PaymentOperation.VOID, {});
+  }
+
+  async getBookingPayments(
+    userId: string,
+    bookingId: string,
+  ): Promise<BookingPaymentsDto> {
+    const booking = await this.findBooking(bookingId);
+    if (booking.userId !== userId) {
+      await this.assertTripRole(booking.tripId, userId, MemberRole.VIEWER);
+    }
+
+    const entries = await this.paymentRepo.find({
+      where: { bookingId },
+      order: { createdAt: 'ASC' },
+    });
+    const payments = entries
+      .filter((entry) => !entry.parentPaymentId)
+      .map((authorization) =>
+        this.summarize(
+          authorization,
+          entries.filter((e) => e.parentPaymentId === authorization.id),
+        ),
+      );
+    return { bookingId, bookingStatus: booking.status, payments };
+  }
+
+  /**
+   * Release the money of a cancelled booking. The provider keeps up to `fee`
+   * across its payments, oldest first: held authorizations are captured for
+   * their share of the fee or voided, captured ones refunded down to it.
+   * Payments taken by a provider that is not plugged in here, such as
+   * Amadeus guarantees, are settled by the order cancellation itself and
+   * only recorded.
+   */
+  async settleCancellation(
+    booking: BookingEntity,
+    fee: number,
+  ): Promise<PaymentSummaryDto[]> {
+    const authorizations = await this.paymentRepo.find({
+      where: { bookingId: booking.id, parentPaymentId: IsNull() },
+      order: { createdAt: 'ASC' },
+    });
+    const previousStatus = booking.status;
+    let feeLeft = toCents(fee);
+    const settled: PaymentSummaryDto[] = [];
+
+    for (const authorization of authorizations) {
+      const provider = this.providers.find(
+        (p) => p.name === authorization.provider,
+      );
+      const entries = await this.lockedLedger(
+        authorization.id,
+        async (manager, children) => {
+          const state = paymentState(authorization, children);
+          let operation: PaymentOperation;
+          let amount: number;
+          if (state.status === PaymentStatus.AUTHORIZED) {
+            const kept = Math.min(feeLeft, toCents(state.authorizedAmount));
+            feeLeft -= kept;
+            operation = kept ? PaymentOperation.CAPTURE : PaymentOperation.VOID;
+            amount = kept ? kept / 100 : state.authorizedAmount;
+          } else if (state.status === PaymentStatus.CAPTURED) {
+            const net =
+              toCents(state.capturedAmount) - toCents(state.refundedAmount);
+            const kept = Math.min(feeLeft, net);
+            feeLeft -= kept;
+            if (kept === net) return null;
+            operation = PaymentOperation.REFUND;
+            amount = (net - kept) / 100;
+          } else {
+            return null;
+          }
+          this.checkTransition(authorization, children, operation, amount);
+
+          const entry = await this.appendEntry(
+            manager,
+            booking,
+            provider
+              ? this.providerEntry(
+                  provider,
+                  authorization,
+                  operation,
+                  amount,
+                  await this.callProvider(
+                    provider,
+                    authorization,
+                    operation,
+                    amount,
+                  ),
+                )
+              : {
+                  operation,
+                  status: this.statusAfter(operation, true),
+                  provider: authorization.provider,
+                  amount,
+                  currency: authorization.currency,
+                  parentPaymentId: authorization.id,
+                  result: {
+                    success: true,
+                    transactionRef: authorization.transactionRef,
+                    payload: { settledBy: 'booking-cancellation' },
+                  },
+                },
+          );
+          return [...children, entry];
+        },
+      );
+      if (entries) settled.push(this.summarize(authorization, entries));
+    }
+    await this.syncBookingStatus(booking, previousStatus);
+    return settled;
+  }
+
+  /**
+   * Apply a provider callback. Unknown transactions, redelivered events and
+   * transitions the ledger does not allow are acknowledged but ignored, so
+   * the provider stops retrying them. A callback about an operation already
+   * recorded through the API is matched by its `operationRef` and only
+   * corrects that entry.
+   */
+  async handleWebhook(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<{ processed: boolean }> {
+    const provider = this.getProvider(providerName);
+    if (!rawBody || !provider.verifyWebhookSignature(rawBody, headers)) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+    const event = provider.parseWebhookEvent(rawBody);
+    if (!event) throw new BadRequestException('Unrecognised webhook event');
+    if (event.operation === PaymentOperation.AUTHORIZE) {
+      return { processed: false };
+    }
+
+    const authorization = await this.paymentRepo.findOne({
+      where: {
+        provider: provider.name,
+        transactionRef: event.transactionRef,
+        parentPaymentId: IsNull(),
+      },
+    });
+    if (!authorization) {
+      this.logger.warn(
+        `Ignoring ${provider.name} event ${event.id} for unknown transaction ${event.transactionRef}`,
+      );
+      return { processed: false };
+    }
+
+    const booking = await this.findBooking(authorization.bookingId);
+    const previousStatus = booking.status;
+    const processed = await this.lockedLedger(
+      authorization.id,
+      async (manager, entries) => {
+        if (entries.some((e) => e.providerPayload?.eventId === event.id)) {
+          return false;
+        }
+        // The API call that started the operation may have recorded it
+        const recorded =
+          event.operationRef &&
+          entries.find(
+            (e) =>
+              e.operation === event.operation &&
+              e.providerPayload?.operationRef === event.operationRef,
+          );
+        if (recorded) {
+          return this.reconcileEntry(manager, booking, recorded, event);
+        }
+
+        let amount: number;
+        try {
+          amount = this.checkTransition(
+            authorization,
+            entries,
+            event.operation,
+            event.amount,
+          );
+        } catch (error: unknown) {
+          this.logger.warn(
+            `Ignoring ${provider.name} event ${event.id}: ${(error as Error).message}`,
+          );
+          return false;
+        }
+        await this.appendEntry(manager, booking, {
+          operation: event.operation,
+          status: this.statusAfter(event.operation, event.success),
+          provider: provider.name,
+          amount,
+          currency: authorization.currency,
+          parentPaymentId: authorization.id,
+          result: {
+            success: event.success,
+            transactionRef: event.transactionRef,
+            operationRef: event.operationRef,
+            failureReason: event.failureReason,
+            payload: { ...event.payload, eventId: event.id },
+          },
+        });
+        return true;
+      },
+    );
+    await this.syncBookingStatus(booking, previousStatus);
+    return { processed };
+  }
+
+  /**
+   * Bring an entry the API already recorded in line with the provider's
+   * callback about it. Only a changed outcome updates the ledger.
+   */
+  private async reconcileEntry(
+    manager: EntityManager,
+    booking: BookingEntity,
+    entry: PaymentEntity,
+    event: PaymentWebhookEvent,
+  ): Promise<boolean> {
+    const status = this.statusAfter(event.operation, event.success);
+    if (entry.status === status) return false;
+
+    await manager.getRepository(PaymentEntity).save({
+      ...entry,
+      status,
+      failureReason: event.success
+        ? null
+        : (event.failureReason ?? 'Declined by provider'),
+      providerPayload: { ...entry.providerPayload, eventId: event.id },
+    });
+    await this.refreshBookingStatus(manager, booking);
+    return true;
+  }
+
+  /**
+   * Run a capture, refund or void. The authorization row stays locked from
+   * the ledger check until the new entry is written.
+   */
+  private async operate(
+    userId: string,
+    paymentId: string,
+    operation: PaymentOperation,
+    dto: PaymentAmountDto,
+  ): Promise<PaymentSummaryDto> {
+    const authorization = await this.paymentRepo.findOne({
+      where: { id: paymentId, parentPaymentId: IsNull() },
+    });
+    if (!authorization) throw new NotFoundException('Payment not found');
+    const booking = await this.findBooking(authorization.bookingId);
+    await this.assertTripRole(booking.tripId, userId, MemberRole.EDITOR);
+    const provider = this.getProvider(authorization.provider);
+
+    const previousStatus = booking.status;
+    const { entries, entry } = await this.lockedLedger(
+      authorization.id,
+      async (manager, entries) => {
+        const amount = this.checkTransition(
+          authorization,
+          entries,
+          operation,
+          dto.amount,
+        );
+        const result = await this.callProvider(
+          provider,
+          authorization,
+          operation,
+          amount,
+        );
+        const entry = await this.appendEntry(
+          manager,
+          booking,
+          this.providerEntry(
+            provider,
+            authorization,
+            operation,
+            amount,
+            result,
+          ),
+        );
+        return { entries, entry };
+      },
+    );
+    await this.syncBookingStatus(booking, previousStatus);
+    return this.summarize(authorization, [...entries, entry]);
+  }
+
+  /**
+   * Run `work` with the authorization row locked and its entries re-read.
+   * Every path that checks the ledger and then moves money goes through
+   * here, so two of them cannot both pass the check on one payment.
+   */
+  private lockedLedger<T>(
+    authorizationId: string,
+    work: (manager: EntityManager, entries: PaymentEntity[]) => Promise<T>,
+  ): Promise<T> {
+    return this.dataSource.transaction(async (manager) => {
+      const paymentRepoTx = manager.getRepository(PaymentEntity);
+      await paymentRepoTx.findOne({
+        where: { id: authorizationId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const entries = await paymentRepoTx.find({
+        where: { parentPaymentId: authorizationId },
+        order: { createdAt: 'ASC' },
+      });
+      return work(manager, entries);
+    });
+  }
+
+  private callProvider(
+    provider: PaymentProvider,
+    authorization: PaymentEntity,
+    operation: PaymentOperation,
+    amount: number,
+  ): Promise<PaymentProviderResult> {
+    const ref = authorization.transactionRef ?? '';
+    if (operation === PaymentOperation.CAPTURE) {
+      return provider.capture(ref, amount, authorization.currency);
+    }
+    if (operation === PaymentOperation.REFUND) {
+      return provider.refund(ref, amount, authorization.currency);
+    }
+    return provider.void(ref);
+  }
+
+  private providerEntry(
+    provider: PaymentProvider,
+    authorization: PaymentEntity,
+    operation: PaymentOperation,
+    amount: number,
+    result: PaymentProviderResult,
+  ): LedgerEntry {
+    return {
+      operation,
+      status: this.statusAfter(operation, result.success),
+      provider: provider.name,
+      amount,
+      currency: authorization.currency,
+      parentPaymentId: authorization.id,
+      result: {
+        ...result,
+        transactionRef: result.transactionRef ?? authorization.transactionRef,
+      },
+    };
+  }
+
+  /**
+   * Reject operations the payment state does not allow. Returns the amount
+   * the operation moves, defaulting to everything outstanding.
+   */
+  private checkTransition(
+    authorization: PaymentEntity,
+    entries: PaymentEntity[],
+    operation: PaymentOperation,
+    requested?: number,
+  ): number {
+    const state = paymentState(authorization, entries);
+    const outstanding: Partial<Record<PaymentOperation, number>> = {
+      [PaymentOperation.CAPTURE]:
+        state.status === PaymentStatus.AUTHORIZED ? state.authorizedAmount : 0,
+      [PaymentOperation.REFUND]:
+        state.status === PaymentStatus.CAPTURED
+          ? (toCents(state.capturedAmount) - toCents(state.refundedAmount)) /
+            100
+          : 0,
+      [PaymentOperation.VOID]:
+        state.status === PaymentStatus.AUTHORIZED ? state.authorizedAmount : 0,
+    };
+    const available = outstanding[operation] ?? 0;
+    if (!available) {
+      throw new BadRequestException(
+        `Cannot ${operation} a payment that is ${state.status}`,
+      );
+    }
+    if (operation === PaymentOperation.VOID || requested === undefined) {
+      return available;
+    }
+    if (toCents(requested) > toCents(available)) {
+      throw new BadRequestException(
+        `Cannot ${operation} more than ${available} ${authorization.currency}`,
+      );
+    }
+    return requested;
+  }
+
+  private statusAfter(
+    operation: PaymentOperation,
+    success: boolean,
+  ): PaymentStatus {
+    if (!success) return PaymentStatus.FAILED;
+    const statuses: Record<PaymentOperation, PaymentStatus> = {
+      [PaymentOperation.AUTHORIZE]: PaymentStatus.AUTHORIZED,
+      [PaymentOperation.CAPTURE]: PaymentStatus.CAPTURED,
+      [PaymentOperation.REFUND]: PaymentStatus.REFUNDED,
+      [PaymentOperation.VOID]: PaymentStatus.VOIDED,
+    };
+    return statuses[operation];
+  }
+
+  /**
+   * Append a ledger entry and re-derive the booking status with it; a new
+   * status is synced into the itinerary and budget
+   */
+  private async record(
+    booking: BookingEntity,
+    entry: LedgerEntry,
+  ): Promise<PaymentEntity> {
+    const previousStatus = booking.status;
+    const saved = await this.dataSource.transaction((manager) =>
+      this.appendEntry(manager, booking, entry),
+    );
+    await this.syncBookingStatus(booking, previousStatus);
+    return saved;
+  }
+
+  private async appendEntry(
+    manager: EntityManager,
+    booking: BookingEntity,
+    entry: LedgerEntry,
+  ): Promise<PaymentEntity> {
+    const paymentRepoTx = manager.getRepository(PaymentEntity);
+    const saved = await paymentRepoTx.save(
+      paymentRepoTx.create({
+        bookingId: booking.id,
+        provider: entry.provider,
+        operation: entry.operation,
+        status: entry.status,
+        parentPaymentId: entry.parentPaymentId ?? null,
+        transactionRef: entry.result.transactionRef,
+        amount: Number(entry.amount).toFixed(2),
+        currency: entry.currency,
+        failureReason: entry.result.success
+          ? null
+          : (entry.result.failureReason ?? 'Declined by provider'),
+        providerPayload: entry.result.operationRef
+          ? { ...entry.result.payload, operationRef: entry.result.operationRef }
+          : entry.result.payload,
+      }),
+    );
+    await this.refreshBookingStatus(manager, booking);
+    return saved;
+  }
+
+  /** Re-derive the booking status from the payment states */
+  private async refreshBookingStatus(
+    manager: EntityManager,
+    booking: BookingEntity,
+  ): Promise<void> {
+    const paymentRepoTx = manager.getRepository(PaymentEntity);
+    const entries = await paymentRepoTx.find({
+      where: { bookingId: booking.id },
+    });
+    const states = entries
+      .filter((e) => !e.parentPaymentId)
+      .map(
+        (authorization) =>
+          paymentState(
+            authorization,
+            entries.filter((e) => e.parentPaymentId === authorization.id),
+          ).status,
+      );
+    const status = deriveBookingStatus(booking.status, states);
+    if (status !== booking.status) {
+      await manager.update(BookingEntity, { id: booking.id }, { status });
+      booking.status = status;
+    }
+  }
+
+  /** Runs after commit, so the sync reads the new status */
+  private async syncBookingStatus(
+    booking: BookingEntity,
+    previousStatus: BookingStatus,
+  ): Promise<void> {
+    if (booking.status !== previousStatus) {
+      await this.bookingSync.sync(booking.id);
+    }
+  }
+
+  private summarize(
+    authorization: PaymentEntity,
+    entries: PaymentEntity[],
+  ): PaymentSummaryDto {
+    const state = paymentState(authorization, entries);
+    return {
+      id: authorization.id,
+      bookingId: authorization.bookingId,
+      provider: authorization.provider,
+      currency: authorization.currency,
+      transactionRef: authorization.transactionRef ?? null,
+      ...state,
+      entries: [authorization, ...entries],
+    };
+  }
+
+  private getProvider(name: string): PaymentProvider {
+    const provider = this.providers.find((p) => p.name === name);
+    if (!provider) {
+      throw new NotFoundException(`Payment provider ${name} is not available`);
+    }
+    return provider;
+  }
+
+  private async findBooking(id: string): Promise<BookingEntity> {
+    const booking = await this.bookingRepo.findOne({ where: { id } });
+    if (!booking) throw new NotFoundException('Booking not found');
+    return booking;
+  }
+
+  private async assertTripRole(
+    tripId: string,
+    userId: string,
+    role: MemberRole,
+  ): Promise<void> {
+    const allowed = await this.collaborationService.checkPermission(
+      tripId,
+      userId,
+      role,
+    );
+    if (!allowed) {
+      throw new ForbiddenException(
+        `You need ${role} role or higher on this trip`,
+      );
+    }
+  }
+}
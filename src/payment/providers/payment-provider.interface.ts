@@ -0,0 +1,71 @@
+import { PaymentOperation } from 'src/schemas/payment.entity';
+
+/** Injection token for the list of registered payment providers */
+export const PAYMENT_PROVIDERS = Symbol('PAYMENT_PROVIDERS');
+
+export interface PaymentProviderResult {
+  success: boolean;
+  /** Provider reference of the authorization; later operations reuse it */
+  transactionRef?: string;
+  /** Provider reference of this capture, refund or void, if it has one */
+  operationRef?: string;
+  failureReason?: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface AuthorizePaymentRequest {
+  /** Our reference for the charge, e.g. the booking id */
+  reference: string;
+  amount: number;
+  currency: string;
+  /** Provider-specific payment source (card token, wallet id, ...) */
+  source?: Record<string, unknown>;
+}
+
+/** Operation reported by a provider callback */
+export interface PaymentWebhookEvent {
+  /** Provider event id, used to ignore redelivered events */
+  id: string;
+  operation: PaymentOperation;
+  transactionRef: string;
+  /** Operation the event reports on, matching `PaymentProviderResult` */
+  operationRef?: string;
+  success: boolean;
+  amount?: number;
+  failureReason?: string;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * A payment gateway. Amounts are in major units of `currency`.
+ * Implementations must not throw for declined operations; they return
+ * `success: false` with a reason instead.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  authorize(request: AuthorizePaymentRequest): Promise<PaymentProviderResult>;
+
+  capture(
+    transactionRef: string,
+    amount: number,
+    currency: string,
+  ): Promise<PaymentProviderResult>;
+
+  refund(
+    transactionRef: string,
+    amount: number,
+    currency: string,
+  ): Promise<PaymentProviderResult>;
+
+  void(transactionRef: string): Promise<PaymentProviderResult>;
+
+  /** True when the callback body was signed by the provider */
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): boolean;
+
+  /** Null for events that do not describe a payment operation */
+  parseWebhookEvent(rawBody: Buffer): PaymentWebhookEvent | null;
+}
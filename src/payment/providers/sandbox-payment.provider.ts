@@ -0,0 +1,150 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { PaymentOperation } from 'src/schemas/payment.entity';
+import {
+  AuthorizePaymentRequest,
+  PaymentProvider,
+  PaymentProviderResult,
+  PaymentWebhookEvent,
+} from './payment-provider.interface';
+
+const WEBHOOK_SECRET_KEY = 'PAYMENT_SANDBOX_WEBHOOK_SECRET';
+
+/** Sandbox tokens that make a later operation on the payment fail */
+const DECLINE_TOKENS: Record<string, PaymentOperation> = {
+  tok_declined: PaymentOperation.AUTHORIZE,
+  tok_capture_declined: PaymentOperation.CAPTURE,
+  tok_refund_declined: PaymentOperation.REFUND,
+};
+
+interface SandboxWebhookBody {
+  id?: string;
+  operation?: string;
+  transactionRef?: string;
+  operationRef?: string;
+  success?: boolean;
+  amount?: number;
+  failureReason?: string;
+}
+
+/**
+ * In-process provider for development and tests. Every operation succeeds
+ * unless the authorization used one of the decline tokens. Callbacks are
+ * signed with an HMAC-SHA256 of the raw body in `x-sandbox-signature`,
+ * keyed with `PAYMENT_SANDBOX_WEBHOOK_SECRET`; all are refused while it is
+ * unset. Not registered in production.
+ */
+@Injectable()
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = 'sandbox';
+
+  static readonly SIGNATURE_HEADER = 'x-sandbox-signature';
+
+  /** Operations to decline per transaction; lost on restart by design */
+  private readonly declines = new Map<string, PaymentOperation>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  authorize(request: AuthorizePaymentRequest): Promise<PaymentProviderResult> {
+    const token =
+      typeof request.source?.token === 'string' ? request.source.token : '';
+    if (DECLINE_TOKENS[token] === PaymentOperation.AUTHORIZE) {
+      return this.result(false, undefined, 'Card declined');
+    }
+
+    const transactionRef = `sbx_${randomUUID()}`;
+    if (DECLINE_TOKENS[token]) {
+      this.declines.set(transactionRef, DECLINE_TOKENS[token]);
+    }
+    return this.result(true, transactionRef);
+  }
+
+  capture(transactionRef: string): Promise<PaymentProviderResult> {
+    return this.complete(transactionRef, PaymentOperation.CAPTURE);
+  }
+
+  refund(transactionRef: string): Promise<PaymentProviderResult> {
+    return this.complete(transactionRef, PaymentOperation.REFUND);
+  }
+
+  void(transactionRef: string): Promise<PaymentProviderResult> {
+    return this.complete(transactionRef, PaymentOperation.VOID);
+  }
+
+  /** Signature of a callback body, for simulating provider callbacks */
+  sign(rawBody: Buffer | string): string {
+    return createHmac(
+      'sha256',
+      this.configService.getOrThrow<string>(WEBHOOK_SECRET_KEY),
+    )
+      .update(rawBody)
+      .digest('hex');
+  }
+
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): boolean {
+    // Without a configured secret no callback can be trusted
+    if (!this.configService.get<string>(WEBHOOK_SECRET_KEY)) return false;
+    const signature = headers[SandboxPaymentProvider.SIGNATURE_HEADER];
+    if (typeof signature !== 'string') return false;
+    const expected = Buffer.from(this.sign(rawBody), 'utf8');
+    const received = Buffer.from(signature, 'utf8');
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  }
+
+  parseWebhookEvent(rawBody: Buffer): PaymentWebhookEvent | null {
+    let body: SandboxWebhookBody;
+    try {
+      body = JSON.parse(rawBody.toString('utf8')) as SandboxWebhookBody;
+    } catch {
+      return null;
+    }
+    const operation = Object.values(PaymentOperation).find(
+      (value) => value === body.operation,
+    );
+    if (!body.id || !operation || !body.transactionRef) return null;
+    return {
+      id: body.id,
+      operation,
+      transactionRef: body.transactionRef,
+      operationRef: body.operationRef,
+      success: body.success ?? true,
+      amount: typeof body.amount === 'number' ? body.amount : undefined,
+      failureReason: body.failureReason,
+      payload: { ...body },
+    };
+  }
+
+  private complete(
+    transactionRef: string,
+    operation: PaymentOperation,
+  ): Promise<PaymentProviderResult> {
+    const declined = this.declines.get(transactionRef) === operation;
+    return this.result(
+      !declined,
+      transactionRef,
+      declined ? `Sandbox declined the ${operation}` : undefined,
+      `sbxop_${randomUUID()}`,
+    );
+  }
+
+  private result(
+    success: boolean,
+    transactionRef?: string,
+    failureReason?: string,
+    operationRef?: string,
+  ): Promise<PaymentProviderResult> {
+    return Promise.resolve({
+      success,
+      transactionRef,
+      operationRef,
+      failureReason,
+      payload: { sandbox: true },
+    });
+  }
+}
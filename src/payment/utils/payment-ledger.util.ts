@@ -0,0 +1,91 @@
+import { BookingStatus } from 'src/schemas/booking.entity';
+import {
+  PaymentEntity,
+  PaymentOperation,
+  PaymentStatus,
+} from 'src/schemas/payment.entity';
+import { toCents } from 'src/shared/utils/money.util';
+
+export interface PaymentState {
+  status: PaymentStatus;
+  authorizedAmount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+}
+
+/**
+ * Current state of an authorization, replayed from its ledger entries.
+ * Failed entries are kept for the record but move no money.
+ */
+export function paymentState(
+  authorization: PaymentEntity,
+  entries: PaymentEntity[],
+): PaymentState {
+  const authorized = toCents(authorization.amount);
+  if (
+    authorization.status === PaymentStatus.FAILED ||
+    authorization.status === PaymentStatus.PENDING
+  ) {
+    return {
+      status: authorization.status,
+      authorizedAmount: authorized / 100,
+      capturedAmount: 0,
+      refundedAmount: 0,
+    };
+  }
+
+  let captured = 0;
+  let refunded = 0;
+  let voided = false;
+  for (const entry of entries) {
+    if (entry.status === PaymentStatus.FAILED) continue;
+    if (entry.operation === PaymentOperation.CAPTURE) {
+      captured += toCents(entry.amount);
+    } else if (entry.operation === PaymentOperation.REFUND) {
+      refunded += toCents(entry.amount);
+    } else if (entry.operation === PaymentOperation.VOID) {
+      voided = true;
+    }
+  }
+
+  let status = PaymentStatus.AUTHORIZED;
+  if (voided) status = PaymentStatus.VOIDED;
+  else if (captured > 0 && refunded >= captured)
+    status = PaymentStatus.REFUNDED;
+  else if (captured > 0) status = PaymentStatus.CAPTURED;
+
+  return {
+    status,
+    authorizedAmount: authorized / 100,
+    capturedAmount: captured / 100,
+    refundedAmount: refunded / 100,
+  };
+}
+
+/**
+ * Booking status implied by the states of its payments: confirmed while
+ * money is held or taken, cancelled once all of it was released or
+ * returned. Failed attempts leave the booking as it is, and a cancelled
+ * booking stays cancelled.
+ */
+export function deriveBookingStatus(
+  current: BookingStatus,
+  states: PaymentStatus[],
+): BookingStatus {
+  if (current === BookingStatus.CANCELLED) return current;
+  if (
+    states.some(
+      (s) => s === PaymentStatus.AUTHORIZED || s === PaymentStatus.CAPTURED,
+    )
+  ) {
+    return BookingStatus.CONFIRMED;
+  }
+  if (
+    states.some(
+      (s) => s === PaymentStatus.REFUNDED || s === PaymentStatus.VOIDED,
+    )
+  ) {
+    return BookingStatus.CANCELLED;
+  }
+  return current;
+}
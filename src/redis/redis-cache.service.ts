@@ -96,6 +96,36 @@ export class RedisCacheService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Set the key only when it does not exist yet. Returns true when this call
+   * claimed the key. When Redis is unavailable it returns `failOpen`: true
+   * for callers with another guard behind the claim, false for callers that
+   * must not act twice.
+   */
+  async setIfAbsent<T = any>(
+    key: string,
+    value: T,
+    ttlSeconds: number,
+    failOpen = true,
+  ): Promise<boolean> {
+    if (!this.enabled || !this.client) return failOpen;
+    try {
+      const result = await this.client.set(
+        this.k(key),
+        JSON.stringify(value),
+        'EX',
+        ttlSeconds,
+        'NX',
+      );
+      return result === 'OK';
+    } catch (e) {
+      this.logger.debug(
+        `Redis setIfAbsent failed for ${key}: ${(e as Error).message}`,
+      );
+      return failOpen;
+    }
+  }
+
   async del(key: string): Promise<void> {
     if (!this.enabled || !this.client) return;
     try {
@@ -10,10 +10,27 @@ import {
 } from 'typeorm';
 import { BookingEntity } from './booking.entity';
 import { TripEntity } from './trip.entity';
+import { ActivityEntity } from './activity.entity';
 
+/** Ticket or voucher file stored with a reservation */
+export interface ReservationAttachment {
+  id: string;
+  publicId: string;
+  url: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+/**
+ * Attraction or tour reservation. Booked from a catalogue provider or
+ * entered by hand, and shown in the itinerary through its activity.
+ */
 @Entity('attraction_reservations')
 @Index(['tripId'])
 @Index(['bookingId'])
+@Index(['activityId'])
 export class AttractionReservationEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -24,9 +41,24 @@ export class AttractionReservationEntity {
   @Column({ name: 'trip_id' })
   tripId: string;
 
+  /** Itinerary activity showing the reservation; null if it was removed */
+  @Column({ name: 'activity_id', type: 'uuid', nullable: true })
+  activityId?: string | null;
+
+  @Column({ length: 255, default: '' })
+  title: string;
+
   @Column({ name: 'provider_item_id', nullable: true })
   providerItemId?: string; // Klook/GYG product id
 
+  @Column({
+    name: 'confirmation_code',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  confirmationCode?: string | null;
+
   @Column({ name: 'date', type: 'date', nullable: true })
   date?: Date;
 
@@ -36,17 +68,26 @@ export class AttractionReservationEntity {
   @Column({ name: 'details', type: 'jsonb', nullable: true })
   details?: Record<string, any>;
 
+  @Column({ type: 'jsonb', default: () => "'[]'::jsonb" })
+  attachments: ReservationAttachment[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
 
-  @ManyToOne(() => BookingEntity, { onDelete: 'CASCADE' })
+  @ManyToOne(() => BookingEntity, (b) => b.attractionReservations, {
+    onDelete: 'CASCADE',
+  })
   @JoinColumn({ name: 'booking_id' })
   booking: BookingEntity;
 
   @ManyToOne(() => TripEntity, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'trip_id' })
   trip: TripEntity;
+
+  @ManyToOne(() => ActivityEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'activity_id' })
+  activity?: ActivityEntity | null;
 }
@@ -12,6 +12,9 @@ import {
 import { TripEntity } from './trip.entity';
 import { UserEntity } from './user.entity';
 import { PaymentEntity } from 'src/schemas/payment.entity';
+import { LodgingReservationEntity } from './lodging-reservation.entity';
+import { TransportReservationEntity } from './transport-reservation.entity';
+import { AttractionReservationEntity } from './attraction-reservation.entity';
 
 export enum BookingType {
   FLIGHT = 'FLIGHT',
@@ -82,4 +85,13 @@ export class BookingEntity {
 
   @OneToMany(() => PaymentEntity, (p) => p.booking, { cascade: true })
   payments: PaymentEntity[];
+
+  @OneToMany(() => LodgingReservationEntity, (l) => l.booking)
+  lodgingReservations: LodgingReservationEntity[];
+
+  @OneToMany(() => TransportReservationEntity, (t) => t.booking)
+  transportReservations: TransportReservationEntity[];
+
+  @OneToMany(() => AttractionReservationEntity, (a) => a.booking)
+  attractionReservations: AttractionReservationEntity[];
 }
@@ -5,8 +5,10 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { TripBudgetEntity } from './trip-budget.entity';
+import { UserEntity } from './user.entity';
 
 export enum BudgetAuditAction {
   CREATE_BUDGET = 'CREATE_BUDGET',
@@ -16,9 +18,11 @@ export enum BudgetAuditAction {
   UPDATE_ITEM = 'UPDATE_ITEM',
   DELETE_ITEM = 'DELETE_ITEM',
   THRESHOLD_ALERT = 'THRESHOLD_ALERT',
+  RECORD_SETTLEMENT = 'RECORD_SETTLEMENT',
 }
 
 @Entity('budget_audit_logs')
+@Index(['budgetId', 'createdAt'])
 export class BudgetAuditLogEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -41,8 +45,9 @@ export class BudgetAuditLogEntity {
   @Column({ type: 'text', nullable: true })
   description?: string;
 
-  @Column({ name: 'user_id', nullable: true })
-  userId?: string;
+  /** Acting user; null for system actions such as threshold alerts */
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId?: string | null;
 
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
@@ -50,4 +55,8 @@ export class BudgetAuditLogEntity {
   @ManyToOne(() => TripBudgetEntity, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'budget_id' })
   budget: TripBudgetEntity;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'user_id' })
+  user?: UserEntity | null;
 }
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { BudgetItemEntity } from './budget-item.entity';
+import { TripMemberEntity } from './trip-member.entity';
+
+export enum ExpenseSplitType {
+  EQUAL = 'equal',
+  EXACT = 'exact',
+  PERCENTAGE = 'percentage',
+  SHARES = 'shares',
+}
+
+/**
+ * Part of a budget item owed by one trip member
+ */
+@Entity('budget_item_splits')
+@Index(['itemId', 'memberId'], { unique: true })
+export class BudgetItemSplitEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'item_id', type: 'uuid' })
+  itemId: string;
+
+  @Column({ name: 'member_id', type: 'uuid' })
+  memberId: string;
+
+  /** Raw split input: exact amount, percentage or number of shares */
+  @Column({ type: 'decimal', precision: 12, scale: 4, nullable: true })
+  value?: number;
+
+  /** Resolved share in the item amount's currency */
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  amount: number;
+
+  @ManyToOne(() => BudgetItemEntity, (item) => item.splits, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'item_id' })
+  item: BudgetItemEntity;
+
+  @ManyToOne(() => TripMemberEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'member_id' })
+  member: TripMemberEntity;
+}
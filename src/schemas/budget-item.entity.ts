@@ -5,9 +5,15 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   ManyToOne,
+  OneToMany,
   JoinColumn,
 } from 'typeorm';
 import { TripBudgetEntity } from './trip-budget.entity';
+import { TripMemberEntity } from './trip-member.entity';
+import {
+  BudgetItemSplitEntity,
+  ExpenseSplitType,
+} from './budget-item-split.entity';
 import { ActivityCategory } from 'src/trip/enum/trip-enum';
 import { IsEnum } from 'class-validator';
 
@@ -23,9 +29,35 @@ export class BudgetItemEntity {
   @IsEnum(ActivityCategory)
   category: ActivityCategory;
 
+  /** Amount in the budget currency */
   @Column({ type: 'decimal', precision: 12, scale: 2 })
   amount: number;
 
+  /** Amount as paid, in `originalCurrency` */
+  @Column({
+    name: 'original_amount',
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+  })
+  originalAmount: number;
+
+  @Column({ name: 'original_currency', length: 3 })
+  originalCurrency: string;
+
+  /** Rate used to convert `originalAmount` into `amount` */
+  @Column({
+    name: 'exchange_rate',
+    type: 'decimal',
+    precision: 18,
+    scale: 8,
+    default: 1,
+  })
+  exchangeRate: number;
+
+  @Column({ name: 'expense_date', type: 'date', default: () => 'CURRENT_DATE' })
+  expenseDate: Date;
+
   @Column({ length: 20, nullable: true })
   source?: string;
 
@@ -35,6 +67,18 @@ export class BudgetItemEntity {
   @Column({ type: 'text', nullable: true })
   note?: string;
 
+  @Column({ name: 'paid_by_member_id', type: 'uuid', nullable: true })
+  paidByMemberId?: string | null;
+
+  @Column({
+    name: 'split_type',
+    type: 'enum',
+    enum: ExpenseSplitType,
+    enumName: 'expense_split_type_enum',
+    nullable: true,
+  })
+  splitType?: ExpenseSplitType | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -46,4 +90,13 @@ export class BudgetItemEntity {
   })
   @JoinColumn({ name: 'trip_budget_id' })
   tripBudget: TripBudgetEntity;
+
+  @ManyToOne(() => TripMemberEntity, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'paid_by_member_id' })
+  paidBy?: TripMemberEntity;
+
+  @OneToMany(() => BudgetItemSplitEntity, (split) => split.item, {
+    cascade: true,
+  })
+  splits: BudgetItemSplitEntity[];
 }
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { TripBudgetEntity } from './trip-budget.entity';
+import { TripMemberEntity } from './trip-member.entity';
+
+/**
+ * Payment between two trip members to settle shared expenses
+ */
+@Entity('budget_settlements')
+@Index(['tripBudgetId'])
+export class BudgetSettlementEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'trip_budget_id', type: 'uuid' })
+  tripBudgetId: string;
+
+  @Column({ name: 'from_member_id', type: 'uuid' })
+  fromMemberId: string;
+
+  @Column({ name: 'to_member_id', type: 'uuid' })
+  toMemberId: string;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  amount: number;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  @Column({ type: 'text', nullable: true })
+  note?: string;
+
+  @Column({ name: 'created_by', type: 'uuid', nullable: true })
+  createdBy?: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => TripBudgetEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'trip_budget_id' })
+  tripBudget: TripBudgetEntity;
+
+  @ManyToOne(() => TripMemberEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'from_member_id' })
+  fromMember: TripMemberEntity;
+
+  @ManyToOne(() => TripMemberEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'to_member_id' })
+  toMember: TripMemberEntity;
+}
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Exchange rates of one base currency for one day, merged from every
+ * provider response received that day
+ */
+@Entity('exchange_rate_snapshots')
+@Index(['base', 'date'], { unique: true })
+export class ExchangeRateSnapshotEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 3 })
+  base: string;
+
+  /** Rate date as YYYY-MM-DD */
+  @Column({ type: 'date' })
+  date: string;
+
+  @Column({ type: 'jsonb' })
+  rates: Record<string, number>;
+
+  @Column({ length: 50 })
+  source: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum IdempotencyKeyStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+}
+
+/**
+ * Request made with an `Idempotency-Key` header and the response it got,
+ * replayed when the same request is retried with the same key
+ */
+@Entity('idempotency_keys')
+@Index(['scope', 'key'], { unique: true })
+@Index(['expiresAt'])
+export class IdempotencyKeyEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 255 })
+  key: string;
+
+  /** Caller, method and route the key belongs to */
+  @Column({ length: 512 })
+  scope: string;
+
+  /** SHA-256 of the request body */
+  @Column({ name: 'request_hash', length: 64 })
+  requestHash: string;
+
+  @Column({
+    type: 'enum',
+    enum: IdempotencyKeyStatus,
+    enumName: 'idempotency_key_status_enum',
+    default: IdempotencyKeyStatus.IN_PROGRESS,
+  })
+  status: IdempotencyKeyStatus;
+
+  @Column({ name: 'response_status', type: 'int', nullable: true })
+  responseStatus?: number | null;
+
+  @Column({ name: 'response_body', type: 'jsonb', nullable: true })
+  responseBody?: unknown;
+
+  @Column({ name: 'expires_at', type: 'timestamptz' })
+  expiresAt: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -51,7 +51,9 @@ export class LodgingReservationEntity {
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
 
-  @ManyToOne(() => BookingEntity, { onDelete: 'CASCADE' })
+  @ManyToOne(() => BookingEntity, (b) => b.lodgingReservations, {
+    onDelete: 'CASCADE',
+  })
   @JoinColumn({ name: 'booking_id' })
   booking: BookingEntity;
 
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { UserEntity } from './user.entity';
+
+export enum NotificationType {
+  BUDGET_THRESHOLD = 'budget_threshold',
+}
+
+/**
+ * In-app notification shown to a single user
+ */
+@Entity('notifications')
+@Index(['userId', 'createdAt'])
+export class NotificationEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationType,
+    enumName: 'notification_type_enum',
+  })
+  type: NotificationType;
+
+  @Column({ length: 255 })
+  title: string;
+
+  @Column({ type: 'text' })
+  message: string;
+
+  /** Payload for the client, e.g. tripId and threshold */
+  @Column({ type: 'jsonb', nullable: true })
+  data?: Record<string, any>;
+
+  @Column({ name: 'read_at', type: 'timestamp', nullable: true })
+  readAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: UserEntity;
+}
@@ -16,10 +16,24 @@ export enum PaymentStatus {
   CAPTURED = 'CAPTURED',
   FAILED = 'FAILED',
   REFUNDED = 'REFUNDED',
+  VOIDED = 'VOIDED',
 }
 
+export enum PaymentOperation {
+  AUTHORIZE = 'authorize',
+  CAPTURE = 'capture',
+  REFUND = 'refund',
+  VOID = 'void',
+}
+
+/**
+ * Payment ledger entry. Every operation appends a row; captures, refunds
+ * and voids point at the authorization they belong to.
+ */
 @Entity('payments')
 @Index(['bookingId'])
+@Index(['parentPaymentId'])
+@Index(['provider', 'transactionRef'])
 export class PaymentEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -33,6 +47,21 @@ export class PaymentEntity {
   @Column({ type: 'enum', enum: PaymentStatus, default: PaymentStatus.PENDING })
   status: PaymentStatus;
 
+  @Column({
+    type: 'enum',
+    enum: PaymentOperation,
+    enumName: 'payment_operation_enum',
+    default: PaymentOperation.AUTHORIZE,
+  })
+  operation: PaymentOperation;
+
+  /** Authorization entry this entry belongs to; null for authorizations */
+  @Column({ name: 'parent_payment_id', type: 'uuid', nullable: true })
+  parentPaymentId?: string | null;
+
+  @Column({ name: 'failure_reason', type: 'text', nullable: true })
+  failureReason?: string | null;
+
   @Column({ name: 'transaction_ref', nullable: true })
   transactionRef?: string;
 
@@ -54,4 +83,8 @@ export class PaymentEntity {
   @ManyToOne(() => BookingEntity, (b) => b.payments, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'booking_id' })
   booking: BookingEntity;
+
+  @ManyToOne(() => PaymentEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_payment_id' })
+  parentPayment?: PaymentEntity;
 }
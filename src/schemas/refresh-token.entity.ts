@@ -16,6 +16,7 @@ import { UserEntity } from './user.entity';
 @Entity('refresh_tokens')
 @Index(['userId', 'isRevoked'])
 @Index(['expiresAt'])
+@Index(['familyId'])
 export class RefreshTokenEntity {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -36,6 +37,20 @@ export class RefreshTokenEntity {
   @Column({ name: 'is_revoked', default: false })
   isRevoked: boolean;
 
+  /** Shared by every token rotated from the same login */
+  @Column({ name: 'family_id', type: 'uuid' })
+  familyId: string;
+
+  /** Set when the token was rotated; presenting it again means reuse */
+  @Column({ name: 'replaced_by_id', type: 'uuid', nullable: true })
+  replacedById?: string | null;
+
+  @Column({ name: 'user_agent', type: 'varchar', length: 512, nullable: true })
+  userAgent?: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 64, nullable: true })
+  ipAddress?: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -54,7 +54,9 @@ export class TransportReservationEntity {
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
 
-  @ManyToOne(() => BookingEntity, { onDelete: 'CASCADE' })
+  @ManyToOne(() => BookingEntity, (b) => b.transportReservations, {
+    onDelete: 'CASCADE',
+  })
   @JoinColumn({ name: 'booking_id' })
   booking: BookingEntity;
 
@@ -19,6 +19,12 @@ export enum ActivityAction {
   TRIP_CREATED = 'trip_created',
   TRIP_UPDATED = 'trip_updated',
   TRIP_DELETED = 'trip_deleted',
+  BOOKING_CANCEL_REQUESTED = 'booking_cancel_requested',
+  BOOKING_PROVIDER_CANCELLED = 'booking_provider_cancelled',
+  BOOKING_CANCEL_FAILED = 'booking_cancel_failed',
+  BOOKING_PAYMENT_SETTLED = 'booking_payment_settled',
+  BOOKING_BUDGET_UPDATED = 'booking_budget_updated',
+  BOOKING_CANCELLED = 'booking_cancelled',
 }
 
 /**
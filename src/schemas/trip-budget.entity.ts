@@ -10,6 +10,38 @@ import {
 } from 'typeorm';
 import { TripEntity } from './trip.entity';
 import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import { ActivityCategory } from 'src/trip/enum/trip-enum';
+
+/** What happens when an expense pushes spending over the total budget */
+export enum BudgetOverrunPolicy {
+  /** Reject the expense */
+  BLOCK = 'block',
+  /** Accept it and alert trip members that the budget is exceeded */
+  WARN = 'warn',
+  /** Accept it silently; only the configured thresholds alert */
+  ALLOW = 'allow',
+}
+
+export enum BudgetCapType {
+  /** Percent of the total budget */
+  PERCENTAGE = 'percentage',
+  /** Fixed amount in the budget currency */
+  AMOUNT = 'amount',
+}
+
+export interface BudgetCategoryCap {
+  category: ActivityCategory;
+  type: BudgetCapType;
+  value: number;
+}
+
+/** Budget limits as they were set, in the currency they were set in */
+export interface BudgetBaseline {
+  currency: string;
+  totalBudget: number;
+  categoryCaps: BudgetCategoryCap[] | null;
+  dailyAllowance: number | null;
+}
 
 @Entity('trip_budgets')
 export class TripBudgetEntity {
@@ -43,6 +75,51 @@ export class TripBudgetEntity {
   })
   notifyThreshold: number;
 
+  /**
+   * Alert levels as fractions of the budget (e.g. [0.5, 0.8, 1]).
+   * When null only `notifyThreshold` is used.
+   */
+  @Column({ name: 'notify_thresholds', type: 'jsonb', nullable: true })
+  notifyThresholds?: number[] | null;
+
+  @Column({
+    name: 'overrun_policy',
+    type: 'enum',
+    enum: BudgetOverrunPolicy,
+    enumName: 'budget_overrun_policy_enum',
+    default: BudgetOverrunPolicy.BLOCK,
+  })
+  overrunPolicy: BudgetOverrunPolicy;
+
+  /** Optional spending limit per category */
+  @Column({ name: 'category_caps', type: 'jsonb', nullable: true })
+  categoryCaps?: BudgetCategoryCap[] | null;
+
+  @Column({ name: 'daily_allowance_enabled', default: false })
+  dailyAllowanceEnabled: boolean;
+
+  /**
+   * Fixed allowance per trip day. When tracking is enabled and this is null
+   * the total budget is spread over the trip dates.
+   */
+  @Column({
+    name: 'daily_allowance',
+    type: 'decimal',
+    precision: 12,
+    scale: 2,
+    nullable: true,
+  })
+  dailyAllowance?: number | null;
+
+  /**
+   * Limits before the first currency conversion. Each conversion re-derives
+   * the total, caps and allowance from these, so rounding does not compound
+   * over repeated switches. Null until converted, or after the limits are
+   * edited again.
+   */
+  @Column({ type: 'jsonb', nullable: true })
+  baseline?: BudgetBaseline | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
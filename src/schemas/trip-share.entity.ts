@@ -22,8 +22,8 @@ export class TripShareEntity {
   @Column({ name: 'share_token', length: 255, unique: true })
   shareToken: string;
 
-  @Column({ name: 'expires_at', nullable: true })
-  expiresAt?: Date;
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt?: Date | null;
 
   @Column({ name: 'view_count', default: 0 })
   viewCount: number;
@@ -0,0 +1,12 @@
+/**
+ * `YYYY-MM-DD` part of a date or timestamp. Strings are taken to be ISO
+ * dates already and are only cut down.
+ */
+export function toDateString(value: Date | string): string;
+export function toDateString(value?: Date | string | null): string | null;
+export function toDateString(value?: Date | string | null): string | null {
+  if (!value) return null;
+  return typeof value === 'string'
+    ? value.slice(0, 10)
+    : value.toISOString().slice(0, 10);
+}
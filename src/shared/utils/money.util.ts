@@ -0,0 +1,16 @@
+/** Round an amount to whole cents */
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Amounts are handled in minor units (cents) to keep sums and splits exact.
+ * Decimal columns may be passed as the strings the driver returns.
+ */
+export function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
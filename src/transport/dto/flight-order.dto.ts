@@ -0,0 +1,137 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum TravelerGenderEnum {
+  MALE = 'MALE',
+  FEMALE = 'FEMALE',
+}
+
+export class PriceFlightOffersDto {
+  @ApiProperty({
+    description:
+      'Flight offers exactly as returned by GET /flights/search (max 6)',
+    type: [Object],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(6)
+  @IsObject({ each: true })
+  flightOffers!: Record<string, unknown>[];
+}
+
+class TravelerNameDto {
+  @ApiProperty({ example: 'BOB' })
+  @IsString()
+  @IsNotEmpty()
+  firstName!: string;
+
+  @ApiProperty({ example: 'SMITH' })
+  @IsString()
+  @IsNotEmpty()
+  lastName!: string;
+}
+
+class TravelerPhoneDto {
+  @ApiProperty({ example: 'MOBILE' })
+  @IsIn(['MOBILE', 'LANDLINE'])
+  deviceType!: 'MOBILE' | 'LANDLINE';
+
+  @ApiProperty({ example: '84' })
+  @Matches(/^[0-9]{1,4}$/)
+  countryCallingCode!: string;
+
+  @ApiProperty({ example: '901234567' })
+  @Matches(/^[0-9]{4,15}$/)
+  number!: string;
+}
+
+class TravelerContactDto {
+  @ApiProperty({ example: 'bob.smith@email.com' })
+  @IsEmail()
+  emailAddress!: string;
+
+  @ApiProperty({ type: [TravelerPhoneDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TravelerPhoneDto)
+  phones?: TravelerPhoneDto[];
+}
+
+export class FlightTravelerDto {
+  @ApiProperty({
+    example: '1',
+    description: 'Matches travelerId in the offer travelerPricings',
+  })
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @ApiProperty({ example: '1990-01-16' })
+  @IsDateString()
+  dateOfBirth!: string;
+
+  @ApiProperty({ type: TravelerNameDto })
+  @ValidateNested()
+  @Type(() => TravelerNameDto)
+  name!: TravelerNameDto;
+
+  @ApiProperty({ enum: TravelerGenderEnum, example: TravelerGenderEnum.MALE })
+  @IsEnum(TravelerGenderEnum)
+  gender!: TravelerGenderEnum;
+
+  @ApiProperty({ type: TravelerContactDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TravelerContactDto)
+  contact?: TravelerContactDto;
+
+  @ApiProperty({
+    description: 'Travel documents (passport etc.) in Amadeus format',
+    type: [Object],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsObject({ each: true })
+  documents?: Record<string, unknown>[];
+}
+
+export class CreateFlightOrderDto {
+  @ApiProperty({ description: 'Trip the booking belongs to' })
+  @IsUUID()
+  tripId!: string;
+
+  @ApiProperty({
+    description: 'Priced flight offers from POST /flights/pricing',
+    type: [Object],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(6)
+  @IsObject({ each: true })
+  flightOffers!: Record<string, unknown>[];
+
+  @ApiProperty({ type: [FlightTravelerDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => FlightTravelerDto)
+  travelers!: FlightTravelerDto[];
+}
@@ -1,4 +1,12 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common';
 import {
   ApiBearerAuth,
   ApiOperation,
@@ -7,7 +15,13 @@ import {
 } from '@nestjs/swagger';
 import { TransportService } from './transport.service';
 import { SearchFlightsDto } from './dto/search-flights.dto';
+import {
+  CreateFlightOrderDto,
+  PriceFlightOffersDto,
+} from './dto/flight-order.dto';
 import { ResponseUtil } from '../shared/utils/response.util';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { Idempotent } from 'src/idempotency/idempotent.decorator';
 
 @ApiTags('Flights')
 @ApiBearerAuth()
@@ -22,4 +36,28 @@ export class TransportController {
     const data = await this.transport.searchFlights(query);
     return ResponseUtil.success(data);
   }
+
+  @Post('pricing')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Confirm price and availability of flight offers (Amadeus)',
+  })
+  @ApiResponse({ status: 200, description: 'Priced flight offers' })
+  async price(@Body() dto: PriceFlightOffersDto) {
+    const data = await this.transport.priceFlightOffers(dto);
+    return ResponseUtil.success(data);
+  }
+
+  @Post('orders')
+  @Idempotent()
+  @ApiOperation({ summary: 'Create flight order and save it to the trip' })
+  @ApiResponse({ status: 201, description: 'Flight order created' })
+  @ApiResponse({ status: 403, description: 'Editor role required on trip' })
+  async createOrder(
+    @Req() req: AuthenticatedRequest,
+    @Body() dto: CreateFlightOrderDto,
+  ) {
+    const data = await this.transport.createFlightOrder(req.user.id, dto);
+    return ResponseUtil.success(data);
+  }
 }
@@ -4,9 +4,19 @@ import { TransportController } from './transport.controller';
 import { TransportService } from './transport.service';
 import { RedisModule } from '../redis/redis.module';
 import { AmadeusModule } from '../integrations/amadeus/amadeus.module';
+import { TripModule } from '../trip/trip.module';
+import { BookingSyncModule } from '../booking/booking-sync.module';
+import { BookingEntity } from '../schemas/booking.entity';
+import { TransportReservationEntity } from '../schemas/transport-reservation.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([]), AmadeusModule, RedisModule],
+  imports: [
+    TypeOrmModule.forFeature([BookingEntity, TransportReservationEntity]),
+    AmadeusModule,
+    RedisModule,
+    TripModule,
+    BookingSyncModule,
+  ],
   controllers: [TransportController],
   providers: [TransportService],
 })
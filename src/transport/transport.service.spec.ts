@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { TransportService } from './transport.service';
+import { RedisCacheService } from '../redis/redis-cache.service';
+import { AmadeusApiService } from '../integrations/amadeus/amadeus-api.service';
+import { TripCollaborationService } from '../trip/trip-collaboration.service';
+import { BookingSyncService } from '../booking/booking-sync.service';
+import { BookingEntity, BookingStatus } from '../schemas/booking.entity';
+import { TransportReservationEntity } from '../schemas/transport-reservation.entity';
+import {
+  CreateFlightOrderDto,
+  TravelerGenderEnum,
+} from './dto/flight-order.dto';
+
+const repoMock = () => ({
+  create: jest.fn((data: Record<string, unknown>) => ({ ...data })),
+  save: jest.fn((entity: any) =>
+    Promise.resolve(
+      Array.isArray(entity) ? entity : { id: 'booking-1', ...entity },
+    ),
+  ),
+  findOne: jest.fn(() => Promise.resolve({ id: 'booking-1' })),
+  update: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('TransportService', () => {
+  let service: TransportService;
+  let bookingRepo: any;
+  let transportRepo: any;
+  let amadeus: { createFlightOrder: jest.Mock; priceFlightOffers: jest.Mock };
+
+  const offer = {
+    id: '1',
+    price: { currency: 'VND', total: '2500000.00', grandTotal: '2500000.00' },
+    itineraries: [
+      {
+        segments: [
+          {
+            id: '1',
+            departure: { iataCode: 'SGN', at: '2025-12-20T08:00:00' },
+            arrival: { iataCode: 'DAD', at: '2025-12-20T09:20:00' },
+            carrierCode: 'VN',
+            number: '120',
+          },
+          {
+            id: '2',
+            departure: { iataCode: 'DAD', at: '2025-12-20T11:00:00' },
+            arrival: { iataCode: 'HAN', at: '2025-12-20T12:20:00' },
+            carrierCode: 'VN',
+            number: '162',
+          },
+        ],
+      },
+    ],
+  };
+
+  const dto: CreateFlightOrderDto = {
+    tripId: 'trip-1',
+    flightOffers: [offer],
+    travelers: [
+      {
+        id: '1',
+        dateOfBirth: '1990-01-16',
+        name: { firstName: 'AN', lastName: 'NGUYEN' },
+        gender: TravelerGenderEnum.MALE,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    bookingRepo = repoMock();
+    transportRepo = repoMock();
+    amadeus = { createFlightOrder: jest.fn(), priceFlightOffers: jest.fn() };
+
+    const repos = new Map<unknown, unknown>([
+      [BookingEntity, bookingRepo],
+      [TransportReservationEntity, transportRepo],
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransportService,
+        { provide: RedisCacheService, useValue: {} },
+        { provide: AmadeusApiService, useValue: amadeus },
+        { provide: getRepositoryToken(BookingEntity), useValue: bookingRepo },
+        {
+          provide: TripCollaborationService,
+          useValue: { checkPermission: jest.fn().mockResolvedValue(true) },
+        },
+        {
+          provide: BookingSyncService,
+          useValue: { sync: jest.fn().mockResolvedValue(undefined) },
+        },
+        {
+          provide: DataSource,
+          useValue: {
+            transaction: jest.fn((cb: (m: unknown) => Promise<unknown>) =>
+              cb({ getRepository: (e: unknown) => repos.get(e) }),
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TransportService);
+  });
+
+  it('stores one transport reservation per segment', async () => {
+    amadeus.createFlightOrder.mockResolvedValue({
+      data: {
+        id: 'ORDER1',
+        associatedRecords: [{ reference: 'PNR123' }],
+        flightOffers: [offer],
+      },
+    });
+
+    await service.createFlightOrder('user-1', dto);
+
+    const confirmed = bookingRepo.save.mock.calls.at(-1)[0];
+    expect(confirmed).toMatchObject({
+      status: BookingStatus.CONFIRMED,
+      totalPrice: '2500000.00',
+      currency: 'VND',
+    });
+
+    const [segments] = transportRepo.save.mock.calls[0];
+    expect(segments).toHaveLength(2);
+    expect(segments[1]).toMatchObject({
+      origin: 'DAD',
+      destination: 'HAN',
+      carrierCode: 'VN',
+      flightNumber: '162',
+      travelerCount: 1,
+      details: { pnr: 'PNR123', flightOrderId: 'ORDER1' },
+    });
+    expect(segments[1].departureAt).toEqual(new Date('2025-12-20T11:00:00'));
+  });
+
+  it('marks the booking cancelled when the order is rejected', async () => {
+    amadeus.createFlightOrder.mockRejectedValue(new Error('SEGMENT SELL'));
+
+    await expect(service.createFlightOrder('user-1', dto)).rejects.toThrow(
+      'SEGMENT SELL',
+    );
+    expect(bookingRepo.save.mock.calls.at(-1)[0].status).toBe(
+      BookingStatus.CANCELLED,
+    );
+    expect(transportRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('keeps the Amadeus order on the pending booking when saving fails', async () => {
+    const response = {
+      data: {
+        id: 'ORDER1',
+        associatedRecords: [{ reference: 'PNR123' }],
+        flightOffers: [offer],
+      },
+    };
+    amadeus.createFlightOrder.mockResolvedValue(response);
+    transportRepo.save.mockRejectedValue(new Error('db down'));
+
+    await expect(service.createFlightOrder('user-1', dto)).rejects.toThrow(
+      'db down',
+    );
+    expect(bookingRepo.update).toHaveBeenCalledWith('booking-1', {
+      providerPayload: response,
+    });
+    expect(bookingRepo.update.mock.invocationCallOrder[0]).toBeLessThan(
+      transportRepo.save.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('returns the priced offers payload', async () => {
+    amadeus.priceFlightOffers.mockResolvedValue({
+      data: { type: 'flight-offers-pricing', flightOffers: [offer] },
+    });
+    const result = await service.priceFlightOffers({ flightOffers: [offer] });
+    expect(result).toEqual({
+      type: 'flight-offers-pricing',
+      flightOffers: [offer],
+    });
+  });
+});
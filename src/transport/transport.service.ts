@@ -1,16 +1,71 @@
-import { Injectable } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
 import { RedisCacheService } from '../redis/redis-cache.service';
 import { AmadeusApiService } from '../integrations/amadeus/amadeus-api.service';
 import { SearchFlightsDto } from './dto/search-flights.dto';
+import {
+  CreateFlightOrderDto,
+  PriceFlightOffersDto,
+} from './dto/flight-order.dto';
+import {
+  BookingEntity,
+  BookingStatus,
+  BookingType,
+} from 'src/schemas/booking.entity';
+import { TransportReservationEntity } from 'src/schemas/transport-reservation.entity';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { TripCollaborationService } from 'src/trip/trip-collaboration.service';
+import { BookingSyncService } from 'src/booking/booking-sync.service';
+import { ErrorUtilService } from 'src/shared/utils/error.util';
 
 type SearchResult<T> = { count: number; items: T[] };
 
+const AMADEUS_PROVIDER = 'amadeus';
+
+/** Subset of an Amadeus flight offer used for persistence */
+interface AmadeusFlightSegment {
+  id?: string;
+  departure?: { iataCode?: string; terminal?: string; at?: string };
+  arrival?: { iataCode?: string; terminal?: string; at?: string };
+  carrierCode?: string;
+  number?: string;
+  aircraft?: { code?: string };
+  operating?: { carrierCode?: string };
+  duration?: string;
+}
+
+interface AmadeusFlightOffer {
+  id?: string;
+  itineraries?: { duration?: string; segments?: AmadeusFlightSegment[] }[];
+  price?: { currency?: string; total?: string; grandTotal?: string };
+}
+
+interface AmadeusFlightOrderResponse {
+  data?: {
+    id?: string;
+    associatedRecords?: { reference?: string }[];
+    flightOffers?: AmadeusFlightOffer[];
+  };
+}
+
 @Injectable()
 export class TransportService {
+  private readonly logger = new Logger(TransportService.name);
   private readonly ttlSeconds = 2 * 60 * 60; // 2h
   constructor(
     private readonly cache: RedisCacheService,
     private readonly amadeus: AmadeusApiService,
+    @InjectRepository(BookingEntity)
+    private readonly bookingRepo: Repository<BookingEntity>,
+    private readonly collaborationService: TripCollaborationService,
+    private readonly bookingSync: BookingSyncService,
+    private readonly dataSource: DataSource,
   ) {}
 
   async searchFlights(
@@ -37,4 +92,163 @@ export class TransportService {
     await this.cache.set(key, result, this.ttlSeconds);
     return result;
   }
+
+  /**
+   * Confirm the current price and availability of offers before ordering.
+   * Not cached: the point is to get the live fare.
+   */
+  async priceFlightOffers(dto: PriceFlightOffersDto): Promise<unknown> {
+    const resp = (await this.amadeus.priceFlightOffers(dto.flightOffers)) as {
+      data?: unknown;
+    };
+    return resp?.data ?? resp;
+  }
+
+  /**
+   * Create an Amadeus flight order and persist it as a FLIGHT booking with
+   * one transport reservation per segment. The booking starts PENDING and
+   * becomes CONFIRMED, or CANCELLED when the provider rejects the order.
+   * The provider's answer (order id, PNR) is saved on the PENDING row before
+   * the segments are written, so a failed save can still be reconciled.
+   * Confirmed segments are then synced into the itinerary and budget.
+   */
+  async createFlightOrder(
+    userId: string,
+    dto: CreateFlightOrderDto,
+  ): Promise<BookingEntity> {
+    const allowed = await this.collaborationService.checkPermission(
+      dto.tripId,
+      userId,
+      MemberRole.EDITOR,
+    );
+    if (!allowed) {
+      throw new ForbiddenException(
+        `You need ${MemberRole.EDITOR} role or higher on this trip`,
+      );
+    }
+
+    const requested = dto.flightOffers[0] as AmadeusFlightOffer;
+    const pending = await this.bookingRepo.save(
+      this.bookingRepo.create({
+        tripId: dto.tripId,
+        userId,
+        type: BookingType.FLIGHT,
+        provider: AMADEUS_PROVIDER,
+        status: BookingStatus.PENDING,
+        offerId: requested?.id,
+        totalPrice: requested?.price?.grandTotal ?? requested?.price?.total,
+        currency: (requested?.price?.currency ?? 'USD').toUpperCase(),
+      }),
+    );
+
+    let response: AmadeusFlightOrderResponse;
+    try {
+      response = (await this.amadeus.createFlightOrder({
+        flightOffers: dto.flightOffers,
+        travelers: dto.travelers,
+      })) as AmadeusFlightOrderResponse;
+    } catch (error: unknown) {
+      const err = error as {
+        message?: string;
+        response?: { status?: number; data?: unknown };
+      };
+      pending.status = BookingStatus.CANCELLED;
+      pending.providerPayload = {
+        error: err?.message || 'Unknown error',
+        providerStatus: err?.response?.status,
+        providerResponse: err?.response?.data,
+      };
+      await this.bookingRepo.save(pending);
+      this.logger.warn(
+        `Flight order ${pending.id} failed at provider: ${err?.message || 'Unknown error'}`,
+      );
+      throw error;
+    }
+
+    const order = response?.data;
+    const offers = order?.flightOffers?.length
+      ? order.flightOffers
+      : (dto.flightOffers as AmadeusFlightOffer[]);
+    const pnr = order?.associatedRecords?.[0]?.reference;
+    const providerPayload = { ...response };
+    await this.bookingRepo.update(pending.id, { providerPayload });
+    pending.providerPayload = providerPayload;
+
+    try {
+      await this.dataSource.transaction(async (manager) => {
+        const bookingRepoTx = manager.getRepository(BookingEntity);
+        const transportRepoTx = manager.getRepository(
+          TransportReservationEntity,
+        );
+
+        const total = offers.reduce(
+          (sum, o) => sum + Number(o.price?.grandTotal ?? o.price?.total ?? 0),
+          0,
+        );
+        pending.status = BookingStatus.CONFIRMED;
+        pending.offerId = offers[0]?.id ?? pending.offerId;
+        pending.totalPrice = total > 0 ? total.toFixed(2) : pending.totalPrice;
+        pending.currency = (
+          offers[0]?.price?.currency ?? pending.currency
+        ).toUpperCase();
+        await bookingRepoTx.save(pending);
+
+        const segments = offers.flatMap((offer) =>
+          (offer.itineraries ?? []).flatMap((itinerary, itineraryIndex) =>
+            (itinerary.segments ?? []).map((segment) => ({
+              offer,
+              itineraryIndex,
+              segment,
+            })),
+          ),
+        );
+        await transportRepoTx.save(
+          segments.map(({ offer, itineraryIndex, segment }) =>
+            transportRepoTx.create({
+              bookingId: pending.id,
+              tripId: dto.tripId,
+              origin: segment.departure?.iataCode ?? '',
+              destination: segment.arrival?.iataCode ?? '',
+              departureAt: segment.departure?.at
+                ? new Date(segment.departure.at)
+                : undefined,
+              arrivalAt: segment.arrival?.at
+                ? new Date(segment.arrival.at)
+                : undefined,
+              carrierCode: segment.carrierCode,
+              flightNumber: segment.number,
+              travelerCount: dto.travelers.length,
+              details: {
+                flightOrderId: order?.id,
+                pnr,
+                offerId: offer.id,
+                segmentId: segment.id,
+                itineraryIndex,
+                duration: segment.duration,
+                aircraft: segment.aircraft?.code,
+                operatingCarrier: segment.operating?.carrierCode,
+                departureTerminal: segment.departure?.terminal,
+                arrivalTerminal: segment.arrival?.terminal,
+              },
+            }),
+          ),
+        );
+      });
+    } catch (error: unknown) {
+      this.logger.error(
+        `Flight order ${order?.id ?? 'unknown'} (PNR ${pnr ?? 'unknown'}) was placed at Amadeus but booking ${pending.id} could not be saved; it stays PENDING for reconciliation: ${ErrorUtilService.getErrorMessage(error)}`,
+      );
+      throw error;
+    }
+
+    await this.bookingSync.sync(pending.id, userId);
+    const saved = await this.bookingRepo.findOne({
+      where: { id: pending.id },
+      relations: ['transportReservations'],
+    });
+    if (!saved) {
+      throw new NotFoundException('Booking not found');
+    }
+    return saved;
+  }
 }
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { TripMemberEntity } from 'src/schemas/trip-member.entity';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { ActivityEntity } from 'src/schemas/activity.entity';
+import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
+import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import { TripAccessService } from './trip-access.service';
+import { TripPermissionGuard } from '../guards/trip-permission.guard';
+
+/**
+ * Trip role checks shared by trip, itinerary, activity and budget modules.
+ * Kept apart from TripModule, which itself imports the itinerary and
+ * activity modules.
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      TripEntity,
+      TripMemberEntity,
+      ItineraryEntity,
+      ActivityEntity,
+      TripBudgetEntity,
+      BudgetItemEntity,
+    ]),
+  ],
+  providers: [TripAccessService, TripPermissionGuard],
+  exports: [TripAccessService, TripPermissionGuard],
+})
+export class TripAccessModule {}
@@ -0,0 +1,152 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { TripMemberEntity, MemberRole } from 'src/schemas/trip-member.entity';
+import { ItineraryEntity } from 'src/schemas/itinerary.entity';
+import { ActivityEntity } from 'src/schemas/activity.entity';
+import { TripBudgetEntity } from 'src/schemas/trip-budget.entity';
+import { BudgetItemEntity } from 'src/schemas/budget-item.entity';
+import {
+  MEMBER_ROLE_RANK,
+  TRIP_RESOURCE_LABELS,
+  TripResourceType,
+} from './trip-resource.types';
+
+/**
+ * Single place that answers "which trip does this id belong to" and "what
+ * may this user do on that trip". Controllers use it through
+ * TripPermissionGuard; services call it for ids that arrive in bodies.
+ */
+@Injectable()
+export class TripAccessService {
+  constructor(
+    @InjectRepository(TripEntity)
+    private readonly tripRepo: Repository<TripEntity>,
+    @InjectRepository(TripMemberEntity)
+    private readonly memberRepo: Repository<TripMemberEntity>,
+    @InjectRepository(ItineraryEntity)
+    private readonly itineraryRepo: Repository<ItineraryEntity>,
+    @InjectRepository(ActivityEntity)
+    private readonly activityRepo: Repository<ActivityEntity>,
+    @InjectRepository(TripBudgetEntity)
+    private readonly budgetRepo: Repository<TripBudgetEntity>,
+    @InjectRepository(BudgetItemEntity)
+    private readonly itemRepo: Repository<BudgetItemEntity>,
+  ) {}
+
+  /**
+   * Map each resource id to its trip id. Unknown ids are left out.
+   */
+  async resolveTripIds(
+    type: TripResourceType,
+    ids: string[],
+  ): Promise<Map<string, string>> {
+    const unique = Array.from(new Set(ids.filter(Boolean)));
+    if (unique.length === 0) return new Map();
+
+    let rows: { id: string; tripId: string }[];
+    switch (type) {
+      case TripResourceType.TRIP:
+        rows = (
+          await this.tripRepo.find({
+            where: { id: In(unique) },
+            select: { id: true },
+          })
+        ).map((t) => ({ id: t.id, tripId: t.id }));
+        break;
+      case TripResourceType.ITINERARY:
+        rows = await this.itineraryRepo.find({
+          where: { id: In(unique) },
+          select: { id: true, tripId: true },
+        });
+        break;
+      case TripResourceType.BUDGET:
+        rows = await this.budgetRepo.find({
+          where: { id: In(unique) },
+          select: { id: true, tripId: true },
+        });
+        break;
+      case TripResourceType.ACTIVITY:
+        rows = await this.activityRepo
+          .createQueryBuilder('act')
+          .innerJoin('act.itinerary', 'iti')
+          .select('act.id', 'id')
+          .addSelect('iti.tripId', 'tripId')
+          .where('act.id IN (:...ids)', { ids: unique })
+          .getRawMany();
+        break;
+      case TripResourceType.BUDGET_ITEM:
+        rows = await this.itemRepo
+          .createQueryBuilder('item')
+          .innerJoin('item.tripBudget', 'budget')
+          .select('item.id', 'id')
+          .addSelect('budget.tripId', 'tripId')
+          .where('item.id IN (:...ids)', { ids: unique })
+          .getRawMany();
+        break;
+    }
+    return new Map(rows.map((r) => [r.id, r.tripId]));
+  }
+
+  /**
+   * Role of the user on the trip. Trips created before memberships existed
+   * have no OWNER row, so the trip's creator falls back to OWNER.
+   */
+  async getRole(tripId: string, userId: string): Promise<MemberRole | null> {
+    const member = await this.memberRepo.findOne({
+      where: { tripId, userId },
+      select: { id: true, role: true },
+    });
+    if (member) return member.role;
+    const isCreator = await this.tripRepo.exists({
+      where: { id: tripId, userId },
+    });
+    return isCreator ? MemberRole.OWNER : null;
+  }
+
+  hasRole(role: MemberRole | null, required: MemberRole): boolean {
+    return !!role && MEMBER_ROLE_RANK[role] >= MEMBER_ROLE_RANK[required];
+  }
+
+  async checkPermission(
+    tripId: string,
+    userId: string,
+    required: MemberRole,
+  ): Promise<boolean> {
+    return this.hasRole(await this.getRole(tripId, userId), required);
+  }
+
+  /**
+   * Require `required` or higher on the trip of every id.
+   * @returns the distinct trip ids
+   * @throws NotFoundException when an id does not exist
+   * @throws ForbiddenException when the role is missing on any trip
+   */
+  async assertAccess(
+    type: TripResourceType,
+    ids: string | string[],
+    userId: string,
+    required: MemberRole,
+  ): Promise<string[]> {
+    const list = Array.isArray(ids) ? ids : [ids];
+    const tripIds = await this.resolveTripIds(type, list);
+    if (list.some((id) => !tripIds.has(id))) {
+      throw new NotFoundException(`${TRIP_RESOURCE_LABELS[type]} not found`);
+    }
+
+    const distinct = Array.from(new Set(tripIds.values()));
+    for (const tripId of distinct) {
+      if (!(await this.checkPermission(tripId, userId, required))) {
+        throw new ForbiddenException(
+          `You need ${required} role or higher to perform this action`,
+        );
+      }
+    }
+    return distinct;
+  }
+}
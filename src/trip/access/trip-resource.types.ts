@@ -0,0 +1,32 @@
+import { MemberRole } from 'src/schemas/trip-member.entity';
+
+/**
+ * Resources that belong to exactly one trip and can be used to look it up
+ */
+export enum TripResourceType {
+  TRIP = 'trip',
+  ITINERARY = 'itinerary',
+  ACTIVITY = 'activity',
+  BUDGET = 'budget',
+  BUDGET_ITEM = 'budgetItem',
+}
+
+/** Where the guard reads the resource id from */
+export interface TripResourceLocation {
+  in: 'params' | 'body' | 'query';
+  key: string;
+}
+
+export const MEMBER_ROLE_RANK: Record<MemberRole, number> = {
+  [MemberRole.VIEWER]: 0,
+  [MemberRole.EDITOR]: 1,
+  [MemberRole.OWNER]: 2,
+};
+
+export const TRIP_RESOURCE_LABELS: Record<TripResourceType, string> = {
+  [TripResourceType.TRIP]: 'Trip',
+  [TripResourceType.ITINERARY]: 'Itinerary',
+  [TripResourceType.ACTIVITY]: 'Activity',
+  [TripResourceType.BUDGET]: 'Budget',
+  [TripResourceType.BUDGET_ITEM]: 'Budget item',
+};
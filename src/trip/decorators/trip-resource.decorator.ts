@@ -0,0 +1,26 @@
+import { SetMetadata } from '@nestjs/common';
+import {
+  TripResourceLocation,
+  TripResourceType,
+} from '../access/trip-resource.types';
+
+export const TRIP_RESOURCE_KEY = 'tripResource';
+
+export interface TripResourceMetadata extends TripResourceLocation {
+  type: TripResourceType;
+}
+
+/**
+ * Tell TripPermissionGuard which id identifies the trip of a route.
+ * Without it the guard reads `params.tripId || params.id || body.tripId`.
+ * @param type Kind of resource the id points to
+ * @param location Where the id is read from (default: `params.id`)
+ */
+export const TripResource = (
+  type: TripResourceType,
+  location: TripResourceLocation = { in: 'params', key: 'id' },
+) =>
+  SetMetadata(TRIP_RESOURCE_KEY, {
+    type,
+    ...location,
+  } satisfies TripResourceMetadata);
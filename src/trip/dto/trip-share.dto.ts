@@ -0,0 +1,105 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsIn,
+  IsOptional,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TripStatus } from '../enum/trip-enum';
+
+export class CreateTripShareDto {
+  @ApiPropertyOptional({
+    description: 'Expiration time of the share link (omit for no expiry)',
+    example: '2025-12-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class UpdateTripShareDto {
+  @ApiProperty({
+    description:
+      'New expiration time of the share link; null removes the expiry',
+    example: '2025-12-31T23:59:59.000Z',
+    nullable: true,
+    type: String,
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString()
+  expiresAt: string | null;
+}
+
+export class SendTripShareDto {
+  @ApiProperty({
+    description: 'Recipients of the share link',
+    type: [String],
+    example: ['friend@example.com'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @IsEmail({}, { each: true })
+  emails: string[];
+
+  @ApiPropertyOptional({ enum: ['en', 'vi'], default: 'en' })
+  @IsOptional()
+  @IsIn(['en', 'vi'])
+  language?: 'en' | 'vi';
+}
+
+export class TripShareDto {
+  @ApiProperty() id: string;
+  @ApiProperty() tripId: string;
+  @ApiProperty() shareToken: string;
+  @ApiProperty() shareUrl: string;
+  @ApiPropertyOptional({ type: String, nullable: true })
+  expiresAt: Date | null;
+  @ApiProperty() viewCount: number;
+  @ApiProperty() createdAt: Date;
+}
+
+export class SharedActivityDto {
+  @ApiProperty() time: string;
+  @ApiProperty() title: string;
+  @ApiPropertyOptional() description?: string;
+  @ApiPropertyOptional({ type: Number, nullable: true })
+  duration?: number | null;
+  @ApiPropertyOptional({ type: Number, nullable: true })
+  cost?: number | null;
+  @ApiPropertyOptional({ type: String, nullable: true })
+  type?: string | null;
+  @ApiProperty() orderIndex: number;
+  @ApiPropertyOptional({ type: Object, nullable: true })
+  poi?: Record<string, any> | null;
+}
+
+export class SharedItineraryDayDto {
+  @ApiProperty() dayNumber: number;
+  @ApiPropertyOptional({ type: String }) date?: Date;
+  @ApiPropertyOptional() title?: string;
+  @ApiPropertyOptional() notes?: string;
+  @ApiProperty({ type: [SharedActivityDto] }) activities: SharedActivityDto[];
+}
+
+export class SharedTripDto {
+  @ApiProperty() title: string;
+  @ApiPropertyOptional() description?: string;
+  @ApiPropertyOptional() timezone?: string;
+  @ApiPropertyOptional({ type: String }) startDate?: Date;
+  @ApiPropertyOptional({ type: String }) endDate?: Date;
+  @ApiProperty({ enum: TripStatus }) status: TripStatus;
+  @ApiProperty() currency: string;
+  @ApiPropertyOptional() destination?: string;
+  @ApiPropertyOptional() thumbnailUrl?: string;
+  @ApiProperty({ type: [String] }) imageUrls: string[];
+  @ApiProperty({ type: [SharedItineraryDayDto] })
+  itinerary: SharedItineraryDayDto[];
+  @ApiProperty() viewCount: number;
+  @ApiPropertyOptional({ type: String, nullable: true })
+  expiresAt: Date | null;
+}
@@ -0,0 +1,467 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Repository } from 'typeorm';
+import { TripPermissionGuard } from './trip-permission.guard';
+import { TripAccessService } from '../access/trip-access.service';
+import { TripResourceType } from '../access/trip-resource.types';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { TripController } from '../trip.controller';
+import { ItineraryController } from 'src/itinerary/itinerary.controller';
+import { ActivityController } from 'src/activity/activity.controller';
+import { BudgetController } from 'src/budget/budget.controller';
+import { AttractionReservationController } from 'src/attractions/attraction-reservation.controller';
+
+type Role = MemberRole | 'outsider';
+
+interface RouteCase {
+  route: string;
+  controller: { prototype: object; name: string };
+  handler: string;
+  required: MemberRole | null;
+  request: {
+    params?: Record<string, string>;
+    body?: Record<string, unknown>;
+    query?: Record<string, string>;
+  };
+}
+
+const TRIP_ID = 'trip-1';
+
+const ROUTES: RouteCase[] = [
+  {
+    route: 'GET /trips/:id',
+    controller: TripController,
+    handler: 'getOne',
+    required: MemberRole.VIEWER,
+    request: { params: { id: TRIP_ID } },
+  },
+  {
+    route: 'PUT /trips/:id',
+    controller: TripController,
+    handler: 'update',
+    required: MemberRole.EDITOR,
+    request: { params: { id: TRIP_ID } },
+  },
+  {
+    route: 'DELETE /trips/:id',
+    controller: TripController,
+    handler: 'remove',
+    required: MemberRole.OWNER,
+    request: { params: { id: TRIP_ID } },
+  },
+  {
+    route: 'POST /itineraries',
+    controller: ItineraryController,
+    handler: 'create',
+    required: MemberRole.EDITOR,
+    request: { body: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'GET /itineraries',
+    controller: ItineraryController,
+    handler: 'list',
+    required: null,
+    request: { query: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'GET /itineraries/:id',
+    controller: ItineraryController,
+    handler: 'getOne',
+    required: MemberRole.VIEWER,
+    request: { params: { id: 'iti-1' } },
+  },
+  {
+    route: 'PUT /itineraries/:id',
+    controller: ItineraryController,
+    handler: 'update',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'iti-1' } },
+  },
+  {
+    route: 'DELETE /itineraries/:id',
+    controller: ItineraryController,
+    handler: 'remove',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'iti-1' } },
+  },
+  {
+    route: 'POST /activities',
+    controller: ActivityController,
+    handler: 'create',
+    required: MemberRole.EDITOR,
+    request: { body: { itineraryId: 'iti-1' } },
+  },
+  {
+    route: 'GET /activities',
+    controller: ActivityController,
+    handler: 'list',
+    required: null,
+    request: { query: { itineraryId: 'iti-1' } },
+  },
+  {
+    route: 'POST /activities/bulk',
+    controller: ActivityController,
+    handler: 'bulkCreate',
+    required: MemberRole.EDITOR,
+    request: { body: { itineraryId: 'iti-1' } },
+  },
+  {
+    route: 'PUT /activities/bulk',
+    controller: ActivityController,
+    handler: 'bulkUpdate',
+    required: null,
+    request: { body: { activities: [{ id: 'act-1' }] } },
+  },
+  {
+    route: 'PUT /activities/:id',
+    controller: ActivityController,
+    handler: 'update',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'act-1' } },
+  },
+  {
+    route: 'DELETE /activities/:id',
+    controller: ActivityController,
+    handler: 'remove',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'act-1' } },
+  },
+  {
+    route: 'GET /budget/:tripId',
+    controller: BudgetController,
+    handler: 'getBudget',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'POST /budget',
+    controller: BudgetController,
+    handler: 'create',
+    required: MemberRole.EDITOR,
+    request: { body: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'POST /budget/item',
+    controller: BudgetController,
+    handler: 'addItem',
+    required: MemberRole.EDITOR,
+    request: { body: { tripBudgetId: 'budget-1' } },
+  },
+  {
+    route: 'PATCH /budget/:id',
+    controller: BudgetController,
+    handler: 'update',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'budget-1' } },
+  },
+  {
+    route: 'PATCH /budget/item/:id',
+    controller: BudgetController,
+    handler: 'updateItem',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'item-1' } },
+  },
+  {
+    route: 'DELETE /budget/item/:id',
+    controller: BudgetController,
+    handler: 'deleteItem',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'item-1' } },
+  },
+  {
+    route: 'PUT /budget/item/:id/split',
+    controller: BudgetController,
+    handler: 'setItemSplit',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'item-1' } },
+  },
+  {
+    route: 'GET /budget/balances/:tripId',
+    controller: BudgetController,
+    handler: 'getBalances',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'GET /budget/settle-up/:tripId',
+    controller: BudgetController,
+    handler: 'getSettleUpPlan',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'GET /budget/settlements/:tripId',
+    controller: BudgetController,
+    handler: 'listSettlements',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'POST /budget/settlements',
+    controller: BudgetController,
+    handler: 'recordSettlement',
+    required: MemberRole.EDITOR,
+    request: { body: { tripBudgetId: 'budget-1' } },
+  },
+  {
+    route: 'GET /budget/summary/:tripId',
+    controller: BudgetController,
+    handler: 'getBudgetSummary',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'GET /budget/analytics/:tripId',
+    controller: BudgetController,
+    handler: 'getBudgetAnalytics',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'GET /budget/forecast/:tripId',
+    controller: BudgetController,
+    handler: 'getBudgetForecast',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'PATCH /budget/:id/convert-currency',
+    controller: BudgetController,
+    handler: 'convertBudgetCurrency',
+    required: MemberRole.EDITOR,
+    request: { params: { id: 'budget-1' } },
+  },
+  {
+    route: 'GET /budget/:budgetId/audit',
+    controller: BudgetController,
+    handler: 'getAuditLogs',
+    required: MemberRole.VIEWER,
+    request: { params: { budgetId: 'budget-1' } },
+  },
+  {
+    route: 'GET /budget/:budgetId/audit/export',
+    controller: BudgetController,
+    handler: 'exportAuditLogs',
+    required: MemberRole.VIEWER,
+    request: { params: { budgetId: 'budget-1' } },
+  },
+  {
+    route: 'POST /budget/:budgetId/import',
+    controller: BudgetController,
+    handler: 'importItems',
+    required: MemberRole.EDITOR,
+    request: { params: { budgetId: 'budget-1' } },
+  },
+  {
+    route: 'GET /budget/:budgetId/items/export',
+    controller: BudgetController,
+    handler: 'exportItems',
+    required: MemberRole.VIEWER,
+    request: { params: { budgetId: 'budget-1' } },
+  },
+  {
+    route: 'GET /trips/:tripId/attractions/catalogue',
+    controller: AttractionReservationController,
+    handler: 'searchCatalogue',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'POST /trips/:tripId/attractions',
+    controller: AttractionReservationController,
+    handler: 'create',
+    required: MemberRole.EDITOR,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'GET /trips/:tripId/attractions',
+    controller: AttractionReservationController,
+    handler: 'list',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID } },
+  },
+  {
+    route: 'GET /trips/:tripId/attractions/:id',
+    controller: AttractionReservationController,
+    handler: 'getOne',
+    required: MemberRole.VIEWER,
+    request: { params: { tripId: TRIP_ID, id: 'res-1' } },
+  },
+  {
+    route: 'PATCH /trips/:tripId/attractions/:id',
+    controller: AttractionReservationController,
+    handler: 'update',
+    required: MemberRole.EDITOR,
+    request: { params: { tripId: TRIP_ID, id: 'res-1' } },
+  },
+  {
+    route: 'DELETE /trips/:tripId/attractions/:id',
+    controller: AttractionReservationController,
+    handler: 'remove',
+    required: MemberRole.EDITOR,
+    request: { params: { tripId: TRIP_ID, id: 'res-1' } },
+  },
+  {
+    route: 'POST /trips/:tripId/attractions/:id/attachments',
+    controller: AttractionReservationController,
+    handler: 'addAttachment',
+    required: MemberRole.EDITOR,
+    request: { params: { tripId: TRIP_ID, id: 'res-1' } },
+  },
+  {
+    route: 'DELETE /trips/:tripId/attractions/:id/attachments/:attachmentId',
+    controller: AttractionReservationController,
+    handler: 'removeAttachment',
+    required: MemberRole.EDITOR,
+    request: { params: { tripId: TRIP_ID, id: 'res-1' } },
+  },
+];
+
+const ROLES: Role[] = [
+  MemberRole.OWNER,
+  MemberRole.EDITOR,
+  MemberRole.VIEWER,
+  'outsider',
+];
+
+const RANK: Record<Role, number> = {
+  outsider: -1,
+  [MemberRole.VIEWER]: 0,
+  [MemberRole.EDITOR]: 1,
+  [MemberRole.OWNER]: 2,
+};
+
+describe('TripPermissionGuard', () => {
+  const rawQuery = (rows: { id: string; tripId: string }[]) => ({
+    createQueryBuilder: jest.fn(() => {
+      const qb = {
+        innerJoin: jest.fn(() => qb),
+        select: jest.fn(() => qb),
+        addSelect: jest.fn(() => qb),
+        where: jest.fn(() => qb),
+        getRawMany: jest.fn().mockResolvedValue(rows),
+      };
+      return qb;
+    }),
+  });
+
+  const tripRepo = {
+    find: jest.fn().mockResolvedValue([{ id: TRIP_ID }]),
+    exists: jest.fn().mockResolvedValue(false),
+  };
+  const memberRepo = { findOne: jest.fn() };
+  const itineraryRepo = {
+    find: jest.fn().mockResolvedValue([{ id: 'iti-1', tripId: TRIP_ID }]),
+  };
+  const budgetRepo = {
+    find: jest.fn().mockResolvedValue([{ id: 'budget-1', tripId: TRIP_ID }]),
+  };
+  const activityRepo = rawQuery([{ id: 'act-1', tripId: TRIP_ID }]);
+  const itemRepo = rawQuery([{ id: 'item-1', tripId: TRIP_ID }]);
+
+  const accessService = new TripAccessService(
+    tripRepo as unknown as Repository<any>,
+    memberRepo as unknown as Repository<any>,
+    itineraryRepo as unknown as Repository<any>,
+    activityRepo as unknown as Repository<any>,
+    budgetRepo as unknown as Repository<any>,
+    itemRepo as unknown as Repository<any>,
+  );
+  const guard = new TripPermissionGuard(new Reflector(), accessService);
+
+  const contextFor = (
+    testCase: RouteCase,
+    request: Record<string, unknown> = {},
+  ): ExecutionContext =>
+    ({
+      getHandler: () =>
+        (testCase.controller.prototype as Record<string, unknown>)[
+          testCase.handler
+        ],
+      getClass: () => testCase.controller,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          user: { id: 'user-1' },
+          params: {},
+          body: {},
+          query: {},
+          ...testCase.request,
+          ...request,
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const actAs = (role: Role) => {
+    memberRepo.findOne.mockResolvedValue(
+      role === 'outsider' ? null : { id: 'member-1', role },
+    );
+  };
+
+  beforeEach(() => {
+    memberRepo.findOne.mockReset();
+    tripRepo.exists.mockResolvedValue(false);
+  });
+
+  describe.each(ROUTES)('$route', (testCase) => {
+    it.each(ROLES)('as %s', async (role) => {
+      actAs(role);
+      const allowed =
+        testCase.required === null || RANK[role] >= RANK[testCase.required];
+
+      const result = guard.canActivate(contextFor(testCase));
+
+      if (allowed) {
+        await expect(result).resolves.toBe(true);
+      } else {
+        await expect(result).rejects.toThrow(ForbiddenException);
+      }
+      if (testCase.required !== null) {
+        expect(memberRepo.findOne).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: { tripId: TRIP_ID, userId: 'user-1' },
+          }),
+        );
+      }
+    });
+  });
+
+  it('returns 404 when the resource does not exist', async () => {
+    actAs(MemberRole.OWNER);
+    const route = ROUTES.find((r) => r.route === 'PUT /activities/:id')!;
+
+    await expect(
+      guard.canActivate(contextFor(route, { params: { id: 'missing' } })),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('treats the trip creator without a member row as owner', async () => {
+    actAs('outsider');
+    tripRepo.exists.mockResolvedValue(true);
+    const route = ROUTES.find((r) => r.route === 'DELETE /trips/:id')!;
+
+    await expect(guard.canActivate(contextFor(route))).resolves.toBe(true);
+  });
+
+  // PUT /activities/bulk takes ids from the body; ActivityService checks them
+  describe('PUT /activities/bulk (service check)', () => {
+    it.each(ROLES)('as %s', async (role) => {
+      actAs(role);
+      const result = accessService.assertAccess(
+        TripResourceType.ACTIVITY,
+        ['act-1'],
+        'user-1',
+        MemberRole.EDITOR,
+      );
+
+      if (RANK[role] >= RANK[MemberRole.EDITOR]) {
+        await expect(result).resolves.toEqual([TRIP_ID]);
+      } else {
+        await expect(result).rejects.toThrow(ForbiddenException);
+      }
+    });
+  });
+});
@@ -3,18 +3,24 @@ import {
   CanActivate,
   ExecutionContext,
   ForbiddenException,
+  NotFoundException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { REQUIRED_ROLE_KEY } from '../decorators/require-role.decorator';
+import {
+  TRIP_RESOURCE_KEY,
+  TripResourceMetadata,
+} from '../decorators/trip-resource.decorator';
 import { MemberRole } from 'src/schemas/trip-member.entity';
-import { TripCollaborationService } from '../trip-collaboration.service';
+import { TripAccessService } from '../access/trip-access.service';
+import { TRIP_RESOURCE_LABELS } from '../access/trip-resource.types';
 import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
 
 @Injectable()
 export class TripPermissionGuard implements CanActivate {
   constructor(
     private reflector: Reflector,
-    private collaborationService: TripCollaborationService,
+    private accessService: TripAccessService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -34,17 +40,15 @@ export class TripPermissionGuard implements CanActivate {
       throw new ForbiddenException('User not authenticated');
     }
 
-    // Get tripId from params or body
-    const params = request.params as Record<string, string>;
-    const body = request.body as Record<string, string>;
-    const tripId = params.tripId || params.id || body.tripId;
-
-    if (!tripId) {
-      throw new ForbiddenException('Trip ID not found in request');
-    }
+    const resource =
+      this.reflector.getAllAndOverride<TripResourceMetadata | undefined>(
+        TRIP_RESOURCE_KEY,
+        [context.getHandler(), context.getClass()],
+      ) ?? null;
+    const tripId = await this.resolveTripId(request, resource);
 
     // Check permission
-    const hasPermission = await this.collaborationService.checkPermission(
+    const hasPermission = await this.accessService.checkPermission(
       tripId,
       user.id,
       requiredRole,
@@ -58,4 +62,43 @@ export class TripPermissionGuard implements CanActivate {
 
     return true;
   }
+
+  private async resolveTripId(
+    request: AuthenticatedRequest,
+    resource: TripResourceMetadata | null,
+  ): Promise<string> {
+    const params = (request.params ?? {}) as Record<string, string>;
+    const body = (request.body ?? {}) as Record<string, unknown>;
+
+    if (!resource) {
+      // Get tripId from params or body
+      const tripId = params.tripId || params.id || body.tripId;
+      if (!tripId || typeof tripId !== 'string') {
+        throw new ForbiddenException('Trip ID not found in request');
+      }
+      return tripId;
+    }
+
+    const source: Record<string, unknown> =
+      resource.in === 'params'
+        ? params
+        : resource.in === 'query'
+          ? (request.query ?? {})
+          : body;
+    const id = source[resource.key];
+    if (!id || typeof id !== 'string') {
+      throw new ForbiddenException(`${resource.key} not found in request`);
+    }
+
+    const tripIds = await this.accessService.resolveTripIds(resource.type, [
+      id,
+    ]);
+    const tripId = tripIds.get(id);
+    if (!tripId) {
+      throw new NotFoundException(
+        `${TRIP_RESOURCE_LABELS[resource.type]} not found`,
+      );
+    }
+    return tripId;
+  }
 }
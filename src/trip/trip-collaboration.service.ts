@@ -25,6 +25,7 @@ import { UpdateMemberRoleDto } from './dto/update-member-role.dto';
 import { AcceptInvitationDto } from './dto/accept-invitation.dto';
 import { TripMembersQueryDto } from './dto/trip-members-query.dto';
 import * as crypto from 'crypto';
+import { TripAccessService } from './access/trip-access.service';
 
 @Injectable()
 export class TripCollaborationService {
@@ -41,6 +42,7 @@ export class TripCollaborationService {
     private readonly userRepository: Repository<UserEntity>,
     private readonly emailService: EmailService,
     private readonly configService: ConfigService,
+    private readonly accessService: TripAccessService,
   ) {}
 
   /**
@@ -599,21 +601,7 @@ export class TripCollaborationService {
     userId: string,
     requiredRole: MemberRole,
   ): Promise<boolean> {
-    const member = await this.memberRepository.findOne({
-      where: { tripId, userId },
-    });
-
-    if (!member) {
-      return false;
-    }
-
-    const roleHierarchy = {
-      [MemberRole.VIEWER]: 0,
-      [MemberRole.EDITOR]: 1,
-      [MemberRole.OWNER]: 2,
-    };
-
-    return roleHierarchy[member.role] >= roleHierarchy[requiredRole];
+    return this.accessService.checkPermission(tripId, userId, requiredRole);
   }
 
   /**
@@ -623,17 +611,13 @@ export class TripCollaborationService {
     tripId: string,
     userId: string,
   ): Promise<MemberRole | null> {
-    const member = await this.memberRepository.findOne({
-      where: { tripId, userId },
-    });
-
-    return member?.role || null;
+    return this.accessService.getRole(tripId, userId);
   }
 
   /**
    * Log activity
    */
-  private async logActivity(
+  async logActivity(
     tripId: string,
     userId: string,
     action: ActivityAction,
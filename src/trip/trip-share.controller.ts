@@ -0,0 +1,147 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { TripShareService } from './trip-share.service';
+import {
+  CreateTripShareDto,
+  SendTripShareDto,
+  UpdateTripShareDto,
+} from './dto/trip-share.dto';
+import { TripPermissionGuard } from './guards/trip-permission.guard';
+import { RequireRole } from './decorators/require-role.decorator';
+import { MemberRole } from 'src/schemas/trip-member.entity';
+import { Public } from 'src/auth/public.decorator';
+import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { ResponseUtil } from 'src/shared/utils/response.util';
+
+@ApiTags('Trip Sharing')
+@Controller('trips')
+export class TripShareController {
+  constructor(private readonly shareService: TripShareService) {}
+
+  @Get('shared/:token')
+  @Public()
+  @ApiOperation({ summary: 'View a shared trip by its public token' })
+  @ApiParam({ name: 'token', description: 'Share token' })
+  @ApiResponse({ status: 200, description: 'Shared trip retrieved' })
+  @ApiResponse({ status: 404, description: 'Share link not found' })
+  @ApiResponse({ status: 410, description: 'Share link has expired' })
+  async getSharedTrip(@Param('token') token: string) {
+    const trip = await this.shareService.getSharedTrip(token);
+    return ResponseUtil.success(trip);
+  }
+
+  @Get(':id/share')
+  @ApiBearerAuth()
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.OWNER)
+  @ApiOperation({ summary: 'Get the share link of a trip' })
+  @ApiParam({ name: 'id', description: 'Trip ID' })
+  @ApiResponse({ status: 200, description: 'Share link retrieved' })
+  @ApiResponse({ status: 404, description: 'Share link not found' })
+  async getShare(@Param('id') tripId: string) {
+    const share = await this.shareService.getShare(tripId);
+    return ResponseUtil.success(share);
+  }
+
+  @Post(':id/share')
+  @ApiBearerAuth()
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.OWNER)
+  @ApiOperation({ summary: 'Create the share link of a trip' })
+  @ApiParam({ name: 'id', description: 'Trip ID' })
+  @ApiResponse({ status: 201, description: 'Share link created' })
+  @ApiResponse({ status: 403, description: 'Only owners can share a trip' })
+  async createShare(
+    @Param('id') tripId: string,
+    @Body() dto: CreateTripShareDto,
+  ) {
+    const share = await this.shareService.createShare(tripId, dto);
+    return ResponseUtil.success(share, HttpStatus.CREATED);
+  }
+
+  @Post(':id/share/rotate')
+  @ApiBearerAuth()
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.OWNER)
+  @ApiOperation({
+    summary: 'Rotate the share token, invalidating the previous link',
+  })
+  @ApiParam({ name: 'id', description: 'Trip ID' })
+  @ApiResponse({ status: 201, description: 'Share token rotated' })
+  @ApiResponse({ status: 404, description: 'Share link not found' })
+  async rotateShare(@Param('id') tripId: string) {
+    const share = await this.shareService.rotateShare(tripId);
+    return ResponseUtil.success(share, HttpStatus.CREATED);
+  }
+
+  @Patch(':id/share')
+  @ApiBearerAuth()
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.OWNER)
+  @ApiOperation({ summary: 'Set or clear the expiry of the share link' })
+  @ApiParam({ name: 'id', description: 'Trip ID' })
+  @ApiResponse({ status: 200, description: 'Share link updated' })
+  @ApiResponse({ status: 404, description: 'Share link not found' })
+  async updateShare(
+    @Param('id') tripId: string,
+    @Body() dto: UpdateTripShareDto,
+  ) {
+    const share = await this.shareService.updateExpiry(tripId, dto);
+    return ResponseUtil.success(share);
+  }
+
+  @Delete(':id/share')
+  @ApiBearerAuth()
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.OWNER)
+  @ApiOperation({ summary: 'Revoke the share link of a trip' })
+  @ApiParam({ name: 'id', description: 'Trip ID' })
+  @ApiResponse({ status: 200, description: 'Share link revoked' })
+  @ApiResponse({ status: 404, description: 'Share link not found' })
+  async revokeShare(@Param('id') tripId: string) {
+    await this.shareService.revokeShare(tripId);
+    return ResponseUtil.success({ revoked: true });
+  }
+
+  @Post(':id/share/email')
+  @ApiBearerAuth()
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.OWNER)
+  @ApiOperation({ summary: 'Email the share link to non-members' })
+  @ApiParam({ name: 'id', description: 'Trip ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Share emails processed; trip members are skipped',
+  })
+  @ApiResponse({ status: 400, description: 'Share link has expired' })
+  @ApiResponse({ status: 404, description: 'Share link not found' })
+  async sendShareEmails(
+    @Param('id') tripId: string,
+    @Body() dto: SendTripShareDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const result = await this.shareService.sendShareEmails(
+      tripId,
+      req.user.id,
+      dto,
+    );
+    return ResponseUtil.success(result, HttpStatus.CREATED);
+  }
+}
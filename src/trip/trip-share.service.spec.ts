@@ -0,0 +1,286 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  GoneException,
+  NotFoundException,
+} from '@nestjs/common';
+import { TripShareService } from './trip-share.service';
+import { TripShareEntity } from '../schemas/trip-share.entity';
+import { TripEntity } from '../schemas/trip.entity';
+import { UserEntity } from '../schemas/user.entity';
+import { TripMemberEntity } from '../schemas/trip-member.entity';
+import { TripRepository } from './trip.repository';
+import { EmailService } from '../email/email.service';
+
+const mockShareRepo = () => ({
+  findOne: jest.fn(),
+  create: jest.fn((data: Partial<TripShareEntity>) => ({ ...data })),
+  save: jest.fn((entity: Partial<TripShareEntity>) =>
+    Promise.resolve({ id: 'share-1', createdAt: new Date(), ...entity }),
+  ),
+  remove: jest.fn(),
+  increment: jest.fn(),
+});
+const mockTripEntityRepo = () => ({ findOne: jest.fn() });
+const mockUserRepo = () => ({ findOne: jest.fn() });
+const mockMemberRepo = () => ({ find: jest.fn().mockResolvedValue([]) });
+const mockTripRepository = () => ({ findWithItinerary: jest.fn() });
+const mockEmail = () => ({ sendTripSharingEmail: jest.fn() });
+const mockConfig = () => ({ get: jest.fn(() => 'http://app.test') });
+
+describe('TripShareService', () => {
+  let service: TripShareService;
+  let shareRepo: any;
+  let tripEntityRepo: any;
+  let userRepo: any;
+  let memberRepo: any;
+  let tripRepository: any;
+  let emailService: any;
+
+  const tripId = 'trip-1';
+  const future = new Date(Date.now() + 86_400_000);
+  const past = new Date(Date.now() - 86_400_000);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TripShareService,
+        {
+          provide: getRepositoryToken(TripShareEntity),
+          useFactory: mockShareRepo,
+        },
+        {
+          provide: getRepositoryToken(TripEntity),
+          useFactory: mockTripEntityRepo,
+        },
+        { provide: getRepositoryToken(UserEntity), useFactory: mockUserRepo },
+        {
+          provide: getRepositoryToken(TripMemberEntity),
+          useFactory: mockMemberRepo,
+        },
+        { provide: TripRepository, useFactory: mockTripRepository },
+        { provide: EmailService, useFactory: mockEmail },
+        { provide: ConfigService, useFactory: mockConfig },
+      ],
+    }).compile();
+
+    service = module.get(TripShareService);
+    shareRepo = module.get(getRepositoryToken(TripShareEntity));
+    tripEntityRepo = module.get(getRepositoryToken(TripEntity));
+    userRepo = module.get(getRepositoryToken(UserEntity));
+    memberRepo = module.get(getRepositoryToken(TripMemberEntity));
+    tripRepository = module.get(TripRepository);
+    emailService = module.get(EmailService);
+
+    tripEntityRepo.findOne.mockResolvedValue({ id: tripId, title: 'Hanoi' });
+  });
+
+  describe('createShare', () => {
+    it('creates a new link with a random token', async () => {
+      shareRepo.findOne.mockResolvedValue(null);
+      const result = await service.createShare(tripId, {
+        expiresAt: future.toISOString(),
+      });
+      expect(result.shareToken).toHaveLength(64);
+      expect(result.shareUrl).toBe(
+        `http://app.test/shared/${result.shareToken}`,
+      );
+      expect(result.expiresAt).toEqual(future);
+      expect(result.viewCount).toBe(0);
+    });
+
+    it('returns the existing link instead of creating another', async () => {
+      shareRepo.findOne.mockResolvedValue({
+        id: 'share-1',
+        tripId,
+        shareToken: 'abc',
+        viewCount: 3,
+      });
+      const result = await service.createShare(tripId, {});
+      expect(result.shareToken).toBe('abc');
+      expect(shareRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('rejects an expiry in the past', async () => {
+      await expect(
+        service.createShare(tripId, { expiresAt: past.toISOString() }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('rotateShare', () => {
+    it('replaces the token and resets the view count', async () => {
+      shareRepo.findOne.mockResolvedValue({
+        id: 'share-1',
+        tripId,
+        shareToken: 'old',
+        viewCount: 5,
+      });
+      const result = await service.rotateShare(tripId);
+      expect(result.shareToken).not.toBe('old');
+      expect(result.viewCount).toBe(0);
+    });
+
+    it('throws when no link exists', async () => {
+      shareRepo.findOne.mockResolvedValue(null);
+      await expect(service.rotateShare(tripId)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('updateExpiry', () => {
+    it('clears the expiry with null', async () => {
+      shareRepo.findOne.mockResolvedValue({
+        id: 'share-1',
+        tripId,
+        shareToken: 'abc',
+        expiresAt: future,
+        viewCount: 0,
+      });
+      const result = await service.updateExpiry(tripId, { expiresAt: null });
+      expect(result.expiresAt).toBeNull();
+    });
+
+    it('allows expiring the link immediately', async () => {
+      shareRepo.findOne.mockResolvedValue({
+        id: 'share-1',
+        tripId,
+        shareToken: 'abc',
+        viewCount: 0,
+      });
+      const result = await service.updateExpiry(tripId, {
+        expiresAt: past.toISOString(),
+      });
+      expect(result.expiresAt).toEqual(past);
+    });
+  });
+
+  describe('getSharedTrip', () => {
+    it('returns a read-only view and counts the visit', async () => {
+      shareRepo.findOne.mockResolvedValue({
+        id: 'share-1',
+        tripId,
+        shareToken: 'abc',
+        viewCount: 2,
+      });
+      tripRepository.findWithItinerary.mockResolvedValue({
+        id: tripId,
+        userId: 'owner-1',
+        title: 'Hanoi',
+        currency: 'VND',
+        images: [],
+        itinerary: [
+          {
+            dayNumber: 1,
+            title: 'Day 1',
+            activities: [
+              { time: '09:00', title: 'Temple', cost: '50000', orderIndex: 0 },
+            ],
+          },
+        ],
+      });
+
+      const result = await service.getSharedTrip('abc');
+
+      expect(shareRepo.increment).toHaveBeenCalledWith(
+        { id: 'share-1' },
+        'viewCount',
+        1,
+      );
+      expect(result.viewCount).toBe(3);
+      expect(result.itinerary[0].activities[0].cost).toBe(50000);
+      expect(result).not.toHaveProperty('userId');
+    });
+
+    it('rejects expired links', async () => {
+      shareRepo.findOne.mockResolvedValue({
+        id: 'share-1',
+        tripId,
+        shareToken: 'abc',
+        expiresAt: past,
+        viewCount: 0,
+      });
+      await expect(service.getSharedTrip('abc')).rejects.toBeInstanceOf(
+        GoneException,
+      );
+      expect(shareRepo.increment).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown tokens', async () => {
+      shareRepo.findOne.mockResolvedValue(null);
+      await expect(service.getSharedTrip('nope')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('sendShareEmails', () => {
+    it('mails each unique recipient and reports failures', async () => {
+      shareRepo.findOne.mockResolvedValue({
+        id: 'share-1',
+        tripId,
+        shareToken: 'abc',
+        viewCount: 0,
+      });
+      userRepo.findOne.mockResolvedValue({
+        email: 'owner@example.com',
+        firstName: 'An',
+        lastName: 'Nguyen',
+      });
+      emailService.sendTripSharingEmail
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      const result = await service.sendShareEmails(tripId, 'owner-1', {
+        emails: ['a@example.com', 'A@example.com', 'b@example.com'],
+      });
+
+      expect(emailService.sendTripSharingEmail).toHaveBeenCalledTimes(2);
+      expect(emailService.sendTripSharingEmail).toHaveBeenCalledWith(
+        'a@example.com',
+        'An Nguyen',
+        'Hanoi',
+        'http://app.test/shared/abc',
+        'en',
+      );
+      expect(result).toEqual({
+        sent: ['a@example.com'],
+        failed: ['b@example.com'],
+        skipped: [],
+      });
+    });
+
+    it('skips recipients who are already trip members', async () => {
+      shareRepo.findOne.mockResolvedValue({
+        id: 'share-1',
+        tripId,
+        shareToken: 'abc',
+        viewCount: 0,
+      });
+      userRepo.findOne.mockResolvedValue({ email: 'owner@example.com' });
+      memberRepo.find.mockResolvedValue([
+        { user: { email: 'Owner@Example.com' } },
+        { user: { email: 'member@example.com' } },
+      ]);
+      emailService.sendTripSharingEmail.mockResolvedValue(true);
+
+      const result = await service.sendShareEmails(tripId, 'owner-1', {
+        emails: [
+          'member@example.com',
+          'friend@example.com',
+          'owner@example.com',
+        ],
+      });
+
+      expect(emailService.sendTripSharingEmail).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        sent: ['friend@example.com'],
+        failed: [],
+        skipped: ['member@example.com', 'owner@example.com'],
+      });
+    });
+  });
+});
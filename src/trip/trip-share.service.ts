@@ -0,0 +1,279 @@
+import {
+  BadRequestException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { TripShareEntity } from 'src/schemas/trip-share.entity';
+import { TripEntity } from 'src/schemas/trip.entity';
+import { UserEntity } from 'src/schemas/user.entity';
+import { TripMemberEntity } from 'src/schemas/trip-member.entity';
+import { EmailService } from 'src/email/email.service';
+import { TripRepository } from './trip.repository';
+import {
+  CreateTripShareDto,
+  SendTripShareDto,
+  SharedTripDto,
+  TripShareDto,
+  UpdateTripShareDto,
+} from './dto/trip-share.dto';
+
+@Injectable()
+export class TripShareService {
+  constructor(
+    @InjectRepository(TripShareEntity)
+    private readonly shareRepository: Repository<TripShareEntity>,
+    @InjectRepository(TripEntity)
+    private readonly tripEntityRepository: Repository<TripEntity>,
+    @InjectRepository(UserEntity)
+    private readonly userRepository: Repository<UserEntity>,
+    @InjectRepository(TripMemberEntity)
+    private readonly memberRepository: Repository<TripMemberEntity>,
+    private readonly tripRepository: TripRepository,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Get the current share link of a trip
+   */
+  async getShare(tripId: string): Promise<TripShareDto> {
+    const share = await this.findShareOrFail(tripId);
+    return this.toShareDto(share);
+  }
+
+  /**
+   * Create the share link of a trip, or return the existing one.
+   * A provided expiresAt replaces the current expiry.
+   */
+  async createShare(
+    tripId: string,
+    dto: CreateTripShareDto,
+  ): Promise<TripShareDto> {
+    await this.ensureTripExists(tripId);
+    const expiresAt = dto.expiresAt
+      ? this.parseExpiry(dto.expiresAt)
+      : undefined;
+
+    const existing = await this.shareRepository.findOne({ where: { tripId } });
+    if (existing) {
+      if (expiresAt) {
+        existing.expiresAt = expiresAt;
+        await this.shareRepository.save(existing);
+      }
+      return this.toShareDto(existing);
+    }
+
+    const share = this.shareRepository.create({
+      tripId,
+      shareToken: this.generateToken(),
+      expiresAt,
+      viewCount: 0,
+    });
+    const saved = await this.shareRepository.save(share);
+    return this.toShareDto(saved);
+  }
+
+  /**
+   * Replace the share token, invalidating the previous link
+   */
+  async rotateShare(tripId: string): Promise<TripShareDto> {
+    const share = await this.findShareOrFail(tripId);
+    share.shareToken = this.generateToken();
+    share.viewCount = 0;
+    const saved = await this.shareRepository.save(share);
+    return this.toShareDto(saved);
+  }
+
+  /**
+   * Set or clear the expiry of the share link
+   */
+  async updateExpiry(
+    tripId: string,
+    dto: UpdateTripShareDto,
+  ): Promise<TripShareDto> {
+    const share = await this.findShareOrFail(tripId);
+    share.expiresAt =
+      dto.expiresAt === null ? null : this.parseExpiry(dto.expiresAt, true);
+    const saved = await this.shareRepository.save(share);
+    return this.toShareDto(saved);
+  }
+
+  /**
+   * Revoke the share link
+   */
+  async revokeShare(tripId: string): Promise<void> {
+    const share = await this.findShareOrFail(tripId);
+    await this.shareRepository.remove(share);
+  }
+
+  /**
+   * Email the share link to people who are not members of the trip.
+   * Members are reported as skipped instead.
+   */
+  async sendShareEmails(
+    tripId: string,
+    senderId: string,
+    dto: SendTripShareDto,
+  ): Promise<{ sent: string[]; failed: string[]; skipped: string[] }> {
+    const share = await this.findShareOrFail(tripId);
+    if (this.isExpired(share)) {
+      throw new BadRequestException('Share link has expired');
+    }
+
+    const trip = await this.ensureTripExists(tripId);
+    const sender = await this.userRepository.findOne({
+      where: { id: senderId },
+    });
+    const senderName =
+      sender?.firstName && sender?.lastName
+        ? `${sender.firstName} ${sender.lastName}`
+        : sender?.email || 'User';
+
+    const shareUrl = this.buildShareUrl(share.shareToken);
+    const recipients = Array.from(
+      new Set(dto.emails.map((e) => e.trim().toLowerCase())),
+    );
+    const members = await this.memberRepository.find({
+      where: { tripId },
+      relations: ['user'],
+    });
+    const memberEmails = new Set(
+      members
+        .map((m) => m.user?.email?.trim().toLowerCase())
+        .filter((email): email is string => !!email),
+    );
+
+    const sent: string[] = [];
+    const failed: string[] = [];
+    const skipped = recipients.filter((email) => memberEmails.has(email));
+    for (const email of recipients) {
+      if (memberEmails.has(email)) continue;
+      const ok = await this.emailService.sendTripSharingEmail(
+        email,
+        senderName,
+        trip.title,
+        shareUrl,
+        dto.language ?? 'en',
+      );
+      (ok ? sent : failed).push(email);
+    }
+
+    return { sent, failed, skipped };
+  }
+
+  /**
+   * Resolve a share token into a read-only view of the trip and count the view
+   */
+  async getSharedTrip(token: string): Promise<SharedTripDto> {
+    const share = await this.shareRepository.findOne({
+      where: { shareToken: token },
+    });
+    if (!share) {
+      throw new NotFoundException('Share link not found');
+    }
+    if (this.isExpired(share)) {
+      throw new GoneException('Share link has expired');
+    }
+
+    const trip = await this.tripRepository.findWithItinerary(share.tripId);
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    await this.shareRepository.increment({ id: share.id }, 'viewCount', 1);
+
+    return this.toSharedTripDto(trip, share.viewCount + 1, share.expiresAt);
+  }
+
+  private async findShareOrFail(tripId: string): Promise<TripShareEntity> {
+    const share = await this.shareRepository.findOne({ where: { tripId } });
+    if (!share) {
+      throw new NotFoundException('Share link not found');
+    }
+    return share;
+  }
+
+  private async ensureTripExists(tripId: string): Promise<TripEntity> {
+    const trip = await this.tripEntityRepository.findOne({
+      where: { id: tripId },
+    });
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+    return trip;
+  }
+
+  private parseExpiry(value: string, allowPast = false): Date {
+    const date = new Date(value);
+    if (!allowPast && date.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+    return date;
+  }
+
+  private isExpired(share: TripShareEntity): boolean {
+    return !!share.expiresAt && share.expiresAt.getTime() <= Date.now();
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private buildShareUrl(token: string): string {
+    return `${this.configService.get('FRONTEND_URL')}/shared/${token}`;
+  }
+
+  private toShareDto(share: TripShareEntity): TripShareDto {
+    return {
+      id: share.id,
+      tripId: share.tripId,
+      shareToken: share.shareToken,
+      shareUrl: this.buildShareUrl(share.shareToken),
+      expiresAt: share.expiresAt ?? null,
+      viewCount: share.viewCount,
+      createdAt: share.createdAt,
+    };
+  }
+
+  private toSharedTripDto(
+    trip: TripEntity,
+    viewCount: number,
+    expiresAt?: Date | null,
+  ): SharedTripDto {
+    return {
+      title: trip.title,
+      description: trip.description,
+      timezone: trip.timezone,
+      startDate: trip.startDate,
+      endDate: trip.endDate,
+      status: trip.status,
+      currency: trip.currency,
+      destination: trip.primaryDestination?.name,
+      thumbnailUrl: trip.images?.find((img) => img.isThumbnail)?.url,
+      imageUrls: (trip.images ?? []).map((img) => img.url),
+      itinerary: (trip.itinerary ?? []).map((day) => ({
+        dayNumber: day.dayNumber,
+        date: day.date,
+        title: day.title,
+        notes: day.notes,
+        activities: (day.activities ?? []).map((a) => ({
+          time: a.time,
+          title: a.title,
+          description: a.description,
+          duration: a.duration,
+          cost: a.cost != null ? Number(a.cost) : null,
+          type: a.type,
+          orderIndex: a.orderIndex,
+          poi: a.poi,
+        })),
+      })),
+      viewCount,
+      expiresAt: expiresAt ?? null,
+    };
+  }
+}
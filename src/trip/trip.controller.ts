@@ -26,6 +26,9 @@ import { ResponseUtil } from '../shared/utils/response.util';
 import { TripListQueryDto } from './dto/trip-list-query.dto';
 import { AdminRoleGuard } from 'src/auth/guards/roles.guard';
 import { AuthenticatedRequest } from 'src/auth/types/authenticated-request';
+import { TripPermissionGuard } from './guards/trip-permission.guard';
+import { RequireRole } from './decorators/require-role.decorator';
+import { MemberRole } from 'src/schemas/trip-member.entity';
 
 @ApiTags('Trips')
 @ApiBearerAuth()
@@ -67,8 +70,10 @@ export class TripController {
     return ResponseUtil.success(result);
   }
 
-  @ApiOperation({ summary: 'Get trip by id (current user owns)' })
+  @ApiOperation({ summary: 'Get trip by id (any trip member)' })
   @ApiNotFoundResponse({ description: 'Trip not found' })
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.VIEWER)
   @Get(':id')
   async getOne(
     @Req() req: AuthenticatedRequest,
@@ -78,8 +83,11 @@ export class TripController {
     return ResponseUtil.success(trip);
   }
 
-  @ApiOperation({ summary: 'Update trip (current user owns)' })
+  @ApiOperation({ summary: 'Update trip (editor or owner)' })
   @ApiResponse({ status: 200, description: 'Trip updated successfully' })
+  @ApiForbiddenResponse({ description: 'Editor role required' })
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.EDITOR)
   @Put(':id')
   async update(
     @Req() req: AuthenticatedRequest,
@@ -90,8 +98,11 @@ export class TripController {
     return ResponseUtil.success(updated);
   }
 
-  @ApiOperation({ summary: 'Delete trip (current user owns)' })
+  @ApiOperation({ summary: 'Delete trip (owner only)' })
   @ApiResponse({ status: 200, description: 'Trip deleted successfully' })
+  @ApiForbiddenResponse({ description: 'Owner role required' })
+  @UseGuards(TripPermissionGuard)
+  @RequireRole(MemberRole.OWNER)
   @Delete(':id')
   async remove(
     @Req() req: AuthenticatedRequest,
@@ -6,6 +6,7 @@ import { TripImageEntity } from '../schemas/trip-image.entity';
 import { TripMemberEntity } from '../schemas/trip-member.entity';
 import { TripInvitationEntity } from '../schemas/trip-invitation.entity';
 import { TripActivityLogEntity } from '../schemas/trip-activity-log.entity';
+import { TripShareEntity } from '../schemas/trip-share.entity';
 import { UserEntity } from '../schemas/user.entity';
 import { RefreshTokenEntity } from '../schemas/refresh-token.entity';
 import { TripService } from './trip.service';
@@ -16,7 +17,9 @@ import { TripImageService } from './images/trip-image.service';
 import { TripImageController } from './images/trip-image.controller';
 import { TripCollaborationService } from './trip-collaboration.service';
 import { TripCollaborationController } from './trip-collaboration.controller';
-import { TripPermissionGuard } from './guards/trip-permission.guard';
+import { TripShareService } from './trip-share.service';
+import { TripShareController } from './trip-share.controller';
+import { TripAccessModule } from './access/trip-access.module';
 import { UploadModule } from '../upload/upload.module';
 import { ItineraryModule } from '../itinerary/itinerary.module';
 import { ActivityModule } from '../activity/activity.module';
@@ -32,6 +35,7 @@ import { DestinationModule } from '../destinations/destination.module';
       TripMemberEntity,
       TripInvitationEntity,
       TripActivityLogEntity,
+      TripShareEntity,
       UserEntity,
       RefreshTokenEntity,
     ]),
@@ -40,11 +44,13 @@ import { DestinationModule } from '../destinations/destination.module';
     ItineraryModule,
     ActivityModule,
     EmailModule,
+    TripAccessModule,
   ],
   controllers: [
     TripController,
     TripImageController,
     TripCollaborationController,
+    TripShareController,
   ],
   providers: [
     TripService,
@@ -52,7 +58,7 @@ import { DestinationModule } from '../destinations/destination.module';
     TripImageRepository,
     TripImageService,
     TripCollaborationService,
-    TripPermissionGuard,
+    TripShareService,
   ],
   exports: [
     TripService,
@@ -60,6 +66,7 @@ import { DestinationModule } from '../destinations/destination.module';
     TripImageRepository,
     TripImageService,
     TripCollaborationService,
+    TripAccessModule,
   ],
 })
 export class TripModule {}
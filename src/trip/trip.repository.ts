@@ -7,6 +7,7 @@ import { TripStatus } from './enum/trip-enum';
 export interface ITripRepository {
   findById(id: string): Promise<TripEntity | null>;
   findByIdForUser(id: string, userId: string): Promise<TripEntity | null>;
+  findWithItinerary(id: string): Promise<TripEntity | null>;
   createTrip(data: Partial<TripEntity>): Promise<TripEntity>;
   updateTrip(id: string, data: Partial<TripEntity>): Promise<void>;
   deleteTrip(id: string): Promise<void>;
@@ -96,6 +97,20 @@ export class TripRepository implements ITripRepository {
     return qb.getOne();
   }
 
+  async findWithItinerary(id: string): Promise<TripEntity | null> {
+    return this.repo
+      .createQueryBuilder('trip')
+      .leftJoinAndSelect('trip.primaryDestination', 'primaryDestination')
+      .leftJoinAndSelect('trip.images', 'images')
+      .leftJoinAndSelect('trip.itinerary', 'itinerary')
+      .leftJoinAndSelect('itinerary.activities', 'activities')
+      .where('trip.id = :id', { id })
+      .orderBy('itinerary.dayNumber', 'ASC')
+      .addOrderBy('activities.orderIndex', 'ASC')
+      .addOrderBy('activities.time', 'ASC')
+      .getOne();
+  }
+
   async createTrip(data: Partial<TripEntity>): Promise<TripEntity> {
     const entity = this.repo.create(data);
     return this.repo.save(entity);
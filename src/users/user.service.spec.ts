@@ -175,6 +175,39 @@ describe('UserService', () => {
     });
   });
 
+  describe('resetPassword', () => {
+    const withToken = {
+      ...mockUser,
+      passwordResetToken: 'reset-token',
+      passwordResetExpires: new Date(Date.now() + 60_000),
+    };
+
+    it('sets the password and clears the token in one conditional update', async () => {
+      mockUserRepository.findOne.mockResolvedValue(withToken);
+      mockUserRepository.update.mockResolvedValue({ affected: 1 });
+
+      const result = await service.resetPassword('reset-token', 'N3wPassw0rd!');
+
+      expect(result).toBe(withToken);
+      expect(mockUserRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: withToken.id,
+          passwordResetToken: 'reset-token',
+        }),
+        expect.objectContaining({ passwordHash: expect.any(String) }),
+      );
+    });
+
+    it('fails when another reset used the token first', async () => {
+      mockUserRepository.findOne.mockResolvedValue(withToken);
+      mockUserRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.resetPassword('reset-token', 'N3wPassw0rd!'),
+      ).resolves.toBeNull();
+    });
+  });
+
   describe('transformToProfileData', () => {
     it('should transform user entity to profile data', () => {
       const result = service.transformToProfileData(mockUser);
@@ -4,7 +4,7 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { MoreThan, Repository } from 'typeorm';
 import * as bcrypt from 'bcryptjs';
 import { UserEntity } from '../schemas/user.entity';
 import { UserPreferencesEntity } from '../schemas/user-preferences.entity';
@@ -257,9 +257,15 @@ export class UserService {
   }
 
   /**
-   * Reset password with token
+   * Reset password with token; returns the user on success so callers can
+   * end its sessions. The token is single-use: it is cleared by the same
+   * conditional update that sets the password, so only one of two racing
+   * resets succeeds.
    */
-  async resetPassword(token: string, newPassword: string): Promise<boolean> {
+  async resetPassword(
+    token: string,
+    newPassword: string,
+  ): Promise<UserEntity | null> {
     const user = await this.userRepository.findOne({
       where: {
         passwordResetToken: token,
@@ -271,18 +277,26 @@ export class UserService {
       !user.passwordResetExpires ||
       user.passwordResetExpires < new Date()
     ) {
-      return false;
+      return null;
     }
 
     const hashedPassword = await this.hashPassword(newPassword);
 
-    await this.userRepository.update(user.id, {
-      passwordHash: hashedPassword,
-      passwordResetToken: undefined,
-      passwordResetExpires: undefined,
-    });
+    const result = await this.userRepository.update(
+      {
+        id: user.id,
+        passwordResetToken: token,
+        passwordResetExpires: MoreThan(new Date()),
+      },
+      {
+        passwordHash: hashedPassword,
+        passwordResetToken: () => 'NULL',
+        passwordResetExpires: () => 'NULL',
+      },
+    );
+    if (!result.affected) return null;
 
-    return true;
+    return user;
   }
 
   /**